@@ -1,5 +1,6 @@
 import mongoose from 'mongoose';
 import User from './src/models/User.js';
+import { presetToAvailability } from './src/services/availability.js';
 import dotenv from 'dotenv';
 
 // Load environment variables
@@ -14,10 +15,8 @@ const users = [
     photo: 'https://picsum.photos/200/200?random=1',
     skillsOffered: ['JavaScript', 'React', 'Web Development', 'UI/UX Design'],
     skillsWanted: ['Python', 'Data Science', 'Machine Learning'],
-    availability: 'weekends',
-    isPublic: true,
-    rating: 4.8,
-    reviewCount: 12
+    availability: presetToAvailability('weekends', 'America/New_York'),
+    isPublic: true
   },
   {
     email: 'mike.chen@skillswap.com',
@@ -27,10 +26,8 @@ const users = [
     photo: 'https://picsum.photos/200/200?random=2',
     skillsOffered: ['Python', 'Data Science', 'Machine Learning', 'SQL'],
     skillsWanted: ['JavaScript', 'React', 'Mobile Development'],
-    availability: 'weekdays',
-    isPublic: true,
-    rating: 4.9,
-    reviewCount: 18
+    availability: presetToAvailability('weekdays', 'America/Los_Angeles'),
+    isPublic: true
   },
   {
     email: 'emma.rodriguez@skillswap.com',
@@ -40,10 +37,8 @@ const users = [
     photo: 'https://picsum.photos/200/200?random=3',
     skillsOffered: ['Graphic Design', 'Illustration', 'Branding', 'Adobe Creative Suite'],
     skillsWanted: ['Photography', 'Video Editing', 'Social Media Marketing'],
-    availability: 'flexible',
-    isPublic: true,
-    rating: 4.7,
-    reviewCount: 9
+    availability: presetToAvailability('flexible', 'America/Chicago'),
+    isPublic: true
   },
   {
     email: 'david.kim@skillswap.com',
@@ -53,10 +48,8 @@ const users = [
     photo: 'https://picsum.photos/200/200?random=4',
     skillsOffered: ['Mobile Development', 'iOS', 'Android', 'Swift', 'Kotlin'],
     skillsWanted: ['Web Development', 'JavaScript', 'React Native'],
-    availability: 'evenings',
-    isPublic: true,
-    rating: 4.6,
-    reviewCount: 15
+    availability: presetToAvailability('evenings', 'America/Los_Angeles'),
+    isPublic: true
   },
   {
     email: 'lisa.thompson@skillswap.com',
@@ -66,10 +59,8 @@ const users = [
     photo: 'https://picsum.photos/200/200?random=5',
     skillsOffered: ['Photography', 'Video Editing', 'Content Creation', 'Social Media Marketing'],
     skillsWanted: ['Graphic Design', 'Illustration', 'Digital Marketing'],
-    availability: 'weekends',
-    isPublic: true,
-    rating: 4.5,
-    reviewCount: 11
+    availability: presetToAvailability('weekends', 'America/Chicago'),
+    isPublic: true
   }
 ];
 
@@ -92,7 +83,7 @@ async function createUsers() {
           continue;
         }
 
-        const user = new User(userData);
+        const user = new User({ ...userData, emailVerified: true });
         await user.save();
         console.log(`✅ Created user: ${userData.name} (${userData.email})`);
       } catch (error) {
@@ -103,14 +94,14 @@ async function createUsers() {
     console.log('\n🎉 User creation completed!');
     
     // Display all users
-    const allUsers = await User.find({}).select('name email location skillsOffered skillsWanted rating reviewCount');
+    const allUsers = await User.find({}).select('name email location skillsOffered skillsWanted averageRating reviewCount');
     console.log('\n📋 All users in database:');
     allUsers.forEach((user, index) => {
       console.log(`${index + 1}. ${user.name} (${user.email})`);
       console.log(`   Location: ${user.location || 'Not specified'}`);
       console.log(`   Skills Offered: ${user.skillsOffered.join(', ') || 'None'}`);
       console.log(`   Skills Wanted: ${user.skillsWanted.join(', ') || 'None'}`);
-      console.log(`   Rating: ${user.rating}/5 (${user.reviewCount} reviews)`);
+      console.log(`   Rating: ${user.averageRating}/5 (${user.reviewCount} reviews)`);
       console.log('');
     });
 
@@ -0,0 +1,29 @@
+// Starter taxonomy, loaded into an empty skills collection on server start.
+// Children list their parent by canonical name.
+const defaultSkills = [
+  { name: 'Programming', category: 'Technology', aliases: ['Coding', 'Software Development'] },
+  { name: 'JavaScript', category: 'Technology', parent: 'Programming', aliases: ['JS', 'ECMAScript'] },
+  { name: 'TypeScript', category: 'Technology', parent: 'Programming', aliases: ['TS'] },
+  { name: 'Python', category: 'Technology', parent: 'Programming', aliases: ['Py'] },
+  { name: 'React', category: 'Technology', parent: 'JavaScript', aliases: ['ReactJS', 'React.js'] },
+  { name: 'Node.js', category: 'Technology', parent: 'JavaScript', aliases: ['Node', 'NodeJS'] },
+  { name: 'SQL', category: 'Technology', parent: 'Programming', aliases: ['Databases'] },
+  { name: 'Design', category: 'Design', aliases: [] },
+  { name: 'Graphic Design', category: 'Design', parent: 'Design', aliases: [] },
+  { name: 'Photoshop', category: 'Design', parent: 'Graphic Design', aliases: ['Adobe Photoshop', 'PS'] },
+  { name: 'UI/UX Design', category: 'Design', parent: 'Design', aliases: ['UX', 'UI Design', 'UX Design'] },
+  { name: 'Photography', category: 'Arts', aliases: [] },
+  { name: 'Marketing', category: 'Business', aliases: [] },
+  { name: 'Digital Marketing', category: 'Business', parent: 'Marketing', aliases: ['Online Marketing'] },
+  { name: 'SEO', category: 'Business', parent: 'Digital Marketing', aliases: ['Search Engine Optimization'] },
+  { name: 'Project Management', category: 'Business', aliases: ['PM'] },
+  { name: 'Leadership', category: 'Business', aliases: [] },
+  { name: 'Spanish', category: 'Languages', aliases: ['Español'] },
+  { name: 'French', category: 'Languages', aliases: ['Français'] },
+  { name: 'Guitar', category: 'Music', aliases: [] },
+  { name: 'Piano', category: 'Music', aliases: [] },
+  { name: 'Cooking', category: 'Lifestyle', aliases: [] },
+  { name: 'Yoga', category: 'Lifestyle', aliases: [] }
+];
+
+export default defaultSkills;
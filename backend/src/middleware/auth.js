@@ -1,55 +1,72 @@
 import jwt from 'jsonwebtoken';
 import User from '../models/User.js';
+import AuthSession from '../models/AuthSession.js';
 
-export const protect = async (req, res, next) => {
+// Access tokens name the session they were issued for; tokens without one
+// (issued before sessions existed) or from a revoked session are rejected
+const isSessionActive = async (decoded) => {
+  if (!decoded.sid) return false;
+  const session = await AuthSession.findActive(decoded.sid);
+  return Boolean(session) && session.userId.equals(decoded.id);
+};
+
+const authError = (statusCode, message) => {
+  const error = new Error(message);
+  error.statusCode = statusCode;
+  return error;
+};
+
+// Resolve the user behind an access token, with the same checks for HTTP
+// requests and socket connections. Rejects with an error carrying the
+// statusCode to answer with.
+export const authenticateToken = async (token) => {
+  if (!token) {
+    throw authError(401, 'Not authorized to access this route');
+  }
+
+  let decoded;
   try {
-    let token;
+    decoded = jwt.verify(token, process.env.JWT_SECRET);
+  } catch (error) {
+    throw authError(401, 'Not authorized to access this route');
+  }
 
-    // Check for token in headers
-    if (req.headers.authorization && req.headers.authorization.startsWith('Bearer')) {
-      token = req.headers.authorization.split(' ')[1];
-    }
+  if (!(await isSessionActive(decoded))) {
+    throw authError(401, 'Your session has ended, please log in again');
+  }
 
-    if (!token) {
-      return res.status(401).json({
-        success: false,
-        message: 'Not authorized to access this route'
-      });
-    }
+  const user = await User.findById(decoded.id).select('-password');
+  if (!user) {
+    throw authError(401, 'User not found');
+  }
 
-    try {
-      // Verify token
-      const decoded = jwt.verify(token, process.env.JWT_SECRET);
-      
-      // Get user from token
-      const user = await User.findById(decoded.id).select('-password');
-      
-      if (!user) {
-        return res.status(401).json({
-          success: false,
-          message: 'User not found'
-        });
-      }
+  if (user.isBanned) {
+    throw authError(403, 'Your account has been banned');
+  }
 
-      if (user.isBanned) {
-        return res.status(403).json({
-          success: false,
-          message: 'Your account has been banned'
-        });
-      }
+  return { user, sessionId: decoded.sid };
+};
 
-      req.user = user;
-      next();
-    } catch (error) {
-      return res.status(401).json({
-        success: false,
-        message: 'Not authorized to access this route'
-      });
-    }
+export const protect = async (req, res, next) => {
+  let token;
+
+  // Check for token in headers
+  if (req.headers.authorization && req.headers.authorization.startsWith('Bearer')) {
+    token = req.headers.authorization.split(' ')[1];
+  }
+
+  try {
+    const { user, sessionId } = await authenticateToken(token);
+    req.user = user;
+    req.sessionId = sessionId;
+    next();
   } catch (error) {
-    return res.status(500).json({
+    if (!error.statusCode) {
+      console.error('Auth error:', error);
+    }
+    return res.status(error.statusCode || 500).json({
       success: false,
-      message: 'Server error'
+      message: error.statusCode ? error.message : 'Server error'
     });
   }
 };
@@ -65,6 +82,19 @@ export const admin = (req, res, next) => {
   }
 };
 
+// Restrict a route to users who have verified their email address
+export const verifiedEmail = (req, res, next) => {
+  if (req.user && req.user.emailVerified) {
+    next();
+  } else {
+    return res.status(403).json({
+      success: false,
+      code: 'EMAIL_NOT_VERIFIED',
+      message: 'Please verify your email address first'
+    });
+  }
+};
+
 export const optionalAuth = async (req, res, next) => {
   try {
     let token;
@@ -75,12 +105,9 @@ export const optionalAuth = async (req, res, next) => {
 
     if (token) {
       try {
-        const decoded = jwt.verify(token, process.env.JWT_SECRET);
-        const user = await User.findById(decoded.id).select('-password');
-        
-        if (user && !user.isBanned) {
-          req.user = user;
-        }
+        const { user, sessionId } = await authenticateToken(token);
+        req.user = user;
+        req.sessionId = sessionId;
       } catch (error) {
         // Token is invalid, but we don't want to block the request
         console.log('Invalid token in optional auth:', error.message);
@@ -155,10 +155,10 @@ adminMessageSchema.statics.getStats = function() {
 };
 
 // Static method to cleanup expired messages
-adminMessageSchema.statics.cleanupExpired = function() {
+adminMessageSchema.statics.cleanupExpired = function(now = new Date()) {
   return this.updateMany(
     {
-      expiresAt: { $lt: new Date() },
+      expiresAt: { $lt: now },
       isActive: true
     },
     {
@@ -0,0 +1,166 @@
+import mongoose from 'mongoose';
+import crypto from 'crypto';
+
+// A logged-in device. The refresh token in the browser's httpOnly cookie is
+// rotated on every use and only its SHA-256 hash is stored; access tokens
+// carry the session id so revoking the session also ends them.
+const MAX_USER_AGENT_LENGTH = 300;
+
+// A refresh token that was just rotated is still accepted for a moment, so
+// two tabs refreshing at the same time don't look like a stolen token
+const ROTATION_GRACE_MS = 30 * 1000;
+
+const authSessionSchema = new mongoose.Schema({
+  userId: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User',
+    required: true
+  },
+  tokenHash: {
+    type: String,
+    required: true,
+    unique: true
+  },
+  previousTokenHash: {
+    type: String,
+    default: null
+  },
+  rotatedAt: {
+    type: Date,
+    default: null
+  },
+  userAgent: {
+    type: String,
+    default: ''
+  },
+  ip: {
+    type: String,
+    default: ''
+  },
+  lastUsedAt: {
+    type: Date,
+    default: Date.now
+  },
+  expiresAt: {
+    type: Date,
+    required: true
+  },
+  revokedAt: {
+    type: Date,
+    default: null
+  }
+}, {
+  timestamps: true
+});
+
+authSessionSchema.index({ userId: 1, revokedAt: 1 });
+authSessionSchema.index({ previousTokenHash: 1 });
+authSessionSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+
+const hashToken = (token) => crypto.createHash('sha256').update(token).digest('hex');
+const createToken = () => crypto.randomBytes(32).toString('hex');
+
+const describeClient = ({ userAgent, ip } = {}) => ({
+  userAgent: (userAgent || '').slice(0, MAX_USER_AGENT_LENGTH),
+  ip: ip || ''
+});
+
+const activeFilter = (now = new Date()) => ({
+  revokedAt: null,
+  expiresAt: { $gt: now }
+});
+
+// Static method to start a session for a user who just logged in.
+// Returns the session and the raw refresh token for the cookie.
+authSessionSchema.statics.start = async function(userId, client, ttlMs) {
+  const refreshToken = createToken();
+  const session = await this.create({
+    userId,
+    tokenHash: hashToken(refreshToken),
+    ...describeClient(client),
+    expiresAt: new Date(Date.now() + ttlMs)
+  });
+  return { session, refreshToken };
+};
+
+// Static method to exchange a refresh token for a new one. Resolves to
+// { session, refreshToken }, or null if the token is unknown, expired or
+// revoked. A token rotated within the grace period (e.g. by a concurrent
+// refresh from another tab) resolves to the session with no new refresh
+// token, leaving the one just issued valid. Presenting an already rotated
+// token outside the grace period means it was copied, so the whole session
+// is revoked.
+authSessionSchema.statics.rotate = async function(refreshToken, client, ttlMs) {
+  const now = new Date();
+  const tokenHash = hashToken(refreshToken);
+  const nextToken = createToken();
+  const update = {
+    $set: {
+      tokenHash: hashToken(nextToken),
+      previousTokenHash: tokenHash,
+      rotatedAt: now,
+      lastUsedAt: now,
+      expiresAt: new Date(now.getTime() + ttlMs),
+      ...describeClient(client)
+    }
+  };
+
+  const session = await this.findOneAndUpdate(
+    { tokenHash, ...activeFilter(now) },
+    update,
+    { new: true }
+  );
+  if (session) {
+    return { session, refreshToken: nextToken };
+  }
+
+  const rotated = await this.findOne({ previousTokenHash: tokenHash, ...activeFilter(now) });
+  if (!rotated) {
+    return null;
+  }
+
+  if (now - rotated.rotatedAt <= ROTATION_GRACE_MS) {
+    return { session: rotated, refreshToken: null };
+  }
+
+  await rotated.revoke();
+  return null;
+};
+
+// Static method to find a session that can still be used
+authSessionSchema.statics.findActive = function(sessionId) {
+  return this.findOne({ _id: sessionId, ...activeFilter() });
+};
+
+// Static method to list a user's active sessions, most recently used first
+authSessionSchema.statics.findActiveForUser = function(userId) {
+  return this.find({ userId, ...activeFilter() }).sort({ lastUsedAt: -1 });
+};
+
+// Static method to end the session a refresh token belongs to
+authSessionSchema.statics.revokeByToken = function(refreshToken) {
+  return this.updateOne(
+    { tokenHash: hashToken(refreshToken), revokedAt: null },
+    { $set: { revokedAt: new Date() } }
+  );
+};
+
+// Static method to end every session of a user, except `exceptSessionId`
+// when given (e.g. the one that just changed the password)
+authSessionSchema.statics.revokeAllForUser = function(userId, exceptSessionId = null) {
+  const filter = { userId, revokedAt: null };
+  if (exceptSessionId) {
+    filter._id = { $ne: exceptSessionId };
+  }
+  return this.updateMany(filter, { $set: { revokedAt: new Date() } });
+};
+
+// Method to end this session
+authSessionSchema.methods.revoke = function() {
+  this.revokedAt = new Date();
+  return this.save();
+};
+
+const AuthSession = mongoose.model('AuthSession', authSessionSchema);
+
+export default AuthSession;
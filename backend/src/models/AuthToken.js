@@ -0,0 +1,75 @@
+import mongoose from 'mongoose';
+import crypto from 'crypto';
+
+// Single-use tokens emailed to users to verify their address or reset their
+// password. Only a SHA-256 hash is stored, so a leaked database can't be used
+// to take over accounts; expired tokens are removed by a TTL index.
+export const AUTH_TOKEN_PURPOSES = ['email_verification', 'password_reset'];
+
+const authTokenSchema = new mongoose.Schema({
+  userId: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User',
+    required: true
+  },
+  purpose: {
+    type: String,
+    enum: AUTH_TOKEN_PURPOSES,
+    required: true
+  },
+  tokenHash: {
+    type: String,
+    required: true,
+    unique: true
+  },
+  expiresAt: {
+    type: Date,
+    required: true
+  },
+  usedAt: {
+    type: Date,
+    default: null
+  }
+}, {
+  timestamps: true
+});
+
+authTokenSchema.index({ userId: 1, purpose: 1 });
+authTokenSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+
+const hashToken = (token) => crypto.createHash('sha256').update(token).digest('hex');
+
+// Static method to issue a new token, replacing any unused one for the same
+// purpose. Returns the raw token, which is only ever sent to the user.
+authTokenSchema.statics.issue = async function(userId, purpose, ttlMs) {
+  await this.deleteMany({ userId, purpose, usedAt: null });
+
+  const token = crypto.randomBytes(32).toString('hex');
+  await this.create({
+    userId,
+    purpose,
+    tokenHash: hashToken(token),
+    expiresAt: new Date(Date.now() + ttlMs)
+  });
+  return token;
+};
+
+// Static method to use up a token; resolves to the token document, or null if
+// it is unknown, expired, already used or for another purpose
+authTokenSchema.statics.consume = function(token, purpose) {
+  const now = new Date();
+  return this.findOneAndUpdate(
+    { tokenHash: hashToken(token), purpose, usedAt: null, expiresAt: { $gt: now } },
+    { $set: { usedAt: now } },
+    { new: true }
+  );
+};
+
+// Static method to invalidate every unused token of a user for `purpose`
+authTokenSchema.statics.revokeAll = function(userId, purpose) {
+  return this.deleteMany({ userId, purpose, usedAt: null });
+};
+
+const AuthToken = mongoose.model('AuthToken', authTokenSchema);
+
+export default AuthToken;
@@ -0,0 +1,158 @@
+import mongoose from 'mongoose';
+import { SKILL_LEVELS } from '../services/skillLevels.js';
+
+// Statuses in which a ring still occupies its participants
+const OPEN_STATUSES = ['proposed', 'active'];
+
+// One member of the ring. Each participant teaches the next one in the
+// array; the last participant teaches the first.
+const participantSchema = new mongoose.Schema({
+  userId: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User',
+    required: true
+  },
+  skillTaught: {
+    type: String,
+    required: [true, 'Skill taught is required'],
+    trim: true,
+    maxlength: [50, 'Skill name cannot exceed 50 characters']
+  },
+  skillId: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'Skill',
+    default: null
+  },
+  skillLevel: {
+    type: String,
+    enum: [...SKILL_LEVELS, null],
+    default: null
+  },
+  response: {
+    type: String,
+    enum: ['pending', 'accepted', 'declined'],
+    default: 'pending'
+  },
+  respondedAt: {
+    type: Date,
+    default: null
+  }
+}, { _id: false });
+
+const groupSwapSchema = new mongoose.Schema({
+  participants: {
+    type: [participantSchema],
+    validate: [
+      participants => participants.length >= 3 && participants.length <= 4,
+      'A group swap needs 3 or 4 participants'
+    ]
+  },
+  proposedBy: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User',
+    required: [true, 'Proposer is required']
+  },
+  status: {
+    type: String,
+    enum: ['proposed', 'active', 'declined', 'cancelled'],
+    default: 'proposed'
+  },
+  activatedAt: {
+    type: Date,
+    default: null
+  }
+}, {
+  timestamps: true,
+  toJSON: { virtuals: true },
+  toObject: { virtuals: true }
+});
+
+// Index for efficient queries
+groupSwapSchema.index({ 'participants.userId': 1, status: 1 });
+
+// Virtual for the number of participants who still have to respond
+groupSwapSchema.virtual('pendingCount').get(function() {
+  return this.participants.filter(p => p.response === 'pending').length;
+});
+
+const refId = (ref) => (ref && ref._id ? ref._id : ref).toString();
+
+// Method to find a user's participant entry
+groupSwapSchema.methods.getParticipant = function(userId) {
+  return this.participants.find(p => refId(p.userId) === userId.toString());
+};
+
+// Method to check if a user is part of the ring
+groupSwapSchema.methods.isParticipant = function(userId) {
+  return Boolean(this.getParticipant(userId));
+};
+
+// Method to get the IDs of every participant except the given user
+groupSwapSchema.methods.getOtherUserIds = function(userId) {
+  return this.participants
+    .map(p => refId(p.userId))
+    .filter(id => id !== userId.toString());
+};
+
+// Static method to record a participant's answer. The ring becomes active
+// once everyone has accepted and is declined as soon as anyone declines.
+// Both steps are atomic updates, so simultaneous answers can't overwrite
+// each other: whichever acceptance lands last activates the ring. Returns
+// null if the ring is no longer waiting for this user's answer.
+groupSwapSchema.statics.respond = async function(id, userId, accept) {
+  const groupSwap = await this.findOneAndUpdate(
+    { _id: id, status: 'proposed', participants: { $elemMatch: { userId, response: 'pending' } } },
+    {
+      $set: {
+        'participants.$.response': accept ? 'accepted' : 'declined',
+        'participants.$.respondedAt': new Date(),
+        ...(accept ? {} : { status: 'declined' })
+      }
+    },
+    { new: true }
+  );
+  if (!groupSwap || !accept) return groupSwap;
+
+  const activated = await this.findOneAndUpdate(
+    { _id: id, status: 'proposed', participants: { $not: { $elemMatch: { response: { $ne: 'accepted' } } } } },
+    { $set: { status: 'active', activatedAt: new Date() } },
+    { new: true }
+  );
+  return activated || groupSwap;
+};
+
+// Static method to cancel a ring that is still proposed. Atomic like
+// respond(), so it can't undo a ring that was just activated. Returns null if
+// the ring is no longer proposed.
+groupSwapSchema.statics.cancelProposed = function(id) {
+  return this.findOneAndUpdate(
+    { _id: id, status: 'proposed' },
+    { $set: { status: 'cancelled' } },
+    { new: true }
+  );
+};
+
+// Static method to find an open ring with exactly these members
+groupSwapSchema.statics.findOpenWithMembers = function(userIds) {
+  return this.findOne({
+    status: { $in: OPEN_STATUSES },
+    participants: { $size: userIds.length },
+    'participants.userId': { $all: userIds }
+  });
+};
+
+// Static method to find group swaps for a user
+groupSwapSchema.statics.findForUser = function(userId, status = null) {
+  const query = { 'participants.userId': userId };
+  if (status) {
+    query.status = status;
+  }
+
+  return this.find(query)
+    .sort({ createdAt: -1 })
+    .populate('participants.userId', 'name photo rating');
+};
+
+const GroupSwap = mongoose.model('GroupSwap', groupSwapSchema);
+
+export default GroupSwap;
@@ -0,0 +1,121 @@
+import mongoose from 'mongoose';
+
+// ByteBucks balances, one document per account. Keys are `user:<userId>`,
+// `escrow:swap:<swapRequestId>` for credits held for an accepted swap, and
+// `system:issuance` for credits earned by teaching. Balances only change
+// through LedgerTransaction.post, which records every movement.
+const ledgerAccountSchema = new mongoose.Schema({
+  key: {
+    type: String,
+    required: [true, 'Account key is required'],
+    unique: true
+  },
+  kind: {
+    type: String,
+    enum: ['user', 'escrow', 'system'],
+    required: true
+  },
+  userId: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User',
+    default: null
+  },
+  balance: {
+    type: Number,
+    default: 0
+  },
+  // Transactions whose posting to this account is applied but not yet marked
+  // posted, so an interrupted transaction can be resumed without applying twice
+  pendingTransactions: [{
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'LedgerTransaction'
+  }]
+}, {
+  timestamps: true
+});
+
+ledgerAccountSchema.index({ userId: 1 });
+
+export const ISSUANCE_ACCOUNT = 'system:issuance';
+
+export const userAccountKey = (userId) => `user:${userId}`;
+
+export const escrowAccountKey = (swapRequestId) => `escrow:swap:${swapRequestId}`;
+
+// Only system accounts may go below zero
+const allowsNegative = (key) => key.startsWith('system:');
+
+const describeKey = (key) => {
+  const [kind, ...rest] = key.split(':');
+  return {
+    kind,
+    userId: kind === 'user' ? rest[0] : null
+  };
+};
+
+// Static method to get a user's balance; users without an account have 0
+ledgerAccountSchema.statics.getBalance = async function(userId) {
+  const account = await this.findOne({ key: userAccountKey(userId) });
+  return account ? account.balance : 0;
+};
+
+// Static method to atomically add `amount` (negative to withdraw) to an account
+// for `transactionId`, once: a posting already applied for that transaction is
+// left alone. Withdrawals that would take a user or escrow account below zero
+// fail with an INSUFFICIENT_CREDITS error.
+ledgerAccountSchema.statics.applyPosting = async function(key, amount, transactionId) {
+  const filter = { key, pendingTransactions: { $ne: transactionId } };
+  if (amount < 0 && !allowsNegative(key)) {
+    filter.balance = { $gte: -amount };
+  }
+
+  let account = null;
+  try {
+    account = await this.findOneAndUpdate(
+      filter,
+      {
+        $inc: { balance: amount },
+        $push: { pendingTransactions: transactionId },
+        $setOnInsert: describeKey(key)
+      },
+      { new: true, upsert: amount >= 0 || allowsNegative(key) }
+    );
+  } catch (error) {
+    // The upsert ran into an account the filter skipped, or one created meanwhile
+    if (error.code !== 11000) throw error;
+    account = await this.findOne({ key, pendingTransactions: transactionId });
+    return account || this.applyPosting(key, amount, transactionId);
+  }
+
+  if (!account) {
+    account = await this.findOne({ key, pendingTransactions: transactionId });
+  }
+  if (!account) {
+    const error = new Error('Not enough ByteBucks');
+    error.code = 'INSUFFICIENT_CREDITS';
+    throw error;
+  }
+
+  return account;
+};
+
+// Static method to undo the posting of `amount` for `transactionId`, if it was applied
+ledgerAccountSchema.statics.revertPosting = function(key, amount, transactionId) {
+  return this.findOneAndUpdate(
+    { key, pendingTransactions: transactionId },
+    { $inc: { balance: -amount }, $pull: { pendingTransactions: transactionId } },
+    { new: true }
+  );
+};
+
+// Static method to forget the postings of a transaction once it's posted
+ledgerAccountSchema.statics.releaseTransaction = function(keys, transactionId) {
+  return this.updateMany(
+    { key: { $in: keys } },
+    { $pull: { pendingTransactions: transactionId } }
+  );
+};
+
+const LedgerAccount = mongoose.model('LedgerAccount', ledgerAccountSchema);
+
+export default LedgerAccount;
@@ -0,0 +1,167 @@
+import mongoose from 'mongoose';
+import LedgerAccount from './LedgerAccount.js';
+
+// Double-entry record of a ByteBucks movement. The postings of a transaction
+// always sum to zero, so credits are never created or lost silently.
+const postingSchema = new mongoose.Schema({
+  account: {
+    type: String,
+    required: true
+  },
+  amount: {
+    type: Number,
+    required: true
+  }
+}, { _id: false });
+
+const ledgerTransactionSchema = new mongoose.Schema({
+  type: {
+    type: String,
+    enum: ['swap_earning', 'swap_hold', 'swap_payout', 'swap_refund'],
+    required: [true, 'Transaction type is required']
+  },
+  postings: {
+    type: [postingSchema],
+    required: true
+  },
+  accounts: [{
+    type: String
+  }],
+  swapRequestId: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'SwapRequest',
+    default: null
+  },
+  memo: {
+    type: String,
+    maxlength: [200, 'Memo cannot exceed 200 characters'],
+    default: null
+  },
+  // The same key always describes the same movement, so retries can't post twice
+  idempotencyKey: {
+    type: String,
+    required: [true, 'Idempotency key is required'],
+    unique: true
+  },
+  status: {
+    type: String,
+    enum: ['pending', 'posted'],
+    default: 'pending'
+  },
+  postedAt: {
+    type: Date,
+    default: null
+  },
+  // While pending, when whoever is posting the transaction is presumed to
+  // have stopped and a retry may take it over
+  leaseExpiresAt: {
+    type: Date,
+    default: null
+  }
+}, {
+  timestamps: true
+});
+
+ledgerTransactionSchema.index({ accounts: 1, createdAt: -1 });
+ledgerTransactionSchema.index({ swapRequestId: 1 });
+
+// Amounts are tracked to the cent to avoid floating point drift
+const roundAmount = (amount) => Math.round(amount * 100) / 100;
+
+// Pre-save middleware to check the postings balance
+ledgerTransactionSchema.pre('save', function(next) {
+  if (this.postings.length < 2) {
+    return next(new Error('A transaction needs at least two postings'));
+  }
+  if (roundAmount(this.postings.reduce((total, posting) => total + posting.amount, 0)) !== 0) {
+    return next(new Error('Transaction postings must sum to zero'));
+  }
+  this.accounts = [...new Set(this.postings.map(posting => posting.account))];
+  if (this.accounts.length !== this.postings.length) {
+    return next(new Error('A transaction can only post to each account once'));
+  }
+  next();
+});
+
+// Method to get the total a transaction moved in or out of an account
+ledgerTransactionSchema.methods.getAmountFor = function(account) {
+  return roundAmount(this.postings
+    .filter(posting => posting.account === account)
+    .reduce((total, posting) => total + posting.amount, 0));
+};
+
+// How long a transaction being posted is left alone before a retry may resume it
+const LEASE_MS = 60 * 1000;
+
+const leaseExpiry = () => new Date(Date.now() + LEASE_MS);
+
+// Static method to post a transaction exactly once. Withdrawals are applied
+// first so a failed guard leaves no credits behind; if one fails the applied
+// postings are reversed and the transaction is dropped so it can be retried.
+// A transaction interrupted part-way stays pending, and once its lease has run
+// out the next post with the same key picks it up where it stopped.
+ledgerTransactionSchema.statics.post = async function({ type, postings, swapRequestId = null, memo = null, idempotencyKey }) {
+  let transaction = await this.findOne({ idempotencyKey });
+  if (transaction && transaction.status === 'posted') return transaction;
+
+  if (transaction) {
+    transaction = await this.findOneAndUpdate(
+      {
+        _id: transaction._id,
+        status: 'pending',
+        $or: [{ leaseExpiresAt: null }, { leaseExpiresAt: { $lte: new Date() } }]
+      },
+      { leaseExpiresAt: leaseExpiry() },
+      { new: true }
+    );
+    if (!transaction) {
+      const error = new Error('This transaction is already being processed');
+      error.code = 'TRANSACTION_IN_PROGRESS';
+      throw error;
+    }
+  } else {
+    try {
+      transaction = await this.create({ type, postings, swapRequestId, memo, idempotencyKey, leaseExpiresAt: leaseExpiry() });
+    } catch (error) {
+      if (error.code === 11000) {
+        return this.post({ type, postings, swapRequestId, memo, idempotencyKey });
+      }
+      throw error;
+    }
+  }
+
+  const ordered = [...transaction.postings].sort((a, b) => a.amount - b.amount);
+  try {
+    for (const posting of ordered) {
+      await LedgerAccount.applyPosting(posting.account, posting.amount, transaction._id);
+    }
+  } catch (error) {
+    if (error.code === 'INSUFFICIENT_CREDITS') {
+      for (const posting of ordered) {
+        await LedgerAccount.revertPosting(posting.account, posting.amount, transaction._id);
+      }
+      await this.deleteOne({ _id: transaction._id });
+    }
+    throw error;
+  }
+
+  transaction.status = 'posted';
+  transaction.postedAt = new Date();
+  transaction.leaseExpiresAt = null;
+  await transaction.save();
+  await LedgerAccount.releaseTransaction(transaction.accounts, transaction._id);
+  return transaction;
+};
+
+// Static method to find the posted transactions touching an account
+ledgerTransactionSchema.statics.findForAccount = function(account, { skip = 0, limit = 20 } = {}) {
+  return this.find({ accounts: account, status: 'posted' })
+    .populate('swapRequestId', 'skillOffered skillWanted paymentType hours')
+    .sort({ createdAt: -1 })
+    .skip(skip)
+    .limit(limit);
+};
+
+const LedgerTransaction = mongoose.model('LedgerTransaction', ledgerTransactionSchema);
+
+export default LedgerTransaction;
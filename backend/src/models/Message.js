@@ -0,0 +1,83 @@
+import mongoose from 'mongoose';
+
+const messageSchema = new mongoose.Schema({
+  swapRequestId: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'SwapRequest',
+    required: [true, 'Swap request is required']
+  },
+  senderId: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User',
+    required: [true, 'Sender is required']
+  },
+  recipientId: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User',
+    required: [true, 'Recipient is required']
+  },
+  body: {
+    type: String,
+    required: [true, 'Message body is required'],
+    trim: true,
+    maxlength: [1000, 'Message cannot exceed 1000 characters']
+  },
+  readAt: {
+    type: Date,
+    default: null
+  }
+}, {
+  timestamps: true,
+  toJSON: { virtuals: true },
+  toObject: { virtuals: true }
+});
+
+// Index for efficient queries
+messageSchema.index({ swapRequestId: 1, createdAt: -1, _id: -1 });
+messageSchema.index({ recipientId: 1, readAt: 1 });
+
+// Virtual for checking if message has been read
+messageSchema.virtual('isRead').get(function() {
+  return this.readAt !== null;
+});
+
+// Static method to get a page of messages for a swap, newest first.
+// Pass the createdAt and _id of the oldest message already loaded as
+// `before` and `beforeId` to page further back through the history; the _id
+// breaks ties so messages sharing a timestamp aren't skipped.
+messageSchema.statics.getForSwap = function(swapRequestId, { before = null, beforeId = null, limit = 30 } = {}) {
+  const query = { swapRequestId };
+  if (before && beforeId) {
+    query.$or = [
+      { createdAt: { $lt: before } },
+      { createdAt: before, _id: { $lt: beforeId } }
+    ];
+  } else if (before) {
+    query.createdAt = { $lt: before };
+  }
+
+  return this.find(query)
+    .sort({ createdAt: -1, _id: -1 })
+    .limit(limit)
+    .populate('senderId', 'name photo');
+};
+
+// Static method to mark all messages in a swap as read for the recipient
+messageSchema.statics.markSwapAsRead = function(swapRequestId, userId) {
+  return this.updateMany(
+    { swapRequestId, recipientId: userId, readAt: null },
+    { readAt: new Date() }
+  );
+};
+
+// Static method to get unread message counts per swap for a user
+messageSchema.statics.getUnreadCountsForUser = function(userId) {
+  return this.aggregate([
+    { $match: { recipientId: new mongoose.Types.ObjectId(userId), readAt: null } },
+    { $group: { _id: '$swapRequestId', count: { $sum: 1 } } }
+  ]);
+};
+
+const Message = mongoose.model('Message', messageSchema);
+
+export default Message;
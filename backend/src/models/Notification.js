@@ -1,5 +1,13 @@
 import mongoose from 'mongoose';
 
+export const NOTIFICATION_TYPES = [
+  'swap_request', 'swap_accepted', 'swap_rejected', 'swap_countered', 'swap_completed', 'admin_message', 'feedback_received',
+  'swap_completion_requested', 'swap_disputed', 'swap_dispute_resolved',
+  'swap_expiring', 'swap_expired', 'swap_idle',
+  'session_proposed', 'session_confirmed', 'session_declined', 'session_cancelled',
+  'group_swap_proposed', 'group_swap_active', 'group_swap_declined', 'group_swap_cancelled'
+];
+
 const notificationSchema = new mongoose.Schema({
   userId: {
     type: mongoose.Schema.Types.ObjectId,
@@ -8,7 +16,7 @@ const notificationSchema = new mongoose.Schema({
   },
   type: {
     type: String,
-    enum: ['swap_request', 'swap_accepted', 'swap_rejected', 'swap_completed', 'admin_message', 'feedback_received'],
+    enum: NOTIFICATION_TYPES,
     required: [true, 'Notification type is required']
   },
   title: {
@@ -34,12 +42,25 @@ const notificationSchema = new mongoose.Schema({
   },
   relatedModel: {
     type: String,
-    enum: ['SwapRequest', 'User', 'AdminMessage'],
+    enum: ['SwapRequest', 'User', 'AdminMessage', 'Session', 'GroupSwap'],
     default: null
   },
   metadata: {
     type: mongoose.Schema.Types.Mixed,
     default: {}
+  },
+  // Email delivery: 'queued' waits for the user's daily digest, 'skipped'
+  // means they opted out of emails of this type
+  email: {
+    status: {
+      type: String,
+      enum: ['queued', 'sent', 'skipped', 'failed', null],
+      default: null
+    },
+    sentAt: {
+      type: Date,
+      default: null
+    }
   }
 }, {
   timestamps: true,
@@ -51,6 +72,7 @@ const notificationSchema = new mongoose.Schema({
 notificationSchema.index({ userId: 1, isRead: 1 });
 notificationSchema.index({ userId: 1, createdAt: -1 });
 notificationSchema.index({ type: 1, createdAt: -1 });
+notificationSchema.index({ 'email.status': 1, userId: 1 });
 
 // Virtual for notification age
 notificationSchema.virtual('age').get(function() {
@@ -115,6 +137,19 @@ notificationSchema.statics.createSwapRejectedNotification = function(userId, swa
   });
 };
 
+// Static method to create swap counter-offer notification
+notificationSchema.statics.createSwapCounteredNotification = function(userId, swapRequestId, version) {
+  return this.create({
+    userId,
+    type: 'swap_countered',
+    title: 'Counter-Offer Received',
+    message: 'Your swap partner proposed new terms for your swap request',
+    relatedId: swapRequestId,
+    relatedModel: 'SwapRequest',
+    metadata: { version }
+  });
+};
+
 // Static method to create swap completed notification
 notificationSchema.statics.createSwapCompletedNotification = function(userId, swapRequestId) {
   return this.create({
@@ -127,6 +162,42 @@ notificationSchema.statics.createSwapCompletedNotification = function(userId, sw
   });
 };
 
+// Static method to create completion confirmation notifications (requested, disputed, dispute resolved)
+const completionNotificationContent = {
+  swap_completion_requested: { title: 'Confirm Swap Completion', message: 'Your swap partner marked your swap as completed. Please confirm or dispute it' },
+  swap_disputed: { title: 'Completion Disputed', message: 'Your swap partner disputed the completion of your swap. An admin will review it' },
+  swap_dispute_resolved: { title: 'Dispute Resolved', message: 'An admin has resolved the dispute on your swap' }
+};
+
+notificationSchema.statics.createSwapCompletionNotification = function(userId, type, swapRequestId, metadata = {}) {
+  return this.create({
+    userId,
+    type,
+    ...completionNotificationContent[type],
+    relatedId: swapRequestId,
+    relatedModel: 'SwapRequest',
+    metadata
+  });
+};
+
+// Static method to create reminders sent by the scheduled swap jobs
+const swapReminderNotificationContent = {
+  swap_expiring: { title: 'Swap Request Expiring', message: 'A swap request is waiting for your answer and will expire soon' },
+  swap_expired: { title: 'Swap Request Expired', message: 'A swap request expired without an answer' },
+  swap_idle: { title: 'How Is Your Swap Going?', message: 'Nothing has happened on one of your swaps for a while. Schedule a session or mark it as completed' }
+};
+
+notificationSchema.statics.createSwapReminderNotification = function(userId, type, swapRequestId, metadata = {}) {
+  return this.create({
+    userId,
+    type,
+    ...swapReminderNotificationContent[type],
+    relatedId: swapRequestId,
+    relatedModel: 'SwapRequest',
+    metadata
+  });
+};
+
 // Static method to create admin message notification
 notificationSchema.statics.createAdminMessageNotification = function(userId, messageId) {
   return this.create({
@@ -151,6 +222,44 @@ notificationSchema.statics.createFeedbackReceivedNotification = function(userId,
   });
 };
 
+// Static method to create session notifications (proposed, confirmed, declined, cancelled)
+const sessionNotificationContent = {
+  session_proposed: { title: 'Session Proposed', message: 'A new time has been proposed for one of your swap sessions' },
+  session_confirmed: { title: 'Session Confirmed', message: 'Your swap session has been confirmed' },
+  session_declined: { title: 'Session Declined', message: 'Your proposed swap session time was declined' },
+  session_cancelled: { title: 'Session Cancelled', message: 'A scheduled swap session has been cancelled' }
+};
+
+notificationSchema.statics.createSessionNotification = function(userId, type, sessionId, metadata = {}) {
+  return this.create({
+    userId,
+    type,
+    ...sessionNotificationContent[type],
+    relatedId: sessionId,
+    relatedModel: 'Session',
+    metadata
+  });
+};
+
+// Static method to create group swap notifications (proposed, active, declined, cancelled)
+const groupSwapNotificationContent = {
+  group_swap_proposed: { title: 'Group Swap Proposed', message: 'You have been invited to join a group skill swap' },
+  group_swap_active: { title: 'Group Swap Active', message: 'Everyone accepted. Your group swap is now active' },
+  group_swap_declined: { title: 'Group Swap Declined', message: 'A participant declined your group swap' },
+  group_swap_cancelled: { title: 'Group Swap Cancelled', message: 'A proposed group swap has been cancelled' }
+};
+
+notificationSchema.statics.createGroupSwapNotification = function(userId, type, groupSwapId, metadata = {}) {
+  return this.create({
+    userId,
+    type,
+    ...groupSwapNotificationContent[type],
+    relatedId: groupSwapId,
+    relatedModel: 'GroupSwap',
+    metadata
+  });
+};
+
 // Static method to get unread count for user
 notificationSchema.statics.getUnreadCount = function(userId) {
   return this.countDocuments({ userId, isRead: false });
@@ -165,9 +274,9 @@ notificationSchema.statics.markAllAsRead = function(userId) {
 };
 
 // Static method to get notifications for user with pagination
-notificationSchema.statics.getForUser = function(userId, page = 1, limit = 20) {
+notificationSchema.statics.getForUser = function(userId, page = 1, limit = 20, { unreadOnly = false } = {}) {
   const skip = (page - 1) * limit;
-  return this.find({ userId })
+  return this.find({ userId, ...(unreadOnly && { isRead: false }) })
     .sort({ createdAt: -1 })
     .skip(skip)
     .limit(limit)
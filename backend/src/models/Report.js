@@ -0,0 +1,217 @@
+import mongoose from 'mongoose';
+
+// What can be reported, and the model each target type refers to
+export const REPORT_TARGET_MODELS = {
+  user: 'User',
+  swap: 'SwapRequest',
+  review: 'Review',
+  message: 'Message'
+};
+export const REPORT_TARGET_TYPES = Object.keys(REPORT_TARGET_MODELS);
+
+export const REPORT_CATEGORIES = ['spam', 'harassment', 'inappropriate', 'scam', 'no_show', 'other'];
+
+// open -> in_review -> resolved or dismissed; closed reports can be reopened
+export const REPORT_STATUSES = ['open', 'in_review', 'resolved', 'dismissed'];
+export const OPEN_REPORT_STATUSES = ['open', 'in_review'];
+
+// Moderation actions an admin can take from a report
+export const REPORT_ACTIONS = ['ban_user', 'hide_review'];
+
+const actionSchema = new mongoose.Schema({
+  action: {
+    type: String,
+    enum: REPORT_ACTIONS,
+    required: true
+  },
+  takenBy: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User',
+    required: true
+  },
+  note: {
+    type: String,
+    trim: true,
+    maxlength: [500, 'Note cannot exceed 500 characters'],
+    default: null
+  },
+  takenAt: {
+    type: Date,
+    default: Date.now
+  }
+}, { _id: false });
+
+// A user's report of another user, a swap, a review or a chat message
+const reportSchema = new mongoose.Schema({
+  reporterId: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User',
+    required: [true, 'Reporter is required']
+  },
+  targetType: {
+    type: String,
+    enum: REPORT_TARGET_TYPES,
+    required: [true, 'Target type is required']
+  },
+  targetModel: {
+    type: String,
+    enum: Object.values(REPORT_TARGET_MODELS)
+  },
+  targetId: {
+    type: mongoose.Schema.Types.ObjectId,
+    refPath: 'targetModel',
+    required: [true, 'Target is required']
+  },
+  // The user the report is about: the user themselves, the other swap
+  // participant, or the author of the review or message
+  reportedUserId: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User',
+    required: [true, 'Reported user is required']
+  },
+  swapRequestId: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'SwapRequest',
+    default: null
+  },
+  category: {
+    type: String,
+    enum: REPORT_CATEGORIES,
+    required: [true, 'Category is required']
+  },
+  evidence: {
+    type: String,
+    trim: true,
+    required: [true, 'Evidence is required'],
+    maxlength: [2000, 'Evidence cannot exceed 2000 characters']
+  },
+  status: {
+    type: String,
+    enum: REPORT_STATUSES,
+    default: 'open'
+  },
+  assignedTo: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User',
+    default: null
+  },
+  resolutionNote: {
+    type: String,
+    trim: true,
+    maxlength: [1000, 'Resolution note cannot exceed 1000 characters'],
+    default: null
+  },
+  resolvedBy: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User',
+    default: null
+  },
+  resolvedAt: {
+    type: Date,
+    default: null
+  },
+  actions: [actionSchema]
+}, {
+  timestamps: true,
+  toJSON: { virtuals: true },
+  toObject: { virtuals: true }
+});
+
+// Index for efficient queries
+reportSchema.index({ status: 1, createdAt: 1 });
+reportSchema.index({ assignedTo: 1, status: 1 });
+reportSchema.index({ reporterId: 1, targetType: 1, targetId: 1 });
+reportSchema.index({ reportedUserId: 1 });
+
+// Keep the populate model in step with the target type
+reportSchema.pre('validate', function(next) {
+  this.targetModel = REPORT_TARGET_MODELS[this.targetType];
+  next();
+});
+
+// Method to move the report to a new status, recording who closed it
+reportSchema.methods.setStatus = function(status, adminId) {
+  const isClosed = !OPEN_REPORT_STATUSES.includes(status);
+  this.status = status;
+  this.resolvedBy = isClosed ? adminId : null;
+  this.resolvedAt = isClosed ? new Date() : null;
+};
+
+// Method to record a moderation action. An untouched report is picked up by
+// the admin taking it.
+reportSchema.methods.addAction = function(action, adminId, note = null) {
+  this.actions.push({ action, takenBy: adminId, note });
+  if (this.status === 'open') {
+    this.status = 'in_review';
+  }
+  if (!this.assignedTo) {
+    this.assignedTo = adminId;
+  }
+  return this.save();
+};
+
+// Static method to check whether the user already has an open report about the target
+reportSchema.statics.hasOpenReport = async function(reporterId, targetType, targetId) {
+  const report = await this.exists({
+    reporterId,
+    targetType,
+    targetId,
+    status: { $in: OPEN_REPORT_STATUSES }
+  });
+  return Boolean(report);
+};
+
+// Static method to move reports stored on reviews (`reports`, from before the
+// report queue existed) into the queue. Reports an admin had already handled
+// are closed: resolved if the review was hidden, dismissed otherwise. Works on
+// the raw collections.
+reportSchema.statics.migrateReviewReports = async function() {
+  const reviews = mongoose.model('Review').collection;
+  const legacy = await reviews
+    .find(
+      { $or: [{ reports: { $exists: true } }, { reportCount: { $exists: true } }] },
+      { projection: { reviewerId: 1, swapRequestId: 1, reports: 1, moderation: 1 } }
+    )
+    .toArray();
+
+  let moved = 0;
+  for (const review of legacy) {
+    const { isHidden = false, hiddenBy = null, hiddenAt = null, reviewedReportCount = 0 } = review.moderation || {};
+    const reports = (review.reports || []).map((report, index) => {
+      const isHandled = index < reviewedReportCount;
+      const createdAt = report.createdAt || new Date();
+      return {
+        reporterId: report.reporterId,
+        targetType: 'review',
+        targetModel: REPORT_TARGET_MODELS.review,
+        targetId: review._id,
+        reportedUserId: review.reviewerId,
+        swapRequestId: review.swapRequestId || null,
+        category: 'other',
+        evidence: report.reason,
+        status: isHandled ? (isHidden ? 'resolved' : 'dismissed') : 'open',
+        assignedTo: null,
+        resolutionNote: null,
+        resolvedBy: isHandled && isHidden ? hiddenBy : null,
+        resolvedAt: isHandled && isHidden ? hiddenAt : null,
+        actions: [],
+        createdAt,
+        updatedAt: createdAt
+      };
+    });
+
+    if (reports.length > 0) {
+      await this.collection.insertMany(reports);
+    }
+    await reviews.updateOne(
+      { _id: review._id },
+      { $unset: { reports: '', reportCount: '', 'moderation.reviewedReportCount': '' } }
+    );
+    moved += reports.length;
+  }
+  return moved;
+};
+
+const Report = mongoose.model('Report', reportSchema);
+
+export default Report;
@@ -0,0 +1,310 @@
+import mongoose from 'mongoose';
+
+// What each review scores, 1-5
+export const REVIEW_DIMENSIONS = ['knowledge', 'communication', 'punctuality'];
+
+// Ratings are smoothed as if every user also had RATING_PRIOR_WEIGHT reviews
+// scoring RATING_PRIOR_MEAN, so a single 5 doesn't outrank a long record of 4.8s
+export const RATING_PRIOR_MEAN = 3.5;
+export const RATING_PRIOR_WEIGHT = 3;
+
+const round = (value, decimals = 1) => Math.round(value * 10 ** decimals) / 10 ** decimals;
+
+// Bayesian average of `reviewCount` reviews averaging `averageRating`;
+// users without reviews stay unrated (0) rather than getting the prior
+export const smoothRating = (averageRating, reviewCount) => reviewCount > 0
+  ? round((RATING_PRIOR_MEAN * RATING_PRIOR_WEIGHT + averageRating * reviewCount) / (RATING_PRIOR_WEIGHT + reviewCount), 2)
+  : 0;
+
+// Reviews that count: published and not hidden by an admin
+const VISIBLE_REVIEWS = { 'moderation.isHidden': false, revealedAt: { $ne: null } };
+
+// The rating fields stored on a user with these visible review totals
+const getUserRatingFields = ({ averageRating, reviewCount }) => ({
+  rating: smoothRating(averageRating, reviewCount),
+  averageRating,
+  reviewCount
+});
+
+const scoreField = (label) => ({
+  type: Number,
+  required: [true, `${label} score is required`],
+  min: [1, `${label} score must be at least 1`],
+  max: [5, `${label} score cannot exceed 5`]
+});
+
+// One participant's review of the other after a completed swap
+const reviewSchema = new mongoose.Schema({
+  swapRequestId: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'SwapRequest',
+    required: [true, 'Swap request is required']
+  },
+  reviewerId: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User',
+    required: [true, 'Reviewer is required']
+  },
+  revieweeId: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User',
+    required: [true, 'Reviewee is required']
+  },
+  scores: {
+    knowledge: scoreField('Knowledge'),
+    communication: scoreField('Communication'),
+    punctuality: scoreField('Punctuality')
+  },
+  // Average of the scores, kept for sorting and rating totals
+  rating: {
+    type: Number,
+    min: 1,
+    max: 5
+  },
+  comment: {
+    type: String,
+    trim: true,
+    maxlength: [500, 'Comment cannot exceed 500 characters'],
+    default: null
+  },
+  // The reviewee's public answer
+  reply: {
+    body: {
+      type: String,
+      trim: true,
+      maxlength: [500, 'Reply cannot exceed 500 characters'],
+      default: null
+    },
+    repliedAt: {
+      type: Date,
+      default: null
+    }
+  },
+  // Reviews are sealed until both participants have reviewed or `revealAt`
+  // passes, so neither can read the other's review before writing their own
+  revealAt: {
+    type: Date,
+    required: [true, 'Reveal deadline is required']
+  },
+  revealedAt: {
+    type: Date,
+    default: null
+  },
+  // Hidden reviews are left out of profiles and ratings
+  moderation: {
+    isHidden: {
+      type: Boolean,
+      default: false
+    },
+    hiddenBy: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: 'User',
+      default: null
+    },
+    hiddenAt: {
+      type: Date,
+      default: null
+    },
+    reason: {
+      type: String,
+      trim: true,
+      maxlength: [500, 'Reason cannot exceed 500 characters'],
+      default: null
+    }
+  }
+}, {
+  timestamps: true,
+  toJSON: { virtuals: true },
+  toObject: { virtuals: true }
+});
+
+// One review per participant per swap
+reviewSchema.index({ swapRequestId: 1, reviewerId: 1 }, { unique: true });
+reviewSchema.index({ revieweeId: 1, 'moderation.isHidden': 1, createdAt: -1 });
+reviewSchema.index({ revealedAt: 1, revealAt: 1 });
+
+reviewSchema.pre('validate', function(next) {
+  const scores = REVIEW_DIMENSIONS.map(dimension => this.scores?.[dimension]);
+  if (scores.every(score => typeof score === 'number')) {
+    this.rating = round(scores.reduce((sum, score) => sum + score, 0) / scores.length);
+  }
+  next();
+});
+
+// Method to post or edit the reviewee's reply
+reviewSchema.methods.setReply = function(body) {
+  this.reply = { body, repliedAt: new Date() };
+  return this.save();
+};
+
+// Method to hide or show the review
+reviewSchema.methods.moderate = function(isHidden, adminId, reason = null) {
+  this.moderation = {
+    isHidden,
+    hiddenBy: isHidden ? adminId : null,
+    hiddenAt: isHidden ? new Date() : null,
+    reason: isHidden ? reason : null
+  };
+  return this.save();
+};
+
+// Method to get the review as users see it: moderation details stay with the admins
+reviewSchema.methods.toPublicJSON = function() {
+  const { moderation, ...review } = this.toJSON();
+  return { ...review, isHidden: moderation.isHidden };
+};
+
+// Static method to get a page of a user's visible reviews, newest first
+reviewSchema.statics.findVisibleForUser = function(userId, { skip = 0, limit = 20 } = {}) {
+  return this.find({ revieweeId: userId, ...VISIBLE_REVIEWS })
+    .populate('reviewerId', 'name photo')
+    .sort({ createdAt: -1 })
+    .skip(skip)
+    .limit(limit);
+};
+
+// Static method to average a user's visible reviews overall and per dimension
+reviewSchema.statics.getSummaryForUser = async function(userId) {
+  const [summary] = await this.aggregate([
+    { $match: { revieweeId: new mongoose.Types.ObjectId(userId), ...VISIBLE_REVIEWS } },
+    {
+      $group: {
+        _id: null,
+        rating: { $avg: '$rating' },
+        reviewCount: { $sum: 1 },
+        ...Object.fromEntries(REVIEW_DIMENSIONS.map(dimension => [dimension, { $avg: `$scores.${dimension}` }]))
+      }
+    }
+  ]);
+
+  return {
+    rating: summary ? round(summary.rating) : 0,
+    reviewCount: summary?.reviewCount ?? 0,
+    dimensions: Object.fromEntries(REVIEW_DIMENSIONS.map(dimension => [dimension, summary ? round(summary[dimension]) : null]))
+  };
+};
+
+// Static method to store a user's rating fields from their visible reviews
+reviewSchema.statics.syncUserRating = async function(userId) {
+  const { rating, reviewCount } = await this.getSummaryForUser(userId);
+  const fields = getUserRatingFields({ averageRating: rating, reviewCount });
+  await mongoose.model('User').updateOne({ _id: userId }, { $set: fields });
+  return fields;
+};
+
+// Static method to recompute every user's rating fields (or one user's) from
+// the reviews and fix the ones that don't match. Returns how many users were
+// checked and how many needed fixing.
+reviewSchema.statics.recomputeRatings = async function({ userId = null } = {}) {
+  const match = { ...VISIBLE_REVIEWS };
+  if (userId) {
+    match.revieweeId = new mongoose.Types.ObjectId(userId);
+  }
+
+  const totals = await this.aggregate([
+    { $match: match },
+    { $group: { _id: '$revieweeId', averageRating: { $avg: '$rating' }, reviewCount: { $sum: 1 } } }
+  ]);
+  const totalsByUser = new Map(totals.map(total => [total._id.toString(), total]));
+
+  const User = mongoose.model('User');
+  const users = User.find(userId ? { _id: userId } : {})
+    .select('rating averageRating reviewCount')
+    .lean()
+    .cursor();
+
+  let checked = 0;
+  const fixes = [];
+  for await (const user of users) {
+    checked++;
+    const total = totalsByUser.get(user._id.toString());
+    const fields = getUserRatingFields({
+      averageRating: total ? round(total.averageRating) : 0,
+      reviewCount: total?.reviewCount ?? 0
+    });
+    if (Object.entries(fields).some(([field, value]) => user[field] !== value)) {
+      fixes.push({ updateOne: { filter: { _id: user._id }, update: { $set: fields } } });
+    }
+  }
+
+  if (fixes.length > 0) {
+    await User.bulkWrite(fixes, { ordered: false });
+  }
+  return { checked, fixed: fixes.length };
+};
+
+// Static method to publish a swap's sealed reviews. Returns the reviews this
+// call published; ones published concurrently elsewhere are left out.
+reviewSchema.statics.reveal = async function(swapRequestId, now = new Date()) {
+  const sealed = await this.find({ swapRequestId, revealedAt: null }).select('_id');
+  const revealed = await Promise.all(sealed.map(({ _id }) =>
+    this.findOneAndUpdate({ _id, revealedAt: null }, { $set: { revealedAt: now } }, { new: true })
+  ));
+  return revealed.filter(Boolean);
+};
+
+// Static method to find swaps with sealed reviews whose deadline has passed
+reviewSchema.statics.findSwapIdsDueForReveal = function(now = new Date()) {
+  return this.distinct('swapRequestId', { revealedAt: null, revealAt: { $lte: now } });
+};
+
+// Static method to publish reviews written before reviews were sealed
+reviewSchema.statics.migrateUnsealedReviews = async function() {
+  const result = await this.updateMany(
+    { revealedAt: { $exists: false } },
+    [{ $set: { revealAt: '$createdAt', revealedAt: '$createdAt' } }]
+  );
+  return result.modifiedCount;
+};
+
+// Static method to copy ratings still stored on swaps (`feedback.*UserRating`)
+// into reviews, scoring every dimension with the single rating given. Works on
+// the raw collections; reviews already copied are left as they are.
+reviewSchema.statics.migrateLegacyFeedback = async function() {
+  const swaps = await mongoose.model('SwapRequest').collection
+    .find(
+      { $or: [{ 'feedback.fromUserRating': { $ne: null } }, { 'feedback.toUserRating': { $ne: null } }] },
+      { projection: { fromUserId: 1, toUserId: 1, feedback: 1, completedAt: 1, updatedAt: 1 } }
+    )
+    .toArray();
+
+  const reviews = swaps.flatMap(swap => [
+    [swap.fromUserId, swap.toUserId, swap.feedback.fromUserRating, swap.feedback.fromUserComment],
+    [swap.toUserId, swap.fromUserId, swap.feedback.toUserRating, swap.feedback.toUserComment]
+  ]
+    .filter(([, , rating]) => typeof rating === 'number')
+    .map(([reviewerId, revieweeId, rating, comment]) => {
+      const reviewedAt = swap.completedAt || swap.updatedAt || new Date();
+      return {
+        updateOne: {
+          filter: { swapRequestId: swap._id, reviewerId },
+          update: {
+            $setOnInsert: {
+              swapRequestId: swap._id,
+              reviewerId,
+              revieweeId,
+              scores: Object.fromEntries(REVIEW_DIMENSIONS.map(dimension => [dimension, rating])),
+              rating,
+              comment: comment || null,
+              reply: { body: null, repliedAt: null },
+              revealAt: reviewedAt,
+              revealedAt: reviewedAt,
+              moderation: { isHidden: false, hiddenBy: null, hiddenAt: null, reason: null },
+              createdAt: reviewedAt,
+              updatedAt: reviewedAt
+            }
+          },
+          upsert: true
+        }
+      };
+    }));
+
+  if (reviews.length === 0) return 0;
+
+  const result = await this.collection.bulkWrite(reviews, { ordered: false });
+  return result.upsertedCount;
+};
+
+const Review = mongoose.model('Review', reviewSchema);
+
+export default Review;
@@ -0,0 +1,157 @@
+import mongoose from 'mongoose';
+
+// Statuses that occupy a participant's time
+export const ACTIVE_STATUSES = ['proposed', 'confirmed'];
+
+const sessionSchema = new mongoose.Schema({
+  swapRequestId: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'SwapRequest',
+    required: [true, 'Swap request is required']
+  },
+  // Both swap participants, denormalized so conflict checks don't need a join
+  participants: [{
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User'
+  }],
+  proposedBy: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User',
+    required: [true, 'Proposer is required']
+  },
+  title: {
+    type: String,
+    trim: true,
+    maxlength: [100, 'Title cannot exceed 100 characters']
+  },
+  startTime: {
+    type: Date,
+    required: [true, 'Start time is required']
+  },
+  endTime: {
+    type: Date,
+    required: [true, 'End time is required']
+  },
+  notes: {
+    type: String,
+    trim: true,
+    maxlength: [500, 'Notes cannot exceed 500 characters'],
+    default: null
+  },
+  status: {
+    type: String,
+    enum: ['proposed', 'confirmed', 'declined', 'cancelled'],
+    default: 'proposed'
+  },
+  rescheduleCount: {
+    type: Number,
+    default: 0
+  },
+  cancelledBy: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User',
+    default: null
+  }
+}, {
+  timestamps: true,
+  toJSON: { virtuals: true },
+  toObject: { virtuals: true }
+});
+
+// Index for efficient queries
+sessionSchema.index({ swapRequestId: 1, startTime: 1 });
+sessionSchema.index({ participants: 1, status: 1, startTime: 1 });
+
+// Validate that the session ends after it starts
+sessionSchema.pre('validate', function(next) {
+  if (this.startTime && this.endTime && this.endTime <= this.startTime) {
+    this.invalidate('endTime', 'End time must be after start time');
+  }
+  next();
+});
+
+// Virtual for session duration in minutes
+sessionSchema.virtual('durationMinutes').get(function() {
+  return Math.round((this.endTime - this.startTime) / 60000);
+});
+
+// Method to confirm a proposed session
+sessionSchema.methods.confirm = function() {
+  this.status = 'confirmed';
+  return this.save();
+};
+
+// Method to decline a proposed session
+sessionSchema.methods.decline = function() {
+  this.status = 'declined';
+  return this.save();
+};
+
+// Method to cancel a session
+sessionSchema.methods.cancel = function(userId) {
+  this.status = 'cancelled';
+  this.cancelledBy = userId;
+  return this.save();
+};
+
+// Method to propose a new time; the other participant has to accept again
+sessionSchema.methods.reschedule = function(userId, startTime, endTime) {
+  this.startTime = startTime;
+  this.endTime = endTime;
+  this.proposedBy = userId;
+  this.status = 'proposed';
+  this.rescheduleCount += 1;
+  return this.save();
+};
+
+// Static method to cancel the active sessions of a swap that no longer goes ahead
+sessionSchema.statics.cancelForSwap = function(swapRequestId) {
+  return this.updateMany(
+    { swapRequestId, status: { $in: ACTIVE_STATUSES } },
+    { $set: { status: 'cancelled', cancelledBy: null } }
+  );
+};
+
+// Static method to cancel every active session of a user, e.g. when they're banned
+sessionSchema.statics.cancelForUser = function(userId) {
+  return this.updateMany(
+    { participants: userId, status: { $in: ACTIVE_STATUSES } },
+    { $set: { status: 'cancelled', cancelledBy: null } }
+  );
+};
+
+// Static method to find active sessions of any of the given users that
+// overlap the [startTime, endTime) window
+sessionSchema.statics.findConflicts = function(userIds, startTime, endTime, excludeId = null) {
+  const query = {
+    participants: { $in: userIds },
+    status: { $in: ACTIVE_STATUSES },
+    startTime: { $lt: endTime },
+    endTime: { $gt: startTime }
+  };
+  if (excludeId) {
+    query._id = { $ne: excludeId };
+  }
+
+  return this.find(query).sort({ startTime: 1 });
+};
+
+// Static method to find sessions for a user
+sessionSchema.statics.findForUser = function(userId, { from = null, activeOnly = false } = {}) {
+  const query = { participants: userId };
+  if (from) {
+    query.endTime = { $gte: from };
+  }
+  if (activeOnly) {
+    query.status = { $in: ACTIVE_STATUSES };
+  }
+
+  return this.find(query)
+    .sort({ startTime: 1 })
+    .populate('participants', 'name email photo')
+    .populate('swapRequestId', 'skillOffered skillWanted fromUserId toUserId');
+};
+
+const Session = mongoose.model('Session', sessionSchema);
+
+export default Session;
@@ -0,0 +1,255 @@
+import mongoose from 'mongoose';
+import defaultSkills from '../config/skills.js';
+
+// Lookup key used to treat "Javascript", "javascript" and "Java Script" as the same skill
+export const normalizeSkillName = (name = '') => String(name)
+  .normalize('NFKD')
+  .replace(/[\u0300-\u036f]/g, '')
+  .toLowerCase()
+  .replace(/[^a-z0-9+#]/g, '');
+
+const escapeRegex = (value) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+const skillSchema = new mongoose.Schema({
+  name: {
+    type: String,
+    required: [true, 'Skill name is required'],
+    trim: true,
+    maxlength: [50, 'Skill name cannot exceed 50 characters']
+  },
+  key: {
+    type: String,
+    required: true,
+    unique: true
+  },
+  aliases: [{
+    type: String,
+    trim: true,
+    maxlength: [50, 'Alias cannot exceed 50 characters']
+  }],
+  aliasKeys: [{
+    type: String
+  }],
+  category: {
+    type: String,
+    trim: true,
+    maxlength: [50, 'Category cannot exceed 50 characters'],
+    default: 'Other'
+  },
+  parent: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'Skill',
+    default: null
+  }
+}, {
+  timestamps: true,
+  toJSON: { virtuals: true },
+  toObject: { virtuals: true }
+});
+
+// Index for efficient queries
+skillSchema.index({ aliasKeys: 1 });
+skillSchema.index({ category: 1, name: 1 });
+skillSchema.index({ parent: 1 });
+
+// Keep lookup keys in sync with the name and aliases
+skillSchema.pre('validate', function(next) {
+  this.key = normalizeSkillName(this.name);
+  const aliasKeys = this.aliases.map(normalizeSkillName).filter(key => key && key !== this.key);
+  this.aliasKeys = [...new Set(aliasKeys)];
+
+  if (this.parent && this.parent.equals(this._id)) {
+    this.invalidate('parent', 'A skill cannot be its own parent');
+  }
+  next();
+});
+
+// Method to rename a skill; the old name keeps resolving as an alias
+skillSchema.methods.rename = async function(newName) {
+  const oldName = this.name;
+  this.name = newName.trim();
+  if (normalizeSkillName(oldName) !== normalizeSkillName(this.name)) {
+    this.aliases.addToSet(oldName);
+  }
+  await this.save();
+
+  // Update the display names stored on user profiles
+  const User = mongoose.model('User');
+  await User.updateMany(
+    { offeredSkillIds: this._id },
+    { $set: { 'skillsOffered.$[skill]': this.name } },
+    { arrayFilters: [{ skill: oldName }] }
+  );
+  await User.updateMany(
+    { wantedSkillIds: this._id },
+    { $set: { 'skillsWanted.$[skill]': this.name } },
+    { arrayFilters: [{ skill: oldName }] }
+  );
+
+  return this;
+};
+
+// Method to merge this skill into `target`: aliases, children and user
+// references move over and this skill is deleted. A direct child target takes
+// this skill's place; deeper descendants are refused with an INVALID_MERGE
+// error, since their ancestors would end up as each other's parents.
+skillSchema.methods.mergeInto = async function(target) {
+  const isChild = Boolean(target.parent && target.parent.equals(this._id));
+  if (!isChild) {
+    const ancestors = await this.constructor.withAncestors([target._id]);
+    if (ancestors.some(id => id.equals(this._id))) {
+      const error = new Error('Cannot merge a skill into one of its descendants');
+      error.code = 'INVALID_MERGE';
+      throw error;
+    }
+  }
+
+  target.aliases.addToSet(this.name, ...this.aliases);
+  if (isChild) {
+    target.parent = this.parent;
+  }
+  await target.save();
+
+  await this.constructor.updateMany({ parent: this._id }, { parent: target._id });
+
+  const User = mongoose.model('User');
+  const users = await User.find({
+    $or: [{ offeredSkillIds: this._id }, { wantedSkillIds: this._id }]
+  }).select('skillsOffered skillsWanted offeredSkillIds wantedSkillIds offeredSkillDetails wantedSkillDetails');
+
+  const replaceSkill = (names, ids, details) => {
+    const result = { names: [], ids: [], details: [] };
+    ids.forEach((id, index) => {
+      const isSource = id.equals(this._id);
+      const nextId = isSource ? target._id : id;
+      if (result.ids.some(existing => existing.equals(nextId))) return;
+      result.ids.push(nextId);
+      result.names.push(isSource ? target.name : names[index]);
+      result.details.push({ ...details[index]?.toObject(), skillId: nextId });
+    });
+    return result;
+  };
+
+  await Promise.all(users.map((user) => {
+    const offered = replaceSkill(user.skillsOffered, user.offeredSkillIds, user.offeredSkillDetails);
+    const wanted = replaceSkill(user.skillsWanted, user.wantedSkillIds, user.wantedSkillDetails);
+    return User.updateOne({ _id: user._id }, {
+      skillsOffered: offered.names,
+      offeredSkillIds: offered.ids,
+      offeredSkillDetails: offered.details,
+      skillsWanted: wanted.names,
+      wantedSkillIds: wanted.ids,
+      wantedSkillDetails: wanted.details
+    });
+  }));
+
+  await this.deleteOne();
+  return { target, affectedUsers: users.length };
+};
+
+// Static method to find a skill by its name or any alias
+skillSchema.statics.findByName = function(name) {
+  const key = normalizeSkillName(name);
+  return this.findOne({ $or: [{ key }, { aliasKeys: key }] });
+};
+
+// Static method to resolve free-text skill names to canonical skills,
+// creating unknown skills. Returns unique skills in input order.
+skillSchema.statics.resolveMany = async function(names = []) {
+  const skills = [];
+
+  for (const rawName of names) {
+    const name = String(rawName).trim();
+    if (!name || !normalizeSkillName(name)) continue;
+
+    let skill = await this.findByName(name);
+    if (!skill) {
+      try {
+        skill = await this.create({ name });
+      } catch (error) {
+        // Another request created it first
+        if (error.code !== 11000) throw error;
+        skill = await this.findByName(name);
+      }
+    }
+
+    if (!skills.some(existing => existing._id.equals(skill._id))) {
+      skills.push(skill);
+    }
+  }
+
+  return skills;
+};
+
+// Static method for autocomplete: skills whose name or alias contains the
+// term, prefix matches first
+skillSchema.statics.search = async function(term, limit = 10) {
+  const pattern = new RegExp(escapeRegex(term.trim()), 'i');
+  const prefix = new RegExp(`^${escapeRegex(term.trim())}`, 'i');
+
+  const skills = await this.find({ $or: [{ name: pattern }, { aliases: pattern }] })
+    .populate('parent', 'name')
+    .sort({ name: 1 })
+    .limit(limit * 3);
+
+  return skills
+    .map((skill) => {
+      const matchedAlias = pattern.test(skill.name) ? null : skill.aliases.find(alias => pattern.test(alias));
+      const isPrefix = prefix.test(skill.name) || Boolean(matchedAlias && prefix.test(matchedAlias));
+      return { skill, matchedAlias, isPrefix };
+    })
+    .sort((a, b) => Number(b.isPrefix) - Number(a.isPrefix))
+    .slice(0, limit);
+};
+
+// Static method to find IDs of skills whose name or alias contains the term
+skillSchema.statics.findMatchingIds = async function(term) {
+  const pattern = new RegExp(escapeRegex(term.trim()), 'i');
+  const skills = await this.find({ $or: [{ name: pattern }, { aliases: pattern }] }).select('_id');
+  return skills.map(skill => skill._id);
+};
+
+// Static method to expand skill IDs with all their descendants
+skillSchema.statics.withDescendants = async function(ids = []) {
+  const result = new Map(ids.map(id => [id.toString(), id]));
+  let frontier = [...ids];
+
+  while (frontier.length > 0) {
+    const children = await this.find({ parent: { $in: frontier } }).select('_id');
+    frontier = children.map(child => child._id).filter(id => !result.has(id.toString()));
+    frontier.forEach(id => result.set(id.toString(), id));
+  }
+
+  return [...result.values()];
+};
+
+// Static method to expand skill IDs with all their ancestors
+skillSchema.statics.withAncestors = async function(ids = []) {
+  const result = new Map(ids.map(id => [id.toString(), id]));
+  let frontier = [...ids];
+
+  while (frontier.length > 0) {
+    const skills = await this.find({ _id: { $in: frontier }, parent: { $ne: null } }).select('parent');
+    frontier = skills.map(skill => skill.parent).filter(id => !result.has(id.toString()));
+    frontier.forEach(id => result.set(id.toString(), id));
+  }
+
+  return [...result.values()];
+};
+
+// Static method to load the starter taxonomy into an empty collection
+skillSchema.statics.ensureDefaults = async function() {
+  if (await this.estimatedDocumentCount() > 0) return 0;
+
+  const created = new Map();
+  for (const { parent, ...data } of defaultSkills) {
+    const skill = await this.create({ ...data, parent: parent ? created.get(parent)._id : null });
+    created.set(skill.name, skill);
+  }
+
+  return created.size;
+};
+
+const Skill = mongoose.model('Skill', skillSchema);
+
+export default Skill;
@@ -1,4 +1,99 @@
 import mongoose from 'mongoose';
+import Session from './Session.js';
+import { SKILL_LEVELS } from '../services/skillLevels.js';
+import { checkTransition, transitionConflictError } from '../services/swapStateMachine.js';
+
+// A pending request can be countered back and forth, each counter adding a
+// version to `offers`, until the participant it's waiting on accepts or rejects it,
+// or it expires at `expiresAt` without an answer.
+// A completed swap goes accepted -> completion_pending (one side marked it done)
+// -> completed once the other side confirms, or -> disputed for an admin to resolve.
+// Status only changes through transition(); see services/swapStateMachine.js
+export const SWAP_STATUSES = ['pending', 'accepted', 'rejected', 'completion_pending', 'disputed', 'completed', 'cancelled', 'expired'];
+
+// Statuses in which a credit swap's ByteBucks are held in escrow: from
+// acceptance until the swap is completed or called off
+export const CREDITS_HELD_STATUSES = ['accepted', 'completion_pending', 'disputed'];
+
+// One status change: the action taken, by whom and why
+const historyEntrySchema = new mongoose.Schema({
+  action: {
+    type: String,
+    required: true
+  },
+  from: {
+    type: String,
+    enum: [...SWAP_STATUSES, null],
+    default: null
+  },
+  to: {
+    type: String,
+    enum: SWAP_STATUSES,
+    required: true
+  },
+  actor: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User',
+    default: null
+  },
+  actorRole: {
+    type: String,
+    enum: ['sender', 'recipient', 'participant', 'responder', 'counterparty', 'admin', 'system'],
+    required: true
+  },
+  reason: {
+    type: String,
+    trim: true,
+    maxlength: [500, 'Reason cannot exceed 500 characters'],
+    default: null
+  },
+  at: {
+    type: Date,
+    default: Date.now
+  }
+}, { _id: false });
+
+// One version of the terms while a request is negotiated. Version 1 is the
+// original request; every counter-offer adds the next one.
+const offerSchema = new mongoose.Schema({
+  version: {
+    type: Number,
+    required: true
+  },
+  proposedBy: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User',
+    required: true
+  },
+  skillOffered: {
+    type: String,
+    default: null
+  },
+  skillWanted: {
+    type: String,
+    required: true
+  },
+  skillOfferedLevel: {
+    type: String,
+    default: null
+  },
+  skillWantedLevel: {
+    type: String,
+    default: null
+  },
+  hours: {
+    type: Number,
+    required: true
+  },
+  message: {
+    type: String,
+    required: true
+  },
+  createdAt: {
+    type: Date,
+    default: Date.now
+  }
+}, { _id: false });
 
 const swapRequestSchema = new mongoose.Schema({
   fromUserId: {
@@ -11,9 +106,10 @@ const swapRequestSchema = new mongoose.Schema({
     ref: 'User',
     required: [true, 'To user is required']
   },
+  // Credit swaps pay for skillWanted with ByteBucks instead of teaching a skill back
   skillOffered: {
     type: String,
-    required: [true, 'Skill offered is required'],
+    required: [function() { return this.paymentType !== 'credits'; }, 'Skill offered is required'],
     trim: true,
     maxlength: [50, 'Skill name cannot exceed 50 characters']
   },
@@ -23,6 +119,30 @@ const swapRequestSchema = new mongoose.Schema({
     trim: true,
     maxlength: [50, 'Skill name cannot exceed 50 characters']
   },
+  // Levels the sender teaches skillOffered at and the recipient teaches skillWanted at,
+  // taken from their profiles when the request is made
+  skillOfferedLevel: {
+    type: String,
+    enum: [...SKILL_LEVELS, null],
+    default: null
+  },
+  skillWantedLevel: {
+    type: String,
+    enum: [...SKILL_LEVELS, null],
+    default: null
+  },
+  paymentType: {
+    type: String,
+    enum: ['swap', 'credits'],
+    default: 'swap'
+  },
+  // Hours taught by each teacher, which is also the ByteBucks earned or paid
+  hours: {
+    type: Number,
+    min: [0.5, 'Hours must be at least 0.5'],
+    max: [20, 'Hours cannot exceed 20'],
+    default: 1
+  },
   message: {
     type: String,
     required: [true, 'Message is required'],
@@ -31,13 +151,95 @@ const swapRequestSchema = new mongoose.Schema({
   },
   status: {
     type: String,
-    enum: ['pending', 'accepted', 'rejected', 'completed', 'cancelled'],
+    enum: SWAP_STATUSES,
     default: 'pending'
   },
   completedAt: {
     type: Date,
     default: null
   },
+  completion: {
+    requestedBy: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: 'User',
+      default: null
+    },
+    requestedAt: {
+      type: Date,
+      default: null
+    },
+    // Set when nobody confirmed or disputed within the confirmation window
+    autoConfirmed: {
+      type: Boolean,
+      default: false
+    }
+  },
+  dispute: {
+    raisedBy: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: 'User',
+      default: null
+    },
+    reason: {
+      type: String,
+      trim: true,
+      maxlength: [500, 'Dispute reason cannot exceed 500 characters'],
+      default: null
+    },
+    raisedAt: {
+      type: Date,
+      default: null
+    },
+    resolvedBy: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: 'User',
+      default: null
+    },
+    resolvedAt: {
+      type: Date,
+      default: null
+    },
+    // 'completed' upholds the completion, 'reopened' sends the swap back to
+    // accepted, 'cancelled' calls it off and refunds any held ByteBucks
+    resolution: {
+      type: String,
+      enum: ['completed', 'reopened', 'cancelled', null],
+      default: null
+    },
+    resolutionNote: {
+      type: String,
+      trim: true,
+      maxlength: [500, 'Resolution note cannot exceed 500 characters'],
+      default: null
+    }
+  },
+  // Participant who has to accept, reject or counter the latest offer
+  awaitingResponseFrom: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User',
+    default: null
+  },
+  offers: [offerSchema],
+  // When a pending request expires unanswered; reset by every counter-offer.
+  // Requests from before expiry existed have none and expire by createdAt.
+  expiresAt: {
+    type: Date,
+    default: null
+  },
+  // Reminders already sent by the scheduled swap jobs
+  reminders: {
+    expiringSentAt: {
+      type: Date,
+      default: null
+    },
+    idleNudgedAt: {
+      type: Date,
+      default: null
+    }
+  },
+  history: [historyEntrySchema],
+  // Legacy ratings from before reviews had their own model; copied into
+  // Review on startup and no longer written
   feedback: {
     fromUserRating: {
       type: Number,
@@ -74,52 +276,113 @@ const swapRequestSchema = new mongoose.Schema({
 swapRequestSchema.index({ fromUserId: 1, status: 1 });
 swapRequestSchema.index({ toUserId: 1, status: 1 });
 swapRequestSchema.index({ status: 1, createdAt: -1 });
+swapRequestSchema.index({ status: 1, 'completion.requestedAt': 1 });
+swapRequestSchema.index({ status: 1, expiresAt: 1 });
 
-// Virtual for checking if both users have provided feedback
-swapRequestSchema.virtual('isFeedbackComplete').get(function() {
-  return this.feedback.fromUserRating && this.feedback.toUserRating;
+// Pre-save middleware to record the creation of a request as its first history
+// entry and first offer, awaiting the recipient's response
+swapRequestSchema.pre('save', function(next) {
+  if (this.isNew && !this.awaitingResponseFrom) {
+    this.awaitingResponseFrom = this.toUserId;
+  }
+  if (this.isNew && this.offers.length === 0) {
+    this.recordOffer(this.fromUserId);
+  }
+  if (this.isNew && this.history.length === 0) {
+    this.history.push({
+      action: 'create',
+      from: null,
+      to: this.status,
+      actor: this.fromUserId,
+      actorRole: 'sender',
+      at: new Date()
+    });
+  }
+  next();
 });
 
-// Virtual for checking if swap is ready for completion
-swapRequestSchema.virtual('isReadyForCompletion').get(function() {
-  return this.status === 'accepted' && this.isFeedbackComplete;
+// Virtual for checking if participants can chat on this swap
+swapRequestSchema.virtual('isChatOpen').get(function() {
+  return ['accepted', 'completion_pending', 'disputed', 'completed'].includes(this.status);
 });
 
-// Method to accept swap request
-swapRequestSchema.methods.accept = function() {
-  this.status = 'accepted';
-  return this.save();
+// Helper to read a user reference whether or not it has been populated
+const refId = (ref) => (ref && ref._id ? ref._id : ref).toString();
+
+// Method to check if a user is one of the two participants
+swapRequestSchema.methods.isParticipant = function(userId) {
+  return [refId(this.fromUserId), refId(this.toUserId)].includes(userId.toString());
 };
 
-// Method to reject swap request
-swapRequestSchema.methods.reject = function() {
-  this.status = 'rejected';
-  return this.save();
+// Method to get the other participant's ID
+swapRequestSchema.methods.getOtherUserId = function(userId) {
+  return refId(this.fromUserId) === userId.toString() ? refId(this.toUserId) : refId(this.fromUserId);
 };
 
-// Method to complete swap request
-swapRequestSchema.methods.complete = function() {
-  this.status = 'completed';
-  this.completedAt = new Date();
-  return this.save();
+// Method to add the current terms to the negotiation trail as the next version
+swapRequestSchema.methods.recordOffer = function(proposedBy, at = new Date()) {
+  this.offers.push({
+    version: this.offers.length + 1,
+    proposedBy,
+    skillOffered: this.skillOffered,
+    skillWanted: this.skillWanted,
+    skillOfferedLevel: this.skillOfferedLevel,
+    skillWantedLevel: this.skillWantedLevel,
+    hours: this.hours,
+    message: this.message,
+    createdAt: at
+  });
 };
 
-// Method to cancel swap request
-swapRequestSchema.methods.cancel = function() {
-  this.status = 'cancelled';
-  return this.save();
+// Method to check that `actor` (a user, or null for the system) may apply a
+// transition; throws an INVALID_TRANSITION error with a statusCode otherwise
+swapRequestSchema.methods.checkTransition = function(action, actor) {
+  return checkTransition(this, action, actor);
 };
 
-// Method to add feedback
-swapRequestSchema.methods.addFeedback = function(userId, rating, comment) {
-  if (this.fromUserId.toString() === userId.toString()) {
-    this.feedback.fromUserRating = rating;
-    this.feedback.fromUserComment = comment;
-  } else if (this.toUserId.toString() === userId.toString()) {
-    this.feedback.toUserRating = rating;
-    this.feedback.toUserComment = comment;
+// Method to apply a state machine transition and record it in the history
+// `changes` carries the new terms for a counter-offer; `at` defaults to now
+// and lets scheduled jobs stamp the time they ran for. The save only matches
+// while no other transition has been recorded since the swap was loaded, so
+// of two racing transitions the later one fails with a 409 INVALID_TRANSITION error.
+// Sessions are only held for accepted swaps, so leaving `accepted` cancels them.
+swapRequestSchema.methods.transition = async function(action, actor, { reason = null, changes = {}, at = new Date() } = {}) {
+  const { transition, roles } = checkTransition(this, action, actor);
+  const actorId = actor ? actor._id : null;
+  const from = this.status;
+  const recorded = this.history.length;
+
+  if (transition.apply) {
+    transition.apply(this, { actorId, reason, changes, at });
   }
-  return this.save();
+  this.status = transition.to;
+  this.history.push({
+    action,
+    from,
+    to: transition.to,
+    actor: actorId,
+    actorRole: transition.actors.find(role => roles.includes(role)),
+    reason,
+    at
+  });
+
+  // History only grows, so an entry past the ones loaded means another transition won
+  this.$where = { status: from, [`history.${recorded}`]: { $exists: false } };
+  try {
+    await this.save();
+  } catch (error) {
+    if (error instanceof mongoose.Error.DocumentNotFoundError) {
+      throw transitionConflictError();
+    }
+    throw error;
+  } finally {
+    this.$where = undefined;
+  }
+
+  if (from === 'accepted' && transition.to !== 'accepted') {
+    await Session.cancelForSwap(this._id);
+  }
+  return this;
 };
 
 // Static method to find pending requests for a user
@@ -146,6 +409,52 @@ swapRequestSchema.statics.findCompletedForUser = function(userId) {
   }).populate('fromUserId', 'name email photo').populate('toUserId', 'name email photo');
 };
 
+// Static method to find completions nobody confirmed or disputed before `cutoff`
+swapRequestSchema.statics.findUnconfirmedCompletions = function(cutoff) {
+  return this.find({
+    status: 'completion_pending',
+    'completion.requestedAt': { $lte: cutoff }
+  });
+};
+
+// Static method to find pending requests that expire at or before `until`.
+// Requests without expiresAt are treated as expiring `expiryMs` after creation.
+swapRequestSchema.statics.findPendingExpiringBy = function(until, expiryMs, extra = {}) {
+  return this.find({
+    status: 'pending',
+    $or: [
+      { expiresAt: { $lte: until } },
+      { expiresAt: null, createdAt: { $lte: new Date(until.getTime() - expiryMs) } }
+    ],
+    ...extra
+  });
+};
+
+// Static method to find accepted swaps untouched since `cutoff` and not nudged since then
+swapRequestSchema.statics.findIdleAccepted = function(cutoff) {
+  return this.find({
+    status: 'accepted',
+    updatedAt: { $lte: cutoff },
+    $or: [
+      { 'reminders.idleNudgedAt': null },
+      { 'reminders.idleNudgedAt': { $lte: cutoff } }
+    ]
+  });
+};
+
+// Static method to list the ids of users who have an open swap
+// (pending, accepted or awaiting completion) with `userId`
+swapRequestSchema.statics.findPartnerIds = async function(userId) {
+  const swaps = await this.find({
+    $or: [{ fromUserId: userId }, { toUserId: userId }],
+    status: { $in: ['pending', 'accepted', 'completion_pending', 'disputed'] }
+  }).select('fromUserId toUserId').lean();
+
+  const ids = new Set(swaps.flatMap(swap => [swap.fromUserId.toString(), swap.toUserId.toString()]));
+  ids.delete(userId.toString());
+  return [...ids];
+};
+
 // Static method to get swap statistics
 swapRequestSchema.statics.getStats = function() {
   return this.aggregate([
@@ -1,5 +1,88 @@
 import mongoose from 'mongoose';
 import bcrypt from 'bcryptjs';
+import crypto from 'crypto';
+import Skill from './Skill.js';
+import { NOTIFICATION_TYPES } from './Notification.js';
+import { isValidTime, isValidTimeZone, presetToAvailability } from '../services/availability.js';
+import { rankMatches } from '../services/matchEngine.js';
+import { findCycles } from '../services/cycleFinder.js';
+import {
+  SKILL_LEVELS,
+  getLevelRank,
+  levelsAtLeast,
+  normalizeOfferedSkills,
+  normalizeWantedSkills
+} from '../services/skillLevels.js';
+
+// Most recently active users considered when searching for swap rings
+const CYCLE_CANDIDATE_LIMIT = 200;
+
+// Most recently active users scored when ranking skill matches
+const MATCH_CANDIDATE_LIMIT = 500;
+
+// One weekly free-time range, in the owner's timezone
+const availabilitySlotSchema = new mongoose.Schema({
+  day: {
+    type: Number,
+    required: [true, 'Slot day is required'],
+    min: [0, 'Slot day must be between 0 (Sunday) and 6 (Saturday)'],
+    max: [6, 'Slot day must be between 0 (Sunday) and 6 (Saturday)']
+  },
+  start: {
+    type: String,
+    required: [true, 'Slot start time is required'],
+    validate: [isValidTime, 'Slot times must be in HH:MM format']
+  },
+  end: {
+    type: String,
+    required: [true, 'Slot end time is required'],
+    validate: [isValidTime, 'Slot times must be in HH:MM format']
+  }
+}, { _id: false });
+
+// Teaching credentials for one offered skill
+const offeredSkillDetailSchema = new mongoose.Schema({
+  skillId: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'Skill',
+    required: true
+  },
+  level: {
+    type: String,
+    enum: [...SKILL_LEVELS, null],
+    default: null
+  },
+  yearsExperience: {
+    type: Number,
+    min: [0, 'Years of experience cannot be negative'],
+    max: [80, 'Years of experience cannot exceed 80'],
+    default: null
+  },
+  description: {
+    type: String,
+    trim: true,
+    maxlength: [500, 'Skill description cannot exceed 500 characters'],
+    default: null
+  },
+  portfolioLinks: [{
+    type: String,
+    trim: true
+  }]
+}, { _id: false });
+
+// Level the user wants to reach in one wanted skill
+const wantedSkillDetailSchema = new mongoose.Schema({
+  skillId: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'Skill',
+    required: true
+  },
+  targetLevel: {
+    type: String,
+    enum: [...SKILL_LEVELS, null],
+    default: null
+  }
+}, { _id: false });
 
 const userSchema = new mongoose.Schema({
   email: {
@@ -40,10 +123,28 @@ const userSchema = new mongoose.Schema({
     trim: true,
     maxlength: [50, 'Skill name cannot exceed 50 characters']
   }],
+  // Canonical skills, parallel to skillsOffered/skillsWanted which hold their display names
+  offeredSkillIds: [{
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'Skill'
+  }],
+  wantedSkillIds: [{
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'Skill'
+  }],
+  // Also parallel to skillsOffered/skillsWanted; skillId is repeated so levels can be queried
+  offeredSkillDetails: [offeredSkillDetailSchema],
+  wantedSkillDetails: [wantedSkillDetailSchema],
   availability: {
-    type: String,
-    enum: ['weekdays', 'weekends', 'evenings', 'flexible'],
-    default: 'flexible'
+    timezone: {
+      type: String,
+      default: 'UTC',
+      validate: [isValidTimeZone, 'Invalid timezone']
+    },
+    slots: {
+      type: [availabilitySlotSchema],
+      default: () => presetToAvailability('flexible').slots
+    }
   },
   isPublic: {
     type: Boolean,
@@ -57,12 +158,41 @@ const userSchema = new mongoose.Schema({
     type: Boolean,
     default: false
   },
+  // Why and by whom the user was banned; shown to them when they try to log in
+  banReason: {
+    type: String,
+    default: null
+  },
+  bannedBy: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User',
+    default: null
+  },
+  bannedAt: {
+    type: Date,
+    default: null
+  },
+  // Unverified users can browse and edit their profile but not start swaps or chat
+  emailVerified: {
+    type: Boolean,
+    default: false
+  },
+  // Derived from the user's visible reviews (see Review.syncUserRating).
+  // `rating` is smoothed towards a prior so a couple of reviews can't put a
+  // user at the top or bottom; it is what lists and matches rank by.
   rating: {
     type: Number,
     default: 0,
     min: [0, 'Rating cannot be negative'],
     max: [5, 'Rating cannot exceed 5']
   },
+  // Plain mean of the scores, as shown next to the review count
+  averageRating: {
+    type: Number,
+    default: 0,
+    min: [0, 'Rating cannot be negative'],
+    max: [5, 'Rating cannot exceed 5']
+  },
   reviewCount: {
     type: Number,
     default: 0,
@@ -71,18 +201,46 @@ const userSchema = new mongoose.Schema({
   lastActive: {
     type: Date,
     default: Date.now
-  }
+  },
+  // Number of the last realtime event sent to the user (see UserEvent)
+  eventSeq: {
+    type: Number,
+    default: 0,
+    select: false
+  },
+  emailPreferences: {
+    // 'instant' emails each notification as it happens, 'daily' batches them into one digest
+    frequency: {
+      type: String,
+      enum: ['instant', 'daily'],
+      default: 'instant'
+    },
+    // Notification types the user doesn't want emailed
+    disabledTypes: [{
+      type: String,
+      enum: NOTIFICATION_TYPES
+    }],
+    lastDigestAt: {
+      type: Date,
+      default: null
+    }
+  },
+  // Secret used in the iCalendar feed URL, since calendar apps can't send auth headers
+  calendarToken: {
+    type: String,
+    select: false
+  },
+  // Users this user has blocked. A block hides both users from each other.
+  blockedUsers: [{
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User'
+  }]
 }, {
   timestamps: true,
   toJSON: { virtuals: true },
   toObject: { virtuals: true }
 });
 
-// Virtual for average rating
-userSchema.virtual('averageRating').get(function() {
-  return this.reviewCount > 0 ? this.rating : 0;
-});
-
 // Index for search functionality
 userSchema.index({ 
   name: 'text', 
@@ -91,6 +249,21 @@ userSchema.index({
   location: 'text' 
 });
 
+userSchema.index({ calendarToken: 1 }, { unique: true, sparse: true });
+userSchema.index({ offeredSkillIds: 1 });
+userSchema.index({ wantedSkillIds: 1 });
+userSchema.index({ 'offeredSkillDetails.skillId': 1, 'offeredSkillDetails.level': 1 });
+userSchema.index({ blockedUsers: 1 });
+
+// Validate that every availability slot ends after it starts
+userSchema.pre('validate', function(next) {
+  const slots = this.availability?.slots || [];
+  if (slots.some(slot => slot.start && slot.end && slot.end <= slot.start)) {
+    this.invalidate('availability.slots', 'Slot end time must be after its start time');
+  }
+  next();
+});
+
 // Pre-save middleware to hash password
 userSchema.pre('save', async function(next) {
   if (!this.isModified('password')) return next();
@@ -115,39 +288,312 @@ userSchema.methods.updateLastActive = function() {
   return this.save();
 };
 
-// Method to update rating
-userSchema.methods.updateRating = function(newRating) {
-  const totalRating = this.rating * this.reviewCount + newRating;
-  this.reviewCount += 1;
-  this.rating = totalRating / this.reviewCount;
+// Static method to reserve the next realtime event number for a user
+userSchema.statics.nextEventSeq = async function(userId) {
+  const user = await this.findByIdAndUpdate(
+    userId,
+    { $inc: { eventSeq: 1 } },
+    { new: true, timestamps: false, projection: { eventSeq: 1 } }
+  );
+  return user ? user.eventSeq : null;
+};
+
+// Static method to get the number of the last realtime event sent to a user
+userSchema.statics.getEventSeq = async function(userId) {
+  const user = await this.findById(userId).select('+eventSeq');
+  return user ? user.eventSeq : 0;
+};
+
+// Method to check whether the user wants notifications of `type` emailed
+userSchema.methods.wantsEmailFor = function(type) {
+  return !(this.emailPreferences?.disabledTypes || []).includes(type);
+};
+
+// Method to generate a new calendar feed token (invalidates the old feed URL)
+userSchema.methods.generateCalendarToken = function() {
+  this.calendarToken = crypto.randomBytes(24).toString('hex');
   return this.save();
 };
 
-// Static method to find users by skill
-userSchema.statics.findBySkill = function(skill, type = 'offered') {
-  const field = type === 'wanted' ? 'skillsWanted' : 'skillsOffered';
-  return this.find({
-    [field]: { $regex: skill, $options: 'i' },
+// Method to get the level the user teaches one of their offered skills at,
+// matched by name or alias; null if unknown or not offered
+userSchema.methods.getOfferedSkillLevel = async function(skillName) {
+  const skill = await Skill.findByName(skillName);
+  if (!skill) return null;
+
+  const index = this.offeredSkillIds.findIndex(id => id.equals(skill._id));
+  return index >= 0 ? this.offeredSkillDetails[index]?.level || null : null;
+};
+
+// Method to check whether the user offers a skill, by any of its names
+userSchema.methods.offersSkill = async function(skillName) {
+  const skill = await Skill.findByName(skillName);
+  return Boolean(skill) && this.offeredSkillIds.some(id => id.equals(skill._id));
+};
+
+// Link skill entries (names or objects with details) to canonical skills.
+// Entries given as plain names keep the details they had in `previous`.
+const resolveSkillEntries = async (rawEntries, entries, previous) => {
+  const previousById = new Map((previous || []).map(detail => [detail.skillId.toString(), detail]));
+  const result = { names: [], ids: [], details: [] };
+
+  for (const [index, entry] of entries.entries()) {
+    const [skill] = await Skill.resolveMany([entry.name]);
+    if (!skill || result.ids.some(id => id.equals(skill._id))) continue;
+
+    const { name, ...details } = entry;
+    const kept = typeof rawEntries[index] === 'string' && previousById.get(skill._id.toString());
+    result.names.push(skill.name);
+    result.ids.push(skill._id);
+    result.details.push(kept ? { ...(kept.toObject ? kept.toObject() : kept), skillId: skill._id } : { ...details, skillId: skill._id });
+  }
+
+  return result;
+};
+
+// Static method to canonicalize skill entries in profile data. skillsOffered and
+// skillsWanted may hold names or objects with levels; they are replaced with
+// canonical names and the matching ID and detail fields are set. Pass the
+// existing user to keep details for skills sent as plain names.
+userSchema.statics.resolveSkillFields = async function(data, existing = null) {
+  if (Array.isArray(data.skillsOffered)) {
+    const entries = normalizeOfferedSkills(data.skillsOffered);
+    const offered = await resolveSkillEntries(data.skillsOffered, entries, existing?.offeredSkillDetails);
+    data.skillsOffered = offered.names;
+    data.offeredSkillIds = offered.ids;
+    data.offeredSkillDetails = offered.details;
+  }
+  if (Array.isArray(data.skillsWanted)) {
+    const entries = normalizeWantedSkills(data.skillsWanted);
+    const wanted = await resolveSkillEntries(data.skillsWanted, entries, existing?.wantedSkillDetails);
+    data.skillsWanted = wanted.names;
+    data.wantedSkillIds = wanted.ids;
+    data.wantedSkillDetails = wanted.details;
+  }
+  return data;
+};
+
+// Static method to build the condition for a skill entry of the given type,
+// optionally requiring its level (or target level, for wanted skills) to be at least minLevel
+userSchema.statics.buildSkillCondition = function(skillIds, type = 'offered', minLevel = null) {
+  if (!minLevel) {
+    const field = type === 'wanted' ? 'wantedSkillIds' : 'offeredSkillIds';
+    return { [field]: { $in: skillIds } };
+  }
+
+  const [field, levelField] = type === 'wanted'
+    ? ['wantedSkillDetails', 'targetLevel']
+    : ['offeredSkillDetails', 'level'];
+  return {
+    [field]: { $elemMatch: { skillId: { $in: skillIds }, [levelField]: { $in: levelsAtLeast(minLevel) } } }
+  };
+};
+
+// Static method to build the query for users offering or wanting a skill,
+// matched by name or alias, including more specific child skills
+userSchema.statics.buildSkillQuery = async function(skill, type = 'offered', minLevel = null) {
+  const skillIds = await Skill.withDescendants(await Skill.findMatchingIds(skill));
+  return {
+    ...this.buildSkillCondition(skillIds, type, minLevel),
     isPublic: true,
     isBanned: false
-  });
+  };
 };
 
-// Static method to find users for skill matching
-userSchema.statics.findSkillMatches = function(userId) {
-  return this.findById(userId).then(user => {
-    if (!user) return [];
-    
-    return this.find({
-      _id: { $ne: userId },
-      isPublic: true,
-      isBanned: false,
-      $or: [
-        { skillsOffered: { $in: user.skillsWanted } },
-        { skillsWanted: { $in: user.skillsOffered } }
-      ]
-    });
+// Static method to find users by skill
+userSchema.statics.findBySkill = async function(skill, type = 'offered', minLevel = null) {
+  return this.find(await this.buildSkillQuery(skill, type, minLevel));
+};
+
+// Spread each skill's level over the skills `expand` relates it to, keeping the
+// highest level per skill. Returns a map from skill ID to level.
+const expandSkillLevels = async (skillIds = [], levels = [], expand) => {
+  const result = new Map();
+  for (const [index, skillId] of skillIds.entries()) {
+    const level = levels[index];
+    if (!level) continue;
+
+    for (const id of await expand([skillId])) {
+      const key = id.toString();
+      if (getLevelRank(level) > getLevelRank(result.get(key))) {
+        result.set(key, level);
+      }
+    }
+  }
+  return result;
+};
+
+// Static method to expand a user's skills through the taxonomy for matching.
+// Wanting a skill also matches people offering its child skills, and
+// offering a skill matches people wanting any of its parents. Levels are
+// expanded the same way, so wanting advanced JavaScript needs an advanced
+// React teacher.
+userSchema.statics.getSkillMatchContext = async function(user) {
+  return {
+    wantedIds: await Skill.withDescendants(user.wantedSkillIds),
+    offeredIds: await Skill.withAncestors(user.offeredSkillIds),
+    wantedLevels: await expandSkillLevels(
+      user.wantedSkillIds,
+      user.wantedSkillIds.map((_, index) => user.wantedSkillDetails?.[index]?.targetLevel),
+      ids => Skill.withDescendants(ids)
+    ),
+    offeredLevels: await expandSkillLevels(
+      user.offeredSkillIds,
+      user.offeredSkillIds.map((_, index) => user.offeredSkillDetails?.[index]?.level),
+      ids => Skill.withAncestors(ids)
+    )
+  };
+};
+
+// Static method to build the query for users whose skills complement the given user's
+userSchema.statics.buildSkillMatchQuery = async function(user, context = null) {
+  const { wantedIds, offeredIds } = context || await this.getSkillMatchContext(user);
+
+  return {
+    _id: { $ne: user._id },
+    isPublic: true,
+    isBanned: false,
+    $or: [
+      { offeredSkillIds: { $in: wantedIds } },
+      { wantedSkillIds: { $in: offeredIds } }
+    ]
+  };
+};
+
+// Static method to get the ids of users the given user has blocked or been blocked by
+userSchema.statics.getBlockedIds = async function(userId) {
+  const [user, blockedBy] = await Promise.all([
+    this.findById(userId).select('blockedUsers').lean(),
+    this.find({ blockedUsers: userId }).distinct('_id')
+  ]);
+  return [...(user?.blockedUsers || []), ...blockedBy];
+};
+
+// Static method to check whether either of two users has blocked the other
+userSchema.statics.isBlockedBetween = async function(userId, otherUserId) {
+  const block = await this.exists({
+    $or: [
+      { _id: userId, blockedUsers: otherUserId },
+      { _id: otherUserId, blockedUsers: userId }
+    ]
   });
+  return Boolean(block);
+};
+
+// Static method to find users for skill matching, scored and sorted best first.
+// Only the most recently active candidates are scored, as ranking happens in memory.
+userSchema.statics.findSkillMatches = async function(userId, now = new Date()) {
+  const user = await this.findById(userId);
+  if (!user) return [];
+
+  const context = await this.getSkillMatchContext(user);
+  const query = await this.buildSkillMatchQuery(user, context);
+  query._id = { ...query._id, $nin: await this.getBlockedIds(user._id) };
+  const candidates = await this.find(query)
+    .sort({ lastActive: -1 })
+    .limit(MATCH_CANDIDATE_LIMIT)
+    .select('name email location photo skillsOffered skillsWanted offeredSkillIds wantedSkillIds offeredSkillDetails wantedSkillDetails availability rating averageRating reviewCount lastActive createdAt');
+
+  return rankMatches(user, candidates, context, now);
+};
+
+// Static method to find skill swap rings (3+ people) that include the user.
+// Only the most recently active users are searched to keep the graph small.
+userSchema.statics.findSwapCycles = async function(userId, options = {}) {
+  const fields = 'name photo rating skillsOffered offeredSkillIds wantedSkillIds offeredSkillDetails wantedSkillDetails';
+  const user = await this.findById(userId).select(fields).lean();
+  if (!user) return [];
+
+  const candidates = await this.find({
+    _id: { $ne: userId, $nin: await this.getBlockedIds(userId) },
+    isPublic: true,
+    isBanned: false,
+    'offeredSkillIds.0': { $exists: true },
+    'wantedSkillIds.0': { $exists: true }
+  })
+    .sort({ lastActive: -1 })
+    .limit(CYCLE_CANDIDATE_LIMIT)
+    .select(fields)
+    .lean();
+
+  const pool = [user, ...candidates];
+  const byId = new Map(pool.map(member => [member._id.toString(), member]));
+  const toSummary = (id) => {
+    const { _id, name, photo, rating } = byId.get(id);
+    return { _id, name, photo, rating };
+  };
+
+  return findCycles(userId, pool, options).map(ring => ring.map(member => ({
+    ...member,
+    user: toSummary(member.userId),
+    learner: toSummary(member.teachesTo)
+  })));
+};
+
+// Static method to count users per canonical skill
+userSchema.statics.getPopularSkills = function(type = 'offered', limit = 10) {
+  const field = type === 'wanted' ? '$wantedSkillIds' : '$offeredSkillIds';
+  return this.aggregate([
+    { $unwind: field },
+    { $group: { _id: field, count: { $sum: 1 } } },
+    { $sort: { count: -1 } },
+    { $limit: limit },
+    { $lookup: { from: 'skills', localField: '_id', foreignField: '_id', as: 'skill' } },
+    { $unwind: '$skill' },
+    { $project: { _id: 1, count: 1, name: '$skill.name', category: '$skill.category' } }
+  ]);
+};
+
+// Static method to link skills of users created before the taxonomy or skill levels existed
+userSchema.statics.migrateSkillReferences = async function() {
+  const users = await this.find({
+    $or: [
+      { $expr: { $ne: [{ $size: { $ifNull: ['$skillsOffered', []] } }, { $size: { $ifNull: ['$offeredSkillIds', []] } }] } },
+      { $expr: { $ne: [{ $size: { $ifNull: ['$skillsWanted', []] } }, { $size: { $ifNull: ['$wantedSkillIds', []] } }] } },
+      { $expr: { $ne: [{ $size: { $ifNull: ['$skillsOffered', []] } }, { $size: { $ifNull: ['$offeredSkillDetails', []] } }] } },
+      { $expr: { $ne: [{ $size: { $ifNull: ['$skillsWanted', []] } }, { $size: { $ifNull: ['$wantedSkillDetails', []] } }] } }
+    ]
+  }).select('skillsOffered skillsWanted offeredSkillDetails wantedSkillDetails');
+
+  for (const user of users) {
+    const data = await this.resolveSkillFields({
+      skillsOffered: user.skillsOffered,
+      skillsWanted: user.skillsWanted
+    }, user);
+    await this.updateOne({ _id: user._id }, data);
+  }
+
+  return users.length;
+};
+
+// Static method to mark users created before email verification existed as
+// verified. Works on the raw collection so the schema default doesn't apply.
+userSchema.statics.markLegacyEmailsVerified = async function() {
+  const result = await this.collection.updateMany(
+    { emailVerified: { $exists: false } },
+    { $set: { emailVerified: true } }
+  );
+  return result.modifiedCount;
+};
+
+// Static method to convert users still stored with the old single-value
+// availability ('weekdays', 'weekends', 'evenings', 'flexible') to weekly slots.
+// Works on the raw collection because those documents don't match the schema.
+userSchema.statics.migrateLegacyAvailability = async function() {
+  const legacyUsers = await this.collection
+    .find({ availability: { $type: 'string' } }, { projection: { availability: 1 } })
+    .toArray();
+
+  if (legacyUsers.length === 0) return 0;
+
+  await this.collection.bulkWrite(legacyUsers.map(user => ({
+    updateOne: {
+      filter: { _id: user._id },
+      update: { $set: { availability: presetToAvailability(user.availability) } }
+    }
+  })));
+
+  return legacyUsers.length;
 };
 
 const User = mongoose.model('User', userSchema);
@@ -0,0 +1,45 @@
+import mongoose from 'mongoose';
+
+// Realtime events as pushed to a user, numbered per user so a client that
+// was offline can ask for everything after the last number it saw. Old
+// events are removed by a TTL index; clients further behind resync fully.
+export const USER_EVENT_RETENTION_SECONDS = 3 * 24 * 60 * 60;
+
+const userEventSchema = new mongoose.Schema({
+  userId: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User',
+    required: true
+  },
+  seq: {
+    type: Number,
+    required: true
+  },
+  event: {
+    type: String,
+    required: true
+  },
+  payload: {
+    type: mongoose.Schema.Types.Mixed,
+    default: {}
+  },
+  createdAt: {
+    type: Date,
+    default: Date.now
+  }
+});
+
+userEventSchema.index({ userId: 1, seq: 1 }, { unique: true });
+userEventSchema.index({ createdAt: 1 }, { expireAfterSeconds: USER_EVENT_RETENTION_SECONDS });
+
+// Static method to find a user's events after `afterSeq`, oldest first
+userEventSchema.statics.findAfter = function(userId, afterSeq, limit) {
+  return this.find({ userId, seq: { $gt: afterSeq } })
+    .sort({ seq: 1 })
+    .limit(limit)
+    .lean();
+};
+
+const UserEvent = mongoose.model('UserEvent', userEventSchema);
+
+export default UserEvent;
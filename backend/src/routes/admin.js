@@ -1,16 +1,81 @@
 import express from 'express';
 import { body, param, query, validationResult } from 'express-validator';
 import User from '../models/User.js';
-import SwapRequest from '../models/SwapRequest.js';
+import SwapRequest, { SWAP_STATUSES } from '../models/SwapRequest.js';
 import AdminMessage from '../models/AdminMessage.js';
+import AuthSession from '../models/AuthSession.js';
+import Session from '../models/Session.js';
+import Review from '../models/Review.js';
+import Report, { REPORT_ACTIONS, REPORT_CATEGORIES, REPORT_STATUSES, REPORT_TARGET_TYPES, OPEN_REPORT_STATUSES } from '../models/Report.js';
+import Skill, { normalizeSkillName } from '../models/Skill.js';
 import Notification from '../models/Notification.js';
+import { emitNotifications } from '../services/notificationService.js';
+import { finalizeCompletion } from '../services/swapCompletion.js';
+import { refundSwapCredits } from '../services/ledger.js';
 import { protect, admin } from '../middleware/auth.js';
+import { disconnectUser } from '../socket/auth.js';
+import { emitToUsers } from '../services/userEvents.js';
 
 const router = express.Router();
 
 // Apply admin middleware to all routes
 router.use(protect, admin);
 
+// Find another skill already using one of the given names as its name or alias
+const findConflictingSkill = (names, excludeId = null) => {
+  const keys = names.map(normalizeSkillName).filter(Boolean);
+  const query = { $or: [{ key: { $in: keys } }, { aliasKeys: { $in: keys } }] };
+  if (excludeId) {
+    query._id = { $ne: excludeId };
+  }
+  return Skill.findOne(query);
+};
+
+// Check that `parentId` exists and isn't the skill itself or one of its descendants
+const validateParent = async (parentId, skill = null) => {
+  if (!(await Skill.exists({ _id: parentId }))) {
+    return 'Parent skill not found';
+  }
+  if (skill) {
+    const descendants = await Skill.withDescendants([skill._id]);
+    if (descendants.some(id => id.equals(parentId))) {
+      return 'A skill cannot be nested under itself or one of its children';
+    }
+  }
+  return null;
+};
+
+// Why the user can't be banned, or null if they can
+const getBanError = (user) => {
+  if (user.isBanned) return 'User is already banned';
+  if (user.isAdmin) return 'Cannot ban admin users';
+  return null;
+};
+
+// Ban the user, recording why and by whom, log them out everywhere and call
+// off their upcoming sessions
+const banUser = async (req, user, reason) => {
+  user.isBanned = true;
+  user.banReason = reason || null;
+  user.bannedBy = req.user._id;
+  user.bannedAt = new Date();
+  await user.save();
+  await AuthSession.revokeAllForUser(user._id);
+  await Session.cancelForUser(user._id);
+  await disconnectUser(req.app.get('io'), user._id);
+};
+
+// Everything the report queue shows about a report. The target select covers
+// each kind of target: user name, review comment, message body or swap terms.
+const REPORT_POPULATE = [
+  { path: 'reporterId', select: 'name email' },
+  { path: 'reportedUserId', select: 'name email isBanned' },
+  { path: 'assignedTo', select: 'name' },
+  { path: 'resolvedBy', select: 'name' },
+  { path: 'actions.takenBy', select: 'name' },
+  { path: 'targetId', select: 'name comment rating moderation.isHidden body skillOffered skillWanted status' }
+];
+
 // @route   GET /api/admin/dashboard
 // @desc    Get admin dashboard statistics
 // @access  Admin
@@ -27,6 +92,10 @@ router.get('/dashboard', async (req, res) => {
     const totalSwaps = await SwapRequest.countDocuments();
     const completedSwaps = await SwapRequest.countDocuments({ status: 'completed' });
     const pendingSwaps = await SwapRequest.countDocuments({ status: 'pending' });
+    const disputedSwaps = await SwapRequest.countDocuments({ status: 'disputed' });
+
+    // Get report statistics
+    const openReports = await Report.countDocuments({ status: { $in: OPEN_REPORT_STATUSES } });
 
     // Get recent activity
     const recentUsers = await User.find()
@@ -41,19 +110,8 @@ router.get('/dashboard', async (req, res) => {
       .populate('toUserId', 'name email');
 
     // Get popular skills
-    const popularOfferedSkills = await User.aggregate([
-      { $unwind: '$skillsOffered' },
-      { $group: { _id: '$skillsOffered', count: { $sum: 1 } } },
-      { $sort: { count: -1 } },
-      { $limit: 5 }
-    ]);
-
-    const popularWantedSkills = await User.aggregate([
-      { $unwind: '$skillsWanted' },
-      { $group: { _id: '$skillsWanted', count: { $sum: 1 } } },
-      { $sort: { count: -1 } },
-      { $limit: 5 }
-    ]);
+    const popularOfferedSkills = await User.getPopularSkills('offered', 5);
+    const popularWantedSkills = await User.getPopularSkills('wanted', 5);
 
     res.json({
       success: true,
@@ -68,8 +126,12 @@ router.get('/dashboard', async (req, res) => {
           total: totalSwaps,
           completed: completedSwaps,
           pending: pendingSwaps,
+          disputed: disputedSwaps,
           stats: swapStats
         },
+        reports: {
+          open: openReports
+        },
         recentActivity: {
           users: recentUsers,
           swaps: recentSwaps
@@ -134,6 +196,7 @@ router.get('/users', [
     // Execute query
     const users = await User.find(query)
       .select('-password')
+      .populate('bannedBy', 'name')
       .sort({ createdAt: -1 })
       .skip(skip)
       .limit(parseInt(limit));
@@ -197,25 +260,16 @@ router.put('/users/:id/ban', [
       });
     }
 
-    // Check if user is already banned
-    if (user.isBanned) {
+    const banError = getBanError(user);
+    if (banError) {
       return res.status(400).json({
         success: false,
-        message: 'User is already banned'
+        message: banError
       });
     }
 
-    // Check if trying to ban an admin
-    if (user.isAdmin) {
-      return res.status(400).json({
-        success: false,
-        message: 'Cannot ban admin users'
-      });
-    }
-
-    // Ban the user
-    user.isBanned = true;
-    await user.save();
+    await banUser(req, user, reason);
+    await user.populate('bannedBy', 'name');
 
     res.json({
       success: true,
@@ -265,6 +319,9 @@ router.put('/users/:id/unban', [
 
     // Unban the user
     user.isBanned = false;
+    user.banReason = null;
+    user.bannedBy = null;
+    user.bannedAt = null;
     await user.save();
 
     res.json({
@@ -330,7 +387,7 @@ router.put('/users/:id/role', [
 // @desc    Get all swap requests with filtering
 // @access  Admin
 router.get('/swaps', [
-  query('status').optional().isIn(['pending', 'accepted', 'rejected', 'completed', 'cancelled']).withMessage('Invalid status'),
+  query('status').optional().isIn(SWAP_STATUSES).withMessage('Invalid status'),
   query('page').optional().isInt({ min: 1 }).withMessage('Page must be a positive integer'),
   query('limit').optional().isInt({ min: 1, max: 100 }).withMessage('Limit must be between 1 and 100')
 ], async (req, res) => {
@@ -392,6 +449,543 @@ router.get('/swaps', [
   }
 });
 
+// @route   GET /api/admin/disputes
+// @desc    Get disputed swap completions, oldest first
+// @access  Admin
+router.get('/disputes', [
+  query('page').optional().isInt({ min: 1 }).withMessage('Page must be a positive integer'),
+  query('limit').optional().isInt({ min: 1, max: 100 }).withMessage('Limit must be between 1 and 100')
+], async (req, res) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        success: false,
+        message: 'Validation error',
+        errors: errors.array()
+      });
+    }
+
+    const { page = 1, limit = 20 } = req.query;
+    const skip = (page - 1) * limit;
+    const query = { status: 'disputed' };
+
+    const disputes = await SwapRequest.find(query)
+      .populate('fromUserId', 'name email')
+      .populate('toUserId', 'name email')
+      .populate('completion.requestedBy', 'name')
+      .populate('dispute.raisedBy', 'name')
+      .sort({ 'dispute.raisedAt': 1 })
+      .skip(skip)
+      .limit(parseInt(limit));
+
+    const total = await SwapRequest.countDocuments(query);
+
+    // Calculate pagination info
+    const totalPages = Math.ceil(total / limit);
+    const hasNextPage = page < totalPages;
+    const hasPrevPage = page > 1;
+
+    res.json({
+      success: true,
+      data: {
+        disputes,
+        pagination: {
+          currentPage: parseInt(page),
+          totalPages,
+          totalDisputes: total,
+          hasNextPage,
+          hasPrevPage,
+          limit: parseInt(limit)
+        }
+      }
+    });
+  } catch (error) {
+    console.error('Get disputes error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Server error'
+    });
+  }
+});
+
+const RESOLUTION_MESSAGES = {
+  completed: 'Swap completed',
+  reopened: 'Swap reopened',
+  cancelled: 'Swap cancelled'
+};
+
+// @route   PUT /api/admin/disputes/:id/resolve
+// @desc    Resolve a disputed completion by completing the swap, reopening it,
+//          or cancelling it and refunding the learner's held ByteBucks
+// @access  Admin
+router.put('/disputes/:id/resolve', [
+  param('id').isMongoId().withMessage('Invalid swap request ID'),
+  body('resolution').isIn(['completed', 'reopened', 'cancelled']).withMessage('Resolution must be completed, reopened or cancelled'),
+  body('note').optional().trim().isLength({ max: 500 }).withMessage('Note cannot exceed 500 characters')
+], async (req, res) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        success: false,
+        message: 'Validation error',
+        errors: errors.array()
+      });
+    }
+
+    const { resolution, note } = req.body;
+
+    const swapRequest = await SwapRequest.findById(req.params.id);
+    if (!swapRequest) {
+      return res.status(404).json({
+        success: false,
+        message: 'Swap request not found'
+      });
+    }
+
+    const io = req.app.get('io');
+    if (resolution === 'completed') {
+      // Participants hear about the resolution below rather than the completion
+      await finalizeCompletion(io, swapRequest, { action: 'resolveCompleted', actor: req.user, reason: note || null, notify: false });
+    } else {
+      if (resolution === 'cancelled') {
+        // Cancel before refunding so a refund is only posted once nothing
+        // else can still pay the held credits out
+        await swapRequest.transition('resolveCancelled', req.user, { reason: note || null });
+        if (swapRequest.paymentType === 'credits') {
+          await refundSwapCredits(swapRequest);
+        }
+      } else {
+        await swapRequest.transition('resolveReopened', req.user, { reason: note || null });
+      }
+      await swapRequest.populate('fromUserId', 'name email photo');
+      await swapRequest.populate('toUserId', 'name email photo');
+    }
+
+    // Let both participants know the outcome
+    const participantIds = [swapRequest.fromUserId._id, swapRequest.toUserId._id];
+    const notifications = await Promise.all(participantIds.map(userId =>
+      Notification.createSwapCompletionNotification(userId, 'swap_dispute_resolved', swapRequest._id, { resolution })
+    ));
+    await emitNotifications(io, notifications);
+    await emitToUsers(io, participantIds, 'swap-request-updated', {
+      swapRequest,
+      action: resolution,
+      updatedBy: {
+        id: req.user._id,
+        name: req.user.name,
+        photo: req.user.photo
+      }
+    });
+
+    res.json({
+      success: true,
+      message: RESOLUTION_MESSAGES[resolution],
+      data: { swapRequest }
+    });
+  } catch (error) {
+    if (error.code === 'INVALID_TRANSITION') {
+      return res.status(error.statusCode).json({
+        success: false,
+        message: error.message
+      });
+    }
+    if (error.code === 'TRANSACTION_IN_PROGRESS') {
+      return res.status(409).json({
+        success: false,
+        message: error.message
+      });
+    }
+    console.error('Resolve dispute error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Server error'
+    });
+  }
+});
+
+// @route   GET /api/admin/reviews
+// @desc    Get hidden reviews, most recently hidden first. Reported reviews
+//          are in the report queue.
+// @access  Admin
+router.get('/reviews', [
+  query('page').optional().isInt({ min: 1 }).withMessage('Page must be a positive integer'),
+  query('limit').optional().isInt({ min: 1, max: 100 }).withMessage('Limit must be between 1 and 100')
+], async (req, res) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        success: false,
+        message: 'Validation error',
+        errors: errors.array()
+      });
+    }
+
+    const { page = 1, limit = 20 } = req.query;
+    const skip = (page - 1) * limit;
+    const query = { 'moderation.isHidden': true };
+
+    const reviews = await Review.find(query)
+      .populate('reviewerId', 'name email')
+      .populate('revieweeId', 'name email')
+      .populate('moderation.hiddenBy', 'name')
+      .sort({ 'moderation.hiddenAt': -1 })
+      .skip(skip)
+      .limit(parseInt(limit));
+
+    const total = await Review.countDocuments(query);
+
+    // Calculate pagination info
+    const totalPages = Math.ceil(total / limit);
+    const hasNextPage = page < totalPages;
+    const hasPrevPage = page > 1;
+
+    res.json({
+      success: true,
+      data: {
+        reviews,
+        pagination: {
+          currentPage: parseInt(page),
+          totalPages,
+          totalReviews: total,
+          hasNextPage,
+          hasPrevPage,
+          limit: parseInt(limit)
+        }
+      }
+    });
+  } catch (error) {
+    console.error('Get reviews error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Server error'
+    });
+  }
+});
+
+// @route   PUT /api/admin/reviews/:id/moderate
+// @desc    Hide a review from profiles and ratings, or show it again
+// @access  Admin
+router.put('/reviews/:id/moderate', [
+  param('id').isMongoId().withMessage('Invalid review ID'),
+  body('action').isIn(['hide', 'unhide']).withMessage('Action must be hide or unhide'),
+  body('reason').optional().trim().isLength({ max: 500 }).withMessage('Reason cannot exceed 500 characters')
+], async (req, res) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        success: false,
+        message: 'Validation error',
+        errors: errors.array()
+      });
+    }
+
+    const { action, reason } = req.body;
+
+    const review = await Review.findById(req.params.id);
+    if (!review) {
+      return res.status(404).json({
+        success: false,
+        message: 'Review not found'
+      });
+    }
+
+    const wasHidden = review.moderation.isHidden;
+    await review.moderate(action === 'hide', req.user._id, reason || null);
+    if (wasHidden !== review.moderation.isHidden) {
+      await Review.syncUserRating(review.revieweeId);
+    }
+
+    await review.populate([
+      { path: 'reviewerId', select: 'name email' },
+      { path: 'revieweeId', select: 'name email' },
+      { path: 'moderation.hiddenBy', select: 'name' }
+    ]);
+
+    res.json({
+      success: true,
+      message: action === 'hide' ? 'Review hidden' : 'Review visible again',
+      data: { review }
+    });
+  } catch (error) {
+    console.error('Moderate review error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Server error'
+    });
+  }
+});
+
+// @route   GET /api/admin/reports
+// @desc    Get the report queue: open and in-review reports (default), one status, or all
+// @access  Admin
+router.get('/reports', [
+  query('status').optional().isIn(['active', 'all', ...REPORT_STATUSES]).withMessage('Invalid report status'),
+  query('targetType').optional().isIn(REPORT_TARGET_TYPES).withMessage('Invalid target type'),
+  query('category').optional().isIn(REPORT_CATEGORIES).withMessage('Invalid category'),
+  query('assignee').optional().isIn(['me', 'unassigned']).withMessage('Assignee must be me or unassigned'),
+  query('page').optional().isInt({ min: 1 }).withMessage('Page must be a positive integer'),
+  query('limit').optional().isInt({ min: 1, max: 100 }).withMessage('Limit must be between 1 and 100')
+], async (req, res) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        success: false,
+        message: 'Validation error',
+        errors: errors.array()
+      });
+    }
+
+    const { status = 'active', targetType, category, assignee, page = 1, limit = 20 } = req.query;
+    const skip = (page - 1) * limit;
+
+    let query = {};
+    if (status === 'active') {
+      query.status = { $in: OPEN_REPORT_STATUSES };
+    } else if (status !== 'all') {
+      query.status = status;
+    }
+    if (targetType) {
+      query.targetType = targetType;
+    }
+    if (category) {
+      query.category = category;
+    }
+    if (assignee === 'me') {
+      query.assignedTo = req.user._id;
+    } else if (assignee === 'unassigned') {
+      query.assignedTo = null;
+    }
+
+    // The open queue is worked oldest first; closed reports are listed newest first
+    const reports = await Report.find(query)
+      .populate(REPORT_POPULATE)
+      .sort({ createdAt: status === 'active' ? 1 : -1 })
+      .skip(skip)
+      .limit(parseInt(limit));
+
+    const total = await Report.countDocuments(query);
+    const totalPages = Math.ceil(total / limit);
+
+    res.json({
+      success: true,
+      data: {
+        reports,
+        pagination: {
+          currentPage: parseInt(page),
+          totalPages,
+          totalReports: total,
+          hasNextPage: page < totalPages,
+          hasPrevPage: page > 1,
+          limit: parseInt(limit)
+        }
+      }
+    });
+  } catch (error) {
+    console.error('Get reports error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Server error'
+    });
+  }
+});
+
+// @route   PUT /api/admin/reports/:id
+// @desc    Assign a report, change its status or record how it was resolved
+// @access  Admin
+router.put('/reports/:id', [
+  param('id').isMongoId().withMessage('Invalid report ID'),
+  body('assignedTo').optional({ nullable: true }).isMongoId().withMessage('Invalid assignee ID'),
+  body('status').optional().isIn(REPORT_STATUSES).withMessage('Invalid report status'),
+  body('resolutionNote').optional().trim().isLength({ max: 1000 }).withMessage('Resolution note cannot exceed 1000 characters')
+], async (req, res) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        success: false,
+        message: 'Validation error',
+        errors: errors.array()
+      });
+    }
+
+    const { assignedTo, status, resolutionNote } = req.body;
+
+    const report = await Report.findById(req.params.id);
+    if (!report) {
+      return res.status(404).json({
+        success: false,
+        message: 'Report not found'
+      });
+    }
+
+    if (assignedTo !== undefined) {
+      if (assignedTo && !(await User.exists({ _id: assignedTo, isAdmin: true }))) {
+        return res.status(400).json({
+          success: false,
+          message: 'Reports can only be assigned to admins'
+        });
+      }
+      report.assignedTo = assignedTo;
+      // Picking up an untouched report starts reviewing it
+      if (assignedTo && report.status === 'open' && !status) {
+        report.status = 'in_review';
+      }
+    }
+
+    if (resolutionNote !== undefined) {
+      report.resolutionNote = resolutionNote || null;
+    }
+
+    if (status && status !== report.status) {
+      report.setStatus(status, req.user._id);
+    }
+
+    await report.save();
+    await report.populate(REPORT_POPULATE);
+
+    res.json({
+      success: true,
+      message: 'Report updated',
+      data: { report }
+    });
+  } catch (error) {
+    console.error('Update report error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Server error'
+    });
+  }
+});
+
+// @route   POST /api/admin/reports/:id/actions
+// @desc    Take a moderation action on a report: ban the reported user or hide the reported review
+// @access  Admin
+router.post('/reports/:id/actions', [
+  param('id').isMongoId().withMessage('Invalid report ID'),
+  body('action').isIn(REPORT_ACTIONS).withMessage(`Action must be one of: ${REPORT_ACTIONS.join(', ')}`),
+  body('note').optional().trim().isLength({ max: 200 }).withMessage('Note cannot exceed 200 characters')
+], async (req, res) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        success: false,
+        message: 'Validation error',
+        errors: errors.array()
+      });
+    }
+
+    const { action, note } = req.body;
+
+    const report = await Report.findById(req.params.id);
+    if (!report) {
+      return res.status(404).json({
+        success: false,
+        message: 'Report not found'
+      });
+    }
+
+    if (action === 'ban_user') {
+      const user = await User.findById(report.reportedUserId);
+      if (!user) {
+        return res.status(404).json({
+          success: false,
+          message: 'User not found'
+        });
+      }
+
+      const banError = getBanError(user);
+      if (banError) {
+        return res.status(400).json({
+          success: false,
+          message: banError
+        });
+      }
+
+      await banUser(req, user, note);
+    } else if (action === 'hide_review') {
+      const review = report.targetType === 'review' && await Review.findById(report.targetId);
+      if (!review) {
+        return res.status(400).json({
+          success: false,
+          message: 'Only reported reviews can be hidden'
+        });
+      }
+
+      if (review.moderation.isHidden) {
+        return res.status(400).json({
+          success: false,
+          message: 'Review is already hidden'
+        });
+      }
+
+      await review.moderate(true, req.user._id, note || null);
+      await Review.syncUserRating(review.revieweeId);
+    }
+
+    await report.addAction(action, req.user._id, note || null);
+    await report.populate(REPORT_POPULATE);
+
+    res.json({
+      success: true,
+      message: action === 'ban_user' ? 'User banned' : 'Review hidden',
+      data: { report }
+    });
+  } catch (error) {
+    console.error('Report action error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Server error'
+    });
+  }
+});
+
+// @route   POST /api/admin/ratings/recompute
+// @desc    Recompute user ratings from the stored reviews, for everyone or one user
+// @access  Admin
+router.post('/ratings/recompute', [
+  body('userId').optional().isMongoId().withMessage('Invalid user ID')
+], async (req, res) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        success: false,
+        message: 'Validation error',
+        errors: errors.array()
+      });
+    }
+
+    const { userId } = req.body;
+
+    if (userId && !(await User.exists({ _id: userId }))) {
+      return res.status(404).json({
+        success: false,
+        message: 'User not found'
+      });
+    }
+
+    const { checked, fixed } = await Review.recomputeRatings({ userId });
+
+    res.json({
+      success: true,
+      message: `Recomputed ${checked} rating${checked === 1 ? '' : 's'}, ${fixed} corrected`,
+      data: { checked, fixed }
+    });
+  } catch (error) {
+    console.error('Recompute ratings error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Server error'
+    });
+  }
+});
+
 // @route   POST /api/admin/messages
 // @desc    Create an admin message/announcement
 // @access  Admin
@@ -438,7 +1032,8 @@ router.post('/messages', [
         relatedModel: 'AdminMessage'
       }));
       
-      await Notification.insertMany(notifications);
+      const created = await Notification.insertMany(notifications);
+      await emitNotifications(req.app.get('io'), created);
     } else if (targetUsers.length > 0) {
       // Create notifications for targeted users
       const notifications = targetUsers.map(userId => ({
@@ -450,7 +1045,8 @@ router.post('/messages', [
         relatedModel: 'AdminMessage'
       }));
       
-      await Notification.insertMany(notifications);
+      const created = await Notification.insertMany(notifications);
+      await emitNotifications(req.app.get('io'), created);
     }
 
     res.status(201).json({
@@ -627,4 +1223,192 @@ router.delete('/messages/:id', [
   }
 });
 
+// @route   POST /api/admin/skills
+// @desc    Add a canonical skill to the taxonomy
+// @access  Admin
+router.post('/skills', [
+  body('name').trim().isLength({ min: 1, max: 50 }).withMessage('Name must be between 1 and 50 characters'),
+  body('category').optional().trim().isLength({ min: 1, max: 50 }).withMessage('Category must be between 1 and 50 characters'),
+  body('aliases').optional().isArray().withMessage('Aliases must be an array'),
+  body('aliases.*').trim().isLength({ min: 1, max: 50 }).withMessage('Each alias must be between 1 and 50 characters'),
+  body('parent').optional({ nullable: true }).isMongoId().withMessage('Invalid parent skill ID')
+], async (req, res) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        success: false,
+        message: 'Validation error',
+        errors: errors.array()
+      });
+    }
+
+    const { name, category, aliases = [], parent } = req.body;
+
+    const conflict = await findConflictingSkill([name, ...aliases]);
+    if (conflict) {
+      return res.status(400).json({
+        success: false,
+        message: `"${conflict.name}" already uses this name or alias`
+      });
+    }
+
+    if (parent) {
+      const parentError = await validateParent(parent);
+      if (parentError) {
+        return res.status(400).json({
+          success: false,
+          message: parentError
+        });
+      }
+    }
+
+    const skill = await Skill.create({ name, category, aliases, parent: parent || null });
+
+    res.status(201).json({
+      success: true,
+      message: 'Skill created successfully',
+      data: { skill }
+    });
+  } catch (error) {
+    console.error('Create skill error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Server error'
+    });
+  }
+});
+
+// @route   PUT /api/admin/skills/:id
+// @desc    Rename a skill or change its aliases, category or parent
+// @access  Admin
+router.put('/skills/:id', [
+  param('id').isMongoId().withMessage('Invalid skill ID'),
+  body('name').optional().trim().isLength({ min: 1, max: 50 }).withMessage('Name must be between 1 and 50 characters'),
+  body('category').optional().trim().isLength({ min: 1, max: 50 }).withMessage('Category must be between 1 and 50 characters'),
+  body('aliases').optional().isArray().withMessage('Aliases must be an array'),
+  body('aliases.*').trim().isLength({ min: 1, max: 50 }).withMessage('Each alias must be between 1 and 50 characters'),
+  body('parent').optional({ nullable: true }).isMongoId().withMessage('Invalid parent skill ID')
+], async (req, res) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        success: false,
+        message: 'Validation error',
+        errors: errors.array()
+      });
+    }
+
+    const { name, category, aliases, parent } = req.body;
+
+    const skill = await Skill.findById(req.params.id);
+    if (!skill) {
+      return res.status(404).json({
+        success: false,
+        message: 'Skill not found'
+      });
+    }
+
+    const conflict = await findConflictingSkill([name, ...(aliases || [])].filter(Boolean), skill._id);
+    if (conflict) {
+      return res.status(400).json({
+        success: false,
+        message: `"${conflict.name}" already uses this name or alias. Merge the skills instead.`
+      });
+    }
+
+    if (parent) {
+      const parentError = await validateParent(parent, skill);
+      if (parentError) {
+        return res.status(400).json({
+          success: false,
+          message: parentError
+        });
+      }
+    }
+
+    if (aliases) skill.aliases = aliases;
+    if (category) skill.category = category;
+    if (parent !== undefined) skill.parent = parent;
+
+    // Renaming also saves and updates user profiles
+    if (name && name !== skill.name) {
+      await skill.rename(name);
+    } else {
+      await skill.save();
+    }
+
+    res.json({
+      success: true,
+      message: 'Skill updated successfully',
+      data: { skill }
+    });
+  } catch (error) {
+    console.error('Update skill error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Server error'
+    });
+  }
+});
+
+// @route   POST /api/admin/skills/:id/merge
+// @desc    Merge a skill into another one (e.g. "Javascript" into "JavaScript")
+// @access  Admin
+router.post('/skills/:id/merge', [
+  param('id').isMongoId().withMessage('Invalid skill ID'),
+  body('targetId').isMongoId().withMessage('Invalid target skill ID')
+], async (req, res) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        success: false,
+        message: 'Validation error',
+        errors: errors.array()
+      });
+    }
+
+    if (req.params.id === req.body.targetId) {
+      return res.status(400).json({
+        success: false,
+        message: 'Cannot merge a skill into itself'
+      });
+    }
+
+    const [source, target] = await Promise.all([
+      Skill.findById(req.params.id),
+      Skill.findById(req.body.targetId)
+    ]);
+
+    if (!source || !target) {
+      return res.status(404).json({
+        success: false,
+        message: 'Skill not found'
+      });
+    }
+
+    const { affectedUsers } = await source.mergeInto(target);
+
+    res.json({
+      success: true,
+      message: `Merged "${source.name}" into "${target.name}"`,
+      data: { skill: target, affectedUsers }
+    });
+  } catch (error) {
+    if (error.code === 'INVALID_MERGE') {
+      return res.status(400).json({
+        success: false,
+        message: error.message
+      });
+    }
+    console.error('Merge skills error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Server error'
+    });
+  }
+});
+
 export default router; 
\ No newline at end of file
@@ -1,19 +1,45 @@
 import express from 'express';
-import jwt from 'jsonwebtoken';
-import { body, validationResult } from 'express-validator';
+import { body, param, validationResult } from 'express-validator';
 import User from '../models/User.js';
+import AuthToken from '../models/AuthToken.js';
+import AuthSession from '../models/AuthSession.js';
 import { protect } from '../middleware/auth.js';
 import { uploadSingle } from '../middleware/upload.js';
+import { normalizeAvailability } from '../services/availability.js';
+import { normalizeOfferedSkills, normalizeWantedSkills } from '../services/skillLevels.js';
+import { sendVerificationEmail, sendPasswordResetEmail } from '../services/accountEmails.js';
+import {
+  startSession,
+  refreshSession,
+  generateAccessToken,
+  getRefreshToken,
+  clearRefreshCookie
+} from '../services/authSessions.js';
+import { disconnectUser, disconnectSession } from '../socket/auth.js';
 
 const router = express.Router();
 
-// Generate JWT Token
-const generateToken = (id) => {
-  return jwt.sign({ id }, process.env.JWT_SECRET, {
-    expiresIn: process.env.JWT_EXPIRES_IN || '7d'
-  });
+// Availability may be a legacy preset ('evenings') or { timezone, slots }
+const validateAvailability = (value) => {
+  normalizeAvailability(value);
+  return true;
 };
 
+// Skills may be plain names or objects with a level and teaching credentials
+const validateOfferedSkills = (value) => {
+  normalizeOfferedSkills(value);
+  return true;
+};
+
+const validateWantedSkills = (value) => {
+  normalizeWantedSkills(value);
+  return true;
+};
+
+// The only fields users can change through PUT /profile. Everything else on
+// the user (verification, ratings, bans, blocks) is managed by the server.
+const PROFILE_FIELDS = ['name', 'location', 'availability', 'isPublic', 'photo', 'skillsOffered', 'skillsWanted'];
+
 // @route   POST /api/auth/register
 // @desc    Register user
 // @access  Public
@@ -22,9 +48,9 @@ router.post('/register', [
   body('email').isEmail().normalizeEmail().withMessage('Please provide a valid email'),
   body('password').isLength({ min: 6 }).withMessage('Password must be at least 6 characters long'),
   body('location').optional().trim().isLength({ max: 100 }).withMessage('Location cannot exceed 100 characters'),
-  body('availability').optional().isIn(['weekdays', 'weekends', 'evenings', 'flexible']).withMessage('Invalid availability option'),
-  body('skillsOffered').optional().isArray().withMessage('Skills offered must be an array'),
-  body('skillsWanted').optional().isArray().withMessage('Skills wanted must be an array'),
+  body('availability').optional().custom(validateAvailability),
+  body('skillsOffered').optional().isArray().withMessage('Skills offered must be an array').bail().custom(validateOfferedSkills),
+  body('skillsWanted').optional().isArray().withMessage('Skills wanted must be an array').bail().custom(validateWantedSkills),
   body('isPublic').optional().isBoolean().withMessage('isPublic must be a boolean')
 ], async (req, res) => {
   try {
@@ -48,20 +74,33 @@ router.post('/register', [
       });
     }
 
+    // Link skills to the taxonomy
+    const skills = await User.resolveSkillFields({
+      skillsOffered: skillsOffered || [],
+      skillsWanted: skillsWanted || []
+    });
+
     // Create user
     const user = await User.create({
       name,
       email,
       password,
       location,
-      availability: availability || 'flexible',
-      skillsOffered: skillsOffered || [],
-      skillsWanted: skillsWanted || [],
+      availability: availability ? normalizeAvailability(availability) : undefined,
+      ...skills,
       isPublic: isPublic !== undefined ? isPublic : true
     });
 
-    // Generate token
-    const token = generateToken(user._id);
+    // Email a verification link; signup still succeeds if sending fails,
+    // the user can ask for a new link later
+    try {
+      await sendVerificationEmail(user);
+    } catch (error) {
+      console.error('Verification email error:', error);
+    }
+
+    // Start a session: refresh token in a cookie, access token in the body
+    const token = await startSession(req, res, user);
 
     res.status(201).json({
       success: true,
@@ -75,10 +114,14 @@ router.post('/register', [
           photo: user.photo,
           skillsOffered: user.skillsOffered,
           skillsWanted: user.skillsWanted,
+          offeredSkillDetails: user.offeredSkillDetails,
+          wantedSkillDetails: user.wantedSkillDetails,
           availability: user.availability,
           isPublic: user.isPublic,
           isAdmin: user.isAdmin,
+          emailVerified: user.emailVerified,
           rating: user.rating,
+          averageRating: user.averageRating,
           reviewCount: user.reviewCount,
           joinedAt: user.createdAt
         },
@@ -122,14 +165,6 @@ router.post('/login', [
       });
     }
 
-    // Check if user is banned
-    if (user.isBanned) {
-      return res.status(403).json({
-        success: false,
-        message: 'Your account has been banned'
-      });
-    }
-
     // Check password
     const isMatch = await user.comparePassword(password);
     if (!isMatch) {
@@ -139,11 +174,29 @@ router.post('/login', [
       });
     }
 
+    // Check if user is banned. The details are only shown once the password
+    // matched, so they can't be looked up with just an email address.
+    if (user.isBanned) {
+      await user.populate('bannedBy', 'name');
+      return res.status(403).json({
+        success: false,
+        code: 'ACCOUNT_BANNED',
+        message: 'Your account has been banned',
+        data: {
+          ban: {
+            reason: user.banReason,
+            bannedBy: user.bannedBy ? user.bannedBy.name : null,
+            bannedAt: user.bannedAt
+          }
+        }
+      });
+    }
+
     // Update last active
     await user.updateLastActive();
 
-    // Generate token
-    const token = generateToken(user._id);
+    // Start a session: refresh token in a cookie, access token in the body
+    const token = await startSession(req, res, user);
 
     res.json({
       success: true,
@@ -157,10 +210,14 @@ router.post('/login', [
           photo: user.photo,
           skillsOffered: user.skillsOffered,
           skillsWanted: user.skillsWanted,
+          offeredSkillDetails: user.offeredSkillDetails,
+          wantedSkillDetails: user.wantedSkillDetails,
           availability: user.availability,
           isPublic: user.isPublic,
           isAdmin: user.isAdmin,
+          emailVerified: user.emailVerified,
           rating: user.rating,
+          averageRating: user.averageRating,
           reviewCount: user.reviewCount,
           joinedAt: user.createdAt
         },
@@ -176,6 +233,136 @@ router.post('/login', [
   }
 });
 
+// @route   POST /api/auth/refresh
+// @desc    Exchange the refresh token cookie for a new access token
+// @access  Public (refresh token cookie)
+router.post('/refresh', async (req, res) => {
+  try {
+    const session = await refreshSession(req, res);
+    const user = session && await User.findById(session.userId);
+
+    if (!user || user.isBanned) {
+      if (session) {
+        await session.revoke();
+      }
+      clearRefreshCookie(res);
+      return res.status(401).json({
+        success: false,
+        message: 'Your session has ended, please log in again'
+      });
+    }
+
+    res.json({
+      success: true,
+      data: {
+        token: generateAccessToken(user._id, session._id)
+      }
+    });
+  } catch (error) {
+    console.error('Refresh token error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Server error'
+    });
+  }
+});
+
+// @route   POST /api/auth/logout
+// @desc    End the current session
+// @access  Public (refresh token cookie)
+router.post('/logout', async (req, res) => {
+  try {
+    const refreshToken = getRefreshToken(req);
+    if (refreshToken) {
+      await AuthSession.revokeByToken(refreshToken);
+    }
+    clearRefreshCookie(res);
+
+    res.json({
+      success: true,
+      message: 'Logged out successfully'
+    });
+  } catch (error) {
+    console.error('Logout error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Server error'
+    });
+  }
+});
+
+// @route   GET /api/auth/sessions
+// @desc    List the devices the current user is logged in on
+// @access  Private
+router.get('/sessions', protect, async (req, res) => {
+  try {
+    const sessions = await AuthSession.findActiveForUser(req.user._id);
+
+    res.json({
+      success: true,
+      data: {
+        sessions: sessions.map(session => ({
+          id: session._id,
+          userAgent: session.userAgent,
+          ip: session.ip,
+          createdAt: session.createdAt,
+          lastUsedAt: session.lastUsedAt,
+          isCurrent: session._id.equals(req.sessionId)
+        }))
+      }
+    });
+  } catch (error) {
+    console.error('Get sessions error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Server error'
+    });
+  }
+});
+
+// @route   DELETE /api/auth/sessions/:id
+// @desc    Log out one of the current user's devices
+// @access  Private
+router.delete('/sessions/:id', protect, [
+  param('id').isMongoId().withMessage('Invalid session ID')
+], async (req, res) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        success: false,
+        message: 'Validation error',
+        errors: errors.array()
+      });
+    }
+
+    const session = await AuthSession.findActive(req.params.id);
+    if (!session || !session.userId.equals(req.user._id)) {
+      return res.status(404).json({
+        success: false,
+        message: 'Session not found'
+      });
+    }
+
+    await session.revoke();
+    disconnectSession(req.app.get('io'), session._id);
+    if (session._id.equals(req.sessionId)) {
+      clearRefreshCookie(res);
+    }
+
+    res.json({
+      success: true,
+      message: 'Session ended'
+    });
+  } catch (error) {
+    console.error('Delete session error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Server error'
+    });
+  }
+});
+
 // @route   GET /api/auth/me
 // @desc    Get current user
 // @access  Private
@@ -194,10 +381,14 @@ router.get('/me', protect, async (req, res) => {
           photo: user.photo,
           skillsOffered: user.skillsOffered,
           skillsWanted: user.skillsWanted,
+          offeredSkillDetails: user.offeredSkillDetails,
+          wantedSkillDetails: user.wantedSkillDetails,
           availability: user.availability,
           isPublic: user.isPublic,
           isAdmin: user.isAdmin,
+          emailVerified: user.emailVerified,
           rating: user.rating,
+          averageRating: user.averageRating,
           reviewCount: user.reviewCount,
           joinedAt: user.createdAt
         }
@@ -218,9 +409,9 @@ router.get('/me', protect, async (req, res) => {
 router.put('/profile', protect, uploadSingle, [
   body('name').optional().trim().isLength({ min: 2, max: 50 }).withMessage('Name must be between 2 and 50 characters'),
   body('location').optional().trim().isLength({ max: 100 }).withMessage('Location cannot exceed 100 characters'),
-  body('availability').optional().isIn(['weekdays', 'weekends', 'evenings', 'flexible']).withMessage('Invalid availability option'),
-  body('skillsOffered').optional().isArray().withMessage('Skills offered must be an array'),
-  body('skillsWanted').optional().isArray().withMessage('Skills wanted must be an array'),
+  body('availability').optional().custom(validateAvailability),
+  body('skillsOffered').optional().isArray().withMessage('Skills offered must be an array').bail().custom(validateOfferedSkills),
+  body('skillsWanted').optional().isArray().withMessage('Skills wanted must be an array').bail().custom(validateWantedSkills),
   body('isPublic').optional().isBoolean().withMessage('isPublic must be a boolean')
 ], async (req, res) => {
   try {
@@ -233,7 +424,17 @@ router.put('/profile', protect, uploadSingle, [
       });
     }
 
-    const updateData = { ...req.body };
+    const updateData = {};
+    for (const field of PROFILE_FIELDS) {
+      if (req.body[field] !== undefined) {
+        updateData[field] = req.body[field];
+      }
+    }
+    if (updateData.availability) {
+      updateData.availability = normalizeAvailability(updateData.availability);
+    }
+    // Skill IDs and details are derived from the skill entries, never taken from the client
+    await User.resolveSkillFields(updateData, req.user);
     
     // Handle file upload
     if (req.file) {
@@ -259,10 +460,14 @@ router.put('/profile', protect, uploadSingle, [
           photo: user.photo,
           skillsOffered: user.skillsOffered,
           skillsWanted: user.skillsWanted,
+          offeredSkillDetails: user.offeredSkillDetails,
+          wantedSkillDetails: user.wantedSkillDetails,
           availability: user.availability,
           isPublic: user.isPublic,
           isAdmin: user.isAdmin,
+          emailVerified: user.emailVerified,
           rating: user.rating,
+          averageRating: user.averageRating,
           reviewCount: user.reviewCount,
           joinedAt: user.createdAt
         }
@@ -307,9 +512,11 @@ router.post('/change-password', protect, [
       });
     }
 
-    // Update password
+    // Update password and log out every other device
     user.password = newPassword;
     await user.save();
+    await AuthSession.revokeAllForUser(user._id, req.sessionId);
+    await disconnectUser(req.app.get('io'), user._id, req.sessionId);
 
     res.json({
       success: true,
@@ -324,4 +531,156 @@ router.post('/change-password', protect, [
   }
 });
 
+// @route   POST /api/auth/verify-email
+// @desc    Verify email address with the token from the verification email
+// @access  Public
+router.post('/verify-email', [
+  body('token').isHexadecimal().isLength({ min: 64, max: 64 }).withMessage('Invalid token')
+], async (req, res) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        success: false,
+        message: 'Validation error',
+        errors: errors.array()
+      });
+    }
+
+    const authToken = await AuthToken.consume(req.body.token, 'email_verification');
+    if (!authToken) {
+      return res.status(400).json({
+        success: false,
+        message: 'This verification link is invalid or has expired'
+      });
+    }
+
+    await User.updateOne({ _id: authToken.userId }, { emailVerified: true });
+
+    res.json({
+      success: true,
+      message: 'Email verified successfully'
+    });
+  } catch (error) {
+    console.error('Verify email error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Server error'
+    });
+  }
+});
+
+// @route   POST /api/auth/resend-verification
+// @desc    Send a new verification email
+// @access  Private
+router.post('/resend-verification', protect, async (req, res) => {
+  try {
+    if (req.user.emailVerified) {
+      return res.status(400).json({
+        success: false,
+        message: 'Your email address is already verified'
+      });
+    }
+
+    await sendVerificationEmail(req.user);
+
+    res.json({
+      success: true,
+      message: 'Verification email sent'
+    });
+  } catch (error) {
+    console.error('Resend verification error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Server error'
+    });
+  }
+});
+
+// @route   POST /api/auth/forgot-password
+// @desc    Email a password reset link
+// @access  Public
+router.post('/forgot-password', [
+  body('email').isEmail().normalizeEmail().withMessage('Please provide a valid email')
+], async (req, res) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        success: false,
+        message: 'Validation error',
+        errors: errors.array()
+      });
+    }
+
+    // Same response whether or not the account exists, so the endpoint
+    // can't be used to find out who is registered. The email is sent in the
+    // background so neither SMTP errors nor the time sending takes give it away.
+    const user = await User.findOne({ email: req.body.email });
+    if (user && !user.isBanned) {
+      sendPasswordResetEmail(user).catch((error) => {
+        console.error('Password reset email error:', error);
+      });
+    }
+
+    res.json({
+      success: true,
+      message: 'If an account exists for that email, a reset link has been sent'
+    });
+  } catch (error) {
+    console.error('Forgot password error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Server error'
+    });
+  }
+});
+
+// @route   POST /api/auth/reset-password
+// @desc    Set a new password with the token from the reset email
+// @access  Public
+router.post('/reset-password', [
+  body('token').isHexadecimal().isLength({ min: 64, max: 64 }).withMessage('Invalid token'),
+  body('password').isLength({ min: 6 }).withMessage('Password must be at least 6 characters long')
+], async (req, res) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        success: false,
+        message: 'Validation error',
+        errors: errors.array()
+      });
+    }
+
+    const authToken = await AuthToken.consume(req.body.token, 'password_reset');
+    const user = authToken && await User.findById(authToken.userId);
+    if (!user) {
+      return res.status(400).json({
+        success: false,
+        message: 'This reset link is invalid or has expired'
+      });
+    }
+
+    // The link was delivered to the inbox, which also proves the address
+    user.password = req.body.password;
+    user.emailVerified = true;
+    await user.save();
+    await AuthToken.revokeAll(user._id, 'password_reset');
+    await AuthSession.revokeAllForUser(user._id);
+    await disconnectUser(req.app.get('io'), user._id);
+
+    res.json({
+      success: true,
+      message: 'Password reset successfully'
+    });
+  } catch (error) {
+    console.error('Reset password error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Server error'
+    });
+  }
+});
+
 export default router; 
\ No newline at end of file
@@ -0,0 +1,101 @@
+import express from 'express';
+import { query, validationResult } from 'express-validator';
+import LedgerAccount, { userAccountKey } from '../models/LedgerAccount.js';
+import LedgerTransaction from '../models/LedgerTransaction.js';
+import SwapRequest, { CREDITS_HELD_STATUSES } from '../models/SwapRequest.js';
+import { protect } from '../middleware/auth.js';
+
+const router = express.Router();
+
+// All credit routes are scoped to the current user
+router.use(protect);
+
+// @route   GET /api/credits/balance
+// @desc    Get current user's ByteBucks balance and credits held for unfinished swaps
+// @access  Private
+router.get('/balance', async (req, res) => {
+  try {
+    const balance = await LedgerAccount.getBalance(req.user._id);
+
+    const heldSwaps = await SwapRequest.find({
+      fromUserId: req.user._id,
+      paymentType: 'credits',
+      status: { $in: CREDITS_HELD_STATUSES }
+    }).select('hours');
+    const held = heldSwaps.reduce((total, swap) => total + swap.hours, 0);
+
+    res.json({
+      success: true,
+      data: { balance, held }
+    });
+  } catch (error) {
+    console.error('Get credit balance error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Server error'
+    });
+  }
+});
+
+// @route   GET /api/credits/history
+// @desc    Get current user's ByteBucks transactions with pagination
+// @access  Private
+router.get('/history', [
+  query('page').optional().isInt({ min: 1 }).withMessage('Page must be a positive integer'),
+  query('limit').optional().isInt({ min: 1, max: 50 }).withMessage('Limit must be between 1 and 50')
+], async (req, res) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        success: false,
+        message: 'Validation error',
+        errors: errors.array()
+      });
+    }
+
+    const { page = 1, limit = 20 } = req.query;
+    const account = userAccountKey(req.user._id);
+
+    const transactions = await LedgerTransaction.findForAccount(account, {
+      skip: (parseInt(page) - 1) * parseInt(limit),
+      limit: parseInt(limit)
+    });
+    const total = await LedgerTransaction.countDocuments({ accounts: account, status: 'posted' });
+
+    // Calculate pagination info
+    const totalPages = Math.ceil(total / limit);
+    const hasNextPage = page < totalPages;
+    const hasPrevPage = page > 1;
+
+    res.json({
+      success: true,
+      data: {
+        transactions: transactions.map(transaction => ({
+          _id: transaction._id,
+          type: transaction.type,
+          amount: transaction.getAmountFor(account),
+          memo: transaction.memo,
+          swapRequest: transaction.swapRequestId,
+          createdAt: transaction.createdAt
+        })),
+        pagination: {
+          currentPage: parseInt(page),
+          totalPages,
+          totalTransactions: total,
+          hasNextPage,
+          hasPrevPage,
+          limit: parseInt(limit)
+        }
+      }
+    });
+  } catch (error) {
+    console.error('Get credit history error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Server error'
+    });
+  }
+});
+
+export default router;
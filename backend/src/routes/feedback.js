@@ -2,18 +2,65 @@ import express from 'express';
 import { body, param, query, validationResult } from 'express-validator';
 import SwapRequest from '../models/SwapRequest.js';
 import User from '../models/User.js';
-import Notification from '../models/Notification.js';
-import { protect } from '../middleware/auth.js';
+import Review, { REVIEW_DIMENSIONS } from '../models/Review.js';
+import { getReviewDeadline, revealReviews } from '../services/reviewReveal.js';
+import { protect, optionalAuth } from '../middleware/auth.js';
 
 const router = express.Router();
 
+const reviewValidation = [
+  ...REVIEW_DIMENSIONS.map(dimension =>
+    body(`scores.${dimension}`).isInt({ min: 1, max: 5 }).withMessage(`${dimension} score must be between 1 and 5`)
+  ),
+  body('comment').optional({ nullable: true }).trim().isLength({ max: 500 }).withMessage('Comment cannot exceed 500 characters')
+];
+
+// Load the published review in req.params.id, or answer 404
+const findReview = async (req, res) => {
+  const review = await Review.findById(req.params.id);
+  if (!review || !review.revealedAt) {
+    res.status(404).json({
+      success: false,
+      message: 'Review not found'
+    });
+    return null;
+  }
+  return review;
+};
+
+// Both reviews of a swap as `userId` may see them: the partner's only once
+// published and not hidden. `status` is open (can review), waiting_for_partner
+// (reviewed, still sealed), revealed or closed (window ended without a review).
+const getReviewState = async (swapRequest, userId, now = new Date()) => {
+  const reviews = await Review.find({ swapRequestId: swapRequest._id })
+    .populate('reviewerId', 'name photo');
+  const myReview = reviews.find(review => review.reviewerId?._id.equals(userId)) ?? null;
+  const partnerReview = reviews.find(review => review !== myReview) ?? null;
+  const reviewDeadline = getReviewDeadline(swapRequest);
+
+  let status;
+  if (myReview) {
+    status = myReview.revealedAt ? 'revealed' : 'waiting_for_partner';
+  } else {
+    status = now > reviewDeadline ? 'closed' : 'open';
+  }
+
+  const canSeePartnerReview = partnerReview?.revealedAt && !partnerReview.moderation.isHidden;
+  return {
+    myReview: myReview && myReview.toPublicJSON(),
+    partnerReview: canSeePartnerReview ? partnerReview.toPublicJSON() : null,
+    partnerHasReviewed: Boolean(partnerReview),
+    status,
+    reviewDeadline
+  };
+};
+
 // @route   POST /api/feedback/:swapId
-// @desc    Add feedback for a completed swap
+// @desc    Review the other participant of a completed swap
 // @access  Private
 router.post('/:swapId', protect, [
   param('swapId').isMongoId().withMessage('Invalid swap ID'),
-  body('rating').isInt({ min: 1, max: 5 }).withMessage('Rating must be between 1 and 5'),
-  body('comment').optional().trim().isLength({ max: 200 }).withMessage('Comment cannot exceed 200 characters')
+  ...reviewValidation
 ], async (req, res) => {
   try {
     const errors = validationResult(req);
@@ -25,7 +72,7 @@ router.post('/:swapId', protect, [
       });
     }
 
-    const { rating, comment } = req.body;
+    const { scores, comment } = req.body;
     const swapId = req.params.swapId;
 
     const swapRequest = await SwapRequest.findById(swapId);
@@ -38,8 +85,7 @@ router.post('/:swapId', protect, [
     }
 
     // Check if user is involved in this swap
-    if (swapRequest.fromUserId.toString() !== req.user._id.toString() && 
-        swapRequest.toUserId.toString() !== req.user._id.toString()) {
+    if (!swapRequest.isParticipant(req.user._id)) {
       return res.status(403).json({
         success: false,
         message: 'Not authorized to provide feedback for this swap'
@@ -54,41 +100,42 @@ router.post('/:swapId', protect, [
       });
     }
 
-    // Check if user has already provided feedback
-    const isFromUser = swapRequest.fromUserId.toString() === req.user._id.toString();
-    const hasProvidedFeedback = isFromUser 
-      ? swapRequest.feedback.fromUserRating !== null
-      : swapRequest.feedback.toUserRating !== null;
-
-    if (hasProvidedFeedback) {
+    const reviewDeadline = getReviewDeadline(swapRequest);
+    if (new Date() > reviewDeadline) {
       return res.status(400).json({
         success: false,
-        message: 'You have already provided feedback for this swap'
+        message: 'The review period for this swap has ended'
       });
     }
 
-    // Add feedback
-    await swapRequest.addFeedback(req.user._id, rating, comment);
-
-    // Update user rating
-    const targetUserId = isFromUser ? swapRequest.toUserId : swapRequest.fromUserId;
-    const targetUser = await User.findById(targetUserId);
-    await targetUser.updateRating(rating);
-
-    // Check if both users have provided feedback
-    if (swapRequest.isFeedbackComplete) {
-      // Create notification for feedback received
-      await Notification.createFeedbackReceivedNotification(targetUserId, swapId);
+    try {
+      await Review.create({
+        swapRequestId: swapRequest._id,
+        reviewerId: req.user._id,
+        revieweeId: swapRequest.getOtherUserId(req.user._id),
+        scores: Object.fromEntries(REVIEW_DIMENSIONS.map(dimension => [dimension, parseInt(scores[dimension])])),
+        comment: comment || null,
+        revealAt: reviewDeadline
+      });
+    } catch (error) {
+      if (error.code === 11000) {
+        return res.status(400).json({
+          success: false,
+          message: 'You have already provided feedback for this swap'
+        });
+      }
+      throw error;
     }
 
-    // Populate user details for response
-    await swapRequest.populate('fromUserId', 'name email photo');
-    await swapRequest.populate('toUserId', 'name email photo');
+    // Publish both reviews together once the partner has reviewed too
+    if (await Review.countDocuments({ swapRequestId: swapRequest._id }) === 2) {
+      await revealReviews(req.app.get('io'), swapRequest._id);
+    }
 
-    res.json({
+    res.status(201).json({
       success: true,
       message: 'Feedback added successfully',
-      data: { swapRequest }
+      data: await getReviewState(swapRequest, req.user._id)
     });
   } catch (error) {
     console.error('Add feedback error:', error);
@@ -99,8 +146,39 @@ router.post('/:swapId', protect, [
   }
 });
 
+// @route   GET /api/feedback/pending
+// @desc    Get the current user's swaps whose reviews are still sealed
+// @access  Private
+router.get('/pending', protect, async (req, res) => {
+  try {
+    const userId = req.user._id;
+    const sealed = await Review.find({
+      $or: [{ reviewerId: userId }, { revieweeId: userId }],
+      revealedAt: null
+    }).select('swapRequestId reviewerId revealAt');
+
+    res.json({
+      success: true,
+      data: {
+        pending: sealed.map(review => ({
+          swapRequestId: review.swapRequestId,
+          // Either we reviewed and wait for the partner, or they reviewed and wait for us
+          status: review.reviewerId.equals(userId) ? 'waiting_for_partner' : 'awaiting_your_review',
+          revealAt: review.revealAt
+        }))
+      }
+    });
+  } catch (error) {
+    console.error('Get pending feedback error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Server error'
+    });
+  }
+});
+
 // @route   GET /api/feedback/:swapId
-// @desc    Get feedback for a specific swap
+// @desc    Get both participants' reviews of a swap
 // @access  Private
 router.get('/:swapId', protect, [
   param('swapId').isMongoId().withMessage('Invalid swap ID')
@@ -115,9 +193,7 @@ router.get('/:swapId', protect, [
       });
     }
 
-    const swapRequest = await SwapRequest.findById(req.params.swapId)
-      .populate('fromUserId', 'name email photo')
-      .populate('toUserId', 'name email photo');
+    const swapRequest = await SwapRequest.findById(req.params.swapId);
 
     if (!swapRequest) {
       return res.status(404).json({
@@ -127,8 +203,7 @@ router.get('/:swapId', protect, [
     }
 
     // Check if user is involved in this swap
-    if (swapRequest.fromUserId._id.toString() !== req.user._id.toString() && 
-        swapRequest.toUserId._id.toString() !== req.user._id.toString()) {
+    if (!swapRequest.isParticipant(req.user._id)) {
       return res.status(403).json({
         success: false,
         message: 'Not authorized to view feedback for this swap'
@@ -137,11 +212,7 @@ router.get('/:swapId', protect, [
 
     res.json({
       success: true,
-      data: { 
-        swapRequest,
-        feedback: swapRequest.feedback,
-        isFeedbackComplete: swapRequest.isFeedbackComplete
-      }
+      data: await getReviewState(swapRequest, req.user._id)
     });
   } catch (error) {
     console.error('Get feedback error:', error);
@@ -152,10 +223,54 @@ router.get('/:swapId', protect, [
   }
 });
 
+// @route   PUT /api/feedback/reviews/:id/reply
+// @desc    Post or edit the reviewee's public reply to a review
+// @access  Private
+router.put('/reviews/:id/reply', protect, [
+  param('id').isMongoId().withMessage('Invalid review ID'),
+  body('body').trim().isLength({ min: 1, max: 500 }).withMessage('Reply must be between 1 and 500 characters')
+], async (req, res) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        success: false,
+        message: 'Validation error',
+        errors: errors.array()
+      });
+    }
+
+    const review = await findReview(req, res);
+    if (!review) return;
+
+    if (!review.revieweeId.equals(req.user._id)) {
+      return res.status(403).json({
+        success: false,
+        message: 'Only the reviewed user can reply'
+      });
+    }
+
+    await review.setReply(req.body.body);
+    await review.populate('reviewerId', 'name photo');
+
+    res.json({
+      success: true,
+      message: 'Reply saved',
+      data: { review: review.toPublicJSON() }
+    });
+  } catch (error) {
+    console.error('Reply to review error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Server error'
+    });
+  }
+});
+
 // @route   GET /api/feedback/user/:userId
-// @desc    Get feedback for a specific user
+// @desc    Get a user's visible reviews with their average scores
 // @access  Public
-router.get('/user/:userId', [
+router.get('/user/:userId', optionalAuth, [
   param('userId').isMongoId().withMessage('Invalid user ID'),
   query('page').optional().isInt({ min: 1 }).withMessage('Page must be a positive integer'),
   query('limit').optional().isInt({ min: 1, max: 50 }).withMessage('Limit must be between 1 and 50')
@@ -170,31 +285,22 @@ router.get('/user/:userId', [
       });
     }
 
+    // Blocked users look like they don't exist to each other
+    if (req.user && await User.isBlockedBetween(req.user._id, req.params.userId)) {
+      return res.status(404).json({
+        success: false,
+        message: 'User not found'
+      });
+    }
+
     const { page = 1, limit = 20 } = req.query;
     const skip = (page - 1) * limit;
 
-    // Get completed swaps for the user
-    const swapRequests = await SwapRequest.find({
-      $or: [
-        { fromUserId: req.params.userId },
-        { toUserId: req.params.userId }
-      ],
-      status: 'completed'
-    })
-    .populate('fromUserId', 'name email photo')
-    .populate('toUserId', 'name email photo')
-    .sort({ completedAt: -1 })
-    .skip(skip)
-    .limit(parseInt(limit));
-
-    // Get total count
-    const total = await SwapRequest.countDocuments({
-      $or: [
-        { fromUserId: req.params.userId },
-        { toUserId: req.params.userId }
-      ],
-      status: 'completed'
-    });
+    const [reviews, summary] = await Promise.all([
+      Review.findVisibleForUser(req.params.userId, { skip, limit: parseInt(limit) }),
+      Review.getSummaryForUser(req.params.userId)
+    ]);
+    const total = summary.reviewCount;
 
     // Calculate pagination info
     const totalPages = Math.ceil(total / limit);
@@ -204,11 +310,12 @@ router.get('/user/:userId', [
     res.json({
       success: true,
       data: {
-        swapRequests,
+        reviews: reviews.map(review => review.toPublicJSON()),
+        summary,
         pagination: {
           currentPage: parseInt(page),
           totalPages,
-          totalSwaps: total,
+          totalReviews: total,
           hasNextPage,
           hasPrevPage,
           limit: parseInt(limit)
@@ -231,70 +338,17 @@ router.get('/stats/overview', protect, async (req, res) => {
   try {
     const userId = req.user._id;
 
-    // Get user's rating and review count
-    const user = await User.findById(userId);
-    
-    // Get completed swaps count
-    const completedSwaps = await SwapRequest.countDocuments({
-      $or: [
-        { fromUserId: userId },
-        { toUserId: userId }
-      ],
-      status: 'completed'
-    });
-
-    // Get swaps with feedback
-    const swapsWithFeedback = await SwapRequest.countDocuments({
-      $or: [
-        { fromUserId: userId },
-        { toUserId: userId }
-      ],
-      status: 'completed',
-      $or: [
-        { 'feedback.fromUserRating': { $ne: null } },
-        { 'feedback.toUserRating': { $ne: null } }
-      ]
-    });
-
-    // Get average rating received
-    const ratingStats = await SwapRequest.aggregate([
-      {
-        $match: {
-          $or: [
-            { fromUserId: userId },
-            { toUserId: userId }
-          ],
-          status: 'completed'
-        }
-      },
-      {
-        $project: {
-          fromUserRating: '$feedback.fromUserRating',
-          toUserRating: '$feedback.toUserRating',
-          isFromUser: { $eq: ['$fromUserId', userId] }
-        }
-      },
-      {
-        $project: {
-          receivedRating: {
-            $cond: {
-              if: '$isFromUser',
-              then: '$toUserRating',
-              else: '$fromUserRating'
-            }
-          }
-        }
-      },
-      {
-        $match: { receivedRating: { $ne: null } }
-      },
-      {
-        $group: {
-          _id: null,
-          averageRating: { $avg: '$receivedRating' },
-          totalRatings: { $sum: 1 }
-        }
-      }
+    const [user, completedSwaps, reviewsGiven, summary] = await Promise.all([
+      User.findById(userId),
+      SwapRequest.countDocuments({
+        $or: [
+          { fromUserId: userId },
+          { toUserId: userId }
+        ],
+        status: 'completed'
+      }),
+      Review.countDocuments({ reviewerId: userId }),
+      Review.getSummaryForUser(userId)
     ]);
 
     res.json({
@@ -303,9 +357,10 @@ router.get('/stats/overview', protect, async (req, res) => {
         userRating: user.rating,
         reviewCount: user.reviewCount,
         completedSwaps,
-        swapsWithFeedback,
-        averageRatingReceived: ratingStats.length > 0 ? ratingStats[0].averageRating : 0,
-        totalRatingsReceived: ratingStats.length > 0 ? ratingStats[0].totalRatings : 0
+        reviewsGiven,
+        averageRatingReceived: summary.rating,
+        totalRatingsReceived: summary.reviewCount,
+        dimensions: summary.dimensions
       }
     });
   } catch (error) {
@@ -317,4 +372,4 @@ router.get('/stats/overview', protect, async (req, res) => {
   }
 });
 
-export default router; 
\ No newline at end of file
+export default router;
@@ -0,0 +1,400 @@
+import express from 'express';
+import { body, param, query, validationResult } from 'express-validator';
+import GroupSwap from '../models/GroupSwap.js';
+import User from '../models/User.js';
+import Notification from '../models/Notification.js';
+import { protect, verifiedEmail } from '../middleware/auth.js';
+import { emitNotifications } from '../services/notificationService.js';
+import { emitToUsers } from '../services/userEvents.js';
+import { buildRing, MIN_RING_SIZE, MAX_RING_SIZE } from '../services/cycleFinder.js';
+
+const router = express.Router();
+
+const populateGroupSwap = (groupSwap) => groupSwap.populate('participants.userId', 'name photo rating');
+
+// Notify the given users and push the updated group swap to every participant
+const notifyGroupSwapChange = async (req, groupSwap, action, notificationType = null, recipientIds = []) => {
+  const notifications = notificationType === null ? [] : await Promise.all(recipientIds.map(userId =>
+    Notification.createGroupSwapNotification(userId, notificationType, groupSwap._id, {
+      fromUserId: req.user._id
+    })
+  ));
+
+  const io = req.app.get('io');
+  await emitNotifications(io, notifications);
+  const participantIds = groupSwap.participants.map(participant => participant.userId._id || participant.userId);
+  await emitToUsers(io, participantIds, 'group-swap-updated', {
+    groupSwap,
+    action,
+    updatedBy: {
+      id: req.user._id,
+      name: req.user.name,
+      photo: req.user.photo
+    }
+  });
+};
+
+// Load a group swap the current user takes part in; responds with 404/403 otherwise
+const findOwnGroupSwap = async (req, res) => {
+  const groupSwap = await GroupSwap.findById(req.params.id);
+
+  if (!groupSwap) {
+    res.status(404).json({
+      success: false,
+      message: 'Group swap not found'
+    });
+    return null;
+  }
+
+  if (!groupSwap.isParticipant(req.user._id)) {
+    res.status(403).json({
+      success: false,
+      message: 'Access denied'
+    });
+    return null;
+  }
+
+  return groupSwap;
+};
+
+// @route   GET /api/group-swaps/suggestions
+// @desc    Find skill swap rings the current user could join
+// @access  Private
+router.get('/suggestions', protect, [
+  query('maxLength').optional().isInt({ min: MIN_RING_SIZE, max: MAX_RING_SIZE }).withMessage(`Max length must be between ${MIN_RING_SIZE} and ${MAX_RING_SIZE}`),
+  query('limit').optional().isInt({ min: 1, max: 20 }).withMessage('Limit must be between 1 and 20')
+], async (req, res) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        success: false,
+        message: 'Validation error',
+        errors: errors.array()
+      });
+    }
+
+    const { maxLength = MAX_RING_SIZE, limit = 5 } = req.query;
+
+    const rings = await User.findSwapCycles(req.user._id, {
+      maxLength: parseInt(maxLength),
+      limit: parseInt(limit)
+    });
+
+    res.json({
+      success: true,
+      data: { rings }
+    });
+  } catch (error) {
+    console.error('Get group swap suggestions error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Server error'
+    });
+  }
+});
+
+// @route   POST /api/group-swaps
+// @desc    Propose a group swap. Participants are listed in ring order:
+//          each one teaches the next, and the last teaches the first.
+// @access  Private
+router.post('/', protect, verifiedEmail, [
+  body('participants').isArray({ min: MIN_RING_SIZE, max: MAX_RING_SIZE }).withMessage(`A group swap needs ${MIN_RING_SIZE} to ${MAX_RING_SIZE} participants`),
+  body('participants.*').isMongoId().withMessage('Invalid participant ID')
+], async (req, res) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        success: false,
+        message: 'Validation error',
+        errors: errors.array()
+      });
+    }
+
+    const participantIds = req.body.participants;
+
+    if (new Set(participantIds).size !== participantIds.length) {
+      return res.status(400).json({
+        success: false,
+        message: 'Each participant can only appear once'
+      });
+    }
+
+    if (!participantIds.includes(req.user._id.toString())) {
+      return res.status(400).json({
+        success: false,
+        message: 'You must be part of the group swap'
+      });
+    }
+
+    const users = await User.find({ _id: { $in: participantIds } })
+      .select('name isPublic isBanned skillsOffered offeredSkillIds wantedSkillIds offeredSkillDetails wantedSkillDetails');
+    const byId = new Map(users.map(user => [user._id.toString(), user]));
+
+    // No one in the ring may have blocked anyone else in it
+    const hasBlock = await User.exists({ _id: { $in: participantIds }, blockedUsers: { $in: participantIds } });
+    const others = participantIds.filter(id => id !== req.user._id.toString());
+    if (hasBlock || others.some(id => !byId.has(id) || !byId.get(id).isPublic || byId.get(id).isBanned)) {
+      return res.status(400).json({
+        success: false,
+        message: 'One or more participants are not available'
+      });
+    }
+
+    const ring = buildRing(participantIds.map(id => byId.get(id)));
+    if (!ring) {
+      return res.status(400).json({
+        success: false,
+        message: 'Every participant must offer a skill the next participant wants'
+      });
+    }
+
+    if (await GroupSwap.findOpenWithMembers(participantIds)) {
+      return res.status(400).json({
+        success: false,
+        message: 'These users already have an open group swap together'
+      });
+    }
+
+    // The proposer accepts their own proposal
+    const groupSwap = await GroupSwap.create({
+      proposedBy: req.user._id,
+      participants: ring.map(member => {
+        const isProposer = member.userId === req.user._id.toString();
+        return {
+          userId: member.userId,
+          skillTaught: member.skillName,
+          skillId: member.skillId,
+          skillLevel: member.level,
+          response: isProposer ? 'accepted' : 'pending',
+          respondedAt: isProposer ? new Date() : null
+        };
+      })
+    });
+
+    await populateGroupSwap(groupSwap);
+    await notifyGroupSwapChange(req, groupSwap, 'proposed', 'group_swap_proposed', others);
+
+    res.status(201).json({
+      success: true,
+      message: 'Group swap proposed successfully',
+      data: { groupSwap }
+    });
+  } catch (error) {
+    console.error('Create group swap error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Server error'
+    });
+  }
+});
+
+// @route   GET /api/group-swaps
+// @desc    Get group swaps for current user
+// @access  Private
+router.get('/', protect, [
+  query('status').optional().isIn(['proposed', 'active', 'declined', 'cancelled']).withMessage('Invalid status')
+], async (req, res) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        success: false,
+        message: 'Validation error',
+        errors: errors.array()
+      });
+    }
+
+    const groupSwaps = await GroupSwap.findForUser(req.user._id, req.query.status);
+
+    res.json({
+      success: true,
+      data: { groupSwaps }
+    });
+  } catch (error) {
+    console.error('Get group swaps error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Server error'
+    });
+  }
+});
+
+// @route   GET /api/group-swaps/:id
+// @desc    Get specific group swap
+// @access  Private
+router.get('/:id', protect, [
+  param('id').isMongoId().withMessage('Invalid group swap ID')
+], async (req, res) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        success: false,
+        message: 'Validation error',
+        errors: errors.array()
+      });
+    }
+
+    const groupSwap = await findOwnGroupSwap(req, res);
+    if (!groupSwap) return;
+
+    await populateGroupSwap(groupSwap);
+
+    res.json({
+      success: true,
+      data: { groupSwap }
+    });
+  } catch (error) {
+    console.error('Get group swap error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Server error'
+    });
+  }
+});
+
+// @route   PUT /api/group-swaps/:id/accept
+// @desc    Accept a group swap; it becomes active once everyone has accepted
+// @access  Private
+router.put('/:id/accept', protect, verifiedEmail, [
+  param('id').isMongoId().withMessage('Invalid group swap ID')
+], async (req, res) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        success: false,
+        message: 'Validation error',
+        errors: errors.array()
+      });
+    }
+
+    const invitation = await findOwnGroupSwap(req, res);
+    if (!invitation) return;
+
+    const groupSwap = await GroupSwap.respond(invitation._id, req.user._id, true);
+    if (!groupSwap) {
+      return res.status(400).json({
+        success: false,
+        message: 'Can only respond to pending group swap invitations'
+      });
+    }
+    await populateGroupSwap(groupSwap);
+
+    // Everyone is notified once the ring is complete; until then just push the update
+    if (groupSwap.status === 'active') {
+      await notifyGroupSwapChange(req, groupSwap, 'active', 'group_swap_active', groupSwap.participants.map(p => p.userId._id));
+    } else {
+      await notifyGroupSwapChange(req, groupSwap, 'accepted');
+    }
+
+    res.json({
+      success: true,
+      message: groupSwap.status === 'active' ? 'Group swap is now active' : 'Group swap accepted successfully',
+      data: { groupSwap }
+    });
+  } catch (error) {
+    console.error('Accept group swap error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Server error'
+    });
+  }
+});
+
+// @route   PUT /api/group-swaps/:id/decline
+// @desc    Decline a group swap, which ends it for everyone
+// @access  Private
+router.put('/:id/decline', protect, [
+  param('id').isMongoId().withMessage('Invalid group swap ID')
+], async (req, res) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        success: false,
+        message: 'Validation error',
+        errors: errors.array()
+      });
+    }
+
+    const invitation = await findOwnGroupSwap(req, res);
+    if (!invitation) return;
+
+    const groupSwap = await GroupSwap.respond(invitation._id, req.user._id, false);
+    if (!groupSwap) {
+      return res.status(400).json({
+        success: false,
+        message: 'Can only respond to pending group swap invitations'
+      });
+    }
+    await populateGroupSwap(groupSwap);
+    await notifyGroupSwapChange(req, groupSwap, 'declined', 'group_swap_declined', groupSwap.getOtherUserIds(req.user._id));
+
+    res.json({
+      success: true,
+      message: 'Group swap declined successfully',
+      data: { groupSwap }
+    });
+  } catch (error) {
+    console.error('Decline group swap error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Server error'
+    });
+  }
+});
+
+// @route   DELETE /api/group-swaps/:id
+// @desc    Cancel a proposed group swap
+// @access  Private
+router.delete('/:id', protect, [
+  param('id').isMongoId().withMessage('Invalid group swap ID')
+], async (req, res) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        success: false,
+        message: 'Validation error',
+        errors: errors.array()
+      });
+    }
+
+    const proposal = await findOwnGroupSwap(req, res);
+    if (!proposal) return;
+
+    if (proposal.proposedBy.toString() !== req.user._id.toString()) {
+      return res.status(403).json({
+        success: false,
+        message: 'Only the proposer can cancel a group swap'
+      });
+    }
+
+    const groupSwap = await GroupSwap.cancelProposed(proposal._id);
+    if (!groupSwap) {
+      return res.status(400).json({
+        success: false,
+        message: 'Can only cancel proposed group swaps'
+      });
+    }
+    await populateGroupSwap(groupSwap);
+    await notifyGroupSwapChange(req, groupSwap, 'cancelled', 'group_swap_cancelled', groupSwap.getOtherUserIds(req.user._id));
+
+    res.json({
+      success: true,
+      message: 'Group swap cancelled successfully',
+      data: { groupSwap }
+    });
+  } catch (error) {
+    console.error('Cancel group swap error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Server error'
+    });
+  }
+});
+
+export default router;
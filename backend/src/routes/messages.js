@@ -0,0 +1,234 @@
+import express from 'express';
+import { body, param, query, validationResult } from 'express-validator';
+import Message from '../models/Message.js';
+import SwapRequest from '../models/SwapRequest.js';
+import User from '../models/User.js';
+import { protect, verifiedEmail } from '../middleware/auth.js';
+import { emitToUser, emitToUsers } from '../services/userEvents.js';
+
+const router = express.Router();
+
+// @route   GET /api/messages/unread/counts
+// @desc    Get unread message counts per swap for current user
+// @access  Private
+router.get('/unread/counts', protect, async (req, res) => {
+  try {
+    const counts = await Message.getUnreadCountsForUser(req.user._id);
+
+    const unreadCounts = counts.reduce((acc, { _id, count }) => {
+      acc[_id.toString()] = count;
+      return acc;
+    }, {});
+    const totalUnread = counts.reduce((sum, { count }) => sum + count, 0);
+
+    res.json({
+      success: true,
+      data: { unreadCounts, totalUnread }
+    });
+  } catch (error) {
+    console.error('Get unread message counts error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Server error'
+    });
+  }
+});
+
+// @route   GET /api/messages/:swapId
+// @desc    Get chat history for a swap (newest first, paged by `before` and `beforeId`)
+// @access  Private
+router.get('/:swapId', protect, [
+  param('swapId').isMongoId().withMessage('Invalid swap ID'),
+  query('before').optional().isISO8601().withMessage('Invalid date format'),
+  query('beforeId').optional().isMongoId().withMessage('Invalid message ID'),
+  query('limit').optional().isInt({ min: 1, max: 100 }).withMessage('Limit must be between 1 and 100')
+], async (req, res) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        success: false,
+        message: 'Validation error',
+        errors: errors.array()
+      });
+    }
+
+    const { before, beforeId, limit = 30 } = req.query;
+
+    const swapRequest = await SwapRequest.findById(req.params.swapId);
+
+    if (!swapRequest) {
+      return res.status(404).json({
+        success: false,
+        message: 'Swap request not found'
+      });
+    }
+
+    // Check if user is involved in this swap
+    if (!swapRequest.isParticipant(req.user._id)) {
+      return res.status(403).json({
+        success: false,
+        message: 'Not authorized to view messages for this swap'
+      });
+    }
+
+    // Fetch one extra message to know whether there is more history
+    const messages = await Message.getForSwap(swapRequest._id, {
+      before: before ? new Date(before) : null,
+      beforeId: beforeId || null,
+      limit: parseInt(limit) + 1
+    });
+    const hasMore = messages.length > parseInt(limit);
+
+    res.json({
+      success: true,
+      data: {
+        messages: messages.slice(0, parseInt(limit)),
+        hasMore,
+        isChatOpen: swapRequest.isChatOpen
+      }
+    });
+  } catch (error) {
+    console.error('Get messages error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Server error'
+    });
+  }
+});
+
+// @route   POST /api/messages/:swapId
+// @desc    Send a chat message on a swap
+// @access  Private
+router.post('/:swapId', protect, verifiedEmail, [
+  param('swapId').isMongoId().withMessage('Invalid swap ID'),
+  body('body').trim().isLength({ min: 1, max: 1000 }).withMessage('Message must be between 1 and 1000 characters')
+], async (req, res) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        success: false,
+        message: 'Validation error',
+        errors: errors.array()
+      });
+    }
+
+    const swapRequest = await SwapRequest.findById(req.params.swapId);
+
+    if (!swapRequest) {
+      return res.status(404).json({
+        success: false,
+        message: 'Swap request not found'
+      });
+    }
+
+    // Check if user is involved in this swap
+    if (!swapRequest.isParticipant(req.user._id)) {
+      return res.status(403).json({
+        success: false,
+        message: 'Not authorized to send messages for this swap'
+      });
+    }
+
+    // Check if swap has been accepted
+    if (!swapRequest.isChatOpen) {
+      return res.status(400).json({
+        success: false,
+        message: 'Chat is only available once a swap has been accepted'
+      });
+    }
+
+    const recipientId = swapRequest.getOtherUserId(req.user._id);
+
+    if (await User.isBlockedBetween(req.user._id, recipientId)) {
+      return res.status(403).json({
+        success: false,
+        message: 'You can no longer message this user'
+      });
+    }
+
+    const message = await Message.create({
+      swapRequestId: swapRequest._id,
+      senderId: req.user._id,
+      recipientId,
+      body: req.body.body
+    });
+    await message.populate('senderId', 'name photo');
+
+    // Emit real-time event to both participants (sender may have other tabs open)
+    await emitToUsers(req.app.get('io'), [recipientId, req.user._id], 'new-message', { message });
+
+    res.status(201).json({
+      success: true,
+      message: 'Message sent successfully',
+      data: { message }
+    });
+  } catch (error) {
+    console.error('Send message error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Server error'
+    });
+  }
+});
+
+// @route   PUT /api/messages/:swapId/read
+// @desc    Mark all messages in a swap as read for current user
+// @access  Private
+router.put('/:swapId/read', protect, [
+  param('swapId').isMongoId().withMessage('Invalid swap ID')
+], async (req, res) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        success: false,
+        message: 'Validation error',
+        errors: errors.array()
+      });
+    }
+
+    const swapRequest = await SwapRequest.findById(req.params.swapId);
+
+    if (!swapRequest) {
+      return res.status(404).json({
+        success: false,
+        message: 'Swap request not found'
+      });
+    }
+
+    // Check if user is involved in this swap
+    if (!swapRequest.isParticipant(req.user._id)) {
+      return res.status(403).json({
+        success: false,
+        message: 'Not authorized to read messages for this swap'
+      });
+    }
+
+    const result = await Message.markSwapAsRead(swapRequest._id, req.user._id);
+
+    // Let the sender know their messages have been read
+    if (result.modifiedCount > 0) {
+      await emitToUser(req.app.get('io'), swapRequest.getOtherUserId(req.user._id), 'messages-read', {
+        swapRequestId: swapRequest._id,
+        readBy: req.user._id,
+        readAt: new Date()
+      });
+    }
+
+    res.json({
+      success: true,
+      message: 'Messages marked as read',
+      data: { updatedCount: result.modifiedCount }
+    });
+  } catch (error) {
+    console.error('Mark messages read error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Server error'
+    });
+  }
+});
+
+export default router;
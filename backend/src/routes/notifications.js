@@ -0,0 +1,331 @@
+import express from 'express';
+import { body, param, query, validationResult } from 'express-validator';
+import Notification, { NOTIFICATION_TYPES } from '../models/Notification.js';
+import User from '../models/User.js';
+import { protect } from '../middleware/auth.js';
+import { applyUnsubscribeToken, verifyUnsubscribeToken } from '../services/emailNotifier.js';
+import { escapeHtml } from '../services/emailTemplates.js';
+
+const router = express.Router();
+
+// Unsubscribe links in emails work without logging in; the signed token
+// identifies the user and what to unsubscribe from. Opening a link only shows
+// a confirmation page, since mail scanners and link previews open them too.
+const sendPage = (res, status, heading, content) => {
+  res.status(status).type('html').send(
+    '<!DOCTYPE html><html><body style="font-family:Arial,sans-serif;text-align:center;padding:48px">' +
+    `<h2>${heading}</h2>${content}` +
+    '</body></html>'
+  );
+};
+
+const sendInvalidLinkPage = (res) => sendPage(res, 400, 'This unsubscribe link is not valid',
+  '<p>You can choose which emails you get from your profile instead.</p>');
+
+const getToken = (req) => {
+  const token = req.query.token || req.body?.token;
+  return typeof token === 'string' ? token : null;
+};
+
+// @route   GET /api/notifications/unsubscribe
+// @desc    Confirmation page for the unsubscribe link in an email
+// @access  Public (signed token)
+router.get('/unsubscribe', (req, res) => {
+  const token = getToken(req);
+  const payload = token ? verifyUnsubscribeToken(token) : null;
+  if (!payload) {
+    return sendInvalidLinkPage(res);
+  }
+
+  sendPage(res, 200, 'Unsubscribe from emails?',
+    `<p>${payload.type === 'all' ? 'You will no longer get any emails from Skill Swap.' : 'You will no longer get emails like the one this link came from.'}</p>` +
+    '<form method="post" action="unsubscribe">' +
+    `<input type="hidden" name="token" value="${escapeHtml(token)}">` +
+    '<button type="submit" style="padding:8px 16px">Unsubscribe</button>' +
+    '</form>'
+  );
+});
+
+// @route   POST /api/notifications/unsubscribe
+// @desc    Unsubscribe, from the confirmation page or as the one-click
+//          unsubscribe sent by mail clients (RFC 8058)
+// @access  Public (signed token)
+router.post('/unsubscribe', async (req, res) => {
+  // Browsers submitting the confirmation page get a page back
+  const wantsPage = req.accepts(['json', 'html']) === 'html';
+
+  try {
+    const token = getToken(req);
+    const user = token ? await applyUnsubscribeToken(token) : null;
+    if (!user) {
+      if (wantsPage) return sendInvalidLinkPage(res);
+      return res.status(400).json({
+        success: false,
+        message: 'Invalid unsubscribe link'
+      });
+    }
+
+    if (wantsPage) {
+      return sendPage(res, 200, 'You have been unsubscribed',
+        '<p>You can turn emails back on from your profile at any time.</p>');
+    }
+    res.json({
+      success: true,
+      message: 'Unsubscribed successfully',
+      data: { emailPreferences: user.emailPreferences }
+    });
+  } catch (error) {
+    console.error('Email unsubscribe error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Server error'
+    });
+  }
+});
+
+// All other notification routes are scoped to the current user
+router.use(protect);
+
+// @route   GET /api/notifications/preferences
+// @desc    Get the current user's email preferences
+// @access  Private
+router.get('/preferences', (req, res) => {
+  res.json({
+    success: true,
+    data: {
+      emailPreferences: req.user.emailPreferences,
+      types: NOTIFICATION_TYPES
+    }
+  });
+});
+
+// @route   PUT /api/notifications/preferences
+// @desc    Update the current user's email preferences
+// @access  Private
+router.put('/preferences', [
+  body('frequency').optional().isIn(['instant', 'daily']).withMessage('Frequency must be instant or daily'),
+  body('disabledTypes').optional().isArray().withMessage('Disabled types must be an array'),
+  body('disabledTypes.*').isIn(NOTIFICATION_TYPES).withMessage('Invalid notification type')
+], async (req, res) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        success: false,
+        message: 'Validation error',
+        errors: errors.array()
+      });
+    }
+
+    const update = {};
+    if (req.body.frequency !== undefined) {
+      update['emailPreferences.frequency'] = req.body.frequency;
+    }
+    if (req.body.disabledTypes !== undefined) {
+      update['emailPreferences.disabledTypes'] = [...new Set(req.body.disabledTypes)];
+    }
+
+    const user = await User.findByIdAndUpdate(req.user._id, { $set: update }, { new: true, runValidators: true });
+
+    res.json({
+      success: true,
+      message: 'Email preferences updated successfully',
+      data: { emailPreferences: user.emailPreferences }
+    });
+  } catch (error) {
+    console.error('Update email preferences error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Server error'
+    });
+  }
+});
+
+// @route   GET /api/notifications
+// @desc    Get notifications for current user with pagination
+// @access  Private
+router.get('/', [
+  query('unreadOnly').optional().isBoolean().withMessage('unreadOnly must be a boolean'),
+  query('page').optional().isInt({ min: 1 }).withMessage('Page must be a positive integer'),
+  query('limit').optional().isInt({ min: 1, max: 50 }).withMessage('Limit must be between 1 and 50')
+], async (req, res) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        success: false,
+        message: 'Validation error',
+        errors: errors.array()
+      });
+    }
+
+    const { unreadOnly, page = 1, limit = 20 } = req.query;
+    const onlyUnread = unreadOnly === 'true';
+
+    // Execute query
+    const notifications = await Notification.getForUser(req.user._id, parseInt(page), parseInt(limit), { unreadOnly: onlyUnread });
+
+    // Get total count
+    const total = await Notification.countDocuments({
+      userId: req.user._id,
+      ...(onlyUnread && { isRead: false })
+    });
+    const unreadCount = await Notification.getUnreadCount(req.user._id);
+
+    // Calculate pagination info
+    const totalPages = Math.ceil(total / limit);
+    const hasNextPage = page < totalPages;
+    const hasPrevPage = page > 1;
+
+    res.json({
+      success: true,
+      data: {
+        notifications,
+        unreadCount,
+        pagination: {
+          currentPage: parseInt(page),
+          totalPages,
+          totalNotifications: total,
+          hasNextPage,
+          hasPrevPage,
+          limit: parseInt(limit)
+        }
+      }
+    });
+  } catch (error) {
+    console.error('Get notifications error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Server error'
+    });
+  }
+});
+
+// @route   GET /api/notifications/unread-count
+// @desc    Get unread notification count for current user
+// @access  Private
+router.get('/unread-count', async (req, res) => {
+  try {
+    const unreadCount = await Notification.getUnreadCount(req.user._id);
+
+    res.json({
+      success: true,
+      data: { unreadCount }
+    });
+  } catch (error) {
+    console.error('Get unread count error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Server error'
+    });
+  }
+});
+
+// @route   PUT /api/notifications/read-all
+// @desc    Mark all notifications as read for current user
+// @access  Private
+router.put('/read-all', async (req, res) => {
+  try {
+    const result = await Notification.markAllAsRead(req.user._id);
+
+    res.json({
+      success: true,
+      message: 'All notifications marked as read',
+      data: { updatedCount: result.modifiedCount }
+    });
+  } catch (error) {
+    console.error('Mark all notifications read error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Server error'
+    });
+  }
+});
+
+// @route   PUT /api/notifications/:id/read
+// @desc    Mark a notification as read
+// @access  Private
+router.put('/:id/read', [
+  param('id').isMongoId().withMessage('Invalid notification ID')
+], async (req, res) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        success: false,
+        message: 'Validation error',
+        errors: errors.array()
+      });
+    }
+
+    const notification = await Notification.findOne({ _id: req.params.id, userId: req.user._id });
+
+    if (!notification) {
+      return res.status(404).json({
+        success: false,
+        message: 'Notification not found'
+      });
+    }
+
+    if (!notification.isRead) {
+      await notification.markAsRead();
+    }
+
+    const unreadCount = await Notification.getUnreadCount(req.user._id);
+
+    res.json({
+      success: true,
+      message: 'Notification marked as read',
+      data: { notification, unreadCount }
+    });
+  } catch (error) {
+    console.error('Mark notification read error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Server error'
+    });
+  }
+});
+
+// @route   DELETE /api/notifications/:id
+// @desc    Delete a notification
+// @access  Private
+router.delete('/:id', [
+  param('id').isMongoId().withMessage('Invalid notification ID')
+], async (req, res) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        success: false,
+        message: 'Validation error',
+        errors: errors.array()
+      });
+    }
+
+    const notification = await Notification.findOneAndDelete({ _id: req.params.id, userId: req.user._id });
+
+    if (!notification) {
+      return res.status(404).json({
+        success: false,
+        message: 'Notification not found'
+      });
+    }
+
+    const unreadCount = await Notification.getUnreadCount(req.user._id);
+
+    res.json({
+      success: true,
+      message: 'Notification deleted successfully',
+      data: { unreadCount }
+    });
+  } catch (error) {
+    console.error('Delete notification error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Server error'
+    });
+  }
+});
+
+export default router;
@@ -0,0 +1,117 @@
+import express from 'express';
+import { body, validationResult } from 'express-validator';
+import Report, { REPORT_CATEGORIES, REPORT_TARGET_TYPES } from '../models/Report.js';
+import User from '../models/User.js';
+import SwapRequest from '../models/SwapRequest.js';
+import Review from '../models/Review.js';
+import Message from '../models/Message.js';
+import { protect } from '../middleware/auth.js';
+
+const router = express.Router();
+
+// Load what's being reported and work out who it's about. Sends a 404 when
+// the target doesn't exist or the reporter can't see it, or a 400 when they
+// are reporting themselves.
+const findTarget = async (req, res) => {
+  const { targetType, targetId } = req.body;
+  const userId = req.user._id;
+  let target = null;
+
+  if (targetType === 'user') {
+    const user = await User.findById(targetId).select('_id');
+    if (user) {
+      target = { reportedUserId: user._id, swapRequestId: null };
+    }
+  } else if (targetType === 'swap') {
+    const swapRequest = await SwapRequest.findById(targetId);
+    if (swapRequest && swapRequest.isParticipant(userId)) {
+      target = { reportedUserId: swapRequest.getOtherUserId(userId), swapRequestId: swapRequest._id };
+    }
+  } else if (targetType === 'review') {
+    // Sealed reviews can't be seen yet, so they can't be reported either
+    const review = await Review.findOne({ _id: targetId, revealedAt: { $ne: null } });
+    if (review) {
+      target = { reportedUserId: review.reviewerId, swapRequestId: review.swapRequestId };
+    }
+  } else if (targetType === 'message') {
+    const message = await Message.findById(targetId);
+    if (message && (message.senderId.equals(userId) || message.recipientId.equals(userId))) {
+      target = { reportedUserId: message.senderId, swapRequestId: message.swapRequestId };
+    }
+  }
+
+  if (!target) {
+    res.status(404).json({
+      success: false,
+      message: 'Nothing to report was found'
+    });
+    return null;
+  }
+
+  if (target.reportedUserId.toString() === userId.toString()) {
+    res.status(400).json({
+      success: false,
+      message: 'You cannot report yourself'
+    });
+    return null;
+  }
+
+  return target;
+};
+
+// @route   POST /api/reports
+// @desc    Report a user, swap, review or chat message to the admins
+// @access  Private
+router.post('/', protect, [
+  body('targetType').isIn(REPORT_TARGET_TYPES).withMessage(`Target type must be one of: ${REPORT_TARGET_TYPES.join(', ')}`),
+  body('targetId').isMongoId().withMessage('Invalid target ID'),
+  body('category').isIn(REPORT_CATEGORIES).withMessage(`Category must be one of: ${REPORT_CATEGORIES.join(', ')}`),
+  body('evidence').trim().isLength({ min: 1, max: 2000 }).withMessage('Evidence must be between 1 and 2000 characters')
+], async (req, res) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        success: false,
+        message: 'Validation error',
+        errors: errors.array()
+      });
+    }
+
+    const { targetType, targetId, category, evidence } = req.body;
+
+    const target = await findTarget(req, res);
+    if (!target) return;
+
+    if (await Report.hasOpenReport(req.user._id, targetType, targetId)) {
+      return res.status(400).json({
+        success: false,
+        message: 'You have already reported this. An admin will look at it.'
+      });
+    }
+
+    const report = await Report.create({
+      reporterId: req.user._id,
+      targetType,
+      targetId,
+      reportedUserId: target.reportedUserId,
+      swapRequestId: target.swapRequestId,
+      category,
+      evidence
+    });
+
+    res.status(201).json({
+      success: true,
+      message: 'Report sent. An admin will look at it.',
+      data: { report }
+    });
+  } catch (error) {
+    console.error('Create report error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Server error'
+    });
+  }
+});
+
+export default router;
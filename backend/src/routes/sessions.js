@@ -0,0 +1,596 @@
+import express from 'express';
+import { body, param, query, validationResult } from 'express-validator';
+import Session from '../models/Session.js';
+import SwapRequest from '../models/SwapRequest.js';
+import User from '../models/User.js';
+import Notification from '../models/Notification.js';
+import { protect, verifiedEmail } from '../middleware/auth.js';
+import { emitNotification } from '../services/notificationService.js';
+import { emitToUsers } from '../services/userEvents.js';
+import { buildCalendar } from '../services/icalendar.js';
+
+const router = express.Router();
+
+const MAX_SESSION_MINUTES = 8 * 60;
+
+// Shared validation for proposing or rescheduling a time slot
+const timeSlotValidation = [
+  body('startTime').isISO8601().withMessage('Invalid start time'),
+  body('endTime').isISO8601().withMessage('Invalid end time')
+];
+
+// Check a proposed slot is sane; returns an error message or null
+const validateTimeSlot = (startTime, endTime) => {
+  if (endTime <= startTime) {
+    return 'End time must be after start time';
+  }
+  if (startTime < new Date()) {
+    return 'Sessions must be scheduled in the future';
+  }
+  if ((endTime - startTime) / 60000 > MAX_SESSION_MINUTES) {
+    return `Sessions cannot be longer than ${MAX_SESSION_MINUTES / 60} hours`;
+  }
+  return null;
+};
+
+// Notify the other participant and push the updated session to both
+const notifySessionChange = async (req, session, type) => {
+  const otherUserId = session.participants
+    .map(id => id.toString())
+    .find(id => id !== req.user._id.toString());
+
+  const notification = await Notification.createSessionNotification(otherUserId, type, session._id, {
+    swapRequestId: session.swapRequestId,
+    fromUserId: req.user._id
+  });
+
+  const io = req.app.get('io');
+  await emitNotification(io, notification);
+  await emitToUsers(io, session.participants, 'session-updated', {
+    session,
+    action: type.replace('session_', ''),
+    updatedBy: {
+      id: req.user._id,
+      name: req.user.name,
+      photo: req.user.photo
+    }
+  });
+};
+
+// Respond with 409 if any participant already has an overlapping session.
+// Only the caller's own conflicts are listed; the partner's schedule stays private.
+const rejectIfConflicting = async (req, res, participants, startTime, endTime, excludeId = null) => {
+  const conflicts = await Session.findConflicts(participants, startTime, endTime, excludeId);
+  if (conflicts.length === 0) return false;
+
+  const userId = req.user._id.toString();
+  const ownConflicts = conflicts.filter(conflict => conflict.participants.some(id => id.toString() === userId));
+
+  res.status(409).json({
+    success: false,
+    message: ownConflicts.length > 0
+      ? 'This time overlaps with another of your scheduled sessions'
+      : 'Your swap partner is not available at this time',
+    data: {
+      conflicts: ownConflicts.map(conflict => ({
+        id: conflict._id,
+        swapRequestId: conflict.swapRequestId,
+        startTime: conflict.startTime,
+        endTime: conflict.endTime,
+        status: conflict.status
+      }))
+    }
+  });
+  return true;
+};
+
+// Load a session and make sure the current user takes part in it
+const loadSessionForParticipant = async (req, res) => {
+  const session = await Session.findById(req.params.id);
+
+  if (!session) {
+    res.status(404).json({
+      success: false,
+      message: 'Session not found'
+    });
+    return null;
+  }
+
+  if (!session.participants.some(id => id.toString() === req.user._id.toString())) {
+    res.status(403).json({
+      success: false,
+      message: 'Not authorized to modify this session'
+    });
+    return null;
+  }
+
+  return session;
+};
+
+// Respond with 400 unless the session's swap is still accepted; sessions of
+// a swap that was cancelled or completed can't be confirmed or moved
+const rejectIfSwapNotAccepted = async (res, session) => {
+  if (await SwapRequest.exists({ _id: session.swapRequestId, status: 'accepted' })) return false;
+
+  res.status(400).json({
+    success: false,
+    message: 'Sessions can only be scheduled for accepted swaps'
+  });
+  return true;
+};
+
+// @route   GET /api/sessions/calendar/:token.ics
+// @desc    iCalendar feed of a user's sessions (token-authenticated for calendar apps)
+// @access  Public
+router.get('/calendar/:token.ics', [
+  param('token').isHexadecimal().isLength({ min: 48, max: 48 }).withMessage('Invalid calendar token')
+], async (req, res) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(404).json({
+        success: false,
+        message: 'Calendar not found'
+      });
+    }
+
+    const user = await User.findOne({ calendarToken: req.params.token, isBanned: false });
+    if (!user) {
+      return res.status(404).json({
+        success: false,
+        message: 'Calendar not found'
+      });
+    }
+
+    // Include recent history so moved/cancelled sessions update in clients
+    const from = new Date(Date.now() - 30 * 24 * 60 * 60 * 1000);
+    const sessions = await Session.findForUser(user._id, { from });
+
+    const calendar = buildCalendar(sessions, {
+      name: `Skill Swap - ${user.name}`,
+      host: req.hostname
+    });
+
+    res.set('Content-Type', 'text/calendar; charset=utf-8');
+    res.set('Content-Disposition', 'inline; filename="skillswap.ics"');
+    res.send(calendar);
+  } catch (error) {
+    console.error('Get calendar feed error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Server error'
+    });
+  }
+});
+
+// @route   GET /api/sessions
+// @desc    Get sessions for current user
+// @access  Private
+router.get('/', protect, [
+  query('includePast').optional().isBoolean().withMessage('includePast must be a boolean')
+], async (req, res) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        success: false,
+        message: 'Validation error',
+        errors: errors.array()
+      });
+    }
+
+    const includePast = req.query.includePast === 'true';
+    const sessions = await Session.findForUser(req.user._id, {
+      from: includePast ? null : new Date(),
+      activeOnly: !includePast
+    });
+
+    res.json({
+      success: true,
+      data: { sessions }
+    });
+  } catch (error) {
+    console.error('Get sessions error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Server error'
+    });
+  }
+});
+
+// @route   GET /api/sessions/calendar-url
+// @desc    Get (creating if needed) the current user's calendar feed URL
+// @access  Private
+router.get('/calendar-url', protect, async (req, res) => {
+  try {
+    const user = await User.findById(req.user._id).select('+calendarToken');
+    if (!user.calendarToken) {
+      await user.generateCalendarToken();
+    }
+
+    res.json({
+      success: true,
+      data: {
+        url: `${req.protocol}://${req.get('host')}/api/sessions/calendar/${user.calendarToken}.ics`
+      }
+    });
+  } catch (error) {
+    console.error('Get calendar URL error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Server error'
+    });
+  }
+});
+
+// @route   POST /api/sessions/calendar-url/reset
+// @desc    Replace the calendar feed URL (the old one stops working)
+// @access  Private
+router.post('/calendar-url/reset', protect, async (req, res) => {
+  try {
+    const user = await User.findById(req.user._id).select('+calendarToken');
+    await user.generateCalendarToken();
+
+    res.json({
+      success: true,
+      message: 'Calendar URL reset successfully',
+      data: {
+        url: `${req.protocol}://${req.get('host')}/api/sessions/calendar/${user.calendarToken}.ics`
+      }
+    });
+  } catch (error) {
+    console.error('Reset calendar URL error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Server error'
+    });
+  }
+});
+
+// @route   GET /api/sessions/swap/:swapId
+// @desc    Get all sessions of a swap
+// @access  Private
+router.get('/swap/:swapId', protect, [
+  param('swapId').isMongoId().withMessage('Invalid swap ID')
+], async (req, res) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        success: false,
+        message: 'Validation error',
+        errors: errors.array()
+      });
+    }
+
+    const swapRequest = await SwapRequest.findById(req.params.swapId);
+
+    if (!swapRequest) {
+      return res.status(404).json({
+        success: false,
+        message: 'Swap request not found'
+      });
+    }
+
+    // Check if user is involved in this swap
+    if (!swapRequest.isParticipant(req.user._id)) {
+      return res.status(403).json({
+        success: false,
+        message: 'Not authorized to view sessions for this swap'
+      });
+    }
+
+    const sessions = await Session.find({ swapRequestId: swapRequest._id }).sort({ startTime: 1 });
+
+    res.json({
+      success: true,
+      data: { sessions }
+    });
+  } catch (error) {
+    console.error('Get swap sessions error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Server error'
+    });
+  }
+});
+
+// @route   POST /api/sessions/swap/:swapId
+// @desc    Propose a session time for an accepted swap
+// @access  Private
+router.post('/swap/:swapId', protect, verifiedEmail, [
+  param('swapId').isMongoId().withMessage('Invalid swap ID'),
+  ...timeSlotValidation,
+  body('title').optional().trim().isLength({ max: 100 }).withMessage('Title cannot exceed 100 characters'),
+  body('notes').optional().trim().isLength({ max: 500 }).withMessage('Notes cannot exceed 500 characters')
+], async (req, res) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        success: false,
+        message: 'Validation error',
+        errors: errors.array()
+      });
+    }
+
+    const startTime = new Date(req.body.startTime);
+    const endTime = new Date(req.body.endTime);
+
+    const slotError = validateTimeSlot(startTime, endTime);
+    if (slotError) {
+      return res.status(400).json({
+        success: false,
+        message: slotError
+      });
+    }
+
+    const swapRequest = await SwapRequest.findById(req.params.swapId);
+
+    if (!swapRequest) {
+      return res.status(404).json({
+        success: false,
+        message: 'Swap request not found'
+      });
+    }
+
+    // Check if user is involved in this swap
+    if (!swapRequest.isParticipant(req.user._id)) {
+      return res.status(403).json({
+        success: false,
+        message: 'Not authorized to schedule sessions for this swap'
+      });
+    }
+
+    // Check if swap is accepted
+    if (swapRequest.status !== 'accepted') {
+      return res.status(400).json({
+        success: false,
+        message: 'Can only schedule sessions for accepted swaps'
+      });
+    }
+
+    const participants = [swapRequest.fromUserId, swapRequest.toUserId];
+    if (await rejectIfConflicting(req, res, participants, startTime, endTime)) return;
+
+    const session = await Session.create({
+      swapRequestId: swapRequest._id,
+      participants,
+      proposedBy: req.user._id,
+      title: req.body.title || (swapRequest.skillOffered
+        ? `${swapRequest.skillOffered} ↔ ${swapRequest.skillWanted}`
+        : swapRequest.skillWanted),
+      startTime,
+      endTime,
+      notes: req.body.notes || null
+    });
+
+    await notifySessionChange(req, session, 'session_proposed');
+
+    res.status(201).json({
+      success: true,
+      message: 'Session proposed successfully',
+      data: { session }
+    });
+  } catch (error) {
+    console.error('Propose session error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Server error'
+    });
+  }
+});
+
+// @route   PUT /api/sessions/:id/accept
+// @desc    Accept a proposed session time
+// @access  Private
+router.put('/:id/accept', protect, verifiedEmail, [
+  param('id').isMongoId().withMessage('Invalid session ID')
+], async (req, res) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        success: false,
+        message: 'Validation error',
+        errors: errors.array()
+      });
+    }
+
+    const session = await loadSessionForParticipant(req, res);
+    if (!session) return;
+
+    // Only the participant who didn't propose the time can accept it
+    if (session.proposedBy.toString() === req.user._id.toString()) {
+      return res.status(403).json({
+        success: false,
+        message: 'Only the other participant can accept this proposal'
+      });
+    }
+
+    if (session.status !== 'proposed') {
+      return res.status(400).json({
+        success: false,
+        message: 'Can only accept proposed sessions'
+      });
+    }
+
+    if (session.startTime < new Date()) {
+      return res.status(400).json({
+        success: false,
+        message: 'This proposed time has already passed'
+      });
+    }
+
+    if (await rejectIfSwapNotAccepted(res, session)) return;
+    if (await rejectIfConflicting(req, res, session.participants, session.startTime, session.endTime, session._id)) return;
+
+    await session.confirm();
+    await notifySessionChange(req, session, 'session_confirmed');
+
+    res.json({
+      success: true,
+      message: 'Session confirmed successfully',
+      data: { session }
+    });
+  } catch (error) {
+    console.error('Accept session error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Server error'
+    });
+  }
+});
+
+// @route   PUT /api/sessions/:id/decline
+// @desc    Decline a proposed session time
+// @access  Private
+router.put('/:id/decline', protect, [
+  param('id').isMongoId().withMessage('Invalid session ID')
+], async (req, res) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        success: false,
+        message: 'Validation error',
+        errors: errors.array()
+      });
+    }
+
+    const session = await loadSessionForParticipant(req, res);
+    if (!session) return;
+
+    if (session.proposedBy.toString() === req.user._id.toString()) {
+      return res.status(403).json({
+        success: false,
+        message: 'Only the other participant can decline this proposal; cancel it instead'
+      });
+    }
+
+    if (session.status !== 'proposed') {
+      return res.status(400).json({
+        success: false,
+        message: 'Can only decline proposed sessions'
+      });
+    }
+
+    await session.decline();
+    await notifySessionChange(req, session, 'session_declined');
+
+    res.json({
+      success: true,
+      message: 'Session declined successfully',
+      data: { session }
+    });
+  } catch (error) {
+    console.error('Decline session error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Server error'
+    });
+  }
+});
+
+// @route   PUT /api/sessions/:id/reschedule
+// @desc    Propose a new time for a session
+// @access  Private
+router.put('/:id/reschedule', protect, verifiedEmail, [
+  param('id').isMongoId().withMessage('Invalid session ID'),
+  ...timeSlotValidation
+], async (req, res) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        success: false,
+        message: 'Validation error',
+        errors: errors.array()
+      });
+    }
+
+    const startTime = new Date(req.body.startTime);
+    const endTime = new Date(req.body.endTime);
+
+    const slotError = validateTimeSlot(startTime, endTime);
+    if (slotError) {
+      return res.status(400).json({
+        success: false,
+        message: slotError
+      });
+    }
+
+    const session = await loadSessionForParticipant(req, res);
+    if (!session) return;
+
+    if (!['proposed', 'confirmed'].includes(session.status)) {
+      return res.status(400).json({
+        success: false,
+        message: 'Can only reschedule proposed or confirmed sessions'
+      });
+    }
+
+    if (await rejectIfSwapNotAccepted(res, session)) return;
+    if (await rejectIfConflicting(req, res, session.participants, startTime, endTime, session._id)) return;
+
+    await session.reschedule(req.user._id, startTime, endTime);
+    await notifySessionChange(req, session, 'session_proposed');
+
+    res.json({
+      success: true,
+      message: 'Session rescheduled successfully',
+      data: { session }
+    });
+  } catch (error) {
+    console.error('Reschedule session error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Server error'
+    });
+  }
+});
+
+// @route   DELETE /api/sessions/:id
+// @desc    Cancel a session
+// @access  Private
+router.delete('/:id', protect, [
+  param('id').isMongoId().withMessage('Invalid session ID')
+], async (req, res) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        success: false,
+        message: 'Validation error',
+        errors: errors.array()
+      });
+    }
+
+    const session = await loadSessionForParticipant(req, res);
+    if (!session) return;
+
+    if (!['proposed', 'confirmed'].includes(session.status)) {
+      return res.status(400).json({
+        success: false,
+        message: 'Can only cancel proposed or confirmed sessions'
+      });
+    }
+
+    await session.cancel(req.user._id);
+    await notifySessionChange(req, session, 'session_cancelled');
+
+    res.json({
+      success: true,
+      message: 'Session cancelled successfully',
+      data: { session }
+    });
+  } catch (error) {
+    console.error('Cancel session error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Server error'
+    });
+  }
+});
+
+export default router;
@@ -0,0 +1,178 @@
+import express from 'express';
+import { param, query, validationResult } from 'express-validator';
+import Skill from '../models/Skill.js';
+
+const router = express.Router();
+
+// @route   GET /api/skills
+// @desc    Get skills in the taxonomy with filtering and pagination
+// @access  Public
+router.get('/', [
+  query('category').optional().trim().isLength({ min: 1 }).withMessage('Category must not be empty'),
+  query('parent').optional().isMongoId().withMessage('Invalid parent skill ID'),
+  query('page').optional().isInt({ min: 1 }).withMessage('Page must be a positive integer'),
+  query('limit').optional().isInt({ min: 1, max: 100 }).withMessage('Limit must be between 1 and 100')
+], async (req, res) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        success: false,
+        message: 'Validation error',
+        errors: errors.array()
+      });
+    }
+
+    const { category, parent, page = 1, limit = 50 } = req.query;
+    const skip = (page - 1) * limit;
+
+    const filter = {};
+    if (category) {
+      filter.category = category;
+    }
+    if (parent) {
+      filter.parent = parent;
+    }
+
+    const skills = await Skill.find(filter)
+      .populate('parent', 'name')
+      .sort({ category: 1, name: 1 })
+      .skip(skip)
+      .limit(parseInt(limit));
+
+    const total = await Skill.countDocuments(filter);
+
+    // Calculate pagination info
+    const totalPages = Math.ceil(total / limit);
+    const hasNextPage = page < totalPages;
+    const hasPrevPage = page > 1;
+
+    res.json({
+      success: true,
+      data: {
+        skills,
+        pagination: {
+          currentPage: parseInt(page),
+          totalPages,
+          totalSkills: total,
+          hasNextPage,
+          hasPrevPage,
+          limit: parseInt(limit)
+        }
+      }
+    });
+  } catch (error) {
+    console.error('Get skills error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Server error'
+    });
+  }
+});
+
+// @route   GET /api/skills/autocomplete
+// @desc    Suggest canonical skills for a partial name or alias
+// @access  Public
+router.get('/autocomplete', [
+  query('q').trim().isLength({ min: 1, max: 50 }).withMessage('Query must be between 1 and 50 characters'),
+  query('limit').optional().isInt({ min: 1, max: 20 }).withMessage('Limit must be between 1 and 20')
+], async (req, res) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        success: false,
+        message: 'Validation error',
+        errors: errors.array()
+      });
+    }
+
+    const { q, limit = 10 } = req.query;
+    const results = await Skill.search(q, parseInt(limit));
+
+    res.json({
+      success: true,
+      data: {
+        suggestions: results.map(({ skill, matchedAlias }) => ({
+          _id: skill._id,
+          name: skill.name,
+          category: skill.category,
+          parent: skill.parent ? skill.parent.name : null,
+          matchedAlias
+        }))
+      }
+    });
+  } catch (error) {
+    console.error('Skill autocomplete error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Server error'
+    });
+  }
+});
+
+// @route   GET /api/skills/categories
+// @desc    Get skill categories with skill counts
+// @access  Public
+router.get('/categories', async (req, res) => {
+  try {
+    const categories = await Skill.aggregate([
+      { $group: { _id: '$category', count: { $sum: 1 } } },
+      { $sort: { _id: 1 } }
+    ]);
+
+    res.json({
+      success: true,
+      data: { categories }
+    });
+  } catch (error) {
+    console.error('Get skill categories error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Server error'
+    });
+  }
+});
+
+// @route   GET /api/skills/:id
+// @desc    Get a skill with its parent and direct children
+// @access  Public
+router.get('/:id', [
+  param('id').isMongoId().withMessage('Invalid skill ID')
+], async (req, res) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        success: false,
+        message: 'Validation error',
+        errors: errors.array()
+      });
+    }
+
+    const skill = await Skill.findById(req.params.id).populate('parent', 'name category');
+    if (!skill) {
+      return res.status(404).json({
+        success: false,
+        message: 'Skill not found'
+      });
+    }
+
+    const children = await Skill.find({ parent: skill._id })
+      .select('name category')
+      .sort({ name: 1 });
+
+    res.json({
+      success: true,
+      data: { skill, children }
+    });
+  } catch (error) {
+    console.error('Get skill error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Server error'
+    });
+  }
+});
+
+export default router;
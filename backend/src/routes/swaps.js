@@ -1,17 +1,29 @@
 import express from 'express';
 import { body, param, query, validationResult } from 'express-validator';
-import SwapRequest from '../models/SwapRequest.js';
+import SwapRequest, { SWAP_STATUSES, CREDITS_HELD_STATUSES } from '../models/SwapRequest.js';
+import User from '../models/User.js';
 import Notification from '../models/Notification.js';
-import { protect } from '../middleware/auth.js';
+import { emitNotification } from '../services/notificationService.js';
+import { emitToUser } from '../services/userEvents.js';
+import { holdSwapCredits, refundSwapCredits } from '../services/ledger.js';
+import { finalizeCompletion, getConfirmDeadline } from '../services/swapCompletion.js';
+import { getPendingExpiry } from '../services/swapReminders.js';
+import LedgerAccount from '../models/LedgerAccount.js';
+import { protect, verifiedEmail } from '../middleware/auth.js';
 
 const router = express.Router();
 
 // @route   POST /api/swaps
 // @desc    Create a new swap request
 // @access  Private
-router.post('/', protect, [
+router.post('/', protect, verifiedEmail, [
   body('toUserId').isMongoId().withMessage('Invalid user ID'),
-  body('skillOffered').trim().isLength({ min: 1, max: 50 }).withMessage('Skill offered must be between 1 and 50 characters'),
+  body('paymentType').optional().isIn(['swap', 'credits']).withMessage('Payment type must be swap or credits'),
+  body('hours').optional().isFloat({ min: 0.5, max: 20 }).withMessage('Hours must be between 0.5 and 20')
+    .custom(value => Number.isInteger(Number(value) * 2)).withMessage('Hours must be in steps of 0.5'),
+  body('skillOffered')
+    .if((value, { req }) => req.body.paymentType !== 'credits')
+    .trim().isLength({ min: 1, max: 50 }).withMessage('Skill offered must be between 1 and 50 characters'),
   body('skillWanted').trim().isLength({ min: 1, max: 50 }).withMessage('Skill wanted must be between 1 and 50 characters'),
   body('message').trim().isLength({ min: 1, max: 500 }).withMessage('Message must be between 1 and 500 characters')
 ], async (req, res) => {
@@ -25,7 +37,10 @@ router.post('/', protect, [
       });
     }
 
-    const { toUserId, skillOffered, skillWanted, message } = req.body;
+    const { toUserId, skillWanted, message } = req.body;
+    const paymentType = req.body.paymentType || 'swap';
+    const hours = req.body.hours !== undefined ? Number(req.body.hours) : 1;
+    const skillOffered = paymentType === 'credits' ? null : req.body.skillOffered;
 
     // Check if user is trying to swap with themselves
     if (req.user._id.toString() === toUserId) {
@@ -50,13 +65,39 @@ router.post('/', protect, [
       });
     }
 
-    // Create swap request
+    // Blocked users can't find each other, so don't reveal the block here either
+    const recipient = await User.findById(toUserId);
+    if (!recipient || await User.isBlockedBetween(req.user._id, toUserId)) {
+      return res.status(404).json({
+        success: false,
+        message: 'User not found'
+      });
+    }
+
+    // Credits are only held when the request is accepted, but there's no
+    // point sending a request the sender can't pay for
+    if (paymentType === 'credits') {
+      const balance = await LedgerAccount.getBalance(req.user._id);
+      if (balance < hours) {
+        return res.status(400).json({
+          success: false,
+          message: `Not enough ByteBucks: this swap costs ${hours} and your balance is ${balance}`
+        });
+      }
+    }
+
+    // Create swap request, recording the level each side teaches at
     const swapRequest = await SwapRequest.create({
       fromUserId: req.user._id,
       toUserId,
       skillOffered,
       skillWanted,
-      message
+      skillOfferedLevel: skillOffered ? await req.user.getOfferedSkillLevel(skillOffered) : null,
+      skillWantedLevel: await recipient.getOfferedSkillLevel(skillWanted),
+      paymentType,
+      hours,
+      message,
+      expiresAt: getPendingExpiry()
     });
 
     // Populate user details
@@ -64,20 +105,19 @@ router.post('/', protect, [
     await swapRequest.populate('toUserId', 'name email photo');
 
     // Create notification for recipient
-    await Notification.createSwapRequestNotification(toUserId, req.user._id, swapRequest._id);
+    const notification = await Notification.createSwapRequestNotification(toUserId, req.user._id, swapRequest._id);
 
     // Emit real-time event to recipient
     const io = req.app.get('io');
-    if (io) {
-      io.to(`user-${toUserId}`).emit('new-swap-request', {
-        swapRequest,
-        fromUser: {
-          id: req.user._id,
-          name: req.user.name,
-          photo: req.user.photo
-        }
-      });
-    }
+    await emitNotification(io, notification);
+    await emitToUser(io, toUserId, 'new-swap-request', {
+      swapRequest,
+      fromUser: {
+        id: req.user._id,
+        name: req.user.name,
+        photo: req.user.photo
+      }
+    });
 
     res.status(201).json({
       success: true,
@@ -97,7 +137,7 @@ router.post('/', protect, [
 // @desc    Get swap requests for current user
 // @access  Private
 router.get('/', protect, [
-  query('status').optional().isIn(['pending', 'accepted', 'rejected', 'completed', 'cancelled']).withMessage('Invalid status'),
+  query('status').optional().isIn(SWAP_STATUSES).withMessage('Invalid status'),
   query('type').optional().isIn(['sent', 'received']).withMessage('Type must be sent or received'),
   query('page').optional().isInt({ min: 1 }).withMessage('Page must be a positive integer'),
   query('limit').optional().isInt({ min: 1, max: 50 }).withMessage('Limit must be between 1 and 50')
@@ -221,10 +261,62 @@ router.get('/:id', protect, [
   }
 });
 
+// Push a swap change to the other participant
+const emitSwapUpdate = (req, swapRequest, action) => {
+  return emitToUser(req.app.get('io'), swapRequest.getOtherUserId(req.user._id), 'swap-request-updated', {
+    swapRequest,
+    action,
+    updatedBy: {
+      id: req.user._id,
+      name: req.user.name,
+      photo: req.user.photo
+    }
+  });
+};
+
+// Load the swap request from the URL, or send a 404
+const findSwap = async (req, res) => {
+  const swapRequest = await SwapRequest.findById(req.params.id);
+
+  if (!swapRequest) {
+    res.status(404).json({
+      success: false,
+      message: 'Swap request not found'
+    });
+    return null;
+  }
+
+  return swapRequest;
+};
+
+// Send a 403 if either participant has blocked the other. Returns true when
+// the request was refused.
+const sendIfBlocked = async (req, res, swapRequest) => {
+  if (!await User.isBlockedBetween(req.user._id, swapRequest.getOtherUserId(req.user._id))) return false;
+
+  res.status(403).json({
+    success: false,
+    message: 'You can no longer swap with this user'
+  });
+  return true;
+};
+
+// Send the response for a transition the state machine refused. Returns false
+// for any other error so the caller can handle it.
+const sendTransitionError = (res, error) => {
+  if (error.code !== 'INVALID_TRANSITION') return false;
+
+  res.status(error.statusCode).json({
+    success: false,
+    message: error.message
+  });
+  return true;
+};
+
 // @route   PUT /api/swaps/:id/accept
 // @desc    Accept a swap request
 // @access  Private
-router.put('/:id/accept', protect, [
+router.put('/:id/accept', protect, verifiedEmail, [
   param('id').isMongoId().withMessage('Invalid swap request ID')
 ], async (req, res) => {
   try {
@@ -237,52 +329,55 @@ router.put('/:id/accept', protect, [
       });
     }
 
-    const swapRequest = await SwapRequest.findById(req.params.id);
-
-    if (!swapRequest) {
-      return res.status(404).json({
-        success: false,
-        message: 'Swap request not found'
-      });
-    }
-
-    // Check if user is the recipient
-    if (swapRequest.toUserId.toString() !== req.user._id.toString()) {
-      return res.status(403).json({
-        success: false,
-        message: 'Only the recipient can accept swap requests'
-      });
+    const swapRequest = await findSwap(req, res);
+    if (!swapRequest) return;
+
+    swapRequest.checkTransition('accept', req.user);
+    if (await sendIfBlocked(req, res, swapRequest)) return;
+
+    // Hold the sender's ByteBucks until the swap is completed
+    if (swapRequest.paymentType === 'credits') {
+      try {
+        await holdSwapCredits(swapRequest);
+      } catch (error) {
+        if (error.code === 'INSUFFICIENT_CREDITS') {
+          return res.status(400).json({
+            success: false,
+            message: 'The sender no longer has enough ByteBucks for this swap'
+          });
+        }
+        if (error.code === 'TRANSACTION_IN_PROGRESS') {
+          return res.status(409).json({
+            success: false,
+            message: error.message
+          });
+        }
+        throw error;
+      }
     }
 
-    // Check if request is pending
-    if (swapRequest.status !== 'pending') {
-      return res.status(400).json({
-        success: false,
-        message: 'Can only accept pending swap requests'
-      });
+    // Accept the request. If another change to the request won the race,
+    // give back credits held above unless a concurrent accept still needs them.
+    try {
+      await swapRequest.transition('accept', req.user);
+    } catch (error) {
+      if (swapRequest.paymentType === 'credits' && error.statusCode === 409) {
+        const current = await SwapRequest.findById(swapRequest._id).select('status');
+        if (!current || !CREDITS_HELD_STATUSES.includes(current.status)) {
+          await refundSwapCredits(swapRequest);
+        }
+      }
+      throw error;
     }
-
-    // Accept the request
-    await swapRequest.accept();
     await swapRequest.populate('fromUserId', 'name email photo');
     await swapRequest.populate('toUserId', 'name email photo');
 
-    // Create notification for sender
-    await Notification.createSwapAcceptedNotification(swapRequest.fromUserId._id, swapRequest._id);
+    // Create notification for whoever made the accepted offer
+    const notification = await Notification.createSwapAcceptedNotification(swapRequest.getOtherUserId(req.user._id), swapRequest._id);
 
-    // Emit real-time event to sender
-    const io = req.app.get('io');
-    if (io) {
-      io.to(`user-${swapRequest.fromUserId._id}`).emit('swap-request-updated', {
-        swapRequest,
-        action: 'accepted',
-        updatedBy: {
-          id: req.user._id,
-          name: req.user.name,
-          photo: req.user.photo
-        }
-      });
-    }
+    // Emit real-time event to them
+    await emitNotification(req.app.get('io'), notification);
+    await emitSwapUpdate(req, swapRequest, 'accepted');
 
     res.json({
       success: true,
@@ -290,6 +385,7 @@ router.put('/:id/accept', protect, [
       data: { swapRequest }
     });
   } catch (error) {
+    if (sendTransitionError(res, error)) return;
     console.error('Accept swap request error:', error);
     res.status(500).json({
       success: false,
@@ -302,7 +398,8 @@ router.put('/:id/accept', protect, [
 // @desc    Reject a swap request
 // @access  Private
 router.put('/:id/reject', protect, [
-  param('id').isMongoId().withMessage('Invalid swap request ID')
+  param('id').isMongoId().withMessage('Invalid swap request ID'),
+  body('reason').optional().trim().isLength({ max: 500 }).withMessage('Reason cannot exceed 500 characters')
 ], async (req, res) => {
   try {
     const errors = validationResult(req);
@@ -314,60 +411,147 @@ router.put('/:id/reject', protect, [
       });
     }
 
-    const swapRequest = await SwapRequest.findById(req.params.id);
+    const swapRequest = await findSwap(req, res);
+    if (!swapRequest) return;
 
-    if (!swapRequest) {
-      return res.status(404).json({
+    // Reject the request
+    await swapRequest.transition('reject', req.user, { reason: req.body.reason || null });
+    await swapRequest.populate('fromUserId', 'name email photo');
+    await swapRequest.populate('toUserId', 'name email photo');
+
+    // Create notification for whoever made the rejected offer
+    const notification = await Notification.createSwapRejectedNotification(swapRequest.getOtherUserId(req.user._id), swapRequest._id);
+
+    // Emit real-time event to them
+    await emitNotification(req.app.get('io'), notification);
+    await emitSwapUpdate(req, swapRequest, 'rejected');
+
+    res.json({
+      success: true,
+      message: 'Swap request rejected successfully',
+      data: { swapRequest }
+    });
+  } catch (error) {
+    if (sendTransitionError(res, error)) return;
+    console.error('Reject swap request error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Server error'
+    });
+  }
+});
+
+// @route   PUT /api/swaps/:id/counter
+// @desc    Counter a pending swap request with new terms, handing the decision to the other participant
+// @access  Private
+router.put('/:id/counter', protect, verifiedEmail, [
+  param('id').isMongoId().withMessage('Invalid swap request ID'),
+  body('skillOffered').optional().trim().isLength({ min: 1, max: 50 }).withMessage('Skill offered must be between 1 and 50 characters'),
+  body('skillWanted').optional().trim().isLength({ min: 1, max: 50 }).withMessage('Skill wanted must be between 1 and 50 characters'),
+  body('hours').optional().isFloat({ min: 0.5, max: 20 }).withMessage('Hours must be between 0.5 and 20')
+    .custom(value => Number.isInteger(Number(value) * 2)).withMessage('Hours must be in steps of 0.5'),
+  body('message').trim().isLength({ min: 1, max: 500 }).withMessage('Message must be between 1 and 500 characters')
+], async (req, res) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
         success: false,
-        message: 'Swap request not found'
+        message: 'Validation error',
+        errors: errors.array()
       });
     }
 
-    // Check if user is the recipient
-    if (swapRequest.toUserId.toString() !== req.user._id.toString()) {
-      return res.status(403).json({
+    const swapRequest = await findSwap(req, res);
+    if (!swapRequest) return;
+
+    swapRequest.checkTransition('counter', req.user);
+    if (await sendIfBlocked(req, res, swapRequest)) return;
+
+    // Only the terms that differ from the current offer are changed. Credit
+    // swaps have no offered skill; the payment type itself can't be countered.
+    const changes = {};
+    if (req.body.skillOffered !== undefined && swapRequest.paymentType !== 'credits' &&
+        req.body.skillOffered !== swapRequest.skillOffered) {
+      changes.skillOffered = req.body.skillOffered;
+    }
+    if (req.body.skillWanted !== undefined && req.body.skillWanted !== swapRequest.skillWanted) {
+      changes.skillWanted = req.body.skillWanted;
+    }
+    if (req.body.hours !== undefined && Number(req.body.hours) !== swapRequest.hours) {
+      changes.hours = Number(req.body.hours);
+    }
+
+    if (Object.keys(changes).length === 0) {
+      return res.status(400).json({
         success: false,
-        message: 'Only the recipient can reject swap requests'
+        message: 'A counter-offer must change the skills or hours'
       });
     }
 
-    // Check if request is pending
-    if (swapRequest.status !== 'pending') {
+    // The sender always pays for a credit swap, whoever raises the hours
+    if (changes.hours > swapRequest.hours && swapRequest.paymentType === 'credits') {
+      const balance = await LedgerAccount.getBalance(swapRequest.fromUserId);
+      if (balance < changes.hours) {
+        return res.status(400).json({
+          success: false,
+          message: `Not enough ByteBucks: this swap would cost ${changes.hours} and the sender's balance is ${balance}`
+        });
+      }
+    }
+
+    // The sender teaches the offered skill and the recipient the wanted one,
+    // so each has to be on that participant's profile
+    const [sender, recipient] = await Promise.all([
+      User.findById(swapRequest.fromUserId),
+      User.findById(swapRequest.toUserId)
+    ]);
+    if (changes.skillOffered && !await sender.offersSkill(changes.skillOffered)) {
+      return res.status(400).json({
+        success: false,
+        message: `${sender.name} doesn't offer ${changes.skillOffered}`
+      });
+    }
+    if (changes.skillWanted && !await recipient.offersSkill(changes.skillWanted)) {
       return res.status(400).json({
         success: false,
-        message: 'Can only reject pending swap requests'
+        message: `${recipient.name} doesn't offer ${changes.skillWanted}`
       });
     }
 
-    // Reject the request
-    await swapRequest.reject();
+    // Record the level each side teaches at under the new terms
+    if (changes.skillOffered) {
+      changes.skillOfferedLevel = await sender.getOfferedSkillLevel(changes.skillOffered);
+    }
+    if (changes.skillWanted) {
+      changes.skillWantedLevel = await recipient.getOfferedSkillLevel(changes.skillWanted);
+    }
+    changes.message = req.body.message;
+    // A counter-offer gives the other participant a full expiry period to answer
+    changes.expiresAt = getPendingExpiry();
+    changes['reminders.expiringSentAt'] = null;
+
+    await swapRequest.transition('counter', req.user, { changes });
     await swapRequest.populate('fromUserId', 'name email photo');
     await swapRequest.populate('toUserId', 'name email photo');
 
-    // Create notification for sender
-    await Notification.createSwapRejectedNotification(swapRequest.fromUserId._id, swapRequest._id);
-
-    // Emit real-time event to sender
-    const io = req.app.get('io');
-    if (io) {
-      io.to(`user-${swapRequest.fromUserId._id}`).emit('swap-request-updated', {
-        swapRequest,
-        action: 'rejected',
-        updatedBy: {
-          id: req.user._id,
-          name: req.user.name,
-          photo: req.user.photo
-        }
-      });
-    }
+    // Hand the decision to the other participant
+    const notification = await Notification.createSwapCounteredNotification(
+      swapRequest.getOtherUserId(req.user._id),
+      swapRequest._id,
+      swapRequest.offers.length
+    );
+    await emitNotification(req.app.get('io'), notification);
+    await emitSwapUpdate(req, swapRequest, 'countered');
 
     res.json({
       success: true,
-      message: 'Swap request rejected successfully',
+      message: 'Counter-offer sent successfully',
       data: { swapRequest }
     });
   } catch (error) {
-    console.error('Reject swap request error:', error);
+    if (sendTransitionError(res, error)) return;
+    console.error('Counter swap request error:', error);
     res.status(500).json({
       success: false,
       message: 'Server error'
@@ -376,7 +560,7 @@ router.put('/:id/reject', protect, [
 });
 
 // @route   PUT /api/swaps/:id/complete
-// @desc    Complete a swap request
+// @desc    Mark an accepted swap as completed; the other participant must confirm
 // @access  Private
 router.put('/:id/complete', protect, [
   param('id').isMongoId().withMessage('Invalid swap request ID')
@@ -391,66 +575,126 @@ router.put('/:id/complete', protect, [
       });
     }
 
-    const swapRequest = await SwapRequest.findById(req.params.id);
+    const swapRequest = await findSwap(req, res);
+    if (!swapRequest) return;
 
-    if (!swapRequest) {
-      return res.status(404).json({
+    await swapRequest.transition('requestCompletion', req.user);
+    await swapRequest.populate('fromUserId', 'name email photo');
+    await swapRequest.populate('toUserId', 'name email photo');
+
+    // Ask the other participant to confirm
+    const notification = await Notification.createSwapCompletionNotification(
+      swapRequest.getOtherUserId(req.user._id),
+      'swap_completion_requested',
+      swapRequest._id,
+      { confirmBy: getConfirmDeadline(swapRequest) }
+    );
+    await emitNotification(req.app.get('io'), notification);
+    await emitSwapUpdate(req, swapRequest, 'completion_requested');
+
+    res.json({
+      success: true,
+      message: 'Swap marked as completed. Waiting for your partner to confirm',
+      data: { swapRequest, confirmBy: getConfirmDeadline(swapRequest) }
+    });
+  } catch (error) {
+    if (sendTransitionError(res, error)) return;
+    console.error('Complete swap error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Server error'
+    });
+  }
+});
+
+// @route   PUT /api/swaps/:id/confirm-completion
+// @desc    Confirm the other participant's completion, completing the swap
+// @access  Private
+router.put('/:id/confirm-completion', protect, [
+  param('id').isMongoId().withMessage('Invalid swap request ID')
+], async (req, res) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
         success: false,
-        message: 'Swap request not found'
+        message: 'Validation error',
+        errors: errors.array()
       });
     }
 
-    // Check if user is involved in this swap
-    if (swapRequest.fromUserId.toString() !== req.user._id.toString() && 
-        swapRequest.toUserId.toString() !== req.user._id.toString()) {
-      return res.status(403).json({
-        success: false,
-        message: 'Not authorized to complete this swap'
-      });
+    const swapRequest = await findSwap(req, res);
+    if (!swapRequest) return;
+
+    // Complete the swap, then post the ByteBucks earned or paid
+    try {
+      await finalizeCompletion(req.app.get('io'), swapRequest, { actor: req.user });
+    } catch (error) {
+      if (error.code === 'TRANSACTION_IN_PROGRESS') {
+        return res.status(409).json({
+          success: false,
+          message: error.message
+        });
+      }
+      throw error;
     }
+    await emitSwapUpdate(req, swapRequest, 'completed');
+
+    res.json({
+      success: true,
+      message: 'Swap completed successfully',
+      data: { swapRequest }
+    });
+  } catch (error) {
+    if (sendTransitionError(res, error)) return;
+    console.error('Confirm swap completion error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Server error'
+    });
+  }
+});
 
-    // Check if request is accepted
-    if (swapRequest.status !== 'accepted') {
+// @route   PUT /api/swaps/:id/dispute
+// @desc    Dispute the other participant's completion; an admin will resolve it
+// @access  Private
+router.put('/:id/dispute', protect, [
+  param('id').isMongoId().withMessage('Invalid swap request ID'),
+  body('reason').trim().isLength({ min: 1, max: 500 }).withMessage('Reason must be between 1 and 500 characters')
+], async (req, res) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
       return res.status(400).json({
         success: false,
-        message: 'Can only complete accepted swap requests'
+        message: 'Validation error',
+        errors: errors.array()
       });
     }
 
-    // Complete the swap
-    await swapRequest.complete();
+    const swapRequest = await findSwap(req, res);
+    if (!swapRequest) return;
+
+    await swapRequest.transition('dispute', req.user, { reason: req.body.reason });
     await swapRequest.populate('fromUserId', 'name email photo');
     await swapRequest.populate('toUserId', 'name email photo');
 
-    // Create notifications for both users
-    await Notification.createSwapCompletedNotification(swapRequest.fromUserId._id, swapRequest._id);
-    await Notification.createSwapCompletedNotification(swapRequest.toUserId._id, swapRequest._id);
-
-    // Emit real-time events to both users
-    const io = req.app.get('io');
-    if (io) {
-      const otherUserId = req.user._id.toString() === swapRequest.fromUserId._id.toString() 
-        ? swapRequest.toUserId._id 
-        : swapRequest.fromUserId._id;
-      
-      io.to(`user-${otherUserId}`).emit('swap-request-updated', {
-        swapRequest,
-        action: 'completed',
-        updatedBy: {
-          id: req.user._id,
-          name: req.user.name,
-          photo: req.user.photo
-        }
-      });
-    }
+    const notification = await Notification.createSwapCompletionNotification(
+      swapRequest.getOtherUserId(req.user._id),
+      'swap_disputed',
+      swapRequest._id
+    );
+    await emitNotification(req.app.get('io'), notification);
+    await emitSwapUpdate(req, swapRequest, 'disputed');
 
     res.json({
       success: true,
-      message: 'Swap completed successfully',
+      message: 'Completion disputed. An admin will review it',
       data: { swapRequest }
     });
   } catch (error) {
-    console.error('Complete swap error:', error);
+    if (sendTransitionError(res, error)) return;
+    console.error('Dispute swap completion error:', error);
     res.status(500).json({
       success: false,
       message: 'Server error'
@@ -458,10 +702,10 @@ router.put('/:id/complete', protect, [
   }
 });
 
-// @route   DELETE /api/swaps/:id
-// @desc    Cancel/delete a swap request
-// @access  Private
-router.delete('/:id', protect, [
+// @route   GET /api/swaps/:id/history
+// @desc    Get the status history of a swap request
+// @access  Private (participants and admins)
+router.get('/:id/history', protect, [
   param('id').isMongoId().withMessage('Invalid swap request ID')
 ], async (req, res) => {
   try {
@@ -474,7 +718,9 @@ router.delete('/:id', protect, [
       });
     }
 
-    const swapRequest = await SwapRequest.findById(req.params.id);
+    const swapRequest = await SwapRequest.findById(req.params.id)
+      .select('fromUserId toUserId status history')
+      .populate('history.actor', 'name photo');
 
     if (!swapRequest) {
       return res.status(404).json({
@@ -483,30 +729,83 @@ router.delete('/:id', protect, [
       });
     }
 
-    // Check if user is the sender
-    if (swapRequest.fromUserId.toString() !== req.user._id.toString()) {
+    if (!swapRequest.isParticipant(req.user._id) && !req.user.isAdmin) {
       return res.status(403).json({
         success: false,
-        message: 'Only the sender can cancel swap requests'
+        message: 'Not authorized to view this swap request'
       });
     }
 
-    // Check if request is pending
-    if (swapRequest.status !== 'pending') {
+    res.json({
+      success: true,
+      data: {
+        status: swapRequest.status,
+        history: swapRequest.history
+      }
+    });
+  } catch (error) {
+    console.error('Get swap history error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Server error'
+    });
+  }
+});
+
+// @route   DELETE /api/swaps/:id
+// @desc    Cancel a pending swap request, or call off an accepted swap and
+//          refund any ByteBucks held for it
+// @access  Private
+router.delete('/:id', protect, [
+  param('id').isMongoId().withMessage('Invalid swap request ID'),
+  body('reason').optional().trim().isLength({ max: 500 }).withMessage('Reason cannot exceed 500 characters')
+], async (req, res) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
       return res.status(400).json({
         success: false,
-        message: 'Can only cancel pending swap requests'
+        message: 'Validation error',
+        errors: errors.array()
       });
     }
 
-    // Cancel the request
-    await swapRequest.cancel();
+    const swapRequest = await findSwap(req, res);
+    if (!swapRequest) return;
+
+    const reason = req.body.reason || null;
+    if (swapRequest.status === 'accepted') {
+      await swapRequest.transition('cancelAccepted', req.user, { reason });
+      // Give the learner back the ByteBucks held when the swap was accepted.
+      // Only refunded once cancelled, so a completion racing the cancellation
+      // can't find its held credits gone.
+      if (swapRequest.paymentType === 'credits') {
+        try {
+          await refundSwapCredits(swapRequest);
+        } catch (error) {
+          if (error.code === 'TRANSACTION_IN_PROGRESS') {
+            return res.status(409).json({
+              success: false,
+              message: error.message
+            });
+          }
+          throw error;
+        }
+      }
+      await swapRequest.populate('fromUserId', 'name email photo');
+      await swapRequest.populate('toUserId', 'name email photo');
+      await emitSwapUpdate(req, swapRequest, 'cancelled');
+    } else {
+      // Cancel the request
+      await swapRequest.transition('cancel', req.user, { reason });
+    }
 
     res.json({
       success: true,
       message: 'Swap request cancelled successfully'
     });
   } catch (error) {
+    if (sendTransitionError(res, error)) return;
     console.error('Cancel swap request error:', error);
     res.status(500).json({
       success: false,
@@ -1,18 +1,54 @@
 import express from 'express';
 import { query, param, validationResult } from 'express-validator';
 import User from '../models/User.js';
+import Skill from '../models/Skill.js';
 import { protect, optionalAuth } from '../middleware/auth.js';
+import {
+  AVAILABILITY_PRESETS,
+  isValidTime,
+  isValidTimeZone,
+  presetToAvailability,
+  rankByAvailability
+} from '../services/availability.js';
+import { SKILL_LEVELS } from '../services/skillLevels.js';
+import { withPresence, getOnlineUserIds } from '../services/presence.js';
 
 const router = express.Router();
 
+// Build the weekly window users must overlap with from the query string:
+// the caller's own availability, a single day/time range, or a legacy preset
+const getRequestedAvailability = (req) => {
+  const { overlapWithMe, day, from = '00:00', to = '24:00', availability, timezone = 'UTC' } = req.query;
+
+  if (overlapWithMe === 'true') {
+    return req.user.availability;
+  }
+  if (day !== undefined) {
+    return { timezone, slots: [{ day: parseInt(day), start: from, end: to }] };
+  }
+  if (availability) {
+    return presetToAvailability(availability, timezone);
+  }
+  return null;
+};
+
 // @route   GET /api/users
 // @desc    Get all public users with filtering and pagination
 // @access  Public
 router.get('/', optionalAuth, [
   query('search').optional().trim().isLength({ min: 1 }).withMessage('Search term must not be empty'),
   query('skill').optional().trim().isLength({ min: 1 }).withMessage('Skill must not be empty'),
-  query('availability').optional().isIn(['weekdays', 'weekends', 'evenings', 'flexible']).withMessage('Invalid availability option'),
+  query('minLevel').optional().isIn(SKILL_LEVELS).withMessage('Invalid skill level'),
+  query('availability').optional().isIn(AVAILABILITY_PRESETS).withMessage('Invalid availability option'),
+  query('day').optional().isInt({ min: 0, max: 6 }).withMessage('Day must be between 0 (Sunday) and 6 (Saturday)'),
+  query('from').optional().custom(isValidTime).withMessage('From must be in HH:MM format'),
+  query('to').optional().custom(isValidTime).withMessage('To must be in HH:MM format'),
+  query('timezone').optional().custom(isValidTimeZone).withMessage('Invalid timezone'),
+  query('overlapWithMe').optional().isBoolean().withMessage('overlapWithMe must be a boolean'),
+  query('minOverlap').optional().isInt({ min: 1, max: 10080 }).withMessage('Minimum overlap must be between 1 and 10080 minutes'),
   query('location').optional().trim().isLength({ min: 1 }).withMessage('Location must not be empty'),
+  query('onlineNow').optional().isBoolean().withMessage('onlineNow must be a boolean'),
+  query('activeWithinDays').optional().isInt({ min: 1, max: 365 }).withMessage('Active within must be between 1 and 365 days'),
   query('page').optional().isInt({ min: 1 }).withMessage('Page must be a positive integer'),
   query('limit').optional().isInt({ min: 1, max: 50 }).withMessage('Limit must be between 1 and 50')
 ], async (req, res) => {
@@ -26,9 +62,30 @@ router.get('/', optionalAuth, [
       });
     }
 
-    const { search, skill, availability, location, page = 1, limit = 20 } = req.query;
+    const { search, skill, minLevel, location, minOverlap, activeWithinDays, page = 1, limit = 20 } = req.query;
     const skip = (page - 1) * limit;
 
+    if (req.query.overlapWithMe === 'true' && !req.user) {
+      return res.status(401).json({
+        success: false,
+        message: 'Log in to find users whose availability overlaps yours'
+      });
+    }
+
+    if (minLevel && !skill) {
+      return res.status(400).json({
+        success: false,
+        message: 'minLevel requires a skill'
+      });
+    }
+
+    if (req.query.from && req.query.to && req.query.to <= req.query.from) {
+      return res.status(400).json({
+        success: false,
+        message: 'To must be after from'
+      });
+    }
+
     // Build query
     let query = { isPublic: true, isBanned: false };
 
@@ -37,33 +94,66 @@ router.get('/', optionalAuth, [
       query.$text = { $search: search };
     }
 
-    // Skill filter
+    // Skill filter, by name or alias and including more specific child skills.
+    // minLevel applies to the level offered or the target level wanted.
     if (skill) {
+      const skillIds = await Skill.withDescendants(await Skill.findMatchingIds(skill));
       query.$or = [
-        { skillsOffered: { $regex: skill, $options: 'i' } },
-        { skillsWanted: { $regex: skill, $options: 'i' } }
+        User.buildSkillCondition(skillIds, 'offered', minLevel),
+        User.buildSkillCondition(skillIds, 'wanted', minLevel)
       ];
     }
 
-    // Availability filter
-    if (availability) {
-      query.availability = availability;
-    }
-
     // Location filter
     if (location) {
       query.location = { $regex: location, $options: 'i' };
     }
 
-    // Execute query
-    const users = await User.find(query)
-      .select('name email location photo skillsOffered skillsWanted availability rating reviewCount joinedAt')
-      .sort({ rating: -1, reviewCount: -1 })
-      .skip(skip)
-      .limit(parseInt(limit));
+    // Recently active users; anyone online right now counts as active
+    if (req.query.onlineNow === 'true') {
+      query._id = { $in: getOnlineUserIds() };
+    } else if (activeWithinDays) {
+      const since = new Date(Date.now() - parseInt(activeWithinDays) * 24 * 60 * 60 * 1000);
+      query.$and = [{
+        $or: [{ lastActive: { $gte: since } }, { _id: { $in: getOnlineUserIds() } }]
+      }];
+    }
 
-    // Get total count
-    const total = await User.countDocuments(query);
+    // Don't list the caller as overlapping with themselves
+    if (req.query.overlapWithMe === 'true') {
+      query._id = { ...query._id, $ne: req.user._id };
+    }
+
+    // Hide users the caller has blocked or been blocked by
+    if (req.user) {
+      query._id = { ...query._id, $nin: await User.getBlockedIds(req.user._id) };
+    }
+
+    let users;
+    let total;
+    const requestedAvailability = getRequestedAvailability(req);
+
+    if (requestedAvailability) {
+      // Overlap is computed across timezones in memory, so filter and page after ranking
+      const candidates = await User.find(query)
+        .select('name email location photo skillsOffered skillsWanted offeredSkillDetails wantedSkillDetails availability rating averageRating reviewCount lastActive createdAt');
+      const ranked = rankByAvailability(candidates, requestedAvailability, {
+        minOverlap: minOverlap ? parseInt(minOverlap) : 1
+      });
+
+      users = ranked.slice(skip, skip + parseInt(limit));
+      total = ranked.length;
+    } else {
+      // Execute query
+      users = await User.find(query)
+        .select('name email location photo skillsOffered skillsWanted offeredSkillDetails wantedSkillDetails availability rating averageRating reviewCount lastActive createdAt')
+        .sort({ rating: -1, reviewCount: -1 })
+        .skip(skip)
+        .limit(parseInt(limit));
+
+      // Get total count
+      total = await User.countDocuments(query);
+    }
 
     // Calculate pagination info
     const totalPages = Math.ceil(total / limit);
@@ -73,7 +163,7 @@ router.get('/', optionalAuth, [
     res.json({
       success: true,
       data: {
-        users,
+        users: withPresence(users),
         pagination: {
           currentPage: parseInt(page),
           totalPages,
@@ -93,6 +183,104 @@ router.get('/', optionalAuth, [
   }
 });
 
+// @route   GET /api/users/blocked
+// @desc    Get the users the current user has blocked
+// @access  Private
+router.get('/blocked', protect, async (req, res) => {
+  try {
+    const user = await User.findById(req.user._id)
+      .select('blockedUsers')
+      .populate('blockedUsers', 'name photo rating');
+
+    res.json({
+      success: true,
+      data: { users: user.blockedUsers }
+    });
+  } catch (error) {
+    console.error('Get blocked users error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Server error'
+    });
+  }
+});
+
+// @route   POST /api/users/:id/block
+// @desc    Block a user, hiding both users from each other
+// @access  Private
+router.post('/:id/block', protect, [
+  param('id').isMongoId().withMessage('Invalid user ID')
+], async (req, res) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        success: false,
+        message: 'Validation error',
+        errors: errors.array()
+      });
+    }
+
+    if (req.params.id === req.user._id.toString()) {
+      return res.status(400).json({
+        success: false,
+        message: 'You cannot block yourself'
+      });
+    }
+
+    if (!await User.exists({ _id: req.params.id })) {
+      return res.status(404).json({
+        success: false,
+        message: 'User not found'
+      });
+    }
+
+    await User.updateOne({ _id: req.user._id }, { $addToSet: { blockedUsers: req.params.id } });
+
+    res.json({
+      success: true,
+      message: 'User blocked'
+    });
+  } catch (error) {
+    console.error('Block user error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Server error'
+    });
+  }
+});
+
+// @route   DELETE /api/users/:id/block
+// @desc    Unblock a user
+// @access  Private
+router.delete('/:id/block', protect, [
+  param('id').isMongoId().withMessage('Invalid user ID')
+], async (req, res) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        success: false,
+        message: 'Validation error',
+        errors: errors.array()
+      });
+    }
+
+    await User.updateOne({ _id: req.user._id }, { $pull: { blockedUsers: req.params.id } });
+
+    res.json({
+      success: true,
+      message: 'User unblocked'
+    });
+  } catch (error) {
+    console.error('Unblock user error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Server error'
+    });
+  }
+});
+
 // @route   GET /api/users/:id
 // @desc    Get user profile by ID
 // @access  Public
@@ -110,9 +298,10 @@ router.get('/:id', optionalAuth, [
     }
 
     const user = await User.findById(req.params.id)
-      .select('name email location photo skillsOffered skillsWanted availability rating reviewCount joinedAt isPublic');
+      .select('name email location photo skillsOffered skillsWanted offeredSkillDetails wantedSkillDetails availability rating averageRating reviewCount lastActive createdAt isPublic');
 
-    if (!user) {
+    // Blocked users look like they don't exist to each other
+    if (!user || (req.user && await User.isBlockedBetween(req.user._id, user._id))) {
       return res.status(404).json({
         success: false,
         message: 'User not found'
@@ -129,7 +318,7 @@ router.get('/:id', optionalAuth, [
 
     res.json({
       success: true,
-      data: { user }
+      data: { user: withPresence([user])[0] }
     });
   } catch (error) {
     console.error('Get user error:', error);
@@ -141,10 +330,13 @@ router.get('/:id', optionalAuth, [
 });
 
 // @route   GET /api/users/:id/skill-matches
-// @desc    Get users that match skills with the given user
-// @access  Public
-router.get('/:id/skill-matches', [
+// @desc    Get users that match skills with the given user, scored and explained
+// @access  Private
+router.get('/:id/skill-matches', protect, [
   param('id').isMongoId().withMessage('Invalid user ID'),
+  query('sortBy').optional().isIn(['score', 'rating', 'availability']).withMessage('Sort must be score, rating or availability'),
+  query('minScore').optional().isInt({ min: 0, max: 100 }).withMessage('Minimum score must be between 0 and 100'),
+  query('minOverlap').optional().isInt({ min: 1, max: 10080 }).withMessage('Minimum overlap must be between 1 and 10080 minutes'),
   query('page').optional().isInt({ min: 1 }).withMessage('Page must be a positive integer'),
   query('limit').optional().isInt({ min: 1, max: 50 }).withMessage('Limit must be between 1 and 50')
 ], async (req, res) => {
@@ -158,34 +350,35 @@ router.get('/:id/skill-matches', [
       });
     }
 
-    const { page = 1, limit = 20 } = req.query;
+    const { sortBy = 'score', minScore, minOverlap, page = 1, limit = 20 } = req.query;
     const skip = (page - 1) * limit;
 
-    const user = await User.findById(req.params.id);
-    if (!user) {
+    const userExists = await User.exists({ _id: req.params.id });
+    if (!userExists) {
       return res.status(404).json({
         success: false,
         message: 'User not found'
       });
     }
 
-    // Find skill matches
-    const matches = await User.findSkillMatches(req.params.id)
-      .select('name email location photo skillsOffered skillsWanted availability rating reviewCount joinedAt')
-      .sort({ rating: -1, reviewCount: -1 })
-      .skip(skip)
-      .limit(parseInt(limit));
+    // Scores depend on the viewer, so the candidates are ranked and then paged in memory
+    let ranked = await User.findSkillMatches(req.params.id);
 
-    // Get total count
-    const total = await User.countDocuments({
-      _id: { $ne: req.params.id },
-      isPublic: true,
-      isBanned: false,
-      $or: [
-        { skillsOffered: { $in: user.skillsWanted } },
-        { skillsWanted: { $in: user.skillsOffered } }
-      ]
-    });
+    if (minScore) {
+      ranked = ranked.filter(match => match.matchScore >= parseInt(minScore));
+    }
+    if (minOverlap) {
+      ranked = ranked.filter(match => match.availabilityOverlap >= parseInt(minOverlap));
+    }
+
+    if (sortBy === 'rating') {
+      ranked.sort((a, b) => b.rating - a.rating || b.reviewCount - a.reviewCount);
+    } else if (sortBy === 'availability') {
+      ranked.sort((a, b) => b.availabilityOverlap - a.availabilityOverlap || b.matchScore - a.matchScore);
+    }
+
+    const matches = ranked.slice(skip, skip + parseInt(limit));
+    const total = ranked.length;
 
     // Calculate pagination info
     const totalPages = Math.ceil(total / limit);
@@ -218,9 +411,10 @@ router.get('/:id/skill-matches', [
 // @route   GET /api/users/search/skills
 // @desc    Search users by skill
 // @access  Public
-router.get('/search/skills', [
+router.get('/search/skills', optionalAuth, [
   query('skill').trim().isLength({ min: 1 }).withMessage('Skill is required'),
   query('type').optional().isIn(['offered', 'wanted']).withMessage('Type must be offered or wanted'),
+  query('minLevel').optional().isIn(SKILL_LEVELS).withMessage('Invalid skill level'),
   query('page').optional().isInt({ min: 1 }).withMessage('Page must be a positive integer'),
   query('limit').optional().isInt({ min: 1, max: 50 }).withMessage('Limit must be between 1 and 50')
 ], async (req, res) => {
@@ -234,23 +428,22 @@ router.get('/search/skills', [
       });
     }
 
-    const { skill, type = 'offered', page = 1, limit = 20 } = req.query;
+    const { skill, type = 'offered', minLevel, page = 1, limit = 20 } = req.query;
     const skip = (page - 1) * limit;
 
     // Find users by skill
-    const users = await User.findBySkill(skill, type)
-      .select('name email location photo skillsOffered skillsWanted availability rating reviewCount joinedAt')
+    const skillQuery = await User.buildSkillQuery(skill, type, minLevel);
+    if (req.user) {
+      skillQuery._id = { ...skillQuery._id, $nin: await User.getBlockedIds(req.user._id) };
+    }
+    const users = await User.find(skillQuery)
+      .select('name email location photo skillsOffered skillsWanted offeredSkillDetails wantedSkillDetails availability rating averageRating reviewCount createdAt')
       .sort({ rating: -1, reviewCount: -1 })
       .skip(skip)
       .limit(parseInt(limit));
 
     // Get total count
-    const field = type === 'wanted' ? 'skillsWanted' : 'skillsOffered';
-    const total = await User.countDocuments({
-      [field]: { $regex: skill, $options: 'i' },
-      isPublic: true,
-      isBanned: false
-    });
+    const total = await User.countDocuments(skillQuery);
 
     // Calculate pagination info
     const totalPages = Math.ceil(total / limit);
@@ -288,20 +481,10 @@ router.get('/search/skills', [
 router.get('/stats/popular-skills', async (req, res) => {
   try {
     // Get popular offered skills
-    const offeredSkills = await User.aggregate([
-      { $unwind: '$skillsOffered' },
-      { $group: { _id: '$skillsOffered', count: { $sum: 1 } } },
-      { $sort: { count: -1 } },
-      { $limit: 10 }
-    ]);
+    const offeredSkills = await User.getPopularSkills('offered', 10);
 
     // Get popular wanted skills
-    const wantedSkills = await User.aggregate([
-      { $unwind: '$skillsWanted' },
-      { $group: { _id: '$skillsWanted', count: { $sum: 1 } } },
-      { $sort: { count: -1 } },
-      { $limit: 10 }
-    ]);
+    const wantedSkills = await User.getPopularSkills('wanted', 10);
 
     res.json({
       success: true,
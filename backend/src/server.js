@@ -3,6 +3,7 @@ import cors from 'cors';
 import helmet from 'helmet';
 import morgan from 'morgan';
 import compression from 'compression';
+import cookieParser from 'cookie-parser';
 import rateLimit from 'express-rate-limit';
 import dotenv from 'dotenv';
 import { createServer } from 'http';
@@ -13,7 +14,25 @@ import userRoutes from './routes/users.js';
 import swapRoutes from './routes/swaps.js';
 import feedbackRoutes from './routes/feedback.js';
 import adminRoutes from './routes/admin.js';
+import notificationRoutes from './routes/notifications.js';
+import messageRoutes from './routes/messages.js';
+import sessionRoutes from './routes/sessions.js';
+import skillRoutes from './routes/skills.js';
+import groupSwapRoutes from './routes/groupSwaps.js';
+import creditRoutes from './routes/credits.js';
+import reportRoutes from './routes/reports.js';
+import User from './models/User.js';
+import Skill from './models/Skill.js';
+import Review from './models/Review.js';
+import Report from './models/Report.js';
 import { errorHandler } from './middleware/errorHandler.js';
+import { registerChatHandlers } from './socket/chat.js';
+import { registerSyncHandlers } from './socket/sync.js';
+import { authenticateSocket, joinAuthorizedRooms } from './socket/auth.js';
+import { trackPresence } from './services/presence.js';
+import { startJobs } from './services/jobs.js';
+import { registerNotificationChannel } from './services/notificationService.js';
+import { emailChannel } from './services/emailNotifier.js';
 
 // Load environment variables
 dotenv.config();
@@ -29,18 +48,71 @@ const io = new Server(server, {
 
 const PORT = process.env.PORT || 5000;
 
-// Connect to MongoDB
-connectDB();
+// Connect to MongoDB, then upgrade any documents still in a legacy shape
+connectDB().then(async () => {
+  try {
+    const migrated = await User.migrateLegacyAvailability();
+    if (migrated > 0) {
+      console.log(`🗓️  Migrated availability for ${migrated} users`);
+    }
+  } catch (error) {
+    console.error('Availability migration error:', error);
+  }
+
+  try {
+    const verified = await User.markLegacyEmailsVerified();
+    if (verified > 0) {
+      console.log(`✉️  Marked ${verified} existing users as email-verified`);
+    }
+  } catch (error) {
+    console.error('Email verification migration error:', error);
+  }
+
+  try {
+    const copied = await Review.migrateLegacyFeedback();
+    if (copied > 0) {
+      console.log(`⭐ Copied ${copied} legacy ratings into reviews`);
+    }
+    const published = await Review.migrateUnsealedReviews();
+    if (published > 0) {
+      console.log(`⭐ Published ${published} reviews written before reviews were sealed`);
+    }
+    const moved = await Report.migrateReviewReports();
+    if (moved > 0) {
+      console.log(`⭐ Moved ${moved} review reports into the report queue`);
+    }
+  } catch (error) {
+    console.error('Review migration error:', error);
+  }
+
+  try {
+    const seeded = await Skill.ensureDefaults();
+    if (seeded > 0) {
+      console.log(`🧩 Loaded ${seeded} default skills`);
+    }
+    const linked = await User.migrateSkillReferences();
+    if (linked > 0) {
+      console.log(`🧩 Linked skills for ${linked} users`);
+    }
+  } catch (error) {
+    console.error('Skill migration error:', error);
+  }
+
+  startJobs(io);
+});
+
+// Socket.io connection handling; only authenticated users can connect
+io.use(authenticateSocket);
 
-// Socket.io connection handling
 io.on('connection', (socket) => {
-  console.log('User connected:', socket.id);
+  console.log(`User ${socket.data.userId} connected:`, socket.id);
 
-  // Join user to their personal room
-  socket.on('join-user', (userId) => {
-    socket.join(`user-${userId}`);
-    console.log(`User ${userId} joined their room`);
-  });
+  // Join the user's personal room (and the admin room for admins)
+  joinAuthorizedRooms(socket);
+  trackPresence(io, socket);
+
+  registerChatHandlers(io, socket);
+  registerSyncHandlers(io, socket);
 
   // Handle disconnect
   socket.on('disconnect', () => {
@@ -48,6 +120,9 @@ io.on('connection', (socket) => {
   });
 });
 
+// Email notifications as well as the socket push
+registerNotificationChannel(emailChannel);
+
 // Make io available to routes
 app.set('io', io);
 
@@ -69,6 +144,7 @@ app.use('/api/', limiter);
 // Body parsing middleware
 app.use(express.json({ limit: '10mb' }));
 app.use(express.urlencoded({ extended: true, limit: '10mb' }));
+app.use(cookieParser());
 
 // Compression middleware
 app.use(compression());
@@ -93,6 +169,13 @@ app.use('/api/users', userRoutes);
 app.use('/api/swaps', swapRoutes);
 app.use('/api/feedback', feedbackRoutes);
 app.use('/api/admin', adminRoutes);
+app.use('/api/notifications', notificationRoutes);
+app.use('/api/messages', messageRoutes);
+app.use('/api/sessions', sessionRoutes);
+app.use('/api/skills', skillRoutes);
+app.use('/api/group-swaps', groupSwapRoutes);
+app.use('/api/credits', creditRoutes);
+app.use('/api/reports', reportRoutes);
 
 // 404 handler
 app.use('*', (req, res) => {
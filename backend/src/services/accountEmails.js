@@ -0,0 +1,27 @@
+// Email verification and password reset emails. Links point to the frontend,
+// which posts the token back to the API.
+import AuthToken from '../models/AuthToken.js';
+import { sendMail } from './mailer.js';
+import { getAppUrl, renderVerificationEmail, renderPasswordResetEmail } from './emailTemplates.js';
+
+const VERIFICATION_TTL_MS = 24 * 60 * 60 * 1000;
+const PASSWORD_RESET_TTL_MS = 60 * 60 * 1000;
+
+const sendAccountEmail = (user, email) => sendMail({
+  to: user.email,
+  subject: email.subject,
+  text: email.text,
+  html: email.html
+});
+
+export const sendVerificationEmail = async (user) => {
+  const token = await AuthToken.issue(user._id, 'email_verification', VERIFICATION_TTL_MS);
+  const url = `${getAppUrl()}/verify-email?token=${token}`;
+  return sendAccountEmail(user, renderVerificationEmail(user, url));
+};
+
+export const sendPasswordResetEmail = async (user) => {
+  const token = await AuthToken.issue(user._id, 'password_reset', PASSWORD_RESET_TTL_MS);
+  const url = `${getAppUrl()}/reset-password?token=${token}`;
+  return sendAccountEmail(user, renderPasswordResetEmail(user, url));
+};
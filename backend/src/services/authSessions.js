@@ -0,0 +1,69 @@
+// Access tokens and the refresh token cookie. Access tokens are short-lived
+// JWTs naming their session; the refresh token lives in an httpOnly cookie
+// that is only sent to /api/auth.
+import jwt from 'jsonwebtoken';
+import AuthSession from '../models/AuthSession.js';
+
+export const REFRESH_COOKIE = 'refreshToken';
+const REFRESH_COOKIE_PATH = '/api/auth';
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const getRefreshTtlMs = () => (parseFloat(process.env.REFRESH_TOKEN_EXPIRES_DAYS) || 30) * DAY_MS;
+
+export const generateAccessToken = (userId, sessionId) => {
+  return jwt.sign({ id: userId, sid: sessionId }, process.env.JWT_SECRET, {
+    expiresIn: process.env.JWT_EXPIRES_IN || '15m'
+  });
+};
+
+const getClient = (req) => ({
+  userAgent: req.get('user-agent'),
+  ip: req.ip
+});
+
+const cookieOptions = () => ({
+  httpOnly: true,
+  secure: process.env.NODE_ENV === 'production',
+  sameSite: process.env.REFRESH_COOKIE_SAMESITE || 'lax',
+  path: REFRESH_COOKIE_PATH
+});
+
+const setRefreshCookie = (res, refreshToken) => {
+  res.cookie(REFRESH_COOKIE, refreshToken, {
+    ...cookieOptions(),
+    maxAge: getRefreshTtlMs()
+  });
+};
+
+export const clearRefreshCookie = (res) => {
+  res.clearCookie(REFRESH_COOKIE, cookieOptions());
+};
+
+export const getRefreshToken = (req) => req.cookies?.[REFRESH_COOKIE] || null;
+
+// Start a session for `user`, set the refresh cookie and return an access token
+export const startSession = async (req, res, user) => {
+  const { session, refreshToken } = await AuthSession.start(user._id, getClient(req), getRefreshTtlMs());
+  setRefreshCookie(res, refreshToken);
+  return generateAccessToken(user._id, session._id);
+};
+
+// Rotate the refresh cookie; resolves to the session, or null when the
+// cookie is missing or no longer valid. The cookie is left as it is when the
+// token was just rotated by another request.
+export const refreshSession = async (req, res) => {
+  const refreshToken = getRefreshToken(req);
+  if (!refreshToken) {
+    return null;
+  }
+
+  const result = await AuthSession.rotate(refreshToken, getClient(req), getRefreshTtlMs());
+  if (!result) {
+    return null;
+  }
+
+  if (result.refreshToken) {
+    setRefreshCookie(res, result.refreshToken);
+  }
+  return result.session;
+};
@@ -0,0 +1,166 @@
+// Weekly availability helpers: validation, legacy preset migration and
+// overlap calculation between users in different timezones
+
+const MINUTES_PER_DAY = 24 * 60;
+const MINUTES_PER_WEEK = 7 * MINUTES_PER_DAY;
+const TIME_PATTERN = /^([01]\d|2[0-3]):[0-5]\d$|^24:00$/;
+
+// Weekly ranges the old single-value availability options stood for
+const PRESET_SLOTS = {
+  weekdays: [1, 2, 3, 4, 5].map(day => ({ day, start: '09:00', end: '17:00' })),
+  weekends: [0, 6].map(day => ({ day, start: '09:00', end: '18:00' })),
+  evenings: [0, 1, 2, 3, 4, 5, 6].map(day => ({ day, start: '18:00', end: '22:00' })),
+  flexible: [0, 1, 2, 3, 4, 5, 6].map(day => ({ day, start: '08:00', end: '22:00' }))
+};
+
+export const AVAILABILITY_PRESETS = Object.keys(PRESET_SLOTS);
+
+export const isValidTimeZone = (timeZone) => {
+  if (typeof timeZone !== 'string' || !timeZone) return false;
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+export const isValidTime = (value) => typeof value === 'string' && TIME_PATTERN.test(value);
+
+const toMinutes = (time) => {
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours * 60 + minutes;
+};
+
+// Convert a legacy enum value into a structured availability
+export const presetToAvailability = (preset, timezone = 'UTC') => ({
+  timezone,
+  slots: (PRESET_SLOTS[preset] || PRESET_SLOTS.flexible).map(slot => ({ ...slot }))
+});
+
+// Accept either a legacy preset string or a { timezone, slots } object and
+// return a structured availability, or throw with a readable message
+export const normalizeAvailability = (value) => {
+  if (typeof value === 'string') {
+    if (!AVAILABILITY_PRESETS.includes(value)) {
+      throw new Error('Invalid availability option');
+    }
+    return presetToAvailability(value);
+  }
+
+  if (!value || typeof value !== 'object' || !Array.isArray(value.slots)) {
+    throw new Error('Availability must include a list of weekly time slots');
+  }
+
+  const timezone = value.timezone || 'UTC';
+  if (!isValidTimeZone(timezone)) {
+    throw new Error('Invalid timezone');
+  }
+
+  if (value.slots.length > 50) {
+    throw new Error('Availability cannot have more than 50 time slots');
+  }
+
+  const slots = value.slots.map((slot) => {
+    const day = Number(slot?.day);
+    if (!Number.isInteger(day) || day < 0 || day > 6) {
+      throw new Error('Slot day must be between 0 (Sunday) and 6 (Saturday)');
+    }
+    if (!isValidTime(slot.start) || !isValidTime(slot.end)) {
+      throw new Error('Slot times must be in HH:MM format');
+    }
+    if (toMinutes(slot.end) <= toMinutes(slot.start)) {
+      throw new Error('Slot end time must be after its start time');
+    }
+    return { day, start: slot.start, end: slot.end };
+  });
+
+  return { timezone, slots };
+};
+
+// Offset of a timezone from UTC in minutes at the given instant (e.g. +60 for Europe/Berlin in winter)
+const getOffsetMinutes = (timeZone, date) => {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    hourCycle: 'h23',
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+    second: '2-digit'
+  }).formatToParts(date);
+  const values = Object.fromEntries(parts.map(part => [part.type, Number(part.value)]));
+  const asUtc = Date.UTC(values.year, values.month - 1, values.day, values.hour, values.minute, values.second);
+
+  return Math.round((asUtc - date.getTime()) / 60000);
+};
+
+// Project weekly slots onto a UTC minute-of-week axis. Offsets are taken at
+// `referenceDate`, so DST shifts are reflected for the current week.
+export const toUtcIntervals = (availability, referenceDate = new Date()) => {
+  if (!availability || !Array.isArray(availability.slots)) return [];
+
+  const offset = isValidTimeZone(availability.timezone)
+    ? getOffsetMinutes(availability.timezone, referenceDate)
+    : 0;
+
+  const intervals = [];
+  for (const slot of availability.slots) {
+    const start = slot.day * MINUTES_PER_DAY + toMinutes(slot.start) - offset;
+    const end = slot.day * MINUTES_PER_DAY + toMinutes(slot.end) - offset;
+    const wrappedStart = ((start % MINUTES_PER_WEEK) + MINUTES_PER_WEEK) % MINUTES_PER_WEEK;
+    const wrappedEnd = wrappedStart + (end - start);
+
+    // Split intervals that wrap around the end of the week
+    if (wrappedEnd > MINUTES_PER_WEEK) {
+      intervals.push([wrappedStart, MINUTES_PER_WEEK], [0, wrappedEnd - MINUTES_PER_WEEK]);
+    } else {
+      intervals.push([wrappedStart, wrappedEnd]);
+    }
+  }
+
+  // Merge overlapping intervals so overlap isn't counted twice
+  intervals.sort((a, b) => a[0] - b[0]);
+  return intervals.reduce((merged, interval) => {
+    const last = merged[merged.length - 1];
+    if (last && interval[0] <= last[1]) {
+      last[1] = Math.max(last[1], interval[1]);
+    } else {
+      merged.push([...interval]);
+    }
+    return merged;
+  }, []);
+};
+
+// Number of minutes per week both availabilities have in common
+export const getOverlapMinutes = (a, b, referenceDate = new Date()) => {
+  const first = toUtcIntervals(a, referenceDate);
+  const second = toUtcIntervals(b, referenceDate);
+
+  let total = 0;
+  let i = 0;
+  let j = 0;
+  while (i < first.length && j < second.length) {
+    const start = Math.max(first[i][0], second[j][0]);
+    const end = Math.min(first[i][1], second[j][1]);
+    if (end > start) total += end - start;
+
+    if (first[i][1] < second[j][1]) i++;
+    else j++;
+  }
+
+  return total;
+};
+
+// Attach weekly overlap (in minutes) with `target` to each user, drop users
+// below `minOverlap` and sort by overlap, then rating
+export const rankByAvailability = (users, target, { minOverlap = 1, referenceDate = new Date() } = {}) => {
+  return users
+    .map(user => ({
+      ...(typeof user.toJSON === 'function' ? user.toJSON() : user),
+      availabilityOverlap: getOverlapMinutes(user.availability, target, referenceDate)
+    }))
+    .filter(user => user.availabilityOverlap >= minOverlap)
+    .sort((a, b) => b.availabilityOverlap - a.availabilityOverlap || b.rating - a.rating);
+};
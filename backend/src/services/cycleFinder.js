@@ -0,0 +1,164 @@
+// Finds skill swap rings over the offered/wanted graph. There is an edge
+// u -> v when u offers a skill v wants; a ring A -> B -> C -> A lets every
+// member learn something without needing a direct two-way match.
+import { canTeachLevel } from './skillLevels.js';
+
+export const MIN_RING_SIZE = 3;
+export const MAX_RING_SIZE = 4;
+
+const toId = (value) => (value && value._id ? value._id : value).toString();
+
+// Skills `teacher` offers that `learner` wants, at a level that reaches the
+// learner's target, as { skillId, skillName, level }
+export const getTeachableSkills = (teacher, learner) => {
+  const targetLevels = new Map((learner.wantedSkillIds || []).map((id, index) =>
+    [toId(id), learner.wantedSkillDetails?.[index]?.targetLevel || null]
+  ));
+  return (teacher.offeredSkillIds || [])
+    .map((id, index) => ({
+      skillId: toId(id),
+      skillName: teacher.skillsOffered[index],
+      level: teacher.offeredSkillDetails?.[index]?.level || null
+    }))
+    .filter(skill => targetLevels.has(skill.skillId) && canTeachLevel(skill.level, targetLevels.get(skill.skillId)));
+};
+
+// Most onward edges followed from each member while searching. Edges are
+// tried best rated learner first, so the cap drops the least promising branches.
+export const MAX_FAN_OUT = 20;
+
+// Build the adjacency list: user ID -> [{ to, skillId, skillName, level }],
+// best rated learners first. Learners are looked up by the skills they want
+// rather than by comparing every pair of users.
+const buildGraph = (users) => {
+  const learnersBySkill = new Map();
+  for (const learner of users) {
+    (learner.wantedSkillIds || []).forEach((id, index) => {
+      const skillId = toId(id);
+      if (!learnersBySkill.has(skillId)) learnersBySkill.set(skillId, []);
+      learnersBySkill.get(skillId).push({ learner, targetLevel: learner.wantedSkillDetails?.[index]?.targetLevel || null });
+    });
+  }
+
+  const ratings = new Map(users.map(user => [toId(user._id), user.rating || 0]));
+  const graph = new Map();
+  for (const teacher of users) {
+    // The first skill the teacher offers that the learner wants, per learner
+    const edges = new Map();
+    (teacher.offeredSkillIds || []).forEach((id, index) => {
+      const skillId = toId(id);
+      const level = teacher.offeredSkillDetails?.[index]?.level || null;
+      for (const { learner, targetLevel } of learnersBySkill.get(skillId) || []) {
+        const to = toId(learner._id);
+        if (learner === teacher || edges.has(to) || !canTeachLevel(level, targetLevel)) continue;
+        edges.set(to, { to, skillId, skillName: teacher.skillsOffered[index], level });
+      }
+    });
+    graph.set(toId(teacher._id), [...edges.values()].sort((a, b) => ratings.get(b.to) - ratings.get(a.to)));
+  }
+  return graph;
+};
+
+// Fewest hops from each user back to `start`, for users within maxHops of it
+const getHopsToStart = (graph, start, maxHops) => {
+  const teachers = new Map();
+  for (const [from, edges] of graph) {
+    for (const edge of edges) {
+      if (!teachers.has(edge.to)) teachers.set(edge.to, []);
+      teachers.get(edge.to).push(from);
+    }
+  }
+
+  const hops = new Map([[start, 0]]);
+  let frontier = [start];
+  for (let hop = 1; hop <= maxHops && frontier.length > 0; hop++) {
+    const next = [];
+    for (const id of frontier) {
+      for (const from of teachers.get(id) || []) {
+        if (hops.has(from)) continue;
+        hops.set(from, hop);
+        next.push(from);
+      }
+    }
+    frontier = next;
+  }
+  return hops;
+};
+
+// Rotate a ring so it starts at its smallest ID, to spot duplicates
+const ringKey = (ids) => {
+  const start = ids.indexOf([...ids].sort()[0]);
+  return [...ids.slice(start), ...ids.slice(0, start)].join('>');
+};
+
+// Find rings of MIN_RING_SIZE..maxLength members that include `userId`.
+// Each ring is an ordered list of { userId, teachesTo, skillId, skillName, level }
+// starting with the given user. Shorter rings and better rated members first.
+export const findCycles = (userId, users, { maxLength = MAX_RING_SIZE, limit = 5 } = {}) => {
+  const start = userId.toString();
+  const graph = buildGraph(users);
+  const byId = new Map(users.map(user => [toId(user._id), user]));
+  if (!graph.has(start)) return [];
+
+  // Only users who can still get back to the start within maxLength are
+  // worth visiting, so the last hop only goes to users who teach the start
+  const hopsToStart = getHopsToStart(graph, start, maxLength - 1);
+  const closingEdges = new Map();
+  for (const [from, edges] of graph) {
+    const closing = edges.find(edge => edge.to === start);
+    if (closing) closingEdges.set(from, closing);
+  }
+  const rings = [];
+  const seen = new Set();
+
+  const visit = (path, steps) => {
+    const current = path[path.length - 1];
+    const closing = closingEdges.get(current);
+    if (closing && path.length >= MIN_RING_SIZE) {
+      const members = [...steps, { userId: current, teachesTo: start, skillId: closing.skillId, skillName: closing.skillName, level: closing.level }];
+      const key = ringKey(members.map(m => m.userId));
+      if (!seen.has(key)) {
+        seen.add(key);
+        rings.push(members);
+      }
+    }
+    if (path.length >= maxLength) return;
+
+    let followed = 0;
+    for (const edge of graph.get(current)) {
+      if (followed >= MAX_FAN_OUT) break;
+      if (edge.to === start || path.includes(edge.to)) continue;
+      const hops = hopsToStart.get(edge.to);
+      if (hops === undefined || path.length + hops > maxLength) continue;
+      followed++;
+      visit(
+        [...path, edge.to],
+        [...steps, { userId: current, teachesTo: edge.to, skillId: edge.skillId, skillName: edge.skillName, level: edge.level }]
+      );
+    }
+  };
+  visit([start], []);
+
+  const averageRating = (ring) =>
+    ring.reduce((total, member) => total + (byId.get(member.userId).rating || 0), 0) / ring.length;
+
+  return rings
+    .sort((a, b) => a.length - b.length || averageRating(b) - averageRating(a))
+    .slice(0, limit);
+};
+
+// Check that users, in the given order, form a valid ring. Returns the ring
+// members as in findCycles, or null if some user can't teach the next one.
+export const buildRing = (users) => {
+  if (users.length < MIN_RING_SIZE || users.length > MAX_RING_SIZE) return null;
+
+  const ring = [];
+  for (let i = 0; i < users.length; i++) {
+    const teacher = users[i];
+    const learner = users[(i + 1) % users.length];
+    const [skill] = getTeachableSkills(teacher, learner);
+    if (!skill) return null;
+    ring.push({ userId: toId(teacher._id), teachesTo: toId(learner._id), ...skill });
+  }
+  return ring;
+};
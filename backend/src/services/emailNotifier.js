@@ -0,0 +1,133 @@
+// Email channel for notifications. Each notification is emailed right away,
+// queued for the recipient's daily digest, or skipped if they opted out of its
+// type. Unsubscribe links carry a signed token so they work without logging in.
+import jwt from 'jsonwebtoken';
+import Notification, { NOTIFICATION_TYPES } from '../models/Notification.js';
+import User from '../models/User.js';
+import { isMailEnabled, sendMail } from './mailer.js';
+import { renderNotificationEmail, renderDigestEmail } from './emailTemplates.js';
+
+const DIGEST_INTERVAL_MS = 24 * 60 * 60 * 1000;
+const UNSUBSCRIBE_PURPOSE = 'email-unsubscribe';
+
+const getTokenSecret = () => process.env.EMAIL_TOKEN_SECRET || process.env.JWT_SECRET;
+const getApiUrl = () => process.env.API_URL || `http://localhost:${process.env.PORT || 5000}`;
+
+// Signed token that unsubscribes `userId` from `type` emails, or from all
+// emails when `type` is 'all'. Tokens don't expire, like the links in old emails.
+export const createUnsubscribeToken = (userId, type) =>
+  jwt.sign({ sub: userId.toString(), type, purpose: UNSUBSCRIBE_PURPOSE }, getTokenSecret());
+
+// Returns { userId, type } for a valid token, or null
+export const verifyUnsubscribeToken = (token) => {
+  try {
+    const payload = jwt.verify(token, getTokenSecret());
+    if (payload.purpose !== UNSUBSCRIBE_PURPOSE) return null;
+    if (payload.type !== 'all' && !NOTIFICATION_TYPES.includes(payload.type)) return null;
+    return { userId: payload.sub, type: payload.type };
+  } catch {
+    return null;
+  }
+};
+
+const getUnsubscribeUrl = (userId, type) =>
+  `${getApiUrl()}/api/notifications/unsubscribe?token=${encodeURIComponent(createUnsubscribeToken(userId, type))}`;
+
+// Send with one-click unsubscribe headers (RFC 8058) for mail clients
+const sendWithUnsubscribe = (user, email, unsubscribeUrl) => sendMail({
+  to: user.email,
+  subject: email.subject,
+  text: email.text,
+  html: email.html,
+  headers: {
+    'List-Unsubscribe': `<${unsubscribeUrl}>`,
+    'List-Unsubscribe-Post': 'List-Unsubscribe=One-Click'
+  }
+});
+
+const setEmailStatus = (notificationIds, status, sentAt = null) =>
+  Notification.updateMany({ _id: { $in: notificationIds } }, { $set: { 'email.status': status, 'email.sentAt': sentAt } });
+
+// Notification channel: deliver one notification by email
+export const emailChannel = {
+  name: 'email',
+  async deliver(notification) {
+    if (!isMailEnabled()) return;
+
+    const user = await User.findById(notification.userId).select('name email isBanned emailPreferences');
+    if (!user || user.isBanned || !user.wantsEmailFor(notification.type)) {
+      await setEmailStatus([notification._id], 'skipped');
+      return;
+    }
+
+    if (user.emailPreferences?.frequency === 'daily') {
+      await setEmailStatus([notification._id], 'queued');
+      return;
+    }
+
+    const unsubscribeTypeUrl = getUnsubscribeUrl(user._id, notification.type);
+    const email = renderNotificationEmail(notification, user, {
+      unsubscribeTypeUrl,
+      unsubscribeAllUrl: getUnsubscribeUrl(user._id, 'all')
+    });
+
+    try {
+      await sendWithUnsubscribe(user, email, unsubscribeTypeUrl);
+      await setEmailStatus([notification._id], 'sent', new Date());
+    } catch (error) {
+      await setEmailStatus([notification._id], 'failed');
+      throw error;
+    }
+  }
+};
+
+// Send one digest to every daily-digest user with queued notifications whose
+// last digest was at least a day before `now`; returns how many were sent
+export const sendEmailDigests = async (now = new Date()) => {
+  if (!isMailEnabled()) return 0;
+
+  const userIds = await Notification.distinct('userId', { 'email.status': 'queued' });
+  const users = await User.find({
+    _id: { $in: userIds },
+    $or: [
+      { 'emailPreferences.lastDigestAt': null },
+      { 'emailPreferences.lastDigestAt': { $lte: new Date(now.getTime() - DIGEST_INTERVAL_MS) } }
+    ]
+  }).select('name email isBanned emailPreferences');
+
+  let sent = 0;
+  for (const user of users) {
+    try {
+      const queued = await Notification.find({ userId: user._id, 'email.status': 'queued' }).sort({ createdAt: 1 });
+      // Types opted out of since they were queued are dropped from the digest
+      const wanted = queued.filter(notification => !user.isBanned && user.wantsEmailFor(notification.type));
+      const unwanted = queued.filter(notification => !wanted.includes(notification));
+      if (unwanted.length > 0) {
+        await setEmailStatus(unwanted.map(notification => notification._id), 'skipped');
+      }
+      if (wanted.length === 0) continue;
+
+      const unsubscribeAllUrl = getUnsubscribeUrl(user._id, 'all');
+      await sendWithUnsubscribe(user, renderDigestEmail(wanted, user, { unsubscribeAllUrl }), unsubscribeAllUrl);
+      await setEmailStatus(wanted.map(notification => notification._id), 'sent', now);
+      await User.updateOne({ _id: user._id }, { $set: { 'emailPreferences.lastDigestAt': now } });
+      sent++;
+    } catch (error) {
+      console.error(`Email digest error for user ${user._id}:`, error);
+    }
+  }
+  return sent;
+};
+
+// Apply an unsubscribe token; returns the updated user, or null if it is invalid
+export const applyUnsubscribeToken = async (token) => {
+  const payload = verifyUnsubscribeToken(token);
+  if (!payload) return null;
+
+  const disabledTypes = payload.type === 'all' ? NOTIFICATION_TYPES : [payload.type];
+  return User.findByIdAndUpdate(
+    payload.userId,
+    { $addToSet: { 'emailPreferences.disabledTypes': { $each: disabledTypes } } },
+    { new: true }
+  ).select('name emailPreferences');
+};
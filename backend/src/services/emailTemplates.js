@@ -0,0 +1,138 @@
+// Email templates for notifications and the daily digest. Every email has a
+// plain-text and an HTML part and ends with its unsubscribe links.
+
+export const getAppUrl = () => process.env.APP_URL || process.env.CORS_ORIGIN || 'http://localhost:5173';
+
+const formatDate = (value) => new Date(value).toLocaleString('en-US', { dateStyle: 'medium', timeStyle: 'short', timeZone: 'UTC' }) + ' UTC';
+
+// Call to action and page for each notification type, plus an optional detail
+// line built from the notification's metadata
+const TEMPLATES = {
+  swap_request: { action: 'View the request', path: '/swaps' },
+  swap_accepted: { action: 'Plan your first session', path: '/swaps' },
+  swap_rejected: { action: 'Find another match', path: '/browse' },
+  swap_countered: { action: 'Review the new terms', path: '/swaps' },
+  swap_completed: { action: 'Leave feedback', path: '/swaps' },
+  swap_completion_requested: {
+    action: 'Confirm or dispute',
+    path: '/swaps',
+    details: ({ confirmBy }) => confirmBy && `It will be confirmed automatically on ${formatDate(confirmBy)}.`
+  },
+  swap_disputed: { action: 'View the swap', path: '/swaps' },
+  swap_dispute_resolved: { action: 'View the swap', path: '/swaps' },
+  swap_expiring: {
+    action: 'Answer the request',
+    path: '/swaps',
+    details: ({ expiresAt }) => expiresAt && `It expires on ${formatDate(expiresAt)}.`
+  },
+  swap_expired: { action: 'Find another match', path: '/browse' },
+  swap_idle: { action: 'Schedule a session', path: '/swaps' },
+  admin_message: { action: 'Open Skill Swap', path: '/browse' },
+  feedback_received: { action: 'See your feedback', path: '/profile' },
+  session_proposed: { action: 'Review the proposed time', path: '/swaps' },
+  session_confirmed: { action: 'View your sessions', path: '/swaps' },
+  session_declined: { action: 'Propose another time', path: '/swaps' },
+  session_cancelled: { action: 'View your sessions', path: '/swaps' },
+  group_swap_proposed: { action: 'Review the group swap', path: '/swaps' },
+  group_swap_active: { action: 'View the group swap', path: '/swaps' },
+  group_swap_declined: { action: 'View your group swaps', path: '/swaps' },
+  group_swap_cancelled: { action: 'View your group swaps', path: '/swaps' }
+};
+
+export const escapeHtml = (value) => String(value)
+  .replace(/&/g, '&amp;')
+  .replace(/</g, '&lt;')
+  .replace(/>/g, '&gt;')
+  .replace(/"/g, '&quot;');
+
+const renderFooter = ({ unsubscribeTypeUrl, unsubscribeAllUrl }) => {
+  const preferencesUrl = `${getAppUrl()}/profile`;
+  const links = [
+    unsubscribeTypeUrl && ['Stop emails like this', unsubscribeTypeUrl],
+    ['Unsubscribe from all emails', unsubscribeAllUrl],
+    ['Email preferences', preferencesUrl]
+  ].filter(Boolean);
+
+  return {
+    text: links.map(([label, url]) => `${label}: ${url}`).join('\n'),
+    html: links.map(([label, url]) => `<a href="${escapeHtml(url)}" style="color:#6b7280">${escapeHtml(label)}</a>`).join(' &middot; ')
+  };
+};
+
+const renderLayout = ({ heading, paragraphs, action, footer }) => ({
+  text: [heading, '', ...paragraphs, '', `${action.label}: ${action.url}`, '', '--', footer.text].join('\n'),
+  html: `<!DOCTYPE html>
+<html>
+<body style="font-family:Arial,sans-serif;color:#111827;max-width:560px;margin:0 auto;padding:24px">
+<h2 style="font-weight:normal">${escapeHtml(heading)}</h2>
+${paragraphs.map(paragraph => `<p>${escapeHtml(paragraph)}</p>`).join('\n')}
+<p><a href="${escapeHtml(action.url)}" style="display:inline-block;background:#2563eb;color:#ffffff;padding:10px 20px;border-radius:8px;text-decoration:none">${escapeHtml(action.label)}</a></p>
+<hr style="border:none;border-top:1px solid #e5e7eb;margin:24px 0">
+<p style="font-size:12px;color:#6b7280">${footer.html}</p>
+</body>
+</html>`
+});
+
+// Footer for account emails, which can't be unsubscribed from
+const ACCOUNT_FOOTER = {
+  text: "You're receiving this email because of a request for your Skill Swap account. If it wasn't you, you can ignore it.",
+  html: "You're receiving this email because of a request for your Skill Swap account. If it wasn't you, you can ignore it."
+};
+
+export const renderVerificationEmail = (user, url) => ({
+  subject: 'Skill Swap: verify your email address',
+  ...renderLayout({
+    heading: 'Verify your email address',
+    paragraphs: [
+      `Hi ${user.name},`,
+      'Welcome to Skill Swap! Confirm your email address to start sending swap requests and chatting with other members.',
+      'This link expires in 24 hours.'
+    ],
+    action: { label: 'Verify email', url },
+    footer: ACCOUNT_FOOTER
+  })
+});
+
+export const renderPasswordResetEmail = (user, url) => ({
+  subject: 'Skill Swap: reset your password',
+  ...renderLayout({
+    heading: 'Reset your password',
+    paragraphs: [
+      `Hi ${user.name},`,
+      'Someone asked to reset the password for your Skill Swap account. Use the link below to choose a new one.',
+      'This link expires in 1 hour and can only be used once.'
+    ],
+    action: { label: 'Reset password', url },
+    footer: ACCOUNT_FOOTER
+  })
+});
+
+// Email for a single notification
+export const renderNotificationEmail = (notification, user, unsubscribeUrls) => {
+  const template = TEMPLATES[notification.type] || { action: 'Open Skill Swap', path: '/browse' };
+  const details = template.details?.(notification.metadata || {});
+
+  return {
+    subject: `Skill Swap: ${notification.title}`,
+    ...renderLayout({
+      heading: notification.title,
+      paragraphs: [`Hi ${user.name},`, notification.message, details].filter(Boolean),
+      action: { label: template.action, url: `${getAppUrl()}${template.path}` },
+      footer: renderFooter(unsubscribeUrls)
+    })
+  };
+};
+
+// One email summarising every queued notification, oldest first
+export const renderDigestEmail = (notifications, user, unsubscribeUrls) => ({
+  subject: `Skill Swap: your daily digest (${notifications.length} update${notifications.length === 1 ? '' : 's'})`,
+  ...renderLayout({
+    heading: 'Your daily digest',
+    paragraphs: [
+      `Hi ${user.name}, here's what happened since your last digest:`,
+      ...notifications.map(notification => `${notification.title}: ${notification.message}`)
+    ],
+    action: { label: 'Open Skill Swap', url: `${getAppUrl()}/swaps` },
+    footer: renderFooter(unsubscribeUrls)
+  })
+});
@@ -0,0 +1,68 @@
+// Minimal RFC 5545 (iCalendar) writer for the per-user session feed
+
+const PRODUCT_ID = '-//Skill Swap Platform//Sessions//EN';
+
+// Format a date as UTC in iCalendar basic format, e.g. 20240301T180000Z
+const formatDate = (date) => new Date(date).toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+
+// Escape text values (commas, semicolons, backslashes and newlines)
+const escapeText = (value = '') => String(value)
+  .replace(/\\/g, '\\\\')
+  .replace(/;/g, '\\;')
+  .replace(/,/g, '\\,')
+  .replace(/\r?\n/g, '\\n');
+
+// Lines longer than 75 characters must be folded onto continuation lines
+const foldLine = (line) => {
+  if (line.length <= 75) return line;
+
+  const parts = [line.slice(0, 75)];
+  for (let i = 75; i < line.length; i += 74) {
+    parts.push(` ${line.slice(i, i + 74)}`);
+  }
+  return parts.join('\r\n');
+};
+
+const STATUS_MAP = {
+  proposed: 'TENTATIVE',
+  confirmed: 'CONFIRMED',
+  declined: 'CANCELLED',
+  cancelled: 'CANCELLED'
+};
+
+// Build a VEVENT for a session. `host` is used to make stable UIDs.
+const buildEvent = (session, host) => {
+  const lines = [
+    'BEGIN:VEVENT',
+    `UID:session-${session._id}@${host}`,
+    `DTSTAMP:${formatDate(session.updatedAt || new Date())}`,
+    `DTSTART:${formatDate(session.startTime)}`,
+    `DTEND:${formatDate(session.endTime)}`,
+    `SUMMARY:${escapeText(session.title || 'Skill swap session')}`,
+    `STATUS:${STATUS_MAP[session.status] || 'TENTATIVE'}`,
+    // Bump the sequence on every reschedule so clients replace the old event
+    `SEQUENCE:${session.rescheduleCount || 0}`
+  ];
+
+  if (session.notes) {
+    lines.push(`DESCRIPTION:${escapeText(session.notes)}`);
+  }
+
+  lines.push('END:VEVENT');
+  return lines;
+};
+
+export const buildCalendar = (sessions, { name = 'Skill Swap Sessions', host = 'skillswap' } = {}) => {
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    `PRODID:${PRODUCT_ID}`,
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    `X-WR-CALNAME:${escapeText(name)}`,
+    ...sessions.flatMap(session => buildEvent(session, host)),
+    'END:VCALENDAR'
+  ];
+
+  return lines.map(foldLine).join('\r\n') + '\r\n';
+};
@@ -0,0 +1,55 @@
+// Background jobs run by the in-process scheduler
+import AdminMessage from '../models/AdminMessage.js';
+import Review from '../models/Review.js';
+import { createScheduler } from './scheduler.js';
+import { autoConfirmCompletions } from './swapCompletion.js';
+import { expirePendingSwaps, remindExpiringSwaps, nudgeIdleSwaps } from './swapReminders.js';
+import { sendEmailDigests } from './emailNotifier.js';
+import { revealExpiredReviews } from './reviewReveal.js';
+
+const MINUTE_MS = 60 * 1000;
+
+// Log a job's count only when it did something
+const logCount = (message) => (count) => {
+  if (count > 0) {
+    console.log(message.replace('%d', count));
+  }
+  return count;
+};
+
+// Register every background job on `scheduler`
+export const registerJobs = (scheduler, io) => {
+  scheduler.addJob('auto-confirm-completions', 15 * MINUTE_MS, (now) =>
+    autoConfirmCompletions(io, now).then(logCount('✅ Auto-confirmed %d swap completions')));
+
+  scheduler.addJob('expire-pending-swaps', 60 * MINUTE_MS, (now) =>
+    expirePendingSwaps(io, now).then(logCount('⌛ Expired %d pending swap requests')));
+
+  scheduler.addJob('remind-expiring-swaps', 60 * MINUTE_MS, (now) =>
+    remindExpiringSwaps(io, now).then(logCount('🔔 Sent %d swap expiry reminders')));
+
+  scheduler.addJob('nudge-idle-swaps', 6 * 60 * MINUTE_MS, (now) =>
+    nudgeIdleSwaps(io, now).then(logCount('👋 Nudged %d idle swaps')));
+
+  scheduler.addJob('send-email-digests', 60 * MINUTE_MS, (now) =>
+    sendEmailDigests(now).then(logCount('📧 Sent %d email digests')));
+
+  scheduler.addJob('reveal-expired-reviews', 60 * MINUTE_MS, (now) =>
+    revealExpiredReviews(io, now).then(logCount('⭐ Published %d reviews after their window closed')));
+
+  // Catches ratings that drifted from the reviews, e.g. after a failed update
+  scheduler.addJob('check-rating-consistency', 24 * 60 * MINUTE_MS, () =>
+    Review.recomputeRatings().then(({ fixed }) => fixed).then(logCount('⭐ Corrected the ratings of %d users')));
+
+  scheduler.addJob('cleanup-admin-messages', 60 * MINUTE_MS, (now) =>
+    AdminMessage.cleanupExpired(now).then(result => result.modifiedCount));
+
+  return scheduler;
+};
+
+// Create the scheduler with every job and start it
+export const startJobs = (io) => {
+  const scheduler = registerJobs(createScheduler(), io);
+  scheduler.start();
+  return scheduler;
+};
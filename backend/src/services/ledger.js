@@ -0,0 +1,68 @@
+// ByteBucks postings for swaps. One credit is one hour taught: barter swaps
+// earn both teachers their hours on completion, while credit swaps hold the
+// learner's credits when accepted and pay them to the teacher on completion,
+// or back to the learner if the swap is called off.
+import LedgerTransaction from '../models/LedgerTransaction.js';
+import {
+  ISSUANCE_ACCOUNT,
+  userAccountKey,
+  escrowAccountKey
+} from '../models/LedgerAccount.js';
+
+const toId = (value) => (value && value._id ? value._id : value).toString();
+
+// Move the learner's credits for a credit swap into the swap's escrow account
+export const holdSwapCredits = (swapRequest) => LedgerTransaction.post({
+  type: 'swap_hold',
+  postings: [
+    { account: userAccountKey(toId(swapRequest.fromUserId)), amount: -swapRequest.hours },
+    { account: escrowAccountKey(swapRequest._id), amount: swapRequest.hours }
+  ],
+  swapRequestId: swapRequest._id,
+  memo: `Held for learning ${swapRequest.skillWanted}`,
+  idempotencyKey: `swap:${swapRequest._id}:hold`
+});
+
+// Return the held credits of a credit swap that won't be completed to the learner
+export const refundSwapCredits = (swapRequest) => LedgerTransaction.post({
+  type: 'swap_refund',
+  postings: [
+    { account: escrowAccountKey(swapRequest._id), amount: -swapRequest.hours },
+    { account: userAccountKey(toId(swapRequest.fromUserId)), amount: swapRequest.hours }
+  ],
+  swapRequestId: swapRequest._id,
+  memo: `Refunded for ${swapRequest.skillWanted}`,
+  idempotencyKey: `swap:${swapRequest._id}:refund`
+});
+
+// Post the completion entries: pay out the escrow to the teacher of a credit
+// swap, or credit both teachers of a barter swap with the hours they taught
+export const settleSwapCredits = (swapRequest) => {
+  const fromAccount = userAccountKey(toId(swapRequest.fromUserId));
+  const toAccount = userAccountKey(toId(swapRequest.toUserId));
+
+  if (swapRequest.paymentType === 'credits') {
+    return LedgerTransaction.post({
+      type: 'swap_payout',
+      postings: [
+        { account: escrowAccountKey(swapRequest._id), amount: -swapRequest.hours },
+        { account: toAccount, amount: swapRequest.hours }
+      ],
+      swapRequestId: swapRequest._id,
+      memo: `Taught ${swapRequest.skillWanted}`,
+      idempotencyKey: `swap:${swapRequest._id}:settle`
+    });
+  }
+
+  return LedgerTransaction.post({
+    type: 'swap_earning',
+    postings: [
+      { account: ISSUANCE_ACCOUNT, amount: -2 * swapRequest.hours },
+      { account: fromAccount, amount: swapRequest.hours },
+      { account: toAccount, amount: swapRequest.hours }
+    ],
+    swapRequestId: swapRequest._id,
+    memo: `Swapped ${swapRequest.skillOffered} for ${swapRequest.skillWanted}`,
+    idempotencyKey: `swap:${swapRequest._id}:settle`
+  });
+};
@@ -0,0 +1,46 @@
+// SMTP delivery. Configure SMTP_HOST (and SMTP_PORT, SMTP_SECURE, SMTP_USER,
+// SMTP_PASS); point it at a local capture server such as Mailpit
+// (SMTP_HOST=localhost SMTP_PORT=1025) to inspect emails during development.
+// Without SMTP_HOST emails are not sent.
+import nodemailer from 'nodemailer';
+
+let transport;
+
+const createSmtpTransport = () => {
+  if (!process.env.SMTP_HOST) return null;
+
+  return nodemailer.createTransport({
+    host: process.env.SMTP_HOST,
+    port: Number(process.env.SMTP_PORT) || 587,
+    secure: process.env.SMTP_SECURE === 'true',
+    auth: process.env.SMTP_USER
+      ? { user: process.env.SMTP_USER, pass: process.env.SMTP_PASS }
+      : undefined
+  });
+};
+
+// Replace the transport, e.g. with nodemailer's jsonTransport in scripts
+export const setMailTransport = (customTransport) => {
+  transport = customTransport;
+};
+
+export const isMailEnabled = () => {
+  if (transport === undefined) {
+    transport = createSmtpTransport();
+  }
+  return Boolean(transport);
+};
+
+// Send an email; resolves to null when no transport is configured
+export const sendMail = async ({ to, subject, text, html, headers }) => {
+  if (!isMailEnabled()) return null;
+
+  return transport.sendMail({
+    from: process.env.EMAIL_FROM || 'Skill Swap <no-reply@skillswap.local>',
+    to,
+    subject,
+    text,
+    html,
+    headers
+  });
+};
@@ -0,0 +1,116 @@
+// Scores how good a skill swap partner a candidate is for a user.
+// Each factor is normalized to 0..1 and combined with WEIGHTS into a 0..100 score.
+import { getOverlapMinutes } from './availability.js';
+import { canTeachLevel } from './skillLevels.js';
+
+export const WEIGHTS = {
+  reciprocity: 0.4,
+  rating: 0.2,
+  activity: 0.15,
+  availability: 0.15,
+  location: 0.1
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+// Activity halves roughly every two weeks of inactivity
+const ACTIVITY_HALF_LIFE_DAYS = 14;
+// Weekly overlap at which availability counts as a perfect fit
+const FULL_OVERLAP_MINUTES = 6 * 60;
+
+const toIdSet = (ids = []) => new Set(ids.map(id => id.toString()));
+
+// Names of the candidate's skills whose IDs are in `ids` and whose details pass
+// `fitsLevel`, using the parallel name and detail arrays
+const pickSkillNames = (names = [], skillIds = [], details = [], ids, fitsLevel) => skillIds
+  .map((id, index) => (ids.has(id.toString()) && fitsLevel(id.toString(), details[index]) ? names[index] : null))
+  .filter(Boolean);
+
+// First part of a "City, State" location, normalized for comparison
+const getCity = (location) => (location || '').split(',')[0].trim().toLowerCase();
+
+const round = (value) => Math.round(value * 100) / 100;
+
+// `context` holds the user's skill IDs expanded through the taxonomy:
+// wantedIds include child skills, offeredIds include parent skills.
+// wantedLevels and offeredLevels map skill IDs to the user's target and
+// teaching levels; a skill only counts if the teacher's level reaches the
+// learner's target.
+export const scoreMatch = (user, candidate, context, now = new Date()) => {
+  const theyOffer = pickSkillNames(
+    candidate.skillsOffered, candidate.offeredSkillIds, candidate.offeredSkillDetails, context.wantedIds,
+    (id, detail) => canTeachLevel(detail?.level, context.wantedLevels.get(id))
+  );
+  const theyWant = pickSkillNames(
+    candidate.skillsWanted, candidate.wantedSkillIds, candidate.wantedSkillDetails, context.offeredIds,
+    (id, detail) => canTeachLevel(context.offeredLevels.get(id), detail?.targetLevel)
+  );
+  const isReciprocal = theyOffer.length > 0 && theyWant.length > 0;
+
+  // Two-way matches score much higher; extra shared skills add a little
+  const breadth = Math.min(1, (theyOffer.length + theyWant.length - 1) / 4);
+  const reciprocity = isReciprocal ? 0.8 + 0.2 * breadth : 0.3 + 0.1 * breadth;
+
+  // Stored ratings are already smoothed for users with few reviews
+  const rating = (candidate.rating || 0) / 5;
+
+  const inactiveDays = candidate.lastActive ? Math.max(0, (now - new Date(candidate.lastActive)) / DAY_MS) : Infinity;
+  const activity = Math.pow(0.5, inactiveDays / ACTIVITY_HALF_LIFE_DAYS);
+
+  const availabilityOverlap = getOverlapMinutes(user.availability, candidate.availability, now);
+  const availability = Math.min(1, availabilityOverlap / FULL_OVERLAP_MINUTES);
+
+  const sameLocation = Boolean(getCity(user.location)) && getCity(user.location) === getCity(candidate.location);
+  const location = sameLocation ? 1 : 0;
+
+  const breakdown = { reciprocity, rating, activity, availability, location };
+  const score = Object.entries(WEIGHTS)
+    .reduce((total, [factor, weight]) => total + weight * breakdown[factor], 0);
+
+  const reasons = [];
+  if (isReciprocal) reasons.push('You can teach each other');
+  if (theyOffer.length > 0) reasons.push(`Offers ${theyOffer.join(', ')}, which you want to learn`);
+  if (theyWant.length > 0) reasons.push(`Wants to learn ${theyWant.join(', ')}, which you offer`);
+  if (availabilityOverlap > 0) reasons.push(`${Math.round(availabilityOverlap / 60)}h of shared free time per week`);
+  if (sameLocation) reasons.push(`Also in ${candidate.location.split(',')[0].trim()}`);
+  if (inactiveDays <= 1) reasons.push('Active today');
+
+  return {
+    score: Math.round(score * 100),
+    breakdown: Object.fromEntries(Object.entries(breakdown).map(([factor, value]) => [factor, round(value)])),
+    explanation: {
+      theyOffer,
+      theyWant,
+      isReciprocal,
+      availabilityOverlap,
+      sameLocation,
+      reasons
+    }
+  };
+};
+
+// Score and sort candidates: two-way matches first, then by score, then rating.
+// Candidates left with no skill at a fitting level are dropped.
+export const rankMatches = (user, candidates, context, now = new Date()) => {
+  const expanded = {
+    wantedIds: toIdSet(context.wantedIds),
+    offeredIds: toIdSet(context.offeredIds),
+    wantedLevels: context.wantedLevels || new Map(),
+    offeredLevels: context.offeredLevels || new Map()
+  };
+
+  return candidates
+    .map((candidate) => {
+      const result = scoreMatch(user, candidate, expanded, now);
+      return {
+        ...(typeof candidate.toJSON === 'function' ? candidate.toJSON() : candidate),
+        matchScore: result.score,
+        scoreBreakdown: result.breakdown,
+        matchExplanation: result.explanation,
+        availabilityOverlap: result.explanation.availabilityOverlap
+      };
+    })
+    .filter(match => match.matchExplanation.theyOffer.length > 0 || match.matchExplanation.theyWant.length > 0)
+    .sort((a, b) => Number(b.matchExplanation.isReciprocal) - Number(a.matchExplanation.isReciprocal)
+      || b.matchScore - a.matchScore
+      || b.rating - a.rating);
+};
@@ -0,0 +1,44 @@
+import Notification from '../models/Notification.js';
+import { emitToUser } from './userEvents.js';
+
+// Extra delivery channels (e.g. email) beyond the socket push. A channel is
+// { name, deliver(notification) }; delivery runs in the background so a slow
+// or failing channel never holds up the request that created the notification.
+const channels = [];
+
+export const registerNotificationChannel = (channel) => {
+  channels.push(channel);
+};
+
+const deliverToChannels = (notification) => {
+  channels.forEach(channel => {
+    Promise.resolve()
+      .then(() => channel.deliver(notification))
+      .catch((error) => {
+        console.error(`${channel.name} notification delivery error:`, error);
+      });
+  });
+};
+
+// Push a freshly created notification to its owner's personal room,
+// along with their updated unread count so the inbox badge stays in sync,
+// and hand it to the other delivery channels
+export const emitNotification = async (io, notification) => {
+  if (!notification) return;
+
+  deliverToChannels(notification);
+
+  const unreadCount = await Notification.getUnreadCount(notification.userId);
+
+  await emitToUser(io, notification.userId, 'new-notification', {
+    notification,
+    unreadCount
+  });
+};
+
+// Push a batch of notifications (e.g. from insertMany)
+export const emitNotifications = async (io, notifications) => {
+  for (const notification of notifications) {
+    await emitNotification(io, notification);
+  }
+};
@@ -0,0 +1,67 @@
+// Who is online right now, tracked from open socket connections. A user is
+// online while at least one of their tabs is connected; people with an open
+// swap with them get `presence-changed` events when that flips, unless either
+// has blocked the other. State is kept in memory, so it is per server process.
+import User from '../models/User.js';
+import SwapRequest from '../models/SwapRequest.js';
+import { userRoom } from '../socket/auth.js';
+
+// userId -> ids of that user's connected sockets
+const connections = new Map();
+
+export const isOnline = (userId) => connections.has(userId.toString());
+
+export const getOnlineUserIds = () => [...connections.keys()];
+
+// Add `isOnline` to users about to be sent to a client
+export const withPresence = (users) => users.map(user => ({
+  ...(typeof user.toJSON === 'function' ? user.toJSON() : user),
+  isOnline: isOnline(user._id)
+}));
+
+const touchLastActive = async (userId, now) => {
+  await User.updateOne({ _id: userId }, { $set: { lastActive: now } }, { timestamps: false });
+};
+
+const broadcastPresence = async (io, userId, isOnlineNow, now) => {
+  const [partnerIds, blockedIds] = await Promise.all([
+    SwapRequest.findPartnerIds(userId),
+    User.getBlockedIds(userId)
+  ]);
+  const blocked = new Set(blockedIds.map(id => id.toString()));
+  partnerIds.filter(partnerId => !blocked.has(partnerId)).forEach(partnerId => {
+    io.to(userRoom(partnerId)).emit('presence-changed', {
+      userId,
+      isOnline: isOnlineNow,
+      lastActive: now
+    });
+  });
+};
+
+// Start tracking an authenticated socket; call once per connection
+export const trackPresence = (io, socket) => {
+  const { userId } = socket.data;
+  const sockets = connections.get(userId) ?? new Set();
+  const cameOnline = sockets.size === 0;
+  sockets.add(socket.id);
+  connections.set(userId, sockets);
+
+  if (cameOnline) {
+    const now = new Date();
+    Promise.all([touchLastActive(userId, now), broadcastPresence(io, userId, true, now)])
+      .catch(error => console.error('Presence update error:', error));
+  }
+
+  socket.on('disconnect', () => {
+    const current = connections.get(userId);
+    if (!current) return;
+
+    current.delete(socket.id);
+    if (current.size > 0) return;
+
+    connections.delete(userId);
+    const now = new Date();
+    Promise.all([touchLastActive(userId, now), broadcastPresence(io, userId, false, now)])
+      .catch(error => console.error('Presence update error:', error));
+  });
+};
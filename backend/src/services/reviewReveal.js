@@ -0,0 +1,47 @@
+// Double-blind reviews. Each participant of a completed swap can review the
+// other within REVIEW_WINDOW_DAYS (default 14) of completion. Reviews stay
+// sealed until both are in or the window closes; then they are published
+// together and count towards ratings, and each reviewee is notified.
+import Review from '../models/Review.js';
+import Notification from '../models/Notification.js';
+import { emitNotification } from './notificationService.js';
+
+const DEFAULT_WINDOW_DAYS = 14;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const getWindowMs = () => {
+  const value = Number(process.env.REVIEW_WINDOW_DAYS);
+  return (Number.isFinite(value) && value > 0 ? value : DEFAULT_WINDOW_DAYS) * DAY_MS;
+};
+
+// When the review window of a completed swap closes
+export const getReviewDeadline = (swapRequest) =>
+  new Date((swapRequest.completedAt || swapRequest.updatedAt).getTime() + getWindowMs());
+
+// Publish a swap's sealed reviews; returns how many were published
+export const revealReviews = async (io, swapRequestId, now = new Date()) => {
+  const revealed = await Review.reveal(swapRequestId, now);
+
+  for (const review of revealed) {
+    await Review.syncUserRating(review.revieweeId);
+    const notification = await Notification.createFeedbackReceivedNotification(review.revieweeId, swapRequestId);
+    await emitNotification(io, notification);
+  }
+  return revealed.length;
+};
+
+// Publish the reviews of swaps whose review window has closed; returns how many were published
+export const revealExpiredReviews = async (io, now = new Date()) => {
+  const swapIds = await Review.findSwapIdsDueForReveal(now);
+
+  let revealed = 0;
+  for (const swapId of swapIds) {
+    try {
+      revealed += await revealReviews(io, swapId, now);
+    } catch (error) {
+      console.error(`Reveal reviews error for swap ${swapId}:`, error);
+    }
+  }
+  return revealed;
+};
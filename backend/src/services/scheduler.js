@@ -0,0 +1,59 @@
+// In-process job scheduler. Jobs run every `intervalMs`, never overlapping
+// themselves, and receive the current time from the scheduler's clock so they
+// can be driven with a fake clock: pass `now` and call runDue() by hand instead
+// of start().
+const DEFAULT_POLL_MS = 60 * 1000;
+
+export const createScheduler = ({ now = () => new Date() } = {}) => {
+  const jobs = [];
+  let timer = null;
+
+  // Register a job; it is first due as soon as the scheduler runs
+  const addJob = (name, intervalMs, task) => {
+    if (jobs.some(job => job.name === name)) {
+      throw new Error(`Job already scheduled: ${name}`);
+    }
+    jobs.push({ name, intervalMs, task, nextRunAt: null, running: false });
+  };
+
+  // Run every job that is due, one after another. Returns the result (or
+  // error) of each job that ran; a failing job doesn't stop the others.
+  const runDue = async () => {
+    const results = [];
+    for (const job of jobs) {
+      const at = now();
+      if (job.running || (job.nextRunAt && job.nextRunAt > at)) continue;
+
+      job.running = true;
+      try {
+        results.push({ name: job.name, result: await job.task(at) });
+      } catch (error) {
+        console.error(`Scheduled job ${job.name} error:`, error);
+        results.push({ name: job.name, error });
+      } finally {
+        job.running = false;
+        job.nextRunAt = new Date(at.getTime() + job.intervalMs);
+      }
+    }
+    return results;
+  };
+
+  // Check for due jobs now and then every `pollMs`
+  const start = (pollMs = DEFAULT_POLL_MS) => {
+    if (timer) return;
+    const poll = () => {
+      runDue().catch((error) => {
+        console.error('Scheduler error:', error);
+      });
+    };
+    poll();
+    timer = setInterval(poll, pollMs);
+  };
+
+  const stop = () => {
+    clearInterval(timer);
+    timer = null;
+  };
+
+  return { addJob, runDue, start, stop };
+};
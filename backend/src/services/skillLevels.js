@@ -0,0 +1,88 @@
+// Proficiency levels for offered skills and target levels for wanted skills,
+// plus validation of the skill entries sent with a profile
+
+export const SKILL_LEVELS = ['beginner', 'intermediate', 'advanced', 'expert'];
+
+const MAX_YEARS_EXPERIENCE = 80;
+const MAX_DESCRIPTION_LENGTH = 500;
+const MAX_PORTFOLIO_LINKS = 5;
+
+// 1 for beginner up to 4 for expert; 0 when the level is unknown
+export const getLevelRank = (level) => SKILL_LEVELS.indexOf(level) + 1;
+
+// Whether someone at `teacherLevel` can bring a learner to `targetLevel`.
+// A missing level on either side never rules a match out.
+export const canTeachLevel = (teacherLevel, targetLevel) =>
+  !teacherLevel || !targetLevel || getLevelRank(teacherLevel) >= getLevelRank(targetLevel);
+
+export const levelsAtLeast = (level) => SKILL_LEVELS.slice(SKILL_LEVELS.indexOf(level));
+
+export const levelsAtMost = (level) => SKILL_LEVELS.slice(0, SKILL_LEVELS.indexOf(level) + 1);
+
+const isValidUrl = (value) => {
+  try {
+    return ['http:', 'https:'].includes(new URL(value).protocol);
+  } catch {
+    return false;
+  }
+};
+
+const getName = (entry) => {
+  const name = typeof entry === 'string' ? entry : entry?.name;
+  if (typeof name !== 'string' || !name.trim()) {
+    throw new Error('Each skill needs a name');
+  }
+  if (name.trim().length > 50) {
+    throw new Error('Skill name cannot exceed 50 characters');
+  }
+  return name.trim();
+};
+
+const checkLevel = (level, label) => {
+  if (level !== undefined && level !== null && !SKILL_LEVELS.includes(level)) {
+    throw new Error(`${label} must be one of: ${SKILL_LEVELS.join(', ')}`);
+  }
+  return level || null;
+};
+
+// Accept skill names or { name, level, yearsExperience, description, portfolioLinks }
+// objects and return the objects, or throw with a readable message
+export const normalizeOfferedSkills = (entries) => entries.map((entry) => {
+  const name = getName(entry);
+  if (typeof entry === 'string') {
+    return { name, level: null, yearsExperience: null, description: null, portfolioLinks: [] };
+  }
+
+  const level = checkLevel(entry.level, 'Skill level');
+
+  let yearsExperience = null;
+  if (entry.yearsExperience !== undefined && entry.yearsExperience !== null && entry.yearsExperience !== '') {
+    yearsExperience = Number(entry.yearsExperience);
+    if (!Number.isFinite(yearsExperience) || yearsExperience < 0 || yearsExperience > MAX_YEARS_EXPERIENCE) {
+      throw new Error(`Years of experience must be between 0 and ${MAX_YEARS_EXPERIENCE}`);
+    }
+  }
+
+  const description = typeof entry.description === 'string' && entry.description.trim()
+    ? entry.description.trim()
+    : null;
+  if (description && description.length > MAX_DESCRIPTION_LENGTH) {
+    throw new Error(`Skill description cannot exceed ${MAX_DESCRIPTION_LENGTH} characters`);
+  }
+
+  const portfolioLinks = entry.portfolioLinks || [];
+  if (!Array.isArray(portfolioLinks) || portfolioLinks.length > MAX_PORTFOLIO_LINKS) {
+    throw new Error(`A skill can have at most ${MAX_PORTFOLIO_LINKS} portfolio links`);
+  }
+  if (portfolioLinks.some(link => !isValidUrl(link))) {
+    throw new Error('Portfolio links must be http or https URLs');
+  }
+
+  return { name, level, yearsExperience, description, portfolioLinks };
+});
+
+// Accept skill names or { name, targetLevel } objects
+export const normalizeWantedSkills = (entries) => entries.map((entry) => ({
+  name: getName(entry),
+  targetLevel: typeof entry === 'string' ? null : checkLevel(entry.targetLevel, 'Target level')
+}));
@@ -0,0 +1,62 @@
+// Two-sided swap completion. Once one participant marks a swap done the other
+// confirms or disputes it; completions left unanswered for the confirmation
+// window (COMPLETION_CONFIRM_WINDOW_HOURS, default 72) are confirmed automatically.
+import SwapRequest from '../models/SwapRequest.js';
+import Notification from '../models/Notification.js';
+import { settleSwapCredits } from './ledger.js';
+import { emitNotifications } from './notificationService.js';
+import { emitToUsers } from './userEvents.js';
+
+const DEFAULT_CONFIRM_WINDOW_HOURS = 72;
+
+export const getConfirmWindowMs = () => {
+  const hours = Number(process.env.COMPLETION_CONFIRM_WINDOW_HOURS);
+  return (Number.isFinite(hours) && hours > 0 ? hours : DEFAULT_CONFIRM_WINDOW_HOURS) * 60 * 60 * 1000;
+};
+
+// When a pending completion will be confirmed automatically
+export const getConfirmDeadline = (swapRequest) =>
+  swapRequest.completion?.requestedAt
+    ? new Date(swapRequest.completion.requestedAt.getTime() + getConfirmWindowMs())
+    : null;
+
+// Apply the completing transition, post the ledger entries and notify both
+// participants, unless `notify` is off because the caller sends its own
+// notification. `actor` is null when the system confirms, at time `at`. The transition goes
+// first so a dispute or cancellation racing it can't be left with the credits
+// already paid out.
+export const finalizeCompletion = async (io, swapRequest, { action = 'confirmCompletion', actor = null, reason = null, notify = true, at = new Date() } = {}) => {
+  await swapRequest.transition(action, actor, { reason, at });
+  await settleSwapCredits(swapRequest);
+  await swapRequest.populate('fromUserId', 'name email photo');
+  await swapRequest.populate('toUserId', 'name email photo');
+  if (!notify) return swapRequest;
+
+  const notifications = await Promise.all([swapRequest.fromUserId._id, swapRequest.toUserId._id].map(userId =>
+    Notification.createSwapCompletedNotification(userId, swapRequest._id)
+  ));
+  await emitNotifications(io, notifications);
+
+  return swapRequest;
+};
+
+// Confirm every completion whose window has passed; returns how many were confirmed
+export const autoConfirmCompletions = async (io, now = new Date()) => {
+  const due = await SwapRequest.findUnconfirmedCompletions(new Date(now.getTime() - getConfirmWindowMs()));
+
+  let confirmed = 0;
+  for (const swapRequest of due) {
+    try {
+      await finalizeCompletion(io, swapRequest, { reason: 'Not confirmed or disputed within the confirmation window', at: now });
+      await emitToUsers(io, [swapRequest.fromUserId._id, swapRequest.toUserId._id], 'swap-request-updated', {
+        swapRequest,
+        action: 'completed',
+        updatedBy: null
+      });
+      confirmed++;
+    } catch (error) {
+      console.error(`Auto-confirm completion error for swap ${swapRequest._id}:`, error);
+    }
+  }
+  return confirmed;
+};
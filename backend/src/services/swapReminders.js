@@ -0,0 +1,112 @@
+// Scheduled upkeep of swap requests. Pending requests expire after
+// SWAP_REQUEST_EXPIRY_DAYS (default 14) without an answer, with a reminder to
+// the participant they wait on SWAP_EXPIRY_REMINDER_HOURS (default 48) before.
+// Accepted swaps with no messages, sessions or changes for SWAP_IDLE_NUDGE_DAYS
+// (default 7) nudge both participants, at most once per idle period.
+import SwapRequest from '../models/SwapRequest.js';
+import Notification from '../models/Notification.js';
+import Message from '../models/Message.js';
+import Session, { ACTIVE_STATUSES as ACTIVE_SESSION_STATUSES } from '../models/Session.js';
+import { emitNotification } from './notificationService.js';
+import { emitToUsers } from './userEvents.js';
+
+const DEFAULT_EXPIRY_DAYS = 14;
+const DEFAULT_REMINDER_HOURS = 48;
+const DEFAULT_IDLE_DAYS = 7;
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+
+const readPositive = (name, fallback) => {
+  const value = Number(process.env[name]);
+  return Number.isFinite(value) && value > 0 ? value : fallback;
+};
+
+export const getExpiryMs = () => readPositive('SWAP_REQUEST_EXPIRY_DAYS', DEFAULT_EXPIRY_DAYS) * DAY_MS;
+export const getReminderLeadMs = () => readPositive('SWAP_EXPIRY_REMINDER_HOURS', DEFAULT_REMINDER_HOURS) * HOUR_MS;
+export const getIdleMs = () => readPositive('SWAP_IDLE_NUDGE_DAYS', DEFAULT_IDLE_DAYS) * DAY_MS;
+
+// When a request sent or countered at `from` expires
+export const getPendingExpiry = (from = new Date()) => new Date(from.getTime() + getExpiryMs());
+
+// Reminder bookkeeping shouldn't count as activity on the swap
+const markReminder = (swapRequest, field, at) =>
+  SwapRequest.updateOne({ _id: swapRequest._id }, { $set: { [`reminders.${field}`]: at } }, { timestamps: false });
+
+const notify = async (io, userId, type, swapRequest, metadata) => {
+  const notification = await Notification.createSwapReminderNotification(userId, type, swapRequest._id, metadata);
+  await emitNotification(io, notification);
+};
+
+// Expire pending requests nobody answered in time; returns how many expired
+export const expirePendingSwaps = async (io, now = new Date()) => {
+  const due = await SwapRequest.findPendingExpiringBy(now, getExpiryMs());
+
+  let expired = 0;
+  for (const swapRequest of due) {
+    try {
+      await swapRequest.transition('expire', null, { reason: 'Not answered before the request expired', at: now });
+      await Promise.all([swapRequest.fromUserId, swapRequest.toUserId].map(userId =>
+        notify(io, userId, 'swap_expired', swapRequest)
+      ));
+      await emitToUsers(io, [swapRequest.fromUserId, swapRequest.toUserId], 'swap-request-updated', {
+        swapRequest,
+        action: 'expired',
+        updatedBy: null
+      });
+      expired++;
+    } catch (error) {
+      console.error(`Expire swap error for swap ${swapRequest._id}:`, error);
+    }
+  }
+  return expired;
+};
+
+// Remind whoever a pending request waits on before it expires; returns how many were reminded
+export const remindExpiringSwaps = async (io, now = new Date()) => {
+  const due = await SwapRequest.findPendingExpiringBy(
+    new Date(now.getTime() + getReminderLeadMs()),
+    getExpiryMs(),
+    { 'reminders.expiringSentAt': null }
+  );
+
+  let reminded = 0;
+  for (const swapRequest of due) {
+    try {
+      const expiresAt = swapRequest.expiresAt || getPendingExpiry(swapRequest.createdAt);
+      await notify(io, swapRequest.awaitingResponseFrom || swapRequest.toUserId, 'swap_expiring', swapRequest, { expiresAt });
+      await markReminder(swapRequest, 'expiringSentAt', now);
+      reminded++;
+    } catch (error) {
+      console.error(`Expiry reminder error for swap ${swapRequest._id}:`, error);
+    }
+  }
+  return reminded;
+};
+
+// Nudge both participants of accepted swaps that have gone quiet; returns how many were nudged
+export const nudgeIdleSwaps = async (io, now = new Date()) => {
+  const cutoff = new Date(now.getTime() - getIdleMs());
+  const candidates = await SwapRequest.findIdleAccepted(cutoff);
+
+  let nudged = 0;
+  for (const swapRequest of candidates) {
+    try {
+      // Chatting or having a session planned or recently held counts as activity
+      const [recentMessage, activeSession] = await Promise.all([
+        Message.exists({ swapRequestId: swapRequest._id, createdAt: { $gt: cutoff } }),
+        Session.exists({ swapRequestId: swapRequest._id, status: { $in: ACTIVE_SESSION_STATUSES }, endTime: { $gt: cutoff } })
+      ]);
+      if (recentMessage || activeSession) continue;
+
+      await Promise.all([swapRequest.fromUserId, swapRequest.toUserId].map(userId =>
+        notify(io, userId, 'swap_idle', swapRequest)
+      ));
+      await markReminder(swapRequest, 'idleNudgedAt', now);
+      nudged++;
+    } catch (error) {
+      console.error(`Idle swap nudge error for swap ${swapRequest._id}:`, error);
+    }
+  }
+  return nudged;
+};
@@ -0,0 +1,183 @@
+// Allowed swap request transitions and who may make them. Actor roles:
+// sender, recipient, participant (either of them), responder (the participant
+// the latest offer is waiting on), counterparty (the participant who didn't
+// mark the swap completed), admin (an admin outside the swap) and system
+// (scheduled jobs, acting without a user).
+
+const toId = (value) => (value && value._id ? value._id : value).toString();
+
+const resolveDispute = (resolution) => (swapRequest, { actorId, reason, at }) => {
+  swapRequest.dispute.resolvedBy = actorId;
+  swapRequest.dispute.resolvedAt = at;
+  swapRequest.dispute.resolution = resolution;
+  swapRequest.dispute.resolutionNote = reason;
+};
+
+export const SWAP_TRANSITIONS = {
+  accept: {
+    from: ['pending'],
+    to: 'accepted',
+    actors: ['responder'],
+    forbidden: 'Only the participant the latest offer was sent to can accept it',
+    invalid: 'Can only accept pending swap requests'
+  },
+  reject: {
+    from: ['pending'],
+    to: 'rejected',
+    actors: ['responder'],
+    forbidden: 'Only the participant the latest offer was sent to can reject it',
+    invalid: 'Can only reject pending swap requests'
+  },
+  // Change the terms and hand the decision back to the other participant
+  counter: {
+    from: ['pending'],
+    to: 'pending',
+    actors: ['responder'],
+    forbidden: 'Only the participant the latest offer was sent to can counter it',
+    invalid: 'Can only counter pending swap requests',
+    apply: (swapRequest, { actorId, changes, at }) => {
+      swapRequest.set(changes);
+      swapRequest.awaitingResponseFrom = swapRequest.getOtherUserId(actorId);
+      swapRequest.recordOffer(actorId, at);
+    }
+  },
+  // Nobody answered the latest offer in time
+  expire: {
+    from: ['pending'],
+    to: 'expired',
+    actors: ['system'],
+    forbidden: 'Swap requests can only expire automatically',
+    invalid: 'Can only expire pending swap requests'
+  },
+  cancel: {
+    from: ['pending'],
+    to: 'cancelled',
+    actors: ['sender'],
+    forbidden: 'Only the sender can cancel swap requests',
+    invalid: 'Can only cancel pending swap requests'
+  },
+  // Call off an accepted swap before it's completed
+  cancelAccepted: {
+    from: ['accepted'],
+    to: 'cancelled',
+    actors: ['participant'],
+    forbidden: 'Not authorized to cancel this swap',
+    invalid: 'Can only cancel accepted swaps'
+  },
+  requestCompletion: {
+    from: ['accepted'],
+    to: 'completion_pending',
+    actors: ['participant'],
+    forbidden: 'Not authorized to complete this swap',
+    invalid: (swapRequest) => (swapRequest.status === 'completion_pending'
+      ? 'This swap is already waiting for completion to be confirmed'
+      : 'Can only complete accepted swap requests'),
+    apply: (swapRequest, { actorId, at }) => {
+      swapRequest.completion = { requestedBy: actorId, requestedAt: at, autoConfirmed: false };
+    }
+  },
+  confirmCompletion: {
+    from: ['completion_pending'],
+    to: 'completed',
+    actors: ['counterparty', 'system'],
+    forbidden: 'Only your swap partner can confirm this completion',
+    invalid: 'There is no completion waiting for your confirmation',
+    apply: (swapRequest, { actorId, at }) => {
+      swapRequest.completedAt = at;
+      swapRequest.completion.autoConfirmed = !actorId;
+    }
+  },
+  dispute: {
+    from: ['completion_pending'],
+    to: 'disputed',
+    actors: ['counterparty'],
+    forbidden: 'Only your swap partner can dispute this completion',
+    invalid: 'There is no completion waiting for your confirmation',
+    apply: (swapRequest, { actorId, reason, at }) => {
+      swapRequest.dispute = { raisedBy: actorId, reason, raisedAt: at };
+    }
+  },
+  resolveCompleted: {
+    from: ['disputed'],
+    to: 'completed',
+    actors: ['admin'],
+    forbidden: 'Only an admin outside the swap can resolve its dispute',
+    invalid: 'Swap is not disputed',
+    apply: (swapRequest, context) => {
+      resolveDispute('completed')(swapRequest, context);
+      swapRequest.completedAt = context.at;
+    }
+  },
+  resolveReopened: {
+    from: ['disputed'],
+    to: 'accepted',
+    actors: ['admin'],
+    forbidden: 'Only an admin outside the swap can resolve its dispute',
+    invalid: 'Swap is not disputed',
+    apply: (swapRequest, context) => {
+      resolveDispute('reopened')(swapRequest, context);
+      swapRequest.completion = {};
+    }
+  },
+  resolveCancelled: {
+    from: ['disputed'],
+    to: 'cancelled',
+    actors: ['admin'],
+    forbidden: 'Only an admin outside the swap can resolve its dispute',
+    invalid: 'Swap is not disputed',
+    apply: resolveDispute('cancelled')
+  }
+};
+
+// Roles `actor` (a user, or null for the system) plays in a swap request
+export const getActorRoles = (swapRequest, actor) => {
+  if (!actor) return ['system'];
+
+  const actorId = toId(actor);
+  const roles = [];
+  if (toId(swapRequest.fromUserId) === actorId) roles.push('sender');
+  if (toId(swapRequest.toUserId) === actorId) roles.push('recipient');
+  if (roles.length > 0) {
+    roles.push('participant');
+    // Requests made before counter-offers existed wait on the recipient
+    const responder = swapRequest.awaitingResponseFrom || swapRequest.toUserId;
+    if (toId(responder) === actorId) roles.push('responder');
+    const requestedBy = swapRequest.completion?.requestedBy;
+    if (requestedBy && toId(requestedBy) !== actorId) roles.push('counterparty');
+  } else if (actor.isAdmin) {
+    roles.push('admin');
+  }
+  return roles;
+};
+
+const transitionError = (message, statusCode) => {
+  const error = new Error(message);
+  error.code = 'INVALID_TRANSITION';
+  error.statusCode = statusCode;
+  return error;
+};
+
+// Error for a transition that lost a race: the swap left the status it was
+// checked in before the change could be saved
+export const transitionConflictError = () =>
+  transitionError('This swap was just changed by someone else. Refresh and try again.', 409);
+
+// Check that `actor` may apply `action` to the swap request in its current
+// status; throws an INVALID_TRANSITION error with a 403 or 400 statusCode
+export const checkTransition = (swapRequest, action, actor) => {
+  const transition = SWAP_TRANSITIONS[action];
+  if (!transition) {
+    throw new Error(`Unknown swap transition: ${action}`);
+  }
+
+  const roles = getActorRoles(swapRequest, actor);
+  if (!transition.actors.some(role => roles.includes(role))) {
+    throw transitionError(transition.forbidden, 403);
+  }
+  if (!transition.from.includes(swapRequest.status)) {
+    const message = typeof transition.invalid === 'function' ? transition.invalid(swapRequest) : transition.invalid;
+    throw transitionError(message, 400);
+  }
+
+  return { transition, roles };
+};
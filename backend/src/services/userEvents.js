@@ -0,0 +1,51 @@
+// Realtime events that change what a client shows are numbered per user and
+// kept for a while, so a client coming back online can replay what it missed
+// (see socket/sync.js). Ephemeral events like typing and presence skip this.
+import User from '../models/User.js';
+import UserEvent from '../models/UserEvent.js';
+import { userRoom } from '../socket/auth.js';
+
+// Events for one user are numbered, stored and emitted one at a time so
+// clients always receive them in order. userId -> tail of that user's queue.
+const queues = new Map();
+
+const enqueue = (userId, task) => {
+  const previous = queues.get(userId) ?? Promise.resolve();
+  const next = previous.then(task);
+  const tail = next.catch(() => {});
+  queues.set(userId, tail);
+  tail.then(() => {
+    if (queues.get(userId) === tail) {
+      queues.delete(userId);
+    }
+  });
+  return next;
+};
+
+const recordAndEmit = async (io, userId, event, payload) => {
+  const seq = await User.nextEventSeq(userId);
+  if (seq === null) return;
+
+  await UserEvent.create({ userId, seq, event, payload });
+  if (io) {
+    io.to(userRoom(userId)).emit(event, { ...payload, seq });
+  }
+};
+
+// Number, store and push `event` to one user. Failures are logged rather than
+// thrown: the change itself has already been saved.
+export const emitToUser = async (io, userId, event, payload) => {
+  // Store exactly what socket.io would send (documents as JSON)
+  const data = JSON.parse(JSON.stringify(payload));
+  const key = userId.toString();
+
+  try {
+    await enqueue(key, () => recordAndEmit(io, key, event, data));
+  } catch (error) {
+    console.error(`Realtime event error (${event} for user ${key}):`, error);
+  }
+};
+
+// Push the same event to several users, each with their own number
+export const emitToUsers = (io, userIds, event, payload) =>
+  Promise.all(userIds.map(userId => emitToUser(io, userId, event, payload)));
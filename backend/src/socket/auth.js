@@ -0,0 +1,53 @@
+import { authenticateToken } from '../middleware/auth.js';
+
+// Admins share a room for moderation events
+export const ADMIN_ROOM = 'admins';
+
+export const userRoom = (userId) => `user-${userId}`;
+const sessionRoom = (sessionId) => `session-${sessionId}`;
+
+// Handshake middleware: the client sends its access token as `auth.token` and
+// is held to the same rules as `protect`. Rejected connections get the
+// status code in `err.data` so the client can refresh its token and retry.
+export const authenticateSocket = async (socket, next) => {
+  try {
+    const { user, sessionId } = await authenticateToken(socket.handshake.auth?.token);
+    socket.data.userId = user._id.toString();
+    socket.data.sessionId = sessionId;
+    socket.data.isAdmin = user.isAdmin;
+    next();
+  } catch (error) {
+    if (!error.statusCode) {
+      console.error('Socket auth error:', error);
+    }
+    const socketError = new Error(error.statusCode ? error.message : 'Server error');
+    socketError.data = { statusCode: error.statusCode || 500 };
+    next(socketError);
+  }
+};
+
+// Rooms are picked by the server from the verified token, never by the client
+export const joinAuthorizedRooms = (socket) => {
+  socket.join(userRoom(socket.data.userId));
+  socket.join(sessionRoom(socket.data.sessionId));
+  if (socket.data.isAdmin) {
+    socket.join(ADMIN_ROOM);
+  }
+};
+
+// Drop every open connection of a user (e.g. when they are banned), or all
+// but the ones belonging to `exceptSessionId`
+export const disconnectUser = async (io, userId, exceptSessionId = null) => {
+  if (!io) return;
+
+  const sockets = await io.in(userRoom(userId)).fetchSockets();
+  sockets
+    .filter(socket => !exceptSessionId || String(socket.data.sessionId) !== String(exceptSessionId))
+    .forEach(socket => socket.disconnect(true));
+};
+
+// Drop the connections opened with one session's access tokens
+export const disconnectSession = (io, sessionId) => {
+  if (!io) return;
+  io.in(sessionRoom(sessionId)).disconnectSockets(true);
+};
@@ -0,0 +1,27 @@
+import mongoose from 'mongoose';
+import SwapRequest from '../models/SwapRequest.js';
+import User from '../models/User.js';
+
+// Relay typing indicators between the two participants of a swap
+export const registerChatHandlers = (io, socket) => {
+  socket.on('typing', async ({ swapRequestId, isTyping } = {}) => {
+    const userId = socket.data.userId;
+    if (!userId || !mongoose.isValidObjectId(swapRequestId)) return;
+
+    try {
+      const swapRequest = await SwapRequest.findById(swapRequestId);
+      if (!swapRequest || !swapRequest.isChatOpen || !swapRequest.isParticipant(userId)) return;
+
+      const otherUserId = swapRequest.getOtherUserId(userId);
+      if (await User.isBlockedBetween(userId, otherUserId)) return;
+
+      io.to(`user-${otherUserId}`).emit('typing', {
+        swapRequestId,
+        userId,
+        isTyping: Boolean(isTyping)
+      });
+    } catch (error) {
+      console.error('Typing event error:', error);
+    }
+  });
+};
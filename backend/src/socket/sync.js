@@ -0,0 +1,54 @@
+import User from '../models/User.js';
+import UserEvent from '../models/UserEvent.js';
+
+// Clients further behind than this reload everything instead of replaying
+const MAX_REPLAY_EVENTS = 200;
+
+// Work out what a client that last saw `lastSeq` needs: the events it missed
+// in order, or `resync: true` when they can't all be replayed (too many, or
+// already removed). A client without a lastSeq just learns the current number.
+export const getSyncState = async (userId, lastSeq) => {
+  const seq = await User.getEventSeq(userId);
+
+  if (!Number.isInteger(lastSeq) || lastSeq < 0) {
+    return { seq, events: [], resync: false };
+  }
+  if (lastSeq === seq) {
+    return { seq, events: [], resync: false };
+  }
+  if (lastSeq > seq) {
+    return { seq, events: [], resync: true };
+  }
+
+  const missed = seq - lastSeq;
+  if (missed > MAX_REPLAY_EVENTS) {
+    return { seq, events: [], resync: true };
+  }
+
+  const events = await UserEvent.findAfter(userId, lastSeq, missed);
+  const isComplete = events.length === missed && events.every((event, index) => event.seq === lastSeq + index + 1);
+  if (!isComplete) {
+    return { seq, events: [], resync: true };
+  }
+
+  return {
+    seq,
+    events: events.map(({ seq: eventSeq, event, payload }) => ({ seq: eventSeq, event, payload })),
+    resync: false
+  };
+};
+
+// Clients emit `sync` with { lastSeq } after (re)connecting and get the
+// missed events back through the acknowledgement
+export const registerSyncHandlers = (io, socket) => {
+  socket.on('sync', async ({ lastSeq } = {}, ack) => {
+    if (typeof ack !== 'function') return;
+
+    try {
+      ack(await getSyncState(socket.data.userId, lastSeq));
+    } catch (error) {
+      console.error('Sync error:', error);
+      ack({ seq: null, events: [], resync: true });
+    }
+  });
+};
@@ -0,0 +1,257 @@
+import { jest } from '@jest/globals';
+import mongoose from 'mongoose';
+import LedgerAccount from '../src/models/LedgerAccount.js';
+import LedgerTransaction from '../src/models/LedgerTransaction.js';
+import SwapRequest from '../src/models/SwapRequest.js';
+import { holdSwapCredits, refundSwapCredits, settleSwapCredits } from '../src/services/ledger.js';
+
+const objectId = () => new mongoose.Types.ObjectId();
+
+const insufficientCredits = () => Object.assign(new Error('Not enough ByteBucks'), { code: 'INSUFFICIENT_CREDITS' });
+
+afterEach(() => {
+  jest.restoreAllMocks();
+});
+
+describe('swap postings', () => {
+  const buildSwap = (fields = {}) => new SwapRequest({
+    fromUserId: objectId(),
+    toUserId: objectId(),
+    skillOffered: null,
+    skillWanted: 'Spanish',
+    paymentType: 'credits',
+    hours: 2.5,
+    message: 'Lessons?',
+    ...fields
+  });
+
+  beforeEach(() => {
+    jest.spyOn(LedgerTransaction, 'post').mockResolvedValue({});
+  });
+
+  test('hold moves the learner\'s credits into the swap\'s escrow', async () => {
+    const swapRequest = buildSwap();
+
+    await holdSwapCredits(swapRequest);
+
+    expect(LedgerTransaction.post).toHaveBeenCalledWith({
+      type: 'swap_hold',
+      postings: [
+        { account: `user:${swapRequest.fromUserId}`, amount: -2.5 },
+        { account: `escrow:swap:${swapRequest._id}`, amount: 2.5 }
+      ],
+      swapRequestId: swapRequest._id,
+      memo: 'Held for learning Spanish',
+      idempotencyKey: `swap:${swapRequest._id}:hold`
+    });
+  });
+
+  test('refund moves the escrow back to the learner', async () => {
+    const swapRequest = buildSwap();
+
+    await refundSwapCredits(swapRequest);
+
+    expect(LedgerTransaction.post).toHaveBeenCalledWith(expect.objectContaining({
+      type: 'swap_refund',
+      postings: [
+        { account: `escrow:swap:${swapRequest._id}`, amount: -2.5 },
+        { account: `user:${swapRequest.fromUserId}`, amount: 2.5 }
+      ],
+      idempotencyKey: `swap:${swapRequest._id}:refund`
+    }));
+  });
+
+  test('settling a credit swap pays the escrow to the teacher', async () => {
+    const swapRequest = buildSwap();
+
+    await settleSwapCredits(swapRequest);
+
+    expect(LedgerTransaction.post).toHaveBeenCalledWith(expect.objectContaining({
+      type: 'swap_payout',
+      postings: [
+        { account: `escrow:swap:${swapRequest._id}`, amount: -2.5 },
+        { account: `user:${swapRequest.toUserId}`, amount: 2.5 }
+      ],
+      idempotencyKey: `swap:${swapRequest._id}:settle`
+    }));
+  });
+
+  test('settling a barter swap issues the hours to both teachers', async () => {
+    const swapRequest = buildSwap({ paymentType: 'swap', skillOffered: 'Guitar', hours: 1 });
+
+    await settleSwapCredits(swapRequest);
+
+    expect(LedgerTransaction.post).toHaveBeenCalledWith(expect.objectContaining({
+      type: 'swap_earning',
+      postings: [
+        { account: 'system:issuance', amount: -2 },
+        { account: `user:${swapRequest.fromUserId}`, amount: 1 },
+        { account: `user:${swapRequest.toUserId}`, amount: 1 }
+      ],
+      memo: 'Swapped Guitar for Spanish'
+    }));
+  });
+
+  test('a populated swap posts to the same accounts', async () => {
+    const swapRequest = buildSwap();
+    const fromUserId = swapRequest.fromUserId;
+    swapRequest.fromUserId = { _id: fromUserId, name: 'Ada' };
+
+    await holdSwapCredits(swapRequest);
+
+    expect(LedgerTransaction.post.mock.calls[0][0].postings[0].account).toBe(`user:${fromUserId}`);
+  });
+});
+
+describe('LedgerTransaction.post', () => {
+  const swapRequestId = objectId();
+  const details = {
+    type: 'swap_hold',
+    postings: [
+      { account: 'escrow:swap:1', amount: 3 },
+      { account: 'user:1', amount: -3 }
+    ],
+    swapRequestId,
+    memo: 'Held for learning Spanish',
+    idempotencyKey: 'swap:1:hold'
+  };
+
+  // As create() would store it; saving is stubbed out below
+  const buildTransaction = (fields = {}) => new LedgerTransaction({ ...details, accounts: ['escrow:swap:1', 'user:1'], ...fields });
+
+  let applied;
+
+  beforeEach(() => {
+    applied = [];
+    jest.spyOn(LedgerAccount, 'applyPosting').mockImplementation((key, amount) => {
+      applied.push([key, amount]);
+      return Promise.resolve({});
+    });
+    jest.spyOn(LedgerAccount, 'revertPosting').mockResolvedValue({});
+    jest.spyOn(LedgerAccount, 'releaseTransaction').mockResolvedValue({});
+    jest.spyOn(LedgerTransaction, 'deleteOne').mockResolvedValue({});
+    jest.spyOn(LedgerTransaction.prototype, 'save').mockImplementation(function() {
+      return Promise.resolve(this);
+    });
+  });
+
+  test('posts a new transaction, withdrawals first, and marks it posted', async () => {
+    const created = buildTransaction();
+    jest.spyOn(LedgerTransaction, 'findOne').mockResolvedValue(null);
+    jest.spyOn(LedgerTransaction, 'create').mockResolvedValue(created);
+
+    const transaction = await LedgerTransaction.post(details);
+
+    expect(LedgerTransaction.create).toHaveBeenCalledWith({ ...details, leaseExpiresAt: expect.any(Date) });
+    expect(applied).toEqual([['user:1', -3], ['escrow:swap:1', 3]]);
+    expect(LedgerAccount.applyPosting).toHaveBeenCalledWith('user:1', -3, created._id);
+    expect(transaction.status).toBe('posted');
+    expect(transaction.leaseExpiresAt).toBeNull();
+    expect(LedgerAccount.releaseTransaction).toHaveBeenCalledWith(['escrow:swap:1', 'user:1'], created._id);
+  });
+
+  test('returns a transaction already posted without applying it again', async () => {
+    const posted = buildTransaction({ status: 'posted' });
+    jest.spyOn(LedgerTransaction, 'findOne').mockResolvedValue(posted);
+
+    expect(await LedgerTransaction.post(details)).toBe(posted);
+    expect(LedgerAccount.applyPosting).not.toHaveBeenCalled();
+  });
+
+  test('refuses a transaction someone else is still posting', async () => {
+    jest.spyOn(LedgerTransaction, 'findOne').mockResolvedValue(buildTransaction({ leaseExpiresAt: new Date(Date.now() + 30000) }));
+    jest.spyOn(LedgerTransaction, 'findOneAndUpdate').mockResolvedValue(null);
+
+    await expect(LedgerTransaction.post(details)).rejects.toMatchObject({ code: 'TRANSACTION_IN_PROGRESS' });
+    expect(LedgerAccount.applyPosting).not.toHaveBeenCalled();
+  });
+
+  test('resumes a transaction whose lease ran out', async () => {
+    const stale = buildTransaction({ leaseExpiresAt: new Date(Date.now() - 1000) });
+    jest.spyOn(LedgerTransaction, 'findOne').mockResolvedValue(stale);
+    jest.spyOn(LedgerTransaction, 'findOneAndUpdate').mockResolvedValue(stale);
+
+    const transaction = await LedgerTransaction.post(details);
+
+    const [filter, update] = LedgerTransaction.findOneAndUpdate.mock.calls[0];
+    expect(filter).toMatchObject({ _id: stale._id, status: 'pending' });
+    expect(update.leaseExpiresAt.getTime()).toBeGreaterThan(Date.now());
+    // Postings already applied before the interruption are skipped by applyPosting
+    expect(LedgerAccount.applyPosting).toHaveBeenCalledWith('user:1', -3, stale._id);
+    expect(LedgerAccount.applyPosting).toHaveBeenCalledWith('escrow:swap:1', 3, stale._id);
+    expect(transaction.status).toBe('posted');
+  });
+
+  test('rolls back and drops a transaction the payer can\'t cover', async () => {
+    const created = buildTransaction();
+    jest.spyOn(LedgerTransaction, 'findOne').mockResolvedValue(null);
+    jest.spyOn(LedgerTransaction, 'create').mockResolvedValue(created);
+    LedgerAccount.applyPosting.mockRejectedValueOnce(insufficientCredits());
+
+    await expect(LedgerTransaction.post(details)).rejects.toMatchObject({ code: 'INSUFFICIENT_CREDITS' });
+
+    expect(LedgerAccount.revertPosting).toHaveBeenCalledWith('user:1', -3, created._id);
+    expect(LedgerAccount.revertPosting).toHaveBeenCalledWith('escrow:swap:1', 3, created._id);
+    expect(LedgerTransaction.deleteOne).toHaveBeenCalledWith({ _id: created._id });
+    expect(LedgerTransaction.prototype.save).not.toHaveBeenCalled();
+  });
+
+  test('leaves a transaction interrupted by an unexpected error pending for a retry', async () => {
+    jest.spyOn(LedgerTransaction, 'findOne').mockResolvedValue(null);
+    jest.spyOn(LedgerTransaction, 'create').mockResolvedValue(buildTransaction());
+    LedgerAccount.applyPosting
+      .mockResolvedValueOnce({})
+      .mockRejectedValueOnce(new Error('connection reset'));
+
+    await expect(LedgerTransaction.post(details)).rejects.toThrow('connection reset');
+
+    expect(LedgerAccount.revertPosting).not.toHaveBeenCalled();
+    expect(LedgerTransaction.deleteOne).not.toHaveBeenCalled();
+  });
+});
+
+describe('LedgerAccount.applyPosting', () => {
+  const transactionId = objectId();
+
+  test('withdraws only from an account that can cover it and hasn\'t had this transaction', async () => {
+    const account = { key: 'user:1', balance: 2 };
+    jest.spyOn(LedgerAccount, 'findOneAndUpdate').mockResolvedValue(account);
+
+    expect(await LedgerAccount.applyPosting('user:1', -3, transactionId)).toBe(account);
+
+    expect(LedgerAccount.findOneAndUpdate).toHaveBeenCalledWith(
+      { key: 'user:1', pendingTransactions: { $ne: transactionId }, balance: { $gte: 3 } },
+      {
+        $inc: { balance: -3 },
+        $push: { pendingTransactions: transactionId },
+        $setOnInsert: { kind: 'user', userId: '1' }
+      },
+      { new: true, upsert: false }
+    );
+  });
+
+  test('leaves a posting already applied for the transaction alone', async () => {
+    const account = { key: 'user:1', balance: 2 };
+    jest.spyOn(LedgerAccount, 'findOneAndUpdate').mockResolvedValue(null);
+    jest.spyOn(LedgerAccount, 'findOne').mockResolvedValue(account);
+
+    expect(await LedgerAccount.applyPosting('user:1', -3, transactionId)).toBe(account);
+    expect(LedgerAccount.findOne).toHaveBeenCalledWith({ key: 'user:1', pendingTransactions: transactionId });
+  });
+
+  test('fails with INSUFFICIENT_CREDITS when the balance is too low', async () => {
+    jest.spyOn(LedgerAccount, 'findOneAndUpdate').mockResolvedValue(null);
+    jest.spyOn(LedgerAccount, 'findOne').mockResolvedValue(null);
+
+    await expect(LedgerAccount.applyPosting('escrow:swap:1', -3, transactionId)).rejects.toMatchObject({ code: 'INSUFFICIENT_CREDITS' });
+  });
+
+  test('doesn\'t deposit twice when the upsert runs into the account it already credited', async () => {
+    const account = { key: 'user:2', balance: 3 };
+    jest.spyOn(LedgerAccount, 'findOneAndUpdate').mockRejectedValue(Object.assign(new Error('E11000'), { code: 11000 }));
+    jest.spyOn(LedgerAccount, 'findOne').mockResolvedValue(account);
+
+    expect(await LedgerAccount.applyPosting('user:2', 3, transactionId)).toBe(account);
+    expect(LedgerAccount.findOneAndUpdate).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,107 @@
+import { jest } from '@jest/globals';
+import { createScheduler } from '../src/services/scheduler.js';
+
+const MINUTE_MS = 60 * 1000;
+
+// A clock the tests move by hand
+const createClock = (start = '2024-03-01T12:00:00Z') => {
+  let current = new Date(start);
+  return {
+    now: () => current,
+    advance: (ms) => {
+      current = new Date(current.getTime() + ms);
+    }
+  };
+};
+
+describe('createScheduler', () => {
+  let clock;
+  let scheduler;
+
+  beforeEach(() => {
+    clock = createClock();
+    scheduler = createScheduler({ now: clock.now });
+  });
+
+  test('runs a new job right away and passes it the clock time', async () => {
+    const task = jest.fn().mockResolvedValue(3);
+    scheduler.addJob('count', 15 * MINUTE_MS, task);
+
+    const results = await scheduler.runDue();
+
+    expect(task).toHaveBeenCalledWith(new Date('2024-03-01T12:00:00Z'));
+    expect(results).toEqual([{ name: 'count', result: 3 }]);
+  });
+
+  test('runs a job again only once its interval has passed', async () => {
+    const task = jest.fn().mockResolvedValue(0);
+    scheduler.addJob('count', 15 * MINUTE_MS, task);
+
+    await scheduler.runDue();
+    clock.advance(14 * MINUTE_MS);
+    expect(await scheduler.runDue()).toEqual([]);
+
+    clock.advance(MINUTE_MS);
+    await scheduler.runDue();
+    expect(task).toHaveBeenCalledTimes(2);
+    expect(task).toHaveBeenLastCalledWith(new Date('2024-03-01T12:15:00Z'));
+  });
+
+  test('keeps each job on its own interval', async () => {
+    const often = jest.fn().mockResolvedValue(0);
+    const hourly = jest.fn().mockResolvedValue(0);
+    scheduler.addJob('often', 15 * MINUTE_MS, often);
+    scheduler.addJob('hourly', 60 * MINUTE_MS, hourly);
+
+    for (let step = 0; step < 8; step++) {
+      await scheduler.runDue();
+      clock.advance(15 * MINUTE_MS);
+    }
+
+    expect(often).toHaveBeenCalledTimes(8);
+    expect(hourly).toHaveBeenCalledTimes(2);
+  });
+
+  test('a failing job is reported and retried next interval without stopping the others', async () => {
+    const error = new Error('database unavailable');
+    const failing = jest.fn().mockRejectedValueOnce(error).mockResolvedValue(1);
+    const other = jest.fn().mockResolvedValue(2);
+    scheduler.addJob('failing', 60 * MINUTE_MS, failing);
+    scheduler.addJob('other', 60 * MINUTE_MS, other);
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+
+    expect(await scheduler.runDue()).toEqual([
+      { name: 'failing', error },
+      { name: 'other', result: 2 }
+    ]);
+
+    clock.advance(60 * MINUTE_MS);
+    expect(await scheduler.runDue()).toEqual([
+      { name: 'failing', result: 1 },
+      { name: 'other', result: 2 }
+    ]);
+    console.error.mockRestore();
+  });
+
+  test('a job still running is not started again', async () => {
+    let finish;
+    const task = jest.fn(() => new Promise((resolve) => {
+      finish = resolve;
+    }));
+    scheduler.addJob('slow', MINUTE_MS, task);
+
+    const first = scheduler.runDue();
+    clock.advance(5 * MINUTE_MS);
+    expect(await scheduler.runDue()).toEqual([]);
+
+    finish(0);
+    await first;
+    expect(task).toHaveBeenCalledTimes(1);
+  });
+
+  test('refuses two jobs with the same name', () => {
+    scheduler.addJob('count', MINUTE_MS, jest.fn());
+
+    expect(() => scheduler.addJob('count', MINUTE_MS, jest.fn())).toThrow('Job already scheduled: count');
+  });
+});
@@ -0,0 +1,195 @@
+import { jest } from '@jest/globals';
+
+// Socket pushes and stored user events need a database; the jobs' own
+// decisions are what's under test
+jest.unstable_mockModule('../src/services/notificationService.js', () => ({
+  registerNotificationChannel: jest.fn(),
+  emitNotification: jest.fn(),
+  emitNotifications: jest.fn()
+}));
+jest.unstable_mockModule('../src/services/userEvents.js', () => ({
+  emitToUser: jest.fn(),
+  emitToUsers: jest.fn()
+}));
+
+const { default: mongoose } = await import('mongoose');
+const { default: SwapRequest } = await import('../src/models/SwapRequest.js');
+const { default: Notification } = await import('../src/models/Notification.js');
+const { default: LedgerTransaction } = await import('../src/models/LedgerTransaction.js');
+const { expirePendingSwaps, remindExpiringSwaps } = await import('../src/services/swapReminders.js');
+const { autoConfirmCompletions } = await import('../src/services/swapCompletion.js');
+const { emitToUsers } = await import('../src/services/userEvents.js');
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+const NOW = new Date('2024-03-01T12:00:00Z');
+
+const objectId = () => new mongoose.Types.ObjectId();
+
+const buildSwap = (fields = {}) => new SwapRequest({
+  fromUserId: objectId(),
+  toUserId: objectId(),
+  skillOffered: 'Guitar',
+  skillWanted: 'Spanish',
+  message: 'Want to swap?',
+  ...fields
+});
+
+let saved;
+
+beforeEach(() => {
+  saved = [];
+  // Keep the filter each save was conditional on, as the write would send it
+  jest.spyOn(SwapRequest.prototype, 'save').mockImplementation(function() {
+    saved.push({ status: this.status, where: this.$where });
+    return Promise.resolve(this);
+  });
+  jest.spyOn(SwapRequest.prototype, 'populate').mockImplementation(function() {
+    return Promise.resolve(this);
+  });
+  jest.spyOn(console, 'error').mockImplementation(() => {});
+});
+
+afterEach(() => {
+  jest.restoreAllMocks();
+  delete process.env.SWAP_REQUEST_EXPIRY_DAYS;
+  delete process.env.COMPLETION_CONFIRM_WINDOW_HOURS;
+});
+
+describe('expirePendingSwaps', () => {
+  beforeEach(() => {
+    jest.spyOn(Notification, 'createSwapReminderNotification').mockResolvedValue({});
+  });
+
+  test('expires due requests at the scheduler time and tells both participants', async () => {
+    process.env.SWAP_REQUEST_EXPIRY_DAYS = '10';
+    const swapRequest = buildSwap({ expiresAt: new Date(NOW.getTime() - HOUR_MS) });
+    jest.spyOn(SwapRequest, 'findPendingExpiringBy').mockResolvedValue([swapRequest]);
+
+    expect(await expirePendingSwaps(null, NOW)).toBe(1);
+
+    expect(SwapRequest.findPendingExpiringBy).toHaveBeenCalledWith(NOW, 10 * DAY_MS);
+    expect(swapRequest.status).toBe('expired');
+    expect(swapRequest.history.at(-1)).toMatchObject({
+      action: 'expire',
+      from: 'pending',
+      to: 'expired',
+      actor: null,
+      actorRole: 'system',
+      reason: 'Not answered before the request expired',
+      at: NOW
+    });
+    expect(saved).toEqual([{ status: 'expired', where: { status: 'pending', 'history.0': { $exists: false } } }]);
+    expect(Notification.createSwapReminderNotification).toHaveBeenCalledWith(swapRequest.fromUserId, 'swap_expired', swapRequest._id, undefined);
+    expect(Notification.createSwapReminderNotification).toHaveBeenCalledWith(swapRequest.toUserId, 'swap_expired', swapRequest._id, undefined);
+    expect(emitToUsers).toHaveBeenCalledWith(null, [swapRequest.fromUserId, swapRequest.toUserId], 'swap-request-updated', {
+      swapRequest,
+      action: 'expired',
+      updatedBy: null
+    });
+  });
+
+  test('skips a request accepted in the meantime and carries on with the rest', async () => {
+    const accepted = buildSwap();
+    const unanswered = buildSwap();
+    jest.spyOn(SwapRequest, 'findPendingExpiringBy').mockResolvedValue([accepted, unanswered]);
+    SwapRequest.prototype.save.mockImplementationOnce(() =>
+      Promise.reject(new mongoose.Error.DocumentNotFoundError({ _id: accepted._id }, 'SwapRequest', 0, {})));
+
+    expect(await expirePendingSwaps(null, NOW)).toBe(1);
+
+    expect(console.error).toHaveBeenCalledWith(
+      `Expire swap error for swap ${accepted._id}:`,
+      expect.objectContaining({ code: 'INVALID_TRANSITION', statusCode: 409 })
+    );
+    expect(unanswered.status).toBe('expired');
+  });
+});
+
+describe('remindExpiringSwaps', () => {
+  beforeEach(() => {
+    jest.spyOn(Notification, 'createSwapReminderNotification').mockResolvedValue({});
+    jest.spyOn(SwapRequest, 'updateOne').mockResolvedValue({});
+  });
+
+  test('reminds whoever the request waits on and records when', async () => {
+    const expiresAt = new Date(NOW.getTime() + 24 * HOUR_MS);
+    const swapRequest = buildSwap({ expiresAt });
+    swapRequest.awaitingResponseFrom = swapRequest.fromUserId;
+    jest.spyOn(SwapRequest, 'findPendingExpiringBy').mockResolvedValue([swapRequest]);
+
+    expect(await remindExpiringSwaps(null, NOW)).toBe(1);
+
+    // Looks 48 hours ahead by default, for requests not reminded yet
+    expect(SwapRequest.findPendingExpiringBy).toHaveBeenCalledWith(
+      new Date(NOW.getTime() + 48 * HOUR_MS),
+      14 * DAY_MS,
+      { 'reminders.expiringSentAt': null }
+    );
+    expect(Notification.createSwapReminderNotification).toHaveBeenCalledTimes(1);
+    expect(Notification.createSwapReminderNotification).toHaveBeenCalledWith(
+      swapRequest.fromUserId, 'swap_expiring', swapRequest._id, { expiresAt }
+    );
+    expect(SwapRequest.updateOne).toHaveBeenCalledWith(
+      { _id: swapRequest._id },
+      { $set: { 'reminders.expiringSentAt': NOW } },
+      { timestamps: false }
+    );
+  });
+
+  test('works out the expiry of requests from before expiresAt existed', async () => {
+    const createdAt = new Date(NOW.getTime() - 13 * DAY_MS);
+    const swapRequest = buildSwap({ createdAt });
+    jest.spyOn(SwapRequest, 'findPendingExpiringBy').mockResolvedValue([swapRequest]);
+
+    await remindExpiringSwaps(null, NOW);
+
+    expect(Notification.createSwapReminderNotification).toHaveBeenCalledWith(
+      swapRequest.toUserId, 'swap_expiring', swapRequest._id, { expiresAt: new Date(createdAt.getTime() + 14 * DAY_MS) }
+    );
+  });
+});
+
+describe('autoConfirmCompletions', () => {
+  beforeEach(() => {
+    jest.spyOn(Notification, 'createSwapCompletedNotification').mockResolvedValue({});
+    jest.spyOn(LedgerTransaction, 'post').mockResolvedValue({});
+  });
+
+  const buildPendingCompletion = (fields = {}) => {
+    const swapRequest = buildSwap({ status: 'completion_pending', ...fields });
+    swapRequest.completion = { requestedBy: swapRequest.toUserId, requestedAt: new Date(NOW.getTime() - 80 * HOUR_MS) };
+    return swapRequest;
+  };
+
+  test('confirms completions left past the window, then settles them', async () => {
+    process.env.COMPLETION_CONFIRM_WINDOW_HOURS = '72';
+    const swapRequest = buildPendingCompletion();
+    jest.spyOn(SwapRequest, 'findUnconfirmedCompletions').mockResolvedValue([swapRequest]);
+
+    expect(await autoConfirmCompletions(null, NOW)).toBe(1);
+
+    expect(SwapRequest.findUnconfirmedCompletions).toHaveBeenCalledWith(new Date(NOW.getTime() - 72 * HOUR_MS));
+    expect(swapRequest.status).toBe('completed');
+    expect(swapRequest.completedAt).toEqual(NOW);
+    expect(swapRequest.completion.autoConfirmed).toBe(true);
+    expect(swapRequest.history.at(-1)).toMatchObject({ action: 'confirmCompletion', actorRole: 'system', at: NOW });
+    expect(LedgerTransaction.post).toHaveBeenCalledWith(expect.objectContaining({
+      type: 'swap_earning',
+      idempotencyKey: `swap:${swapRequest._id}:settle`
+    }));
+    expect(Notification.createSwapCompletedNotification).toHaveBeenCalledTimes(2);
+  });
+
+  test('pays nothing out for a completion disputed in the meantime', async () => {
+    const swapRequest = buildPendingCompletion({ paymentType: 'credits', skillOffered: null, hours: 2 });
+    jest.spyOn(SwapRequest, 'findUnconfirmedCompletions').mockResolvedValue([swapRequest]);
+    SwapRequest.prototype.save.mockImplementationOnce(() =>
+      Promise.reject(new mongoose.Error.DocumentNotFoundError({ _id: swapRequest._id }, 'SwapRequest', 0, {})));
+
+    expect(await autoConfirmCompletions(null, NOW)).toBe(0);
+
+    expect(LedgerTransaction.post).not.toHaveBeenCalled();
+    expect(Notification.createSwapCompletedNotification).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,168 @@
+import { jest } from '@jest/globals';
+import mongoose from 'mongoose';
+import SwapRequest from '../src/models/SwapRequest.js';
+import Session from '../src/models/Session.js';
+import { checkTransition, getActorRoles } from '../src/services/swapStateMachine.js';
+
+const objectId = () => new mongoose.Types.ObjectId();
+
+const sender = { _id: objectId() };
+const recipient = { _id: objectId() };
+const admin = { _id: objectId(), isAdmin: true };
+
+const buildSwap = (fields = {}) => new SwapRequest({
+  fromUserId: sender._id,
+  toUserId: recipient._id,
+  skillOffered: null,
+  skillWanted: 'Spanish',
+  paymentType: 'credits',
+  hours: 2,
+  message: 'Lessons?',
+  ...fields
+});
+
+afterEach(() => {
+  jest.restoreAllMocks();
+});
+
+describe('checkTransition', () => {
+  test('gives the participants and admins their roles', () => {
+    const swapRequest = buildSwap({ status: 'completion_pending' });
+    swapRequest.completion = { requestedBy: sender._id };
+
+    expect(getActorRoles(swapRequest, sender)).toEqual(['sender', 'participant']);
+    expect(getActorRoles(swapRequest, recipient)).toEqual(['recipient', 'participant', 'responder', 'counterparty']);
+    expect(getActorRoles(swapRequest, admin)).toEqual(['admin']);
+    expect(getActorRoles(swapRequest, null)).toEqual(['system']);
+  });
+
+  test('refuses actors the transition isn\'t for with a 403', () => {
+    expect(() => checkTransition(buildSwap(), 'accept', sender)).toThrow(expect.objectContaining({
+      code: 'INVALID_TRANSITION',
+      statusCode: 403,
+      message: 'Only the participant the latest offer was sent to can accept it'
+    }));
+    expect(() => checkTransition(buildSwap(), 'expire', recipient)).toThrow(expect.objectContaining({ statusCode: 403 }));
+  });
+
+  test('refuses transitions out of the wrong status with a 400', () => {
+    expect(() => checkTransition(buildSwap({ status: 'completed' }), 'cancelAccepted', sender)).toThrow(expect.objectContaining({
+      statusCode: 400,
+      message: 'Can only cancel accepted swaps'
+    }));
+  });
+
+  test('lets either participant cancel an accepted swap, but only the sender a pending one', () => {
+    expect(() => checkTransition(buildSwap({ status: 'accepted' }), 'cancelAccepted', recipient)).not.toThrow();
+    expect(() => checkTransition(buildSwap({ status: 'accepted' }), 'cancelAccepted', sender)).not.toThrow();
+    expect(() => checkTransition(buildSwap(), 'cancel', recipient)).toThrow(expect.objectContaining({ statusCode: 403 }));
+  });
+
+  test('only lets an admin outside the swap resolve its dispute', () => {
+    const disputed = buildSwap({ status: 'disputed' });
+
+    for (const action of ['resolveCompleted', 'resolveReopened', 'resolveCancelled']) {
+      expect(() => checkTransition(disputed, action, admin)).not.toThrow();
+      expect(() => checkTransition(disputed, action, { ...sender, isAdmin: true })).toThrow(expect.objectContaining({ statusCode: 403 }));
+    }
+  });
+});
+
+describe('SwapRequest#transition', () => {
+  let saved;
+
+  beforeEach(() => {
+    saved = [];
+    jest.spyOn(SwapRequest.prototype, 'save').mockImplementation(function() {
+      saved.push({ status: this.status, where: this.$where });
+      return Promise.resolve(this);
+    });
+    jest.spyOn(Session, 'cancelForSwap').mockResolvedValue({});
+  });
+
+  test('only saves while no other transition has been recorded', async () => {
+    const swapRequest = buildSwap();
+    swapRequest.history.push({ action: 'create', from: null, to: 'pending', actor: sender._id, actorRole: 'sender' });
+
+    await swapRequest.transition('accept', recipient);
+
+    expect(saved).toEqual([{ status: 'accepted', where: { status: 'pending', 'history.1': { $exists: false } } }]);
+    expect(swapRequest.$where).toBeUndefined();
+  });
+
+  test('turns a save that matched nothing into a 409', async () => {
+    const swapRequest = buildSwap();
+    SwapRequest.prototype.save.mockRejectedValueOnce(
+      new mongoose.Error.DocumentNotFoundError({ _id: swapRequest._id }, 'SwapRequest', 0, {}));
+
+    await expect(swapRequest.transition('cancel', sender)).rejects.toMatchObject({
+      code: 'INVALID_TRANSITION',
+      statusCode: 409
+    });
+    expect(swapRequest.$where).toBeUndefined();
+  });
+
+  test('records the transition at the time given', async () => {
+    const at = new Date('2024-03-01T12:00:00Z');
+    const swapRequest = buildSwap({ status: 'accepted' });
+
+    await swapRequest.transition('requestCompletion', recipient, { at });
+
+    expect(swapRequest.completion.requestedAt).toEqual(at);
+    expect(swapRequest.history.at(-1)).toMatchObject({ action: 'requestCompletion', actorRole: 'participant', at });
+  });
+
+  test('cancelling an accepted swap records the reason and calls off its sessions', async () => {
+    const swapRequest = buildSwap({ status: 'accepted' });
+
+    await swapRequest.transition('cancelAccepted', recipient, { reason: 'Moving abroad' });
+
+    expect(swapRequest.status).toBe('cancelled');
+    expect(swapRequest.history.at(-1)).toMatchObject({
+      action: 'cancelAccepted',
+      from: 'accepted',
+      to: 'cancelled',
+      actorRole: 'participant',
+      reason: 'Moving abroad'
+    });
+    expect(Session.cancelForSwap).toHaveBeenCalledWith(swapRequest._id);
+  });
+
+  test('resolving a dispute as cancelled records the admin\'s resolution', async () => {
+    const swapRequest = buildSwap({ status: 'disputed' });
+    swapRequest.dispute = { raisedBy: recipient._id, reason: 'No show', raisedAt: new Date() };
+
+    await swapRequest.transition('resolveCancelled', admin, { reason: 'Never took place' });
+
+    expect(swapRequest.status).toBe('cancelled');
+    expect(swapRequest.dispute).toMatchObject({
+      resolvedBy: admin._id,
+      resolution: 'cancelled',
+      resolutionNote: 'Never took place'
+    });
+    expect(swapRequest.dispute.resolvedAt).toBeInstanceOf(Date);
+    expect(Session.cancelForSwap).not.toHaveBeenCalled();
+  });
+
+  test('resolving a dispute as completed completes the swap', async () => {
+    const swapRequest = buildSwap({ status: 'disputed' });
+
+    await swapRequest.transition('resolveCompleted', admin);
+
+    expect(swapRequest.status).toBe('completed');
+    expect(swapRequest.completedAt).toEqual(swapRequest.dispute.resolvedAt);
+    expect(swapRequest.dispute.resolution).toBe('completed');
+  });
+
+  test('a counter-offer hands the decision back and keeps the old terms', async () => {
+    const swapRequest = buildSwap();
+    swapRequest.recordOffer(sender._id);
+
+    await swapRequest.transition('counter', recipient, { changes: { hours: 3, message: 'Three hours?' } });
+
+    expect(swapRequest.status).toBe('pending');
+    expect(swapRequest.awaitingResponseFrom.toString()).toBe(sender._id.toString());
+    expect(swapRequest.offers.map(offer => offer.hours)).toEqual([2, 3]);
+    expect(() => checkTransition(swapRequest, 'accept', recipient)).toThrow(expect.objectContaining({ statusCode: 403 }));
+  });
+});
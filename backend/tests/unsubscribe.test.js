@@ -0,0 +1,177 @@
+import net from 'net';
+import express from 'express';
+import request from 'supertest';
+import { jest } from '@jest/globals';
+import mongoose from 'mongoose';
+import User from '../src/models/User.js';
+import Notification from '../src/models/Notification.js';
+import notificationRoutes from '../src/routes/notifications.js';
+import { emailChannel } from '../src/services/emailNotifier.js';
+import { setMailTransport } from '../src/services/mailer.js';
+
+// Just enough of an SMTP server to accept what nodemailer sends and keep
+// the raw messages, like a local capture server such as Mailpit
+const startSmtpCapture = () => new Promise((resolve) => {
+  const messages = [];
+  const server = net.createServer((socket) => {
+    let buffer = '';
+    let inData = false;
+    socket.write('220 capture ESMTP\r\n');
+    socket.on('data', (chunk) => {
+      buffer += chunk.toString();
+      if (inData) {
+        const end = buffer.indexOf('\r\n.\r\n');
+        if (end === -1) return;
+        messages.push(buffer.slice(0, end));
+        buffer = buffer.slice(end + 5);
+        inData = false;
+        socket.write('250 queued\r\n');
+      }
+      let lineEnd;
+      while (!inData && (lineEnd = buffer.indexOf('\r\n')) !== -1) {
+        const line = buffer.slice(0, lineEnd);
+        buffer = buffer.slice(lineEnd + 2);
+        const command = line.slice(0, 4).toUpperCase();
+        if (command === 'EHLO' || command === 'HELO') socket.write('250 capture\r\n');
+        else if (command === 'DATA') {
+          inData = true;
+          socket.write('354 go ahead\r\n');
+        } else if (command === 'QUIT') socket.end('221 bye\r\n');
+        else socket.write('250 ok\r\n');
+      }
+    });
+  });
+  server.listen(0, '127.0.0.1', () => resolve({ server, messages, port: server.address().port }));
+});
+
+const buildApp = () => {
+  const app = express();
+  app.use(express.json());
+  app.use(express.urlencoded({ extended: true }));
+  app.use('/api/notifications', notificationRoutes);
+  return app;
+};
+
+// The List-Unsubscribe URL of a raw message, with folded header lines joined
+const getListUnsubscribeUrl = (raw) => {
+  const headers = raw.slice(0, raw.indexOf('\r\n\r\n')).replace(/\r\n[ \t]+/g, ' ');
+  const match = headers.match(/^List-Unsubscribe: <([^>]+)>/mi);
+  return match ? match[1].replace(/\s+/g, '') : null;
+};
+
+describe('email unsubscribe', () => {
+  let smtp;
+  let app;
+  const user = new User({ name: 'Ada', email: 'ada@example.com' });
+
+  beforeAll(async () => {
+    process.env.JWT_SECRET = 'test-secret';
+    process.env.API_URL = 'http://api.test';
+    smtp = await startSmtpCapture();
+    process.env.SMTP_HOST = '127.0.0.1';
+    process.env.SMTP_PORT = String(smtp.port);
+    setMailTransport(undefined);
+    app = buildApp();
+  });
+
+  afterAll(async () => {
+    setMailTransport(null);
+    await new Promise(resolve => smtp.server.close(resolve));
+  });
+
+  beforeEach(() => {
+    jest.spyOn(User, 'findById').mockReturnValue({ select: () => Promise.resolve(user) });
+    jest.spyOn(Notification, 'updateMany').mockResolvedValue({});
+    jest.spyOn(User, 'findByIdAndUpdate').mockReturnValue({
+      select: () => Promise.resolve({ emailPreferences: { disabledTypes: ['swap_request'] } })
+    });
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  const sendNotificationEmail = async () => {
+    await emailChannel.deliver(new Notification({
+      userId: user._id,
+      type: 'swap_request',
+      title: 'New Swap Request',
+      message: 'Grace wants to swap skills with you'
+    }));
+    return smtp.messages[smtp.messages.length - 1];
+  };
+
+  test('emails go out over SMTP with a one-click unsubscribe header', async () => {
+    const raw = await sendNotificationEmail();
+
+    expect(raw).toMatch(/^To: ada@example\.com/m);
+    expect(raw).toMatch(/^Subject: Skill Swap: New Swap Request/m);
+    expect(raw).toMatch(/^List-Unsubscribe-Post: List-Unsubscribe=One-Click/m);
+    expect(getListUnsubscribeUrl(raw)).toMatch(/^http:\/\/api\.test\/api\/notifications\/unsubscribe\?token=/);
+    expect(Notification.updateMany).toHaveBeenCalledWith(
+      expect.anything(),
+      { $set: { 'email.status': 'sent', 'email.sentAt': expect.any(Date) } }
+    );
+  });
+
+  test('opening the emailed link only asks for confirmation', async () => {
+    const url = new URL(getListUnsubscribeUrl(await sendNotificationEmail()));
+
+    const response = await request(app).get(url.pathname + url.search);
+
+    expect(response.status).toBe(200);
+    expect(response.type).toBe('text/html');
+    expect(response.text).toContain('<form method="post"');
+    expect(response.text).toContain(`value="${url.searchParams.get('token')}"`);
+    expect(User.findByIdAndUpdate).not.toHaveBeenCalled();
+  });
+
+  test('submitting the confirmation page unsubscribes and shows a page', async () => {
+    const url = new URL(getListUnsubscribeUrl(await sendNotificationEmail()));
+
+    const response = await request(app)
+      .post('/api/notifications/unsubscribe')
+      .set('Accept', 'text/html')
+      .type('form')
+      .send({ token: url.searchParams.get('token') });
+
+    expect(response.status).toBe(200);
+    expect(response.text).toContain('You have been unsubscribed');
+    expect(User.findByIdAndUpdate).toHaveBeenCalledWith(
+      user._id.toString(),
+      { $addToSet: { 'emailPreferences.disabledTypes': { $each: ['swap_request'] } } },
+      { new: true }
+    );
+  });
+
+  test('one-click unsubscribe from a mail client answers with JSON', async () => {
+    const url = new URL(getListUnsubscribeUrl(await sendNotificationEmail()));
+
+    const response = await request(app)
+      .post(url.pathname + url.search)
+      .type('form')
+      .send('List-Unsubscribe=One-Click');
+
+    expect(response.status).toBe(200);
+    expect(response.body).toMatchObject({ success: true, data: { emailPreferences: { disabledTypes: ['swap_request'] } } });
+  });
+
+  test('a bad token gets an error page', async () => {
+    const response = await request(app).get('/api/notifications/unsubscribe?token=not-a-token');
+
+    expect(response.status).toBe(400);
+    expect(response.type).toBe('text/html');
+    expect(response.text).toContain('This unsubscribe link is not valid');
+    expect(User.findByIdAndUpdate).not.toHaveBeenCalled();
+  });
+
+  test('a bad one-click token gets a JSON error', async () => {
+    const response = await request(app)
+      .post(`/api/notifications/unsubscribe?token=${new mongoose.Types.ObjectId()}`)
+      .type('form')
+      .send('List-Unsubscribe=One-Click');
+
+    expect(response.status).toBe(400);
+    expect(response.body).toEqual({ success: false, message: 'Invalid unsubscribe link' });
+  });
+});
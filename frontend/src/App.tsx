@@ -4,9 +4,13 @@ import { AuthProvider, useAuth } from './contexts/AuthContext';
 import { DataProvider } from './contexts/DataContext';
 import Layout from './components/Layout';
 import LoginForm from './components/LoginForm';
+import ForgotPasswordForm from './components/ForgotPasswordForm';
+import ResetPasswordForm from './components/ResetPasswordForm';
+import VerifyEmail from './components/VerifyEmail';
 import BrowseSkills from './pages/BrowserSkills';
 import Profile from './pages/Profile';
 import SwapRequests from './pages/SwapRequests';
+import Credits from './pages/Credits';
 
 const AppRoutes: React.FC = () => {
   const { user, isLoading } = useAuth();
@@ -25,23 +29,36 @@ const AppRoutes: React.FC = () => {
 
   if (!user) {
     return (
-      <LoginForm 
-        onToggleMode={() => setIsRegister(!isRegister)} 
-        isRegister={isRegister} 
-      />
+      <Routes>
+        <Route path="/forgot-password" element={<ForgotPasswordForm />} />
+        <Route path="/reset-password" element={<ResetPasswordForm />} />
+        <Route path="/verify-email" element={<VerifyEmail />} />
+        <Route path="*" element={
+          <LoginForm 
+            onToggleMode={() => setIsRegister(!isRegister)} 
+            isRegister={isRegister} 
+          />
+        } />
+      </Routes>
     );
   }
 
   return (
-    <Layout>
-      <Routes>
-        <Route path="/" element={<Navigate to="/browse" replace />} />
-        <Route path="/browse" element={<BrowseSkills />} />
-        <Route path="/profile" element={<Profile />} />
-        <Route path="/swaps" element={<SwapRequests />} />
-        <Route path="*" element={<Navigate to="/browse" replace />} />
-      </Routes>
-    </Layout>
+    <Routes>
+      <Route path="/verify-email" element={<VerifyEmail />} />
+      <Route path="*" element={
+        <Layout>
+          <Routes>
+            <Route path="/" element={<Navigate to="/browse" replace />} />
+            <Route path="/browse" element={<BrowseSkills />} />
+            <Route path="/profile" element={<Profile />} />
+            <Route path="/swaps" element={<SwapRequests />} />
+            <Route path="/credits" element={<Credits />} />
+            <Route path="*" element={<Navigate to="/browse" replace />} />
+          </Routes>
+        </Layout>
+      } />
+    </Routes>
   );
 };
 
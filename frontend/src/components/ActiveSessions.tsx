@@ -0,0 +1,94 @@
+import React, { useState, useEffect } from 'react';
+import { Monitor } from 'lucide-react';
+import apiService, { ApiAuthSession } from '../services/api';
+import { useAuth } from '../contexts/AuthContext';
+
+// Short "Browser on OS" label from a user agent string
+const describeDevice = (userAgent: string): string => {
+  if (!userAgent) return 'Unknown device';
+
+  const browser = /Edg\//.test(userAgent) ? 'Edge'
+    : /Firefox\//.test(userAgent) ? 'Firefox'
+    : /Chrome\//.test(userAgent) ? 'Chrome'
+    : /Safari\//.test(userAgent) ? 'Safari'
+    : 'Browser';
+  const os = /Windows/.test(userAgent) ? 'Windows'
+    : /Android/.test(userAgent) ? 'Android'
+    : /iPhone|iPad/.test(userAgent) ? 'iOS'
+    : /Mac OS X/.test(userAgent) ? 'macOS'
+    : /Linux/.test(userAgent) ? 'Linux'
+    : null;
+
+  return os ? `${browser} on ${os}` : browser;
+};
+
+// Devices the user is logged in on, each of which can be logged out remotely
+const ActiveSessions: React.FC = () => {
+  const { logout } = useAuth();
+  const [sessions, setSessions] = useState<ApiAuthSession[]>([]);
+  const [endingId, setEndingId] = useState<string | null>(null);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    apiService.getAuthSessions()
+      .then((response) => setSessions(response.data.sessions))
+      .catch((err) => {
+        console.error('Error loading sessions:', err);
+        setError('Could not load your sessions.');
+      });
+  }, []);
+
+  const endSession = async (session: ApiAuthSession) => {
+    try {
+      setError('');
+      setEndingId(session.id);
+      await apiService.deleteAuthSession(session.id);
+      if (session.isCurrent) {
+        logout();
+        return;
+      }
+      setSessions(prev => prev.filter(s => s.id !== session.id));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Something went wrong. Please try again.');
+    } finally {
+      setEndingId(null);
+    }
+  };
+
+  return (
+    <div className="border-2 border-white rounded-3xl p-12 mt-12">
+      <h2 className="text-2xl font-light mb-6 flex items-center space-x-3">
+        <Monitor className="w-6 h-6" />
+        <span>Where you're logged in</span>
+      </h2>
+
+      {error && <div className="text-red-400 mb-6">{error}</div>}
+
+      <div className="space-y-4">
+        {sessions.map((session) => (
+          <div key={session.id} className="flex flex-wrap items-center justify-between gap-4 border border-gray-600 rounded-lg px-6 py-4">
+            <div>
+              <div className="text-lg">
+                {describeDevice(session.userAgent)}
+                {session.isCurrent && <span className="text-green-400 text-sm ml-3">This device</span>}
+              </div>
+              <div className="text-sm text-gray-400">
+                {session.ip && `${session.ip} · `}
+                Last active {new Date(session.lastUsedAt).toLocaleString()}
+              </div>
+            </div>
+            <button
+              onClick={() => endSession(session)}
+              disabled={endingId === session.id}
+              className="border-2 border-white rounded-full px-6 py-2 hover:bg-white hover:text-black transition-colors disabled:opacity-50"
+            >
+              Log out
+            </button>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default ActiveSessions;
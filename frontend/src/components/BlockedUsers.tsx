@@ -0,0 +1,77 @@
+import React, { useState, useEffect } from 'react';
+import { Ban } from 'lucide-react';
+import apiService, { ApiUserSummary } from '../services/api';
+import { useData } from '../contexts/DataContext';
+
+// Users the current user has blocked, each of which can be unblocked
+const BlockedUsers: React.FC = () => {
+  const { unblockUser } = useData();
+  const [blockedUsers, setBlockedUsers] = useState<ApiUserSummary[]>([]);
+  const [unblockingId, setUnblockingId] = useState<string | null>(null);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    apiService.getBlockedUsers()
+      .then((response) => setBlockedUsers(response.data.users))
+      .catch((err) => {
+        console.error('Error loading blocked users:', err);
+        setError('Could not load blocked users.');
+      });
+  }, []);
+
+  const handleUnblock = async (id: string) => {
+    try {
+      setError('');
+      setUnblockingId(id);
+      await unblockUser(id);
+      setBlockedUsers(prev => prev.filter(u => u._id !== id));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Something went wrong. Please try again.');
+    } finally {
+      setUnblockingId(null);
+    }
+  };
+
+  return (
+    <div className="border-2 border-white rounded-3xl p-12 mt-12">
+      <h2 className="text-2xl font-light mb-6 flex items-center space-x-3">
+        <Ban className="w-6 h-6" />
+        <span>Blocked users</span>
+      </h2>
+
+      {error && <div className="text-red-400 mb-6">{error}</div>}
+
+      {blockedUsers.length === 0 && !error ? (
+        <div className="text-gray-400">
+          You haven't blocked anyone. Blocked users can't see your profile, send you swap requests or message you.
+        </div>
+      ) : (
+        <div className="space-y-4">
+          {blockedUsers.map((blockedUser) => (
+            <div key={blockedUser._id} className="flex items-center justify-between gap-4 border border-gray-600 rounded-lg px-6 py-4">
+              <div className="flex items-center space-x-4">
+                {blockedUser.photo ? (
+                  <img src={blockedUser.photo} alt={blockedUser.name} className="w-10 h-10 rounded-full object-cover" />
+                ) : (
+                  <div className="w-10 h-10 rounded-full border border-white flex items-center justify-center">
+                    {blockedUser.name.charAt(0)}
+                  </div>
+                )}
+                <span className="text-lg">{blockedUser.name}</span>
+              </div>
+              <button
+                onClick={() => handleUnblock(blockedUser._id)}
+                disabled={unblockingId === blockedUser._id}
+                className="border-2 border-white rounded-full px-6 py-2 hover:bg-white hover:text-black transition-colors disabled:opacity-50"
+              >
+                Unblock
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default BlockedUsers;
@@ -0,0 +1,131 @@
+import React, { useState, useEffect } from 'react';
+import { AlertCircle } from 'lucide-react';
+import apiService, { ApiDisputedSwap } from '../services/api';
+import { DisputeResolution } from '../types';
+import { formatCredits } from '../utils/credits';
+
+// Admin queue of disputed swap completions, oldest first
+const DisputeQueue: React.FC = () => {
+  const [disputes, setDisputes] = useState<ApiDisputedSwap[]>([]);
+  const [notes, setNotes] = useState<Record<string, string>>({});
+  const [processingId, setProcessingId] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    apiService.getDisputes()
+      .then((response) => {
+        setDisputes(response.data.disputes);
+      })
+      .catch((err) => {
+        console.error('Error loading disputes:', err);
+        setError('Could not load disputes.');
+      })
+      .finally(() => {
+        setIsLoading(false);
+      });
+  }, []);
+
+  const handleResolve = async (id: string, resolution: DisputeResolution) => {
+    try {
+      setError('');
+      setProcessingId(id);
+      await apiService.resolveDispute(id, resolution, notes[id]?.trim() || undefined);
+      setDisputes(prev => prev.filter(dispute => dispute._id !== id));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Something went wrong. Please try again.');
+    } finally {
+      setProcessingId(null);
+    }
+  };
+
+  if (isLoading) {
+    return <div className="text-gray-500">Loading disputes...</div>;
+  }
+
+  return (
+    <div className="space-y-4">
+      {error && <div className="text-red-600">{error}</div>}
+
+      {disputes.length === 0 ? (
+        <div className="text-gray-500">No open disputes</div>
+      ) : (
+        disputes.map((dispute) => {
+          const isProcessing = processingId === dispute._id;
+          return (
+            <div key={dispute._id} className="border border-gray-200 rounded-lg p-4">
+              <div className="flex items-center justify-between mb-3">
+                <div className="flex items-center space-x-3">
+                  <span className="font-medium">{dispute.fromUserId.name}</span>
+                  <span className="text-gray-500">↔</span>
+                  <span className="font-medium">{dispute.toUserId.name}</span>
+                </div>
+                <span className="flex items-center space-x-1 px-2 py-1 rounded-full text-xs font-medium text-orange-600 bg-orange-100">
+                  <AlertCircle className="w-3 h-3" />
+                  <span>disputed</span>
+                </span>
+              </div>
+
+              <div className="text-sm text-gray-600 mb-2">
+                {dispute.paymentType === 'credits' ? (
+                  <span><span className="font-medium">{dispute.skillWanted}</span> for {formatCredits(dispute.hours)}</span>
+                ) : (
+                  <span><span className="font-medium">{dispute.skillOffered}</span> ↔ <span className="font-medium">{dispute.skillWanted}</span></span>
+                )}
+              </div>
+
+              <div className="text-sm text-gray-600 space-y-1 mb-4">
+                <div>
+                  Marked completed by <span className="font-medium">{dispute.completion.requestedBy?.name ?? 'unknown'}</span>
+                  {dispute.completion.requestedAt && ` on ${new Date(dispute.completion.requestedAt).toLocaleDateString()}`}
+                </div>
+                <div>
+                  Disputed by <span className="font-medium">{dispute.dispute.raisedBy?.name ?? 'unknown'}</span>
+                  {dispute.dispute.raisedAt && ` on ${new Date(dispute.dispute.raisedAt).toLocaleDateString()}`}
+                </div>
+                {dispute.dispute.reason && (
+                  <div className="italic">"{dispute.dispute.reason}"</div>
+                )}
+              </div>
+
+              <textarea
+                value={notes[dispute._id] ?? ''}
+                onChange={(e) => setNotes(prev => ({ ...prev, [dispute._id]: e.target.value }))}
+                rows={2}
+                maxLength={500}
+                placeholder="Note for both participants (optional)"
+                className="w-full border border-gray-300 rounded-lg px-3 py-2 mb-3 text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              />
+
+              <div className="flex space-x-3">
+                <button
+                  onClick={() => handleResolve(dispute._id, 'completed')}
+                  disabled={isProcessing}
+                  className="bg-blue-600 text-white px-4 py-2 rounded-lg text-sm hover:bg-blue-700 transition-colors disabled:opacity-50"
+                >
+                  Complete Swap
+                </button>
+                <button
+                  onClick={() => handleResolve(dispute._id, 'reopened')}
+                  disabled={isProcessing}
+                  className="border border-gray-300 text-gray-700 px-4 py-2 rounded-lg text-sm hover:bg-gray-50 transition-colors disabled:opacity-50"
+                >
+                  Reopen Swap
+                </button>
+                <button
+                  onClick={() => handleResolve(dispute._id, 'cancelled')}
+                  disabled={isProcessing}
+                  className="border border-red-300 text-red-600 px-4 py-2 rounded-lg text-sm hover:bg-red-50 transition-colors disabled:opacity-50"
+                >
+                  {dispute.paymentType === 'credits' ? 'Cancel & Refund' : 'Cancel Swap'}
+                </button>
+              </div>
+            </div>
+          );
+        })
+      )}
+    </div>
+  );
+};
+
+export default DisputeQueue;
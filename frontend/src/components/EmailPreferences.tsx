@@ -0,0 +1,131 @@
+import React, { useState, useEffect } from 'react';
+import { Mail } from 'lucide-react';
+import apiService from '../services/api';
+import { EmailFrequency, EmailPreferences as EmailPreferencesData, NotificationType } from '../types';
+
+const TYPE_LABELS: Record<NotificationType, string> = {
+  swap_request: 'New swap requests',
+  swap_accepted: 'Accepted requests',
+  swap_rejected: 'Rejected requests',
+  swap_countered: 'Counter-offers',
+  swap_completed: 'Completed swaps',
+  swap_completion_requested: 'Completions to confirm',
+  swap_disputed: 'Disputed completions',
+  swap_dispute_resolved: 'Resolved disputes',
+  swap_expiring: 'Requests about to expire',
+  swap_expired: 'Expired requests',
+  swap_idle: 'Reminders about quiet swaps',
+  admin_message: 'Announcements',
+  feedback_received: 'New feedback',
+  session_proposed: 'Proposed sessions',
+  session_confirmed: 'Confirmed sessions',
+  session_declined: 'Declined sessions',
+  session_cancelled: 'Cancelled sessions',
+  group_swap_proposed: 'Group swap invitations',
+  group_swap_active: 'Group swaps starting',
+  group_swap_declined: 'Declined group swaps',
+  group_swap_cancelled: 'Cancelled group swaps'
+};
+
+// Which notifications are emailed, and whether instantly or as a daily digest
+const EmailPreferences: React.FC = () => {
+  const [preferences, setPreferences] = useState<EmailPreferencesData | null>(null);
+  const [types, setTypes] = useState<NotificationType[]>([]);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    apiService.getEmailPreferences()
+      .then((response) => {
+        setPreferences(response.data.emailPreferences);
+        setTypes(response.data.types);
+      })
+      .catch((err) => {
+        console.error('Error loading email preferences:', err);
+        setError('Could not load your email preferences.');
+      });
+  }, []);
+
+  const save = async (update: Partial<EmailPreferencesData>) => {
+    if (!preferences) return;
+
+    const previous = preferences;
+    setPreferences({ ...preferences, ...update });
+    try {
+      setError('');
+      setIsSaving(true);
+      const response = await apiService.updateEmailPreferences(update);
+      setPreferences(response.data.emailPreferences);
+    } catch (err) {
+      setPreferences(previous);
+      setError(err instanceof Error ? err.message : 'Something went wrong. Please try again.');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const toggleType = (type: NotificationType) => {
+    if (!preferences) return;
+
+    const disabledTypes = preferences.disabledTypes.includes(type)
+      ? preferences.disabledTypes.filter(t => t !== type)
+      : [...preferences.disabledTypes, type];
+    save({ disabledTypes });
+  };
+
+  const allDisabled = preferences !== null && types.every(type => preferences.disabledTypes.includes(type));
+
+  return (
+    <div className="border-2 border-white rounded-3xl p-12 mt-12">
+      <h2 className="text-2xl font-light mb-6 flex items-center space-x-3">
+        <Mail className="w-6 h-6" />
+        <span>Email notifications</span>
+      </h2>
+
+      {error && <div className="text-red-400 mb-6">{error}</div>}
+
+      {preferences && (
+        <>
+          <div className="flex flex-wrap items-center gap-6 mb-8">
+            <label className="flex items-center space-x-3">
+              <span>Send emails</span>
+              <select
+                value={preferences.frequency}
+                onChange={(e) => save({ frequency: e.target.value as EmailFrequency })}
+                disabled={isSaving}
+                className="bg-transparent border-2 border-white rounded-lg px-4 py-2 focus:outline-none focus:border-blue-400"
+              >
+                <option value="instant" className="bg-black">As they happen</option>
+                <option value="daily" className="bg-black">In a daily digest</option>
+              </select>
+            </label>
+            <button
+              onClick={() => save({ disabledTypes: allDisabled ? [] : types })}
+              disabled={isSaving}
+              className="text-blue-400 hover:text-blue-300 disabled:opacity-50"
+            >
+              {allDisabled ? 'Turn all emails on' : 'Turn all emails off'}
+            </button>
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+            {types.map((type) => (
+              <label key={type} className="flex items-center space-x-3">
+                <input
+                  type="checkbox"
+                  checked={!preferences.disabledTypes.includes(type)}
+                  onChange={() => toggleType(type)}
+                  disabled={isSaving}
+                  className="w-4 h-4"
+                />
+                <span>{TYPE_LABELS[type] ?? type}</span>
+              </label>
+            ))}
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default EmailPreferences;
@@ -0,0 +1,75 @@
+import React, { useState } from 'react';
+import { Link } from 'react-router-dom';
+import apiService from '../services/api';
+
+const ForgotPasswordForm: React.FC = () => {
+  const [email, setEmail] = useState('');
+  const [message, setMessage] = useState('');
+  const [error, setError] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError('');
+
+    try {
+      setIsSubmitting(true);
+      const response = await apiService.forgotPassword(email);
+      setMessage(response.message);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Something went wrong. Please try again.');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-black text-white flex items-center justify-center p-4">
+      <div className="w-full max-w-2xl border-2 border-white rounded-3xl p-12">
+        <div className="flex justify-between items-center mb-16">
+          <h1 className="text-2xl font-light">Reset your password</h1>
+          <Link
+            to="/"
+            className="border-2 border-white rounded-full px-8 py-3 text-lg font-light hover:bg-white hover:text-black transition-colors"
+          >
+            Login
+          </Link>
+        </div>
+
+        {message ? (
+          <p className="text-lg text-gray-300 text-center">{message}</p>
+        ) : (
+          <form onSubmit={handleSubmit} className="space-y-12">
+            <div>
+              <label className="block text-xl font-light mb-4">Email</label>
+              <input
+                type="email"
+                required
+                value={email}
+                onChange={(e) => setEmail(e.target.value)}
+                className="w-full bg-transparent border-2 border-white rounded-lg px-6 py-4 text-lg focus:outline-none focus:border-blue-400"
+                placeholder="Enter the email you registered with"
+              />
+            </div>
+
+            {error && (
+              <div className="text-red-400 text-center">{error}</div>
+            )}
+
+            <div className="text-center">
+              <button
+                type="submit"
+                disabled={isSubmitting}
+                className="border-2 border-white rounded-full px-12 py-4 text-lg font-light hover:bg-white hover:text-black transition-colors disabled:opacity-50"
+              >
+                {isSubmitting ? 'Please wait...' : 'Send reset link'}
+              </button>
+            </div>
+          </form>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default ForgotPasswordForm;
@@ -0,0 +1,213 @@
+import React, { useState, useEffect } from 'react';
+import { ArrowRight, Users } from 'lucide-react';
+import { useAuth } from '../contexts/AuthContext';
+import apiService, { ApiGroupSwap, ApiRingMember } from '../services/api';
+import realtimeService from '../services/realtime';
+import { GroupSwap } from '../types';
+
+const mapGroupSwap = (groupSwap: ApiGroupSwap): GroupSwap => ({
+  id: groupSwap._id,
+  participants: groupSwap.participants.map(participant => ({
+    userId: participant.userId._id,
+    name: participant.userId.name,
+    photo: participant.userId.photo ?? undefined,
+    skillTaught: participant.skillTaught,
+    response: participant.response
+  })),
+  proposedBy: groupSwap.proposedBy,
+  status: groupSwap.status,
+  createdAt: new Date(groupSwap.createdAt)
+});
+
+// Replace or add a group swap, newest first
+const upsertGroupSwap = (groupSwaps: GroupSwap[], groupSwap: GroupSwap) =>
+  [groupSwap, ...groupSwaps.filter(g => g.id !== groupSwap.id)]
+    .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+
+const ringKey = (ring: ApiRingMember[]) => ring.map(member => member.userId).join('>');
+
+const getStatusColor = (status: GroupSwap['status']) => {
+  switch (status) {
+    case 'proposed': return 'text-yellow-400';
+    case 'active': return 'text-green-400';
+    case 'declined': return 'text-red-400';
+    case 'cancelled': return 'text-gray-400';
+    default: return 'text-white';
+  }
+};
+
+const getResponseLabel = (response: GroupSwap['participants'][number]['response']) => {
+  switch (response) {
+    case 'accepted': return '✓';
+    case 'declined': return '✗';
+    default: return '…';
+  }
+};
+
+// Review suggested skill swap rings and respond to group swap invitations
+const GroupSwaps: React.FC = () => {
+  const { user } = useAuth();
+  const [rings, setRings] = useState<ApiRingMember[][]>([]);
+  const [groupSwaps, setGroupSwaps] = useState<GroupSwap[]>([]);
+  const [processingId, setProcessingId] = useState<string | null>(null);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    apiService.getGroupSwaps()
+      .then((response) => {
+        setGroupSwaps(response.data.groupSwaps.map(mapGroupSwap));
+      })
+      .catch((err) => {
+        console.error('Error loading group swaps:', err);
+      });
+
+    apiService.getGroupSwapSuggestions()
+      .then((response) => {
+        setRings(response.data.rings);
+      })
+      .catch((err) => {
+        console.error('Error loading group swap suggestions:', err);
+      });
+
+    return realtimeService.onGroupSwapUpdated((data) => {
+      setGroupSwaps(prev => upsertGroupSwap(prev, mapGroupSwap(data.groupSwap)));
+    });
+  }, []);
+
+  if (!user) return null;
+
+  const runAction = async (id: string, action: () => Promise<{ data: { groupSwap: ApiGroupSwap } }>) => {
+    try {
+      setError('');
+      setProcessingId(id);
+      const response = await action();
+      setGroupSwaps(prev => upsertGroupSwap(prev, mapGroupSwap(response.data.groupSwap)));
+      return true;
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Something went wrong. Please try again.');
+      return false;
+    } finally {
+      setProcessingId(null);
+    }
+  };
+
+  const handlePropose = async (ring: ApiRingMember[]) => {
+    const key = ringKey(ring);
+    const proposed = await runAction(key, () => apiService.proposeGroupSwap(ring.map(member => member.userId)));
+    if (proposed) {
+      setRings(prev => prev.filter(r => ringKey(r) !== key));
+    }
+  };
+
+  if (rings.length === 0 && groupSwaps.length === 0) return null;
+
+  return (
+    <div className="mb-12">
+      <h2 className="text-2xl font-light mb-6 flex items-center space-x-2">
+        <Users className="w-6 h-6 text-teal-400" />
+        <span>Group Swaps</span>
+      </h2>
+
+      {error && <div className="text-red-400 mb-4">{error}</div>}
+
+      <div className="space-y-6">
+        {groupSwaps.map((groupSwap) => {
+          const me = groupSwap.participants.find(p => p.userId === user.id);
+          const isProcessing = processingId === groupSwap.id;
+          const canRespond = groupSwap.status === 'proposed' && me?.response === 'pending';
+          const canCancel = groupSwap.status === 'proposed' && groupSwap.proposedBy === user.id;
+
+          return (
+            <div key={groupSwap.id} className="border-2 border-white rounded-3xl p-6">
+              <div className="flex items-center justify-between mb-4">
+                <span className={`text-sm font-medium ${getStatusColor(groupSwap.status)}`}>
+                  {groupSwap.status.toUpperCase()}
+                </span>
+                <span className="text-sm text-gray-400">{groupSwap.createdAt.toLocaleDateString()}</span>
+              </div>
+
+              <ul className="space-y-2 mb-4">
+                {groupSwap.participants.map((participant, index) => {
+                  const learner = groupSwap.participants[(index + 1) % groupSwap.participants.length];
+                  return (
+                    <li key={participant.userId} className="flex items-center space-x-2">
+                      <span className="w-4 text-gray-400">{getResponseLabel(participant.response)}</span>
+                      <span>{participant.userId === user.id ? 'You' : participant.name}</span>
+                      <span className="text-gray-400">teach{participant.userId === user.id ? '' : 'es'}</span>
+                      <span className="text-teal-400">{participant.skillTaught}</span>
+                      <span className="text-gray-400">to</span>
+                      <span>{learner.userId === user.id ? 'you' : learner.name}</span>
+                    </li>
+                  );
+                })}
+              </ul>
+
+              {(canRespond || canCancel) && (
+                <div className="flex space-x-4">
+                  {canRespond && (
+                    <>
+                      <button
+                        onClick={() => runAction(groupSwap.id, () => apiService.acceptGroupSwap(groupSwap.id))}
+                        disabled={isProcessing}
+                        className="bg-green-600 text-white px-6 py-2 rounded-lg hover:bg-green-700 transition-colors disabled:opacity-50"
+                      >
+                        Join
+                      </button>
+                      <button
+                        onClick={() => runAction(groupSwap.id, () => apiService.declineGroupSwap(groupSwap.id))}
+                        disabled={isProcessing}
+                        className="bg-red-600 text-white px-6 py-2 rounded-lg hover:bg-red-700 transition-colors disabled:opacity-50"
+                      >
+                        Decline
+                      </button>
+                    </>
+                  )}
+                  {canCancel && (
+                    <button
+                      onClick={() => runAction(groupSwap.id, () => apiService.cancelGroupSwap(groupSwap.id))}
+                      disabled={isProcessing}
+                      className="text-gray-400 hover:text-gray-300 disabled:opacity-50"
+                    >
+                      Cancel
+                    </button>
+                  )}
+                </div>
+              )}
+            </div>
+          );
+        })}
+
+        {rings.map((ring) => {
+          const key = ringKey(ring);
+          return (
+            <div key={key} className="border-2 border-dashed border-gray-500 rounded-3xl p-6">
+              <div className="text-sm text-gray-400 mb-4">Suggested ring of {ring.length}</div>
+              <div className="flex flex-wrap items-center gap-2 mb-4">
+                {ring.map((member) => (
+                  <React.Fragment key={member.userId}>
+                    <span>{member.userId === user.id ? 'You' : member.user.name}</span>
+                    <span className="flex items-center text-teal-400 text-sm">
+                      <ArrowRight className="w-4 h-4 mx-1" />
+                      {member.skillName}
+                      <ArrowRight className="w-4 h-4 mx-1" />
+                    </span>
+                  </React.Fragment>
+                ))}
+                <span>You</span>
+              </div>
+              <button
+                onClick={() => handlePropose(ring)}
+                disabled={processingId === key}
+                className="bg-teal-600 text-white px-6 py-2 rounded-lg hover:bg-teal-700 transition-colors disabled:opacity-50"
+              >
+                Propose
+              </button>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
+
+export default GroupSwaps;
@@ -1,6 +1,7 @@
 import React from 'react';
 import { Link, useNavigate, useLocation } from 'react-router-dom';
 import { useAuth } from '../contexts/AuthContext';
+import NotificationBell from './NotificationBell';
 
 const Header: React.FC = () => {
   const { user, logout } = useAuth();
@@ -52,6 +53,17 @@ const Header: React.FC = () => {
               </Link>
             )}
 
+            {location.pathname !== '/credits' && (
+              <Link
+                to="/credits"
+                className="border-2 border-white rounded-full px-6 py-2 hover:bg-white hover:text-black transition-colors"
+              >
+                ByteBucks
+              </Link>
+            )}
+
+            <NotificationBell />
+
             {/* Profile Photo */}
             <div className="w-12 h-12 border-2 border-white rounded-lg overflow-hidden">
               {user.photo ? (
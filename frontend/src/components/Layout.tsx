@@ -1,14 +1,54 @@
-import React from 'react';
+import React, { useState } from 'react';
 import Header from './Header';
+import { useAuth } from '../contexts/AuthContext';
+import apiService from '../services/api';
 
 interface LayoutProps {
   children: React.ReactNode;
 }
 
+// Reminds unverified users to confirm their email, with a way to resend the link
+const VerificationBanner: React.FC = () => {
+  const [notice, setNotice] = useState('');
+  const [isSending, setIsSending] = useState(false);
+
+  const resend = async () => {
+    try {
+      setIsSending(true);
+      const response = await apiService.resendVerification();
+      setNotice(response.message);
+    } catch (err) {
+      setNotice(err instanceof Error ? err.message : 'Something went wrong. Please try again.');
+    } finally {
+      setIsSending(false);
+    }
+  };
+
+  return (
+    <div className="border-b-2 border-yellow-400 text-yellow-300 px-8 py-4 flex flex-wrap items-center justify-center gap-4">
+      <span>Verify your email address to request swaps and chat. Check your inbox for the link.</span>
+      {notice ? (
+        <span className="text-gray-300">{notice}</span>
+      ) : (
+        <button
+          onClick={resend}
+          disabled={isSending}
+          className="text-blue-400 hover:text-blue-300 disabled:opacity-50"
+        >
+          {isSending ? 'Sending...' : 'Resend email'}
+        </button>
+      )}
+    </div>
+  );
+};
+
 const Layout: React.FC<LayoutProps> = ({ children }) => {
+  const { user } = useAuth();
+
   return (
     <div className="min-h-screen bg-black text-white">
       <Header />
+      {user && user.emailVerified === false && <VerificationBanner />}
       <main>
         {children}
       </main>
@@ -16,4 +56,4 @@ const Layout: React.FC<LayoutProps> = ({ children }) => {
   );
 };
 
-export default Layout;
\ No newline at end of file
+export default Layout;
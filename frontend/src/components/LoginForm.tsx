@@ -1,5 +1,7 @@
 import React, { useState } from 'react';
+import { Link } from 'react-router-dom';
 import { useAuth } from '../contexts/AuthContext';
+import { getBrowserTimeZone } from '../utils/availability';
 
 interface LoginFormProps {
   onToggleMode: () => void;
@@ -7,7 +9,7 @@ interface LoginFormProps {
 }
 
 const LoginForm: React.FC<LoginFormProps> = ({ onToggleMode, isRegister }) => {
-  const { login, register, isLoading } = useAuth();
+  const { login, accountBan, register, isLoading } = useAuth();
   const [formData, setFormData] = useState({
     email: '',
     password: '',
@@ -36,7 +38,7 @@ const LoginForm: React.FC<LoginFormProps> = ({ onToggleMode, isRegister }) => {
         name: formData.name,
         skillsOffered: [],
         skillsWanted: [],
-        availability: 'flexible',
+        availability: { timezone: getBrowserTimeZone(), slots: [] },
         isPublic: true
       });
       
@@ -141,7 +143,16 @@ const LoginForm: React.FC<LoginFormProps> = ({ onToggleMode, isRegister }) => {
             </div>
           )}
 
-          {error && (
+          {!isRegister && accountBan ? (
+            <div className="text-red-400 text-center space-y-2">
+              <div>
+                Your account has been banned
+                {accountBan.bannedBy && ` by ${accountBan.bannedBy}`}
+                {accountBan.bannedAt && ` on ${accountBan.bannedAt.toLocaleDateString()}`}.
+              </div>
+              {accountBan.reason && <div>Reason: {accountBan.reason}</div>}
+            </div>
+          ) : error && (
             <div className="text-red-400 text-center">{error}</div>
           )}
 
@@ -156,9 +167,9 @@ const LoginForm: React.FC<LoginFormProps> = ({ onToggleMode, isRegister }) => {
 
             {!isRegister && (
               <div>
-                <button type="button" className="text-blue-400 hover:underline">
-                  Forgot username/password
-                </button>
+                <Link to="/forgot-password" className="text-blue-400 hover:underline">
+                  Forgot password?
+                </Link>
               </div>
             )}
           </div>
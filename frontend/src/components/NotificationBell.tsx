@@ -0,0 +1,158 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { Bell, Check, Trash2 } from 'lucide-react';
+import { useData } from '../contexts/DataContext';
+import { Notification } from '../types';
+
+const NotificationBell: React.FC = () => {
+  const {
+    notifications,
+    unreadNotificationCount,
+    hasMoreNotifications,
+    loadMoreNotifications,
+    markNotificationAsRead,
+    markAllNotificationsAsRead,
+    deleteNotification
+  } = useData();
+  const navigate = useNavigate();
+  const [isOpen, setIsOpen] = useState(false);
+  const containerRef = useRef<HTMLDivElement>(null);
+
+  // Close the inbox when clicking anywhere outside of it
+  useEffect(() => {
+    if (!isOpen) return;
+
+    const handleClickOutside = (e: MouseEvent) => {
+      if (containerRef.current && !containerRef.current.contains(e.target as Node)) {
+        setIsOpen(false);
+      }
+    };
+
+    document.addEventListener('mousedown', handleClickOutside);
+    return () => document.removeEventListener('mousedown', handleClickOutside);
+  }, [isOpen]);
+
+  const handleOpenNotification = async (notification: Notification) => {
+    try {
+      if (!notification.isRead) {
+        await markNotificationAsRead(notification.id);
+      }
+    } catch (error) {
+      console.error('Error opening notification:', error);
+    }
+
+    if (notification.relatedModel === 'SwapRequest') {
+      setIsOpen(false);
+      navigate('/swaps');
+    }
+  };
+
+  const handleDelete = async (e: React.MouseEvent, id: string) => {
+    e.stopPropagation();
+    try {
+      await deleteNotification(id);
+    } catch (error) {
+      console.error('Error deleting notification:', error);
+    }
+  };
+
+  const handleMarkAllAsRead = async () => {
+    try {
+      await markAllNotificationsAsRead();
+    } catch (error) {
+      console.error('Error marking all notifications as read:', error);
+    }
+  };
+
+  const handleLoadMore = async () => {
+    try {
+      await loadMoreNotifications();
+    } catch (error) {
+      console.error('Error loading notifications:', error);
+    }
+  };
+
+  return (
+    <div ref={containerRef} className="relative">
+      <button
+        onClick={() => setIsOpen(prev => !prev)}
+        className="relative p-2 hover:text-gray-300"
+        aria-label="Notifications"
+      >
+        <Bell className="w-6 h-6" />
+        {unreadNotificationCount > 0 && (
+          <span className="absolute -top-1 -right-1 min-w-[1.25rem] h-5 px-1 bg-red-600 rounded-full text-xs flex items-center justify-center">
+            {unreadNotificationCount > 99 ? '99+' : unreadNotificationCount}
+          </span>
+        )}
+      </button>
+
+      {isOpen && (
+        <div className="absolute right-0 mt-2 w-96 bg-black border-2 border-white rounded-2xl z-50 overflow-hidden">
+          <div className="flex items-center justify-between px-4 py-3 border-b border-gray-600">
+            <h3 className="text-lg font-light">Notifications</h3>
+            {unreadNotificationCount > 0 && (
+              <button
+                onClick={handleMarkAllAsRead}
+                className="text-sm text-blue-400 hover:text-blue-300"
+              >
+                Mark all as read
+              </button>
+            )}
+          </div>
+
+          <div className="max-h-96 overflow-y-auto">
+            {notifications.length === 0 ? (
+              <div className="px-4 py-8 text-center text-gray-400">
+                No notifications yet
+              </div>
+            ) : (
+              notifications.map((notification) => (
+                <div
+                  key={notification.id}
+                  onClick={() => handleOpenNotification(notification)}
+                  className={`flex items-start space-x-3 px-4 py-3 border-b border-gray-800 cursor-pointer hover:bg-gray-900 ${
+                    notification.isRead ? 'text-gray-400' : 'text-white'
+                  }`}
+                >
+                  <div className="pt-1">
+                    {notification.isRead ? (
+                      <Check className="w-4 h-4 text-gray-600" />
+                    ) : (
+                      <span className="block w-2 h-2 mt-1 bg-blue-400 rounded-full" />
+                    )}
+                  </div>
+                  <div className="flex-1 min-w-0">
+                    <p className="font-medium truncate">{notification.title}</p>
+                    <p className="text-sm text-gray-400">{notification.message}</p>
+                    <p className="text-xs text-gray-500 mt-1">
+                      {notification.createdAt.toLocaleString()}
+                    </p>
+                  </div>
+                  <button
+                    onClick={(e) => handleDelete(e, notification.id)}
+                    className="text-gray-500 hover:text-red-400"
+                    aria-label="Delete notification"
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </button>
+                </div>
+              ))
+            )}
+          </div>
+
+          {hasMoreNotifications && (
+            <button
+              onClick={handleLoadMore}
+              className="block w-full px-4 py-3 text-sm text-blue-400 hover:bg-gray-900"
+            >
+              Load more
+            </button>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default NotificationBell;
@@ -0,0 +1,95 @@
+import React, { useState, useEffect } from 'react';
+import { Sparkles } from 'lucide-react';
+import apiService, { ApiSkillMatch } from '../services/api';
+import { SkillMatch } from '../types';
+
+const RECOMMENDATION_COUNT = 3;
+
+const mapMatch = (match: ApiSkillMatch): SkillMatch => ({
+  user: {
+    id: match._id,
+    email: match.email,
+    name: match.name,
+    location: match.location,
+    photo: match.photo ?? undefined,
+    skillsOffered: match.skillsOffered,
+    skillsWanted: match.skillsWanted,
+    offeredSkillDetails: match.offeredSkillDetails,
+    wantedSkillDetails: match.wantedSkillDetails,
+    availability: match.availability,
+    availabilityOverlap: match.availabilityOverlap,
+    isPublic: true,
+    isAdmin: false,
+    isBanned: false,
+    joinedAt: new Date(match.createdAt),
+    rating: match.rating,
+    averageRating: match.averageRating,
+    reviewCount: match.reviewCount
+  },
+  score: match.matchScore,
+  explanation: match.matchExplanation
+});
+
+interface RecommendedMatchesProps {
+  userId: string;
+  onRequest: (match: SkillMatch) => void;
+}
+
+const RecommendedMatches: React.FC<RecommendedMatchesProps> = ({ userId, onRequest }) => {
+  const [matches, setMatches] = useState<SkillMatch[]>([]);
+
+  useEffect(() => {
+    apiService.getSkillMatches(userId, { limit: RECOMMENDATION_COUNT })
+      .then((response) => {
+        setMatches(response.data.matches.map(mapMatch));
+      })
+      .catch((error) => {
+        console.error('Error loading recommendations:', error);
+      });
+  }, [userId]);
+
+  if (matches.length === 0) return null;
+
+  return (
+    <div className="mb-12">
+      <h2 className="text-2xl font-light mb-6 flex items-center space-x-2">
+        <Sparkles className="w-6 h-6 text-teal-400" />
+        <span>Recommended for you</span>
+      </h2>
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+        {matches.map((match) => (
+          <div key={match.user.id} className="border-2 border-white rounded-3xl p-6 flex flex-col">
+            <div className="flex items-center space-x-4 mb-4">
+              <div className="w-16 h-16 border-2 border-white rounded-full overflow-hidden flex-shrink-0">
+                {match.user.photo ? (
+                  <img src={match.user.photo} alt={match.user.name} className="w-full h-full object-cover" />
+                ) : (
+                  <div className="w-full h-full bg-gray-600" />
+                )}
+              </div>
+              <div>
+                <h3 className="text-xl font-light">{match.user.name}</h3>
+                <p className="text-teal-400">{match.score}% match</p>
+              </div>
+            </div>
+
+            <ul className="text-sm text-gray-300 space-y-1 mb-6 flex-1">
+              {match.explanation.reasons.map((reason) => (
+                <li key={reason}>• {reason}</li>
+              ))}
+            </ul>
+
+            <button
+              onClick={() => onRequest(match)}
+              className="bg-teal-600 text-white px-6 py-2 rounded-lg hover:bg-teal-700 transition-colors"
+            >
+              Request
+            </button>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default RecommendedMatches;
@@ -0,0 +1,87 @@
+import React, { useState } from 'react';
+import { Flag, X } from 'lucide-react';
+import apiService from '../services/api';
+import { ReportCategory, ReportTargetType } from '../types';
+import { CATEGORY_LABELS, REPORT_CATEGORIES } from '../utils/reports';
+
+interface ReportFormProps {
+  targetType: ReportTargetType;
+  targetId: string;
+  // What's being reported, e.g. "Alice" or "this message"
+  targetLabel: string;
+  onClose: () => void;
+}
+
+// Report a user, swap, review or message to the admins
+const ReportForm: React.FC<ReportFormProps> = ({ targetType, targetId, targetLabel, onClose }) => {
+  const [category, setCategory] = useState<ReportCategory>('spam');
+  const [evidence, setEvidence] = useState('');
+  const [isSending, setIsSending] = useState(false);
+  const [isSent, setIsSent] = useState(false);
+  const [error, setError] = useState('');
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    try {
+      setError('');
+      setIsSending(true);
+      await apiService.createReport({ targetType, targetId, category, evidence: evidence.trim() });
+      setIsSent(true);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Something went wrong. Please try again.');
+    } finally {
+      setIsSending(false);
+    }
+  };
+
+  return (
+    <div className="border-t border-gray-600 mt-6 pt-6">
+      <div className="flex items-center justify-between mb-4">
+        <h4 className="text-xl font-light flex items-center space-x-2">
+          <Flag className="w-5 h-5" />
+          <span>Report {targetLabel}</span>
+        </h4>
+        <button onClick={onClose} className="text-gray-400 hover:text-white" aria-label="Close report">
+          <X className="w-5 h-5" />
+        </button>
+      </div>
+
+      {error && <div className="text-red-400 mb-4">{error}</div>}
+
+      {isSent ? (
+        <div className="text-gray-400">Thanks for letting us know. An admin will look at your report.</div>
+      ) : (
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <select
+            value={category}
+            onChange={(e) => setCategory(e.target.value as ReportCategory)}
+            className="bg-transparent border-2 border-white rounded-lg px-4 py-2 focus:outline-none focus:border-blue-400"
+          >
+            {REPORT_CATEGORIES.map((key) => (
+              <option key={key} value={key} className="bg-black">{CATEGORY_LABELS[key]}</option>
+            ))}
+          </select>
+          <textarea
+            value={evidence}
+            onChange={(e) => setEvidence(e.target.value)}
+            rows={3}
+            maxLength={2000}
+            required
+            placeholder="What happened? Include anything that helps an admin check it."
+            className="w-full bg-transparent border-2 border-white rounded-lg px-4 py-2 resize-none focus:outline-none focus:border-blue-400"
+          />
+          <button
+            type="submit"
+            disabled={isSending || !evidence.trim()}
+            className="bg-red-600 text-white px-6 py-2 rounded-lg hover:bg-red-700 transition-colors disabled:opacity-50"
+          >
+            Send Report
+          </button>
+        </form>
+      )}
+    </div>
+  );
+};
+
+export default ReportForm;
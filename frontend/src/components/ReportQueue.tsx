@@ -0,0 +1,281 @@
+import React, { useState, useEffect } from 'react';
+import { Ban, EyeOff, Flag } from 'lucide-react';
+import apiService, { ApiAdminReport } from '../services/api';
+import { useAuth } from '../contexts/AuthContext';
+import { ReportAction, ReportStatus } from '../types';
+import { CATEGORY_LABELS, REPORT_STATUS_LABELS, TARGET_LABELS } from '../utils/reports';
+import { formatRating } from '../utils/reviews';
+
+type ReportFilter = 'active' | ReportStatus | 'all';
+
+const FILTER_LABELS: Record<ReportFilter, string> = {
+  active: 'Needs attention',
+  open: 'Open',
+  in_review: 'In review',
+  resolved: 'Resolved',
+  dismissed: 'Dismissed',
+  all: 'All'
+};
+
+const STATUS_STYLES: Record<ReportStatus, string> = {
+  open: 'text-red-600 bg-red-100',
+  in_review: 'text-yellow-600 bg-yellow-100',
+  resolved: 'text-green-600 bg-green-100',
+  dismissed: 'text-gray-600 bg-gray-100'
+};
+
+const ACTION_LABELS: Record<ReportAction, string> = {
+  ban_user: 'Banned the user',
+  hide_review: 'Hid the review'
+};
+
+const isClosed = (status: ReportStatus) => status === 'resolved' || status === 'dismissed';
+
+// Whether the report still belongs in the list after a change
+const matchesFilter = (report: ApiAdminReport, filter: ReportFilter, adminId: string | null) => {
+  if (adminId && report.assignedTo?._id !== adminId) return false;
+  if (filter === 'all') return true;
+  if (filter === 'active') return !isClosed(report.status);
+  return report.status === filter;
+};
+
+// What was reported, in a line
+const describeTarget = (report: ApiAdminReport) => {
+  const target = report.targetId;
+  if (!target) return 'Deleted';
+  if (report.targetType === 'user') return target.name;
+  if (report.targetType === 'swap') return `${target.skillOffered ?? 'ByteBucks'} ↔ ${target.skillWanted} (${target.status})`;
+  if (report.targetType === 'review') return `${formatRating(target.rating ?? 0)}${target.comment ? ` "${target.comment}"` : ''}`;
+  return `"${target.body}"`;
+};
+
+// Admin queue of user reports, oldest open report first
+const ReportQueue: React.FC = () => {
+  const { user } = useAuth();
+  const [filter, setFilter] = useState<ReportFilter>('active');
+  const [mineOnly, setMineOnly] = useState(false);
+  const [reports, setReports] = useState<ApiAdminReport[]>([]);
+  const [notes, setNotes] = useState<Record<string, string>>({});
+  const [processingId, setProcessingId] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    setIsLoading(true);
+    apiService.getAdminReports({ status: filter, assignee: mineOnly ? 'me' : undefined })
+      .then((response) => {
+        setReports(response.data.reports);
+      })
+      .catch((err) => {
+        console.error('Error loading reports:', err);
+        setError('Could not load reports.');
+      })
+      .finally(() => {
+        setIsLoading(false);
+      });
+  }, [filter, mineOnly]);
+
+  const applyChange = async (id: string, request: () => Promise<{ data: { report: ApiAdminReport } }>) => {
+    try {
+      setError('');
+      setProcessingId(id);
+      const { report } = (await request()).data;
+      setReports(prev => matchesFilter(report, filter, mineOnly && user ? user.id : null)
+        ? prev.map(r => r._id === id ? report : r)
+        : prev.filter(r => r._id !== id));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Something went wrong. Please try again.');
+    } finally {
+      setProcessingId(null);
+    }
+  };
+
+  const handleAssign = (id: string, assignedTo: string | null) => {
+    applyChange(id, () => apiService.updateReport(id, { assignedTo }));
+  };
+
+  const handleStatus = (id: string, status: ReportStatus) => {
+    applyChange(id, () => apiService.updateReport(id, {
+      status,
+      resolutionNote: isClosed(status) ? notes[id]?.trim() : undefined
+    }));
+  };
+
+  const handleBan = (id: string) => {
+    // The reason is shown to the user when they try to log in
+    const reason = window.prompt('Reason for the ban (shown to the user):');
+    if (reason === null) return;
+    applyChange(id, () => apiService.takeReportAction(id, 'ban_user', reason.trim() || undefined));
+  };
+
+  const handleHideReview = (id: string) => {
+    applyChange(id, () => apiService.takeReportAction(id, 'hide_review'));
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-center gap-2">
+        {(Object.keys(FILTER_LABELS) as ReportFilter[]).map((key) => (
+          <button
+            key={key}
+            onClick={() => setFilter(key)}
+            className={`px-3 py-1 rounded-full text-sm ${
+              filter === key ? 'bg-blue-600 text-white' : 'border border-gray-300 text-gray-700 hover:bg-gray-50'
+            }`}
+          >
+            {FILTER_LABELS[key]}
+          </button>
+        ))}
+        <label className="ml-auto flex items-center space-x-2 text-sm text-gray-700">
+          <input type="checkbox" checked={mineOnly} onChange={(e) => setMineOnly(e.target.checked)} />
+          <span>Assigned to me</span>
+        </label>
+      </div>
+
+      {error && <div className="text-red-600">{error}</div>}
+
+      {isLoading ? (
+        <div className="text-gray-500">Loading reports...</div>
+      ) : reports.length === 0 ? (
+        <div className="text-gray-500">No reports</div>
+      ) : (
+        reports.map((report) => {
+          const isProcessing = processingId === report._id;
+          const reportedUser = report.reportedUserId;
+          const canHideReview = report.targetType === 'review' && report.targetId && !report.targetId.moderation?.isHidden;
+          return (
+            <div key={report._id} className="border border-gray-200 rounded-lg p-4">
+              <div className="flex items-center justify-between mb-3">
+                <div className="flex items-center space-x-3">
+                  <span className="font-medium">{report.reporterId?.name ?? 'Deleted user'}</span>
+                  <span className="text-gray-500">→</span>
+                  <span className="font-medium">{reportedUser?.name ?? 'Deleted user'}</span>
+                  {reportedUser?.isBanned && (
+                    <span className="px-2 py-1 rounded-full text-xs font-medium text-red-600 bg-red-100">banned</span>
+                  )}
+                </div>
+                <div className="flex items-center space-x-2">
+                  <span className="flex items-center space-x-1 px-2 py-1 rounded-full text-xs font-medium text-gray-700 bg-gray-100">
+                    <Flag className="w-3 h-3" />
+                    <span>{CATEGORY_LABELS[report.category]}</span>
+                  </span>
+                  <span className={`px-2 py-1 rounded-full text-xs font-medium ${STATUS_STYLES[report.status]}`}>
+                    {REPORT_STATUS_LABELS[report.status]}
+                  </span>
+                </div>
+              </div>
+
+              <div className="text-sm text-gray-600 mb-2">
+                <span className="font-medium">{TARGET_LABELS[report.targetType]}:</span> {describeTarget(report)}
+                {report.targetId?.moderation?.isHidden && <span className="ml-2">(hidden)</span>}
+              </div>
+              <div className="text-sm italic mb-2">"{report.evidence}"</div>
+              <div className="text-sm text-gray-500 mb-4">
+                Reported on {new Date(report.createdAt).toLocaleDateString()}
+                {' · '}
+                {report.assignedTo ? `Assigned to ${report.assignedTo.name}` : 'Unassigned'}
+              </div>
+
+              {report.actions.length > 0 && (
+                <ul className="text-sm text-gray-600 space-y-1 mb-4">
+                  {report.actions.map((action, index) => (
+                    <li key={index}>
+                      {ACTION_LABELS[action.action]}
+                      {` (${action.takenBy?.name ?? 'unknown'}, ${new Date(action.takenAt).toLocaleDateString()})`}
+                      {action.note && `: "${action.note}"`}
+                    </li>
+                  ))}
+                </ul>
+              )}
+
+              {isClosed(report.status) ? (
+                <div className="text-sm text-gray-600 mb-4">
+                  {REPORT_STATUS_LABELS[report.status]} by <span className="font-medium">{report.resolvedBy?.name ?? 'unknown'}</span>
+                  {report.resolvedAt && ` on ${new Date(report.resolvedAt).toLocaleDateString()}`}
+                  {report.resolutionNote && `: "${report.resolutionNote}"`}
+                </div>
+              ) : (
+                <textarea
+                  value={notes[report._id] ?? ''}
+                  onChange={(e) => setNotes(prev => ({ ...prev, [report._id]: e.target.value }))}
+                  rows={2}
+                  maxLength={1000}
+                  placeholder="Resolution note (optional, for admins only)"
+                  className="w-full border border-gray-300 rounded-lg px-3 py-2 mb-3 text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                />
+              )}
+
+              <div className="flex flex-wrap gap-3">
+                {isClosed(report.status) ? (
+                  <button
+                    onClick={() => handleStatus(report._id, 'open')}
+                    disabled={isProcessing}
+                    className="border border-gray-300 text-gray-700 px-4 py-2 rounded-lg text-sm hover:bg-gray-50 transition-colors disabled:opacity-50"
+                  >
+                    Reopen
+                  </button>
+                ) : (
+                  <>
+                    {report.assignedTo?._id === user?.id ? (
+                      <button
+                        onClick={() => handleAssign(report._id, null)}
+                        disabled={isProcessing}
+                        className="border border-gray-300 text-gray-700 px-4 py-2 rounded-lg text-sm hover:bg-gray-50 transition-colors disabled:opacity-50"
+                      >
+                        Unassign
+                      </button>
+                    ) : (
+                      <button
+                        onClick={() => user && handleAssign(report._id, user.id)}
+                        disabled={isProcessing}
+                        className="border border-gray-300 text-gray-700 px-4 py-2 rounded-lg text-sm hover:bg-gray-50 transition-colors disabled:opacity-50"
+                      >
+                        Assign to me
+                      </button>
+                    )}
+                    {reportedUser && !reportedUser.isBanned && (
+                      <button
+                        onClick={() => handleBan(report._id)}
+                        disabled={isProcessing}
+                        className="flex items-center space-x-1 bg-red-600 text-white px-4 py-2 rounded-lg text-sm hover:bg-red-700 transition-colors disabled:opacity-50"
+                      >
+                        <Ban className="w-4 h-4" />
+                        <span>Ban User</span>
+                      </button>
+                    )}
+                    {canHideReview && (
+                      <button
+                        onClick={() => handleHideReview(report._id)}
+                        disabled={isProcessing}
+                        className="flex items-center space-x-1 bg-red-600 text-white px-4 py-2 rounded-lg text-sm hover:bg-red-700 transition-colors disabled:opacity-50"
+                      >
+                        <EyeOff className="w-4 h-4" />
+                        <span>Hide Review</span>
+                      </button>
+                    )}
+                    <button
+                      onClick={() => handleStatus(report._id, 'resolved')}
+                      disabled={isProcessing}
+                      className="bg-blue-600 text-white px-4 py-2 rounded-lg text-sm hover:bg-blue-700 transition-colors disabled:opacity-50"
+                    >
+                      Resolve
+                    </button>
+                    <button
+                      onClick={() => handleStatus(report._id, 'dismissed')}
+                      disabled={isProcessing}
+                      className="border border-gray-300 text-gray-700 px-4 py-2 rounded-lg text-sm hover:bg-gray-50 transition-colors disabled:opacity-50"
+                    >
+                      Dismiss
+                    </button>
+                  </>
+                )}
+              </div>
+            </div>
+          );
+        })
+      )}
+    </div>
+  );
+};
+
+export default ReportQueue;
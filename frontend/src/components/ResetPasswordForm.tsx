@@ -0,0 +1,120 @@
+import React, { useState } from 'react';
+import { Link, useSearchParams } from 'react-router-dom';
+import apiService from '../services/api';
+
+// Reached from the link in the password reset email
+const ResetPasswordForm: React.FC = () => {
+  const [searchParams] = useSearchParams();
+  const token = searchParams.get('token') ?? '';
+  const [formData, setFormData] = useState({ password: '', confirmPassword: '' });
+  const [isDone, setIsDone] = useState(false);
+  const [error, setError] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError('');
+
+    if (formData.password !== formData.confirmPassword) {
+      setError('Passwords do not match');
+      return;
+    }
+    if (formData.password.length < 6) {
+      setError('Password must be at least 6 characters');
+      return;
+    }
+
+    try {
+      setIsSubmitting(true);
+      await apiService.resetPassword(token, formData.password);
+      setIsDone(true);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Something went wrong. Please try again.');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    setFormData(prev => ({
+      ...prev,
+      [e.target.name]: e.target.value
+    }));
+  };
+
+  return (
+    <div className="min-h-screen bg-black text-white flex items-center justify-center p-4">
+      <div className="w-full max-w-2xl border-2 border-white rounded-3xl p-12">
+        <h1 className="text-2xl font-light mb-16">Choose a new password</h1>
+
+        {isDone ? (
+          <div className="text-center space-y-8">
+            <p className="text-lg text-gray-300">Your password has been reset.</p>
+            <Link
+              to="/"
+              className="inline-block border-2 border-white rounded-full px-12 py-4 text-lg font-light hover:bg-white hover:text-black transition-colors"
+            >
+              Login
+            </Link>
+          </div>
+        ) : !token ? (
+          <div className="text-center space-y-8">
+            <p className="text-red-400">This reset link is incomplete.</p>
+            <Link to="/forgot-password" className="text-blue-400 hover:underline">
+              Request a new link
+            </Link>
+          </div>
+        ) : (
+          <form onSubmit={handleSubmit} className="space-y-12">
+            <div>
+              <label className="block text-xl font-light mb-4">New Password</label>
+              <input
+                name="password"
+                type="password"
+                required
+                value={formData.password}
+                onChange={handleChange}
+                className="w-full bg-transparent border-2 border-white rounded-lg px-6 py-4 text-lg focus:outline-none focus:border-blue-400"
+                placeholder="Enter a new password"
+              />
+            </div>
+
+            <div>
+              <label className="block text-xl font-light mb-4">Confirm Password</label>
+              <input
+                name="confirmPassword"
+                type="password"
+                required
+                value={formData.confirmPassword}
+                onChange={handleChange}
+                className="w-full bg-transparent border-2 border-white rounded-lg px-6 py-4 text-lg focus:outline-none focus:border-blue-400"
+                placeholder="Confirm your new password"
+              />
+            </div>
+
+            {error && (
+              <div className="text-center space-y-2">
+                <div className="text-red-400">{error}</div>
+                <Link to="/forgot-password" className="text-blue-400 hover:underline">
+                  Request a new link
+                </Link>
+              </div>
+            )}
+
+            <div className="text-center">
+              <button
+                type="submit"
+                disabled={isSubmitting}
+                className="border-2 border-white rounded-full px-12 py-4 text-lg font-light hover:bg-white hover:text-black transition-colors disabled:opacity-50"
+              >
+                {isSubmitting ? 'Please wait...' : 'Reset password'}
+              </button>
+            </div>
+          </form>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default ResetPasswordForm;
@@ -0,0 +1,135 @@
+import React, { useState } from 'react';
+import { Flag, MessageSquare } from 'lucide-react';
+import { useAuth } from '../contexts/AuthContext';
+import apiService from '../services/api';
+import ReportForm from './ReportForm';
+import { Review } from '../types';
+import { DIMENSION_LABELS, REVIEW_DIMENSIONS, formatRating, mapReview } from '../utils/reviews';
+
+interface ReviewCardProps {
+  review: Review;
+  onChange?: (review: Review) => void;
+}
+
+// A review with its scores and reply. The reviewed user can reply; anyone
+// but the reviewer can report it to the admins.
+const ReviewCard: React.FC<ReviewCardProps> = ({ review, onChange }) => {
+  const { user } = useAuth();
+  const [replyBody, setReplyBody] = useState<string | null>(null);
+  const [isReporting, setIsReporting] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState('');
+
+  const canReply = user?.id === review.revieweeId;
+  const canReport = Boolean(user) && user?.id !== review.reviewer.id;
+
+  const handleReply = async () => {
+    if (!replyBody?.trim()) return;
+
+    try {
+      setError('');
+      setIsSaving(true);
+      const response = await apiService.replyToReview(review.id, replyBody.trim());
+      onChange?.(mapReview(response.data.review));
+      setReplyBody(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Something went wrong. Please try again.');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="border border-gray-600 rounded-lg p-4">
+      <div className="flex items-center justify-between mb-2">
+        <span className="font-medium">{review.reviewer.name}</span>
+        <span className="text-sm text-gray-400">{review.createdAt.toLocaleDateString()}</span>
+      </div>
+
+      <div className="flex flex-wrap gap-4 text-sm mb-2">
+        <span className="font-bold">{formatRating(review.rating)}</span>
+        {REVIEW_DIMENSIONS.map((dimension) => (
+          <span key={dimension} className="text-gray-400">
+            {DIMENSION_LABELS[dimension]} {review.scores[dimension]}
+          </span>
+        ))}
+      </div>
+
+      {review.comment && <p className="text-gray-300">"{review.comment}"</p>}
+
+      {review.isHidden && (
+        <div className="text-sm text-orange-400 mt-2">Hidden by an admin and left out of ratings</div>
+      )}
+
+      {review.reply && replyBody === null && (
+        <div className="border-l-2 border-gray-600 pl-4 mt-3">
+          <div className="text-sm text-gray-400 mb-1">
+            Reply, {review.reply.repliedAt.toLocaleDateString()}
+          </div>
+          <p className="text-gray-300">{review.reply.body}</p>
+        </div>
+      )}
+
+      {error && <div className="text-red-400 text-sm mt-2">{error}</div>}
+
+      {replyBody !== null && (
+        <div className="mt-3 space-y-2">
+          <textarea
+            value={replyBody}
+            onChange={(e) => setReplyBody(e.target.value)}
+            rows={2}
+            maxLength={500}
+            placeholder="Your public reply"
+            className="w-full bg-transparent border-2 border-white rounded-lg px-4 py-2 resize-none focus:outline-none focus:border-blue-400"
+          />
+          <div className="flex space-x-3">
+            <button
+              onClick={handleReply}
+              disabled={!replyBody.trim() || isSaving}
+              className="bg-blue-600 text-white px-4 py-2 rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-50"
+            >
+              Save Reply
+            </button>
+            <button onClick={() => setReplyBody(null)} className="text-gray-400 hover:text-gray-300">
+              Cancel
+            </button>
+          </div>
+        </div>
+      )}
+
+      {isReporting && (
+        <ReportForm
+          targetType="review"
+          targetId={review.id}
+          targetLabel="this review"
+          onClose={() => setIsReporting(false)}
+        />
+      )}
+
+      {replyBody === null && !isReporting && (
+        <div className="flex space-x-4 text-sm mt-3">
+          {canReply && (
+            <button
+              onClick={() => setReplyBody(review.reply?.body ?? '')}
+              className="flex items-center space-x-1 text-blue-400 hover:text-blue-300"
+            >
+              <MessageSquare className="w-4 h-4" />
+              <span>{review.reply ? 'Edit reply' : 'Reply'}</span>
+            </button>
+          )}
+          {canReport && (
+            <button
+              onClick={() => setIsReporting(true)}
+              className="flex items-center space-x-1 text-gray-400 hover:text-red-400"
+            >
+              <Flag className="w-4 h-4" />
+              <span>Report</span>
+            </button>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ReviewCard;
@@ -0,0 +1,169 @@
+import React, { useState, useEffect } from 'react';
+import { Star, X } from 'lucide-react';
+import apiService, { ApiReviewState } from '../services/api';
+import { Review, ReviewDimension, ReviewStatus, SwapRequest, UserSummary } from '../types';
+import ReviewCard from './ReviewCard';
+import { DIMENSION_LABELS, REVIEW_DIMENSIONS, mapReview } from '../utils/reviews';
+
+interface ReviewFormProps {
+  swapRequest: SwapRequest;
+  otherUser: UserSummary;
+  onClose: () => void;
+}
+
+const SCORES = [5, 4, 3, 2, 1];
+
+const emptyScores = (): Record<ReviewDimension, number> => ({ knowledge: 5, communication: 5, punctuality: 5 });
+
+interface ReviewState {
+  myReview: Review | null;
+  partnerReview: Review | null;
+  partnerHasReviewed: boolean;
+  status: ReviewStatus;
+  reviewDeadline: Date;
+}
+
+const mapReviewState = (state: ApiReviewState): ReviewState => ({
+  myReview: state.myReview && mapReview(state.myReview),
+  partnerReview: state.partnerReview && mapReview(state.partnerReview),
+  partnerHasReviewed: state.partnerHasReviewed,
+  status: state.status,
+  reviewDeadline: new Date(state.reviewDeadline)
+});
+
+// Both sides' reviews of a completed swap, and the form for ours until it's
+// sent. Reviews are double-blind: the partner's shows once both are in or the
+// review window closes.
+const ReviewForm: React.FC<ReviewFormProps> = ({ swapRequest, otherUser, onClose }) => {
+  const [reviewState, setReviewState] = useState<ReviewState | null>(null);
+  const [scores, setScores] = useState(emptyScores);
+  const [comment, setComment] = useState('');
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    apiService.getFeedback(swapRequest.id)
+      .then((response) => {
+        setReviewState(mapReviewState(response.data));
+      })
+      .catch((err) => {
+        console.error('Error loading reviews:', err);
+        setError('Could not load reviews.');
+      })
+      .finally(() => {
+        setIsLoading(false);
+      });
+  }, [swapRequest.id]);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    try {
+      setError('');
+      setIsSaving(true);
+      const response = await apiService.submitReview(swapRequest.id, {
+        scores,
+        comment: comment.trim() || undefined
+      });
+      setReviewState(mapReviewState(response.data));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Something went wrong. Please try again.');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="border-t border-gray-600 mt-6 pt-6">
+      <div className="flex items-center justify-between mb-4">
+        <h4 className="text-xl font-light flex items-center space-x-2">
+          <Star className="w-5 h-5" />
+          <span>Feedback</span>
+        </h4>
+        <button onClick={onClose} className="text-gray-400 hover:text-white" aria-label="Close feedback">
+          <X className="w-5 h-5" />
+        </button>
+      </div>
+
+      {error && <div className="text-red-400 mb-4">{error}</div>}
+
+      {isLoading ? (
+        <div className="text-gray-400">Loading reviews...</div>
+      ) : reviewState && (
+        <div className="space-y-6">
+          {reviewState.myReview ? (
+            <div>
+              <div className="text-gray-400 mb-2">Your review of {otherUser.name}</div>
+              <ReviewCard review={reviewState.myReview} />
+              {reviewState.status === 'waiting_for_partner' && (
+                <div className="text-sm text-yellow-400 mt-2">
+                  Waiting for {otherUser.name}. Both reviews are published once they've reviewed you
+                  or on {reviewState.reviewDeadline.toLocaleDateString()}.
+                </div>
+              )}
+            </div>
+          ) : reviewState.status === 'closed' ? (
+            <div className="text-gray-400">
+              The review period for this swap ended on {reviewState.reviewDeadline.toLocaleDateString()}.
+            </div>
+          ) : (
+            <form onSubmit={handleSubmit} className="space-y-4">
+              <div className="text-gray-400">
+                How was swapping with {otherUser.name}? Reviews close on {reviewState.reviewDeadline.toLocaleDateString()}.
+              </div>
+              {reviewState.partnerHasReviewed && (
+                <div className="text-sm text-yellow-400">
+                  {otherUser.name} has reviewed you. You'll see their review once you've sent yours.
+                </div>
+              )}
+              <div className="flex flex-wrap gap-6">
+                {REVIEW_DIMENSIONS.map((dimension) => (
+                  <label key={dimension} className="flex items-center space-x-3">
+                    <span>{DIMENSION_LABELS[dimension]}</span>
+                    <select
+                      value={scores[dimension]}
+                      onChange={(e) => setScores(prev => ({ ...prev, [dimension]: Number(e.target.value) }))}
+                      className="bg-transparent border-2 border-white rounded-lg px-4 py-2 focus:outline-none focus:border-blue-400"
+                    >
+                      {SCORES.map((score) => (
+                        <option key={score} value={score} className="bg-black">{score}</option>
+                      ))}
+                    </select>
+                  </label>
+                ))}
+              </div>
+              <textarea
+                value={comment}
+                onChange={(e) => setComment(e.target.value)}
+                rows={3}
+                maxLength={500}
+                placeholder="Anything others should know? (optional)"
+                className="w-full bg-transparent border-2 border-white rounded-lg px-4 py-2 resize-none focus:outline-none focus:border-blue-400"
+              />
+              <button
+                type="submit"
+                disabled={isSaving}
+                className="bg-blue-600 text-white px-6 py-2 rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-50"
+              >
+                Send Feedback
+              </button>
+            </form>
+          )}
+
+          {reviewState.partnerReview && (
+            <div>
+              <div className="text-gray-400 mb-2">{otherUser.name}'s review of you</div>
+              <ReviewCard
+                review={reviewState.partnerReview}
+                onChange={(partnerReview) => setReviewState(prev => prev && { ...prev, partnerReview })}
+              />
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ReviewForm;
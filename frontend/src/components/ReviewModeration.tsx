@@ -0,0 +1,125 @@
+import React, { useState, useEffect } from 'react';
+import { EyeOff } from 'lucide-react';
+import apiService, { ApiAdminReview } from '../services/api';
+import { DIMENSION_LABELS, REVIEW_DIMENSIONS, formatRating } from '../utils/reviews';
+
+// Reviews hidden by admins, most recently hidden first. Reported reviews are
+// handled in the report queue.
+const ReviewModeration: React.FC = () => {
+  const [reviews, setReviews] = useState<ApiAdminReview[]>([]);
+  const [processingId, setProcessingId] = useState<string | null>(null);
+  const [isRecomputing, setIsRecomputing] = useState(false);
+  const [notice, setNotice] = useState('');
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    apiService.getAdminReviews()
+      .then((response) => {
+        setReviews(response.data.reviews);
+      })
+      .catch((err) => {
+        console.error('Error loading reviews:', err);
+        setError('Could not load reviews.');
+      })
+      .finally(() => {
+        setIsLoading(false);
+      });
+  }, []);
+
+  const handleUnhide = async (id: string) => {
+    try {
+      setError('');
+      setProcessingId(id);
+      await apiService.moderateReview(id, 'unhide');
+      setReviews(prev => prev.filter(r => r._id !== id));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Something went wrong. Please try again.');
+    } finally {
+      setProcessingId(null);
+    }
+  };
+
+  const handleRecompute = async () => {
+    try {
+      setError('');
+      setNotice('');
+      setIsRecomputing(true);
+      const response = await apiService.recomputeRatings();
+      setNotice(response.message);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Something went wrong. Please try again.');
+    } finally {
+      setIsRecomputing(false);
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center">
+        <button
+          onClick={handleRecompute}
+          disabled={isRecomputing}
+          className="ml-auto text-sm text-blue-600 hover:text-blue-700 disabled:opacity-50"
+        >
+          {isRecomputing ? 'Recomputing...' : 'Recompute all ratings'}
+        </button>
+      </div>
+
+      {error && <div className="text-red-600">{error}</div>}
+      {notice && <div className="text-green-600">{notice}</div>}
+
+      {isLoading ? (
+        <div className="text-gray-500">Loading reviews...</div>
+      ) : reviews.length === 0 ? (
+        <div className="text-gray-500">No hidden reviews</div>
+      ) : (
+        reviews.map((review) => {
+          const isProcessing = processingId === review._id;
+          return (
+            <div key={review._id} className="border border-gray-200 rounded-lg p-4">
+              <div className="flex items-center justify-between mb-3">
+                <div className="flex items-center space-x-3">
+                  <span className="font-medium">{review.reviewerId.name}</span>
+                  <span className="text-gray-500">→</span>
+                  <span className="font-medium">{review.revieweeId.name}</span>
+                </div>
+                <span className="flex items-center space-x-1 px-2 py-1 rounded-full text-xs font-medium text-gray-600 bg-gray-100">
+                  <EyeOff className="w-3 h-3" />
+                  <span>hidden</span>
+                </span>
+              </div>
+
+              <div className="text-sm text-gray-600 mb-2">
+                <span className="font-medium">{formatRating(review.rating)}</span>
+                {REVIEW_DIMENSIONS.map((dimension) => (
+                  <span key={dimension} className="ml-3">{DIMENSION_LABELS[dimension]} {review.scores[dimension]}</span>
+                ))}
+              </div>
+              {review.comment && <div className="text-sm italic mb-2">"{review.comment}"</div>}
+              {review.reply.body && (
+                <div className="text-sm text-gray-600 mb-2">Reply: "{review.reply.body}"</div>
+              )}
+
+              <div className="text-sm text-gray-600 mb-4">
+                Hidden by <span className="font-medium">{review.moderation.hiddenBy?.name ?? 'unknown'}</span>
+                {review.moderation.hiddenAt && ` on ${new Date(review.moderation.hiddenAt).toLocaleDateString()}`}
+                {review.moderation.reason && `: "${review.moderation.reason}"`}
+              </div>
+
+              <button
+                onClick={() => handleUnhide(review._id)}
+                disabled={isProcessing}
+                className="bg-blue-600 text-white px-4 py-2 rounded-lg text-sm hover:bg-blue-700 transition-colors disabled:opacity-50"
+              >
+                Show Review
+              </button>
+            </div>
+          );
+        })
+      )}
+    </div>
+  );
+};
+
+export default ReviewModeration;
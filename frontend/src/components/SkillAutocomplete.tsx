@@ -0,0 +1,116 @@
+import React, { useState, useEffect } from 'react';
+import apiService, { ApiSkillSuggestion } from '../services/api';
+
+const DEBOUNCE_MS = 250;
+
+interface SkillAutocompleteProps {
+  onAdd: (skill: string) => void;
+  // Skills already on the list, hidden from suggestions
+  exclude: string[];
+}
+
+const SkillAutocomplete: React.FC<SkillAutocompleteProps> = ({ onAdd, exclude }) => {
+  const [value, setValue] = useState('');
+  const [suggestions, setSuggestions] = useState<ApiSkillSuggestion[]>([]);
+  const [highlighted, setHighlighted] = useState(-1);
+
+  useEffect(() => {
+    const term = value.trim();
+    if (!term) {
+      setSuggestions([]);
+      return;
+    }
+
+    let isCancelled = false;
+    const timeout = setTimeout(() => {
+      apiService.autocompleteSkills(term, 8)
+        .then((response) => {
+          if (!isCancelled) {
+            setSuggestions(response.data.suggestions);
+            setHighlighted(-1);
+          }
+        })
+        .catch((error) => {
+          console.error('Error loading skill suggestions:', error);
+        });
+    }, DEBOUNCE_MS);
+
+    return () => {
+      isCancelled = true;
+      clearTimeout(timeout);
+    };
+  }, [value]);
+
+  const visibleSuggestions = suggestions.filter(s => !exclude.includes(s.name));
+
+  // Unknown skills are still accepted; the server adds them to the taxonomy
+  const add = (skill: string) => {
+    if (!skill.trim()) return;
+    onAdd(skill.trim());
+    setValue('');
+    setSuggestions([]);
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'ArrowDown') {
+      e.preventDefault();
+      setHighlighted(prev => Math.min(prev + 1, visibleSuggestions.length - 1));
+    } else if (e.key === 'ArrowUp') {
+      e.preventDefault();
+      setHighlighted(prev => Math.max(prev - 1, -1));
+    } else if (e.key === 'Enter') {
+      e.preventDefault();
+      add(highlighted >= 0 ? visibleSuggestions[highlighted].name : value);
+    } else if (e.key === 'Escape') {
+      setSuggestions([]);
+    }
+  };
+
+  return (
+    <div className="relative">
+      <div className="flex space-x-4">
+        <input
+          type="text"
+          value={value}
+          onChange={(e) => setValue(e.target.value)}
+          onKeyDown={handleKeyDown}
+          className="bg-transparent border-b-2 border-white text-lg pb-2 focus:outline-none focus:border-blue-400 flex-1"
+          placeholder="Add a skill..."
+        />
+        <button
+          onClick={() => add(value)}
+          className="text-green-400 hover:text-green-300"
+        >
+          Add
+        </button>
+      </div>
+
+      {visibleSuggestions.length > 0 && (
+        <ul className="absolute left-0 right-0 mt-2 bg-black border-2 border-white rounded-lg z-10 overflow-hidden">
+          {visibleSuggestions.map((suggestion, index) => (
+            <li key={suggestion._id}>
+              <button
+                onClick={() => add(suggestion.name)}
+                className={`w-full text-left px-4 py-2 flex items-center justify-between ${
+                  index === highlighted ? 'bg-white text-black' : 'hover:bg-gray-800'
+                }`}
+              >
+                <span>
+                  {suggestion.name}
+                  {suggestion.matchedAlias && (
+                    <span className="text-sm text-gray-400 ml-2">({suggestion.matchedAlias})</span>
+                  )}
+                </span>
+                <span className="text-sm text-gray-400">
+                  {suggestion.parent ? `${suggestion.category} › ${suggestion.parent}` : suggestion.category}
+                </span>
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default SkillAutocomplete;
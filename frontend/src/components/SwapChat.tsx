@@ -0,0 +1,248 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { Send, X } from 'lucide-react';
+import { useAuth } from '../contexts/AuthContext';
+import { useData } from '../contexts/DataContext';
+import apiService, { ApiMessage } from '../services/api';
+import realtimeService from '../services/realtime';
+import { ChatMessage, SwapRequest, UserSummary } from '../types';
+import ReportForm from './ReportForm';
+
+const PAGE_SIZE = 30;
+const TYPING_TIMEOUT_MS = 3000;
+
+const mapMessage = (message: ApiMessage): ChatMessage => ({
+  id: message._id,
+  swapRequestId: message.swapRequestId,
+  senderId: typeof message.senderId === 'object' ? message.senderId._id : message.senderId,
+  senderName: typeof message.senderId === 'object' ? message.senderId.name : undefined,
+  recipientId: message.recipientId,
+  body: message.body,
+  createdAt: new Date(message.createdAt),
+  readAt: message.readAt ? new Date(message.readAt) : undefined
+});
+
+interface SwapChatProps {
+  swapRequest: SwapRequest;
+  otherUser: UserSummary;
+  onClose: () => void;
+}
+
+const SwapChat: React.FC<SwapChatProps> = ({ swapRequest, otherUser, onClose }) => {
+  const { user } = useAuth();
+  const { markSwapMessagesAsRead } = useData();
+  // Messages are kept oldest first for rendering
+  const [messages, setMessages] = useState<ChatMessage[]>([]);
+  const [hasMore, setHasMore] = useState(false);
+  const [isChatOpen, setIsChatOpen] = useState(true);
+  const [draft, setDraft] = useState('');
+  const [isSending, setIsSending] = useState(false);
+  const [isOtherTyping, setIsOtherTyping] = useState(false);
+  const [reportingId, setReportingId] = useState<string | null>(null);
+  const bottomRef = useRef<HTMLDivElement>(null);
+  const typingTimeoutRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const isTypingRef = useRef(false);
+
+  // Keep the latest context action in a ref so socket listeners don't resubscribe every render
+  const markAsReadRef = useRef(markSwapMessagesAsRead);
+  markAsReadRef.current = markSwapMessagesAsRead;
+
+  // Load the latest page of history when the panel opens
+  useEffect(() => {
+    apiService.getSwapMessages(swapRequest.id, { limit: PAGE_SIZE })
+      .then((response) => {
+        setMessages(response.data.messages.map(mapMessage).reverse());
+        setHasMore(response.data.hasMore);
+        setIsChatOpen(response.data.isChatOpen);
+        markAsReadRef.current(swapRequest.id).catch(() => {});
+      })
+      .catch((error) => {
+        console.error('Error loading messages:', error);
+      });
+  }, [swapRequest.id]);
+
+  // Live delivery, read receipts and typing indicator for this swap
+  useEffect(() => {
+    const unsubscribeMessage = realtimeService.onNewMessage((data) => {
+      if (data.message.swapRequestId !== swapRequest.id) return;
+
+      const message = mapMessage(data.message);
+      setMessages(prev => prev.some(m => m.id === message.id) ? prev : [...prev, message]);
+
+      if (message.senderId !== user?.id) {
+        setIsOtherTyping(false);
+        markAsReadRef.current(swapRequest.id).catch(() => {});
+      }
+    });
+
+    const unsubscribeRead = realtimeService.onMessagesRead((data) => {
+      if (data.swapRequestId !== swapRequest.id) return;
+
+      const readAt = new Date(data.readAt);
+      setMessages(prev => prev.map(m =>
+        m.senderId === user?.id && !m.readAt ? { ...m, readAt } : m
+      ));
+    });
+
+    const unsubscribeTyping = realtimeService.onTyping((data) => {
+      if (data.swapRequestId !== swapRequest.id || data.userId === user?.id) return;
+      setIsOtherTyping(data.isTyping);
+    });
+
+    return () => {
+      unsubscribeMessage();
+      unsubscribeRead();
+      unsubscribeTyping();
+    };
+  }, [swapRequest.id, user?.id]);
+
+  // Stop announcing typing when the panel closes
+  useEffect(() => {
+    return () => {
+      if (typingTimeoutRef.current) clearTimeout(typingTimeoutRef.current);
+      if (isTypingRef.current) realtimeService.sendTyping(swapRequest.id, false);
+    };
+  }, [swapRequest.id]);
+
+  useEffect(() => {
+    bottomRef.current?.scrollIntoView({ behavior: 'smooth' });
+  }, [messages.length]);
+
+  const loadOlder = async () => {
+    if (messages.length === 0) return;
+
+    try {
+      const response = await apiService.getSwapMessages(swapRequest.id, {
+        before: messages[0].createdAt.toISOString(),
+        beforeId: messages[0].id,
+        limit: PAGE_SIZE
+      });
+      setMessages(prev => [...response.data.messages.map(mapMessage).reverse(), ...prev]);
+      setHasMore(response.data.hasMore);
+    } catch (error) {
+      console.error('Error loading older messages:', error);
+    }
+  };
+
+  const handleDraftChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    setDraft(e.target.value);
+
+    if (!isTypingRef.current) {
+      isTypingRef.current = true;
+      realtimeService.sendTyping(swapRequest.id, true);
+    }
+
+    if (typingTimeoutRef.current) clearTimeout(typingTimeoutRef.current);
+    typingTimeoutRef.current = setTimeout(() => {
+      isTypingRef.current = false;
+      realtimeService.sendTyping(swapRequest.id, false);
+    }, TYPING_TIMEOUT_MS);
+  };
+
+  const handleSend = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const body = draft.trim();
+    if (!body) return;
+
+    try {
+      setIsSending(true);
+      const response = await apiService.sendSwapMessage(swapRequest.id, body);
+      const message = mapMessage(response.data.message);
+      setMessages(prev => prev.some(m => m.id === message.id) ? prev : [...prev, message]);
+      setDraft('');
+
+      if (typingTimeoutRef.current) clearTimeout(typingTimeoutRef.current);
+      isTypingRef.current = false;
+      realtimeService.sendTyping(swapRequest.id, false);
+    } catch (error) {
+      console.error('Error sending message:', error);
+      alert('Failed to send message. Please try again.');
+    } finally {
+      setIsSending(false);
+    }
+  };
+
+  return (
+    <div className="border-t border-gray-600 mt-6 pt-6">
+      <div className="flex items-center justify-between mb-4">
+        <h4 className="text-xl font-light">Chat with {otherUser.name}</h4>
+        <button onClick={onClose} className="text-gray-400 hover:text-white" aria-label="Close chat">
+          <X className="w-5 h-5" />
+        </button>
+      </div>
+
+      <div className="h-72 overflow-y-auto border border-gray-600 rounded-lg p-4 space-y-3">
+        {hasMore && (
+          <button onClick={loadOlder} className="block mx-auto text-sm text-blue-400 hover:text-blue-300">
+            Load older messages
+          </button>
+        )}
+
+        {messages.length === 0 && (
+          <div className="text-center text-gray-400 pt-24">No messages yet. Say hello!</div>
+        )}
+
+        {messages.map((message) => {
+          const isMine = message.senderId === user?.id;
+
+          return (
+            <div key={message.id} className={`flex ${isMine ? 'justify-end' : 'justify-start'}`}>
+              <div className={`max-w-sm rounded-2xl px-4 py-2 ${isMine ? 'bg-blue-600' : 'bg-gray-800'}`}>
+                <p className="whitespace-pre-wrap break-words">{message.body}</p>
+                <p className="text-xs text-gray-300 mt-1">
+                  {message.createdAt.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
+                  {isMine && message.readAt && ' • Read'}
+                  {!isMine && (
+                    <button onClick={() => setReportingId(message.id)} className="ml-2 hover:text-red-300">
+                      Report
+                    </button>
+                  )}
+                </p>
+              </div>
+            </div>
+          );
+        })}
+
+        {isOtherTyping && (
+          <div className="text-sm text-gray-400 italic">{otherUser.name} is typing...</div>
+        )}
+
+        <div ref={bottomRef} />
+      </div>
+
+      {isChatOpen ? (
+        <form onSubmit={handleSend} className="flex space-x-4 mt-4">
+          <input
+            type="text"
+            value={draft}
+            onChange={handleDraftChange}
+            maxLength={1000}
+            className="flex-1 bg-transparent border-2 border-white rounded-lg px-4 py-2 focus:outline-none focus:border-blue-400"
+            placeholder="Write a message..."
+          />
+          <button
+            type="submit"
+            disabled={isSending || !draft.trim()}
+            className="bg-blue-600 text-white px-4 py-2 rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-50"
+            aria-label="Send message"
+          >
+            <Send className="w-5 h-5" />
+          </button>
+        </form>
+      ) : (
+        <div className="text-sm text-gray-400 mt-4">Chat is only available once the swap has been accepted.</div>
+      )}
+
+      {reportingId && (
+        <ReportForm
+          key={reportingId}
+          targetType="message"
+          targetId={reportingId}
+          targetLabel={`a message from ${otherUser.name}`}
+          onClose={() => setReportingId(null)}
+        />
+      )}
+    </div>
+  );
+};
+
+export default SwapChat;
@@ -0,0 +1,95 @@
+import React, { useState, useEffect } from 'react';
+import { History, X } from 'lucide-react';
+import { useAuth } from '../contexts/AuthContext';
+import apiService, { ApiSwapHistoryEntry } from '../services/api';
+import { SwapHistoryEntry, SwapRequest } from '../types';
+
+const mapHistoryEntry = (entry: ApiSwapHistoryEntry): SwapHistoryEntry => ({
+  action: entry.action,
+  from: entry.from,
+  to: entry.to,
+  actor: entry.actor && {
+    id: entry.actor._id,
+    name: entry.actor.name,
+    photo: entry.actor.photo ?? undefined
+  },
+  actorRole: entry.actorRole,
+  reason: entry.reason,
+  at: new Date(entry.at)
+});
+
+const ACTION_LABELS: Record<string, string> = {
+  create: 'sent the request',
+  accept: 'accepted',
+  reject: 'rejected',
+  counter: 'sent a counter-offer',
+  cancel: 'cancelled',
+  cancelAccepted: 'called off the swap',
+  expire: 'expired',
+  requestCompletion: 'marked it completed',
+  confirmCompletion: 'confirmed the completion',
+  dispute: 'disputed the completion',
+  resolveCompleted: 'resolved the dispute as completed',
+  resolveReopened: 'reopened the swap',
+  resolveCancelled: 'cancelled the swap'
+};
+
+interface SwapHistoryProps {
+  swapRequest: SwapRequest;
+  onClose: () => void;
+}
+
+// Timeline of every status change on a swap
+const SwapHistory: React.FC<SwapHistoryProps> = ({ swapRequest, onClose }) => {
+  const { user } = useAuth();
+  const [history, setHistory] = useState<SwapHistoryEntry[]>([]);
+
+  useEffect(() => {
+    apiService.getSwapHistory(swapRequest.id)
+      .then((response) => {
+        setHistory(response.data.history.map(mapHistoryEntry));
+      })
+      .catch((err) => {
+        console.error('Error loading swap history:', err);
+      });
+  }, [swapRequest.id, swapRequest.status]);
+
+  const getActorName = (entry: SwapHistoryEntry) => {
+    if (!entry.actor) return 'Automatically';
+    if (entry.actor.id === user?.id) return 'You';
+    return entry.actorRole === 'admin' ? `${entry.actor.name} (admin)` : entry.actor.name;
+  };
+
+  return (
+    <div className="border-t border-gray-600 mt-6 pt-6">
+      <div className="flex items-center justify-between mb-4">
+        <h4 className="text-xl font-light flex items-center space-x-2">
+          <History className="w-5 h-5" />
+          <span>History</span>
+        </h4>
+        <button onClick={onClose} className="text-gray-400 hover:text-white" aria-label="Close history">
+          <X className="w-5 h-5" />
+        </button>
+      </div>
+
+      {history.length === 0 ? (
+        <div className="text-gray-400">No history recorded for this swap.</div>
+      ) : (
+        <ol className="space-y-3">
+          {history.map((entry, index) => (
+            <li key={index} className="flex items-start justify-between">
+              <div>
+                <span>{getActorName(entry)}</span>{' '}
+                <span className="text-gray-400">{ACTION_LABELS[entry.action] ?? entry.action}</span>
+                {entry.reason && <div className="text-sm text-gray-300 mt-1">"{entry.reason}"</div>}
+              </div>
+              <span className="text-sm text-gray-400 whitespace-nowrap ml-4">{entry.at.toLocaleString()}</span>
+            </li>
+          ))}
+        </ol>
+      )}
+    </div>
+  );
+};
+
+export default SwapHistory;
@@ -0,0 +1,176 @@
+import React, { useState } from 'react';
+import { Repeat, X } from 'lucide-react';
+import { useAuth } from '../contexts/AuthContext';
+import { useData } from '../contexts/DataContext';
+import { SwapOffer, SwapRequest, UserSummary } from '../types';
+import { formatLevel } from '../utils/skillLevels';
+import { formatCredits } from '../utils/credits';
+
+interface SwapNegotiationProps {
+  swapRequest: SwapRequest;
+  sender?: UserSummary;
+  recipient?: UserSummary;
+  // Whether the latest offer is waiting on the current user
+  canCounter: boolean;
+  onClose: () => void;
+}
+
+// Include the current value so it stays selectable when the user no longer offers it
+const getSkillOptions = (skills: string[] | undefined, current: string) =>
+  Array.from(new Set([current, ...(skills ?? [])].filter(Boolean)));
+
+// Every version of the terms, plus a form to counter the latest one
+const SwapNegotiation: React.FC<SwapNegotiationProps> = ({ swapRequest, sender, recipient, canCounter, onClose }) => {
+  const { user } = useAuth();
+  const { counterSwapRequest } = useData();
+  const isCreditSwap = swapRequest.paymentType === 'credits';
+  const [form, setForm] = useState({
+    skillOffered: swapRequest.skillOffered,
+    skillWanted: swapRequest.skillWanted,
+    hours: swapRequest.hours ?? 1,
+    message: ''
+  });
+  const [error, setError] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const offers = [...(swapRequest.offers ?? [])].reverse();
+  const isUnchanged = (isCreditSwap || form.skillOffered === swapRequest.skillOffered) &&
+    form.skillWanted === swapRequest.skillWanted &&
+    form.hours === (swapRequest.hours ?? 1);
+
+  const getProposerName = (offer: SwapOffer) => {
+    if (offer.proposedBy === user?.id) return 'You';
+    return (offer.proposedBy === sender?.id ? sender?.name : recipient?.name) ?? 'Your partner';
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (isUnchanged || !form.message.trim()) return;
+
+    try {
+      setError('');
+      setIsSubmitting(true);
+      await counterSwapRequest(swapRequest.id, {
+        skillOffered: isCreditSwap ? undefined : form.skillOffered,
+        skillWanted: form.skillWanted,
+        hours: form.hours,
+        message: form.message.trim()
+      });
+      setForm(prev => ({ ...prev, message: '' }));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Something went wrong. Please try again.');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="border-t border-gray-600 mt-6 pt-6">
+      <div className="flex items-center justify-between mb-4">
+        <h4 className="text-xl font-light flex items-center space-x-2">
+          <Repeat className="w-5 h-5" />
+          <span>Negotiation</span>
+        </h4>
+        <button onClick={onClose} className="text-gray-400 hover:text-white" aria-label="Close negotiation">
+          <X className="w-5 h-5" />
+        </button>
+      </div>
+
+      {offers.length === 0 ? (
+        <div className="text-gray-400 mb-4">No offers recorded for this swap.</div>
+      ) : (
+        <ol className="space-y-3 mb-6">
+          {offers.map((offer, index) => (
+            <li key={offer.version} className={`border rounded-lg px-4 py-3 ${index === 0 ? 'border-white' : 'border-gray-600 text-gray-400'}`}>
+              <div className="flex items-center justify-between text-sm mb-1">
+                <span>
+                  v{offer.version} • {getProposerName(offer)} {offer.version === 1 ? 'sent the request' : 'countered'}
+                  {index === 0 && ' • Latest'}
+                </span>
+                <span className="text-gray-400">{offer.createdAt.toLocaleString()}</span>
+              </div>
+              <div>
+                {isCreditSwap ? (
+                  <span>{formatCredits(offer.hours)}</span>
+                ) : (
+                  <span>
+                    {offer.skillOffered}
+                    {offer.skillOfferedLevel && ` (${formatLevel(offer.skillOfferedLevel)})`} • {offer.hours}h
+                  </span>
+                )}
+                {' ↔ '}
+                {offer.skillWanted}
+                {offer.skillWantedLevel && ` (${formatLevel(offer.skillWantedLevel)})`}
+              </div>
+              <div className="text-sm text-gray-300 mt-1">"{offer.message}"</div>
+            </li>
+          ))}
+        </ol>
+      )}
+
+      {canCounter && (
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="flex flex-wrap items-end gap-4">
+            {!isCreditSwap && (
+              <div>
+                <label className="block text-sm mb-1">{sender?.id === user?.id ? 'You teach' : `${sender?.name ?? 'Sender'} teaches`}</label>
+                <select
+                  value={form.skillOffered}
+                  onChange={(e) => setForm(prev => ({ ...prev, skillOffered: e.target.value }))}
+                  className="bg-transparent border-2 border-white rounded-lg px-4 py-2 focus:outline-none focus:border-blue-400"
+                >
+                  {getSkillOptions(sender?.skillsOffered, swapRequest.skillOffered).map((skill) => (
+                    <option key={skill} value={skill} className="bg-black">{skill}</option>
+                  ))}
+                </select>
+              </div>
+            )}
+            <div>
+              <label className="block text-sm mb-1">{recipient?.id === user?.id ? 'You teach' : `${recipient?.name ?? 'Recipient'} teaches`}</label>
+              <select
+                value={form.skillWanted}
+                onChange={(e) => setForm(prev => ({ ...prev, skillWanted: e.target.value }))}
+                className="bg-transparent border-2 border-white rounded-lg px-4 py-2 focus:outline-none focus:border-blue-400"
+              >
+                {getSkillOptions(recipient?.skillsOffered, swapRequest.skillWanted).map((skill) => (
+                  <option key={skill} value={skill} className="bg-black">{skill}</option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label className="block text-sm mb-1">Hours</label>
+              <input
+                type="number"
+                min={0.5}
+                max={20}
+                step={0.5}
+                value={form.hours}
+                onChange={(e) => setForm(prev => ({ ...prev, hours: Number(e.target.value) }))}
+                className="w-24 bg-transparent border-2 border-white rounded-lg px-4 py-2 focus:outline-none focus:border-blue-400"
+              />
+            </div>
+          </div>
+          <textarea
+            value={form.message}
+            onChange={(e) => setForm(prev => ({ ...prev, message: e.target.value }))}
+            rows={2}
+            maxLength={500}
+            placeholder="Explain your counter-offer"
+            className="w-full bg-transparent border-2 border-white rounded-lg px-4 py-2 resize-none focus:outline-none focus:border-blue-400"
+          />
+          <button
+            type="submit"
+            disabled={isSubmitting || isUnchanged || !form.message.trim()}
+            className="bg-blue-600 text-white px-6 py-2 rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-50"
+          >
+            {isSubmitting ? 'Sending...' : 'Send Counter-Offer'}
+          </button>
+        </form>
+      )}
+
+      {error && <div className="text-red-400 mt-4">{error}</div>}
+    </div>
+  );
+};
+
+export default SwapNegotiation;
@@ -0,0 +1,214 @@
+import React, { useState, useEffect } from 'react';
+import { Calendar, X } from 'lucide-react';
+import { useAuth } from '../contexts/AuthContext';
+import apiService, { ApiSession } from '../services/api';
+import realtimeService from '../services/realtime';
+import { Session, SwapRequest } from '../types';
+
+const DURATION_OPTIONS = [30, 60, 90, 120];
+
+const mapSession = (session: ApiSession): Session => ({
+  id: session._id,
+  swapRequestId: session.swapRequestId,
+  proposedBy: session.proposedBy,
+  title: session.title,
+  startTime: new Date(session.startTime),
+  endTime: new Date(session.endTime),
+  notes: session.notes ?? undefined,
+  status: session.status,
+  rescheduleCount: session.rescheduleCount
+});
+
+// Replace or add a session, keeping the list in chronological order
+const upsertSession = (sessions: Session[], session: Session) =>
+  [...sessions.filter(s => s.id !== session.id), session]
+    .sort((a, b) => a.startTime.getTime() - b.startTime.getTime());
+
+const getStatusColor = (status: Session['status']) => {
+  switch (status) {
+    case 'proposed': return 'text-yellow-400';
+    case 'confirmed': return 'text-green-400';
+    case 'declined': return 'text-red-400';
+    case 'cancelled': return 'text-gray-400';
+    default: return 'text-white';
+  }
+};
+
+interface SwapSessionsProps {
+  swapRequest: SwapRequest;
+  onClose: () => void;
+}
+
+const SwapSessions: React.FC<SwapSessionsProps> = ({ swapRequest, onClose }) => {
+  const { user } = useAuth();
+  const [sessions, setSessions] = useState<Session[]>([]);
+  const [form, setForm] = useState({ startTime: '', duration: 60, notes: '' });
+  // Session being rescheduled; the form proposes a new time for it instead of a new session
+  const [reschedulingId, setReschedulingId] = useState<string | null>(null);
+  const [error, setError] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  useEffect(() => {
+    apiService.getSwapSessions(swapRequest.id)
+      .then((response) => {
+        setSessions(response.data.sessions.map(mapSession));
+      })
+      .catch((err) => {
+        console.error('Error loading sessions:', err);
+      });
+
+    return realtimeService.onSessionUpdated((data) => {
+      if (data.session.swapRequestId !== swapRequest.id) return;
+
+      setSessions(prev => upsertSession(prev, mapSession(data.session)));
+    });
+  }, [swapRequest.id]);
+
+  const runAction = async (action: () => Promise<{ data: { session: ApiSession } }>) => {
+    try {
+      setError('');
+      const response = await action();
+      setSessions(prev => upsertSession(prev, mapSession(response.data.session)));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Something went wrong. Please try again.');
+    }
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!form.startTime) return;
+
+    const startTime = new Date(form.startTime);
+    const endTime = new Date(startTime.getTime() + form.duration * 60000);
+    const slot = { startTime: startTime.toISOString(), endTime: endTime.toISOString() };
+
+    setIsSubmitting(true);
+    await runAction(() => reschedulingId
+      ? apiService.rescheduleSession(reschedulingId, slot)
+      : apiService.proposeSession(swapRequest.id, { ...slot, notes: form.notes || undefined })
+    );
+    setIsSubmitting(false);
+    setReschedulingId(null);
+    setForm({ startTime: '', duration: 60, notes: '' });
+  };
+
+  const isActive = (session: Session) => session.status === 'proposed' || session.status === 'confirmed';
+
+  return (
+    <div className="border-t border-gray-600 mt-6 pt-6">
+      <div className="flex items-center justify-between mb-4">
+        <h4 className="text-xl font-light flex items-center space-x-2">
+          <Calendar className="w-5 h-5" />
+          <span>Sessions</span>
+        </h4>
+        <button onClick={onClose} className="text-gray-400 hover:text-white" aria-label="Close sessions">
+          <X className="w-5 h-5" />
+        </button>
+      </div>
+
+      {sessions.length === 0 ? (
+        <div className="text-gray-400 mb-4">No sessions scheduled yet.</div>
+      ) : (
+        <div className="space-y-3 mb-6">
+          {sessions.map((session) => {
+            const proposedByMe = session.proposedBy === user?.id;
+
+            return (
+              <div key={session.id} className="flex items-center justify-between border border-gray-600 rounded-lg px-4 py-3">
+                <div>
+                  <div className="text-lg">
+                    {session.startTime.toLocaleDateString()} •{' '}
+                    {session.startTime.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}–
+                    {session.endTime.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
+                  </div>
+                  <div className="text-sm text-gray-400">
+                    <span className={getStatusColor(session.status)}>{session.status.toUpperCase()}</span>
+                    {session.status === 'proposed' && (proposedByMe ? ' • Waiting for partner' : ' • Waiting for you')}
+                    {session.notes && ` • ${session.notes}`}
+                  </div>
+                </div>
+
+                {isActive(session) && (
+                  <div className="flex space-x-4 text-sm">
+                    {session.status === 'proposed' && !proposedByMe && (
+                      <>
+                        <button onClick={() => runAction(() => apiService.acceptSession(session.id))} className="text-green-400 hover:text-green-300">
+                          Accept
+                        </button>
+                        <button onClick={() => runAction(() => apiService.declineSession(session.id))} className="text-red-400 hover:text-red-300">
+                          Decline
+                        </button>
+                      </>
+                    )}
+                    <button onClick={() => setReschedulingId(session.id)} className="text-blue-400 hover:text-blue-300">
+                      Reschedule
+                    </button>
+                    <button onClick={() => runAction(() => apiService.cancelSession(session.id))} className="text-gray-400 hover:text-gray-300">
+                      Cancel
+                    </button>
+                  </div>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      )}
+
+      {swapRequest.status === 'accepted' && (
+        <form onSubmit={handleSubmit} className="flex flex-wrap items-end gap-4">
+          <div>
+            <label className="block text-sm mb-1">{reschedulingId ? 'New time' : 'Propose a time'}</label>
+            <input
+              type="datetime-local"
+              value={form.startTime}
+              onChange={(e) => setForm(prev => ({ ...prev, startTime: e.target.value }))}
+              className="bg-transparent border-2 border-white rounded-lg px-4 py-2 focus:outline-none focus:border-blue-400"
+              required
+            />
+          </div>
+          <div>
+            <label className="block text-sm mb-1">Duration</label>
+            <select
+              value={form.duration}
+              onChange={(e) => setForm(prev => ({ ...prev, duration: Number(e.target.value) }))}
+              className="bg-transparent border-2 border-white rounded-lg px-4 py-2 focus:outline-none focus:border-blue-400"
+            >
+              {DURATION_OPTIONS.map((minutes) => (
+                <option key={minutes} value={minutes} className="bg-black">{minutes} min</option>
+              ))}
+            </select>
+          </div>
+          {!reschedulingId && (
+            <div className="flex-1 min-w-[12rem]">
+              <label className="block text-sm mb-1">Notes</label>
+              <input
+                type="text"
+                value={form.notes}
+                onChange={(e) => setForm(prev => ({ ...prev, notes: e.target.value }))}
+                maxLength={500}
+                className="w-full bg-transparent border-2 border-white rounded-lg px-4 py-2 focus:outline-none focus:border-blue-400"
+                placeholder="What will you cover?"
+              />
+            </div>
+          )}
+          <button
+            type="submit"
+            disabled={isSubmitting || !form.startTime}
+            className="bg-blue-600 text-white px-6 py-2 rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-50"
+          >
+            {reschedulingId ? 'Reschedule' : 'Propose'}
+          </button>
+          {reschedulingId && (
+            <button type="button" onClick={() => setReschedulingId(null)} className="text-gray-400 hover:text-white py-2">
+              Cancel
+            </button>
+          )}
+        </form>
+      )}
+
+      {error && <div className="text-red-400 mt-4">{error}</div>}
+    </div>
+  );
+};
+
+export default SwapSessions;
@@ -0,0 +1,101 @@
+import React, { useState, useEffect } from 'react';
+import { Star } from 'lucide-react';
+import apiService from '../services/api';
+import { Review, ReviewSummary } from '../types';
+import ReviewCard from './ReviewCard';
+import { DIMENSION_LABELS, REVIEW_DIMENSIONS, formatRating, mapReview } from '../utils/reviews';
+
+const PAGE_SIZE = 10;
+
+interface UserReviewsProps {
+  userId: string;
+}
+
+// A user's visible reviews, newest first, with their average scores.
+// Render with key={userId} so switching users starts from the first page.
+const UserReviews: React.FC<UserReviewsProps> = ({ userId }) => {
+  const [reviews, setReviews] = useState<Review[]>([]);
+  const [summary, setSummary] = useState<ReviewSummary | null>(null);
+  const [page, setPage] = useState(1);
+  const [hasMore, setHasMore] = useState(false);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    let isCurrent = true;
+    setIsLoading(true);
+    apiService.getUserFeedback(userId, { page, limit: PAGE_SIZE })
+      .then((response) => {
+        if (!isCurrent) return;
+        const loaded = response.data.reviews.map(mapReview);
+        setReviews(prev => page === 1 ? loaded : [...prev, ...loaded.filter(review => !prev.some(r => r.id === review.id))]);
+        setSummary(response.data.summary);
+        setHasMore(response.data.pagination.hasNextPage);
+      })
+      .catch((err) => {
+        console.error('Error loading reviews:', err);
+        if (isCurrent) setError('Could not load reviews.');
+      })
+      .finally(() => {
+        if (isCurrent) setIsLoading(false);
+      });
+    return () => {
+      isCurrent = false;
+    };
+  }, [userId, page]);
+
+  const handleChange = (changed: Review) => {
+    setReviews(prev => prev.map(review => review.id === changed.id ? changed : review));
+  };
+
+  return (
+    <div>
+      <h3 className="text-xl font-light mb-4 flex items-center space-x-2">
+        <Star className="w-5 h-5" />
+        <span>Reviews</span>
+        {summary && summary.reviewCount > 0 && (
+          <span className="text-gray-400">
+            {formatRating(summary.rating)} from {summary.reviewCount} review{summary.reviewCount === 1 ? '' : 's'}
+          </span>
+        )}
+      </h3>
+
+      {summary && summary.reviewCount > 0 && (
+        <div className="flex flex-wrap gap-6 text-sm text-gray-400 mb-4">
+          {REVIEW_DIMENSIONS.map((dimension) => {
+            const score = summary.dimensions[dimension];
+            return (
+              <span key={dimension}>
+                {DIMENSION_LABELS[dimension]} {score === null ? '–' : formatRating(score)}
+              </span>
+            );
+          })}
+        </div>
+      )}
+
+      {error && <div className="text-red-400 mb-4">{error}</div>}
+
+      {!isLoading && reviews.length === 0 && !error ? (
+        <div className="text-gray-400">No reviews yet.</div>
+      ) : (
+        <div className="space-y-3">
+          {reviews.map((review) => (
+            <ReviewCard key={review.id} review={review} onChange={handleChange} />
+          ))}
+        </div>
+      )}
+
+      {hasMore && (
+        <button
+          onClick={() => setPage(prev => prev + 1)}
+          disabled={isLoading}
+          className="mt-4 text-blue-400 hover:text-blue-300 disabled:opacity-50"
+        >
+          {isLoading ? 'Loading...' : 'More reviews'}
+        </button>
+      )}
+    </div>
+  );
+};
+
+export default UserReviews;
@@ -0,0 +1,57 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { Link, useSearchParams } from 'react-router-dom';
+import { useAuth } from '../contexts/AuthContext';
+import apiService from '../services/api';
+
+type VerifyStatus = 'verifying' | 'verified' | 'failed';
+
+// Reached from the link in the verification email, logged in or not
+const VerifyEmail: React.FC = () => {
+  const { user, refreshUser } = useAuth();
+  const [searchParams] = useSearchParams();
+  const token = searchParams.get('token') ?? '';
+  const [status, setStatus] = useState<VerifyStatus>(token ? 'verifying' : 'failed');
+  const [error, setError] = useState(token ? '' : 'This verification link is incomplete.');
+  // Tokens are single-use, so don't send it twice when effects re-run
+  const submittedToken = useRef('');
+
+  useEffect(() => {
+    if (!token || submittedToken.current === token) return;
+    submittedToken.current = token;
+
+    apiService.verifyEmail(token)
+      .then(() => {
+        setStatus('verified');
+        return refreshUser();
+      })
+      .catch((err) => {
+        setStatus('failed');
+        setError(err instanceof Error ? err.message : 'Something went wrong. Please try again.');
+      });
+  }, [token, refreshUser]);
+
+  return (
+    <div className="min-h-screen bg-black text-white flex items-center justify-center p-4">
+      <div className="w-full max-w-2xl border-2 border-white rounded-3xl p-12 text-center space-y-8">
+        <h1 className="text-2xl font-light">Email verification</h1>
+
+        {status === 'verifying' && <p className="text-gray-400">Verifying your email...</p>}
+        {status === 'verified' && <p className="text-lg text-gray-300">Your email address is verified.</p>}
+        {status === 'failed' && (
+          <p className="text-red-400">
+            {error} {user ? 'You can send a new link from the banner at the top of the page.' : 'Log in to send a new link.'}
+          </p>
+        )}
+
+        <Link
+          to="/"
+          className="inline-block border-2 border-white rounded-full px-12 py-4 text-lg font-light hover:bg-white hover:text-black transition-colors"
+        >
+          {user ? 'Continue' : 'Login'}
+        </Link>
+      </div>
+    </div>
+  );
+};
+
+export default VerifyEmail;
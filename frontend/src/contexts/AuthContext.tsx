@@ -1,15 +1,18 @@
 import React, { createContext, useContext, useState, useEffect } from 'react';
-import { User } from '../types';
-import apiService from '../services/api';
+import { AccountBan, User } from '../types';
+import apiService, { ApiAccountBan, ApiError, ApiProfileUpdate } from '../services/api';
 
 
 
 interface AuthContextType {
   user: User | null;
   login: (email: string, password: string) => Promise<boolean>;
+  // Set when the last login failed because the account is banned
+  accountBan: AccountBan | null;
   register: (userData: Partial<User>) => Promise<boolean>;
   logout: () => void;
-  updateProfile: (data: Partial<User>) => void;
+  updateProfile: (data: ApiProfileUpdate) => Promise<boolean>;
+  refreshUser: () => Promise<void>;
   isLoading: boolean;
 }
 
@@ -25,28 +28,34 @@ export const useAuth = () => {
 
 export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
   const [user, setUser] = useState<User | null>(null);
+  const [accountBan, setAccountBan] = useState<AccountBan | null>(null);
   const [isLoading, setIsLoading] = useState(true);
 
+  // A request found the session revoked and the refresh failed
   useEffect(() => {
-    const token = apiService.getToken();
-    if (token) {
-      apiService.getCurrentUser()
-        .then((response) => {
-          setUser(response.data.user);
-        })
-        .catch(() => {
-          apiService.clearToken();
-        })
-        .finally(() => {
-          setIsLoading(false);
-        });
-    } else {
-      setIsLoading(false);
-    }
+    apiService.onSessionExpired(() => setUser(null));
+    return () => apiService.onSessionExpired(null);
+  }, []);
+
+  // Resume the session from the refresh token cookie, if there is one
+  useEffect(() => {
+    apiService.refreshAccessToken()
+      .then(async (refreshed) => {
+        if (!refreshed) return;
+        const response = await apiService.getCurrentUser();
+        setUser(response.data.user);
+      })
+      .catch(() => {
+        apiService.clearToken();
+      })
+      .finally(() => {
+        setIsLoading(false);
+      });
   }, []);
 
   const login = async (email: string, password: string): Promise<boolean> => {
     setIsLoading(true);
+    setAccountBan(null);
     
     try {
       const response = await apiService.login({ email, password });
@@ -58,6 +67,14 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
       return true;
     } catch (error) {
       console.error('Login failed:', error);
+      if (error instanceof ApiError && error.code === 'ACCOUNT_BANNED') {
+        const ban = error.data?.ban as ApiAccountBan;
+        setAccountBan({
+          reason: ban.reason,
+          bannedBy: ban.bannedBy,
+          bannedAt: ban.bannedAt ? new Date(ban.bannedAt) : null
+        });
+      }
       setIsLoading(false);
       return false;
     }
@@ -84,13 +101,34 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
   const logout = () => {
     setUser(null);
     apiService.clearToken();
+    // The refresh token cookie identifies the session to end
+    apiService.logout().catch((error) => console.error('Logout failed:', error));
   };
 
-  const updateProfile = (data: Partial<User>) => {
-    if (user) {
-      const updatedUser = { ...user, ...data };
+  const updateProfile = async (data: ApiProfileUpdate): Promise<boolean> => {
+    if (!user) return false;
+
+    try {
+      const response = await apiService.updateProfile(data);
+      const updatedUser = { ...user, ...response.data.user };
       setUser(updatedUser);
       localStorage.setItem('currentUser', JSON.stringify(updatedUser));
+      return true;
+    } catch (error) {
+      console.error('Profile update failed:', error);
+      return false;
+    }
+  };
+
+  // Reload the current user, e.g. after they verified their email
+  const refreshUser = async () => {
+    if (!apiService.getToken()) return;
+
+    try {
+      const response = await apiService.getCurrentUser();
+      setUser(response.data.user);
+    } catch (error) {
+      console.error('Refreshing user failed:', error);
     }
   };
 
@@ -98,9 +136,11 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
     <AuthContext.Provider value={{
       user,
       login,
+      accountBan,
       register,
       logout,
       updateProfile,
+      refreshUser,
       isLoading
     }}>
       {children}
@@ -1,31 +1,185 @@
-import React, { createContext, useContext, useState, useEffect } from 'react';
-import { User, SwapRequest, Feedback, Notification, AdminMessage } from '../types';
-import { mockUsers, mockSwapRequests, mockFeedback, mockNotifications, mockAdminMessages } from '../data';
+import React, { createContext, useContext, useState, useEffect, useCallback, useMemo, useRef } from 'react';
+import { User, UserSummary, SwapRequest, SwapOffer, Notification, AdminMessage } from '../types';
 import realtimeService from '../services/realtime';
-import apiService from '../services/api';
+import apiService, {
+  ApiAdminMessage,
+  ApiNotification,
+  ApiSwapOffer,
+  ApiSwapParticipant,
+  ApiSwapProgress,
+  ApiSwapRequest,
+  ApiUser
+} from '../services/api';
+import { usePagedCollection } from '../hooks/usePagedCollection';
 import { useAuth } from './AuthContext';
 
 interface DataContextType {
+  // Public profiles for browsing, loaded a page at a time
   users: User[];
+  hasMoreUsers: boolean;
+  loadMoreUsers: () => Promise<void>;
+  // Any user we know of: browsed profiles, swap partners and (for admins) every account
+  getUser: (id: string) => UserSummary | undefined;
+  // The current user's swaps, newest first
   swapRequests: SwapRequest[];
-  feedback: Feedback[];
+  hasMoreSwapRequests: boolean;
+  loadMoreSwapRequests: () => Promise<void>;
   notifications: Notification[];
+  unreadNotificationCount: number;
+  hasMoreNotifications: boolean;
+  unreadMessageCounts: Record<string, number>;
+  // Admin only; empty for everyone else
+  adminUsers: User[];
+  hasMoreAdminUsers: boolean;
+  loadMoreAdminUsers: () => Promise<void>;
+  adminSwapRequests: SwapRequest[];
   adminMessages: AdminMessage[];
   createSwapRequest: (request: Omit<SwapRequest, 'id' | 'createdAt' | 'updatedAt'>) => Promise<void>;
   updateSwapRequest: (id: string, updates: Partial<SwapRequest>) => Promise<void>;
   acceptSwapRequest: (id: string) => Promise<void>;
   rejectSwapRequest: (id: string) => Promise<void>;
+  counterSwapRequest: (id: string, counter: { skillOffered?: string; skillWanted?: string; hours?: number; message: string }) => Promise<void>;
   completeSwapRequest: (id: string) => Promise<void>;
-  addFeedback: (feedback: Omit<Feedback, 'id' | 'createdAt'>) => void;
-  createAdminMessage: (message: Omit<AdminMessage, 'id' | 'createdAt'>) => void;
-  banUser: (userId: string) => void;
-  unbanUser: (userId: string) => void;
+  confirmSwapCompletion: (id: string) => Promise<void>;
+  disputeSwapCompletion: (id: string, reason: string) => Promise<void>;
+  createAdminMessage: (message: Omit<AdminMessage, 'id' | 'createdAt'>) => Promise<void>;
+  banUser: (userId: string, reason?: string) => Promise<void>;
+  unbanUser: (userId: string) => Promise<void>;
+  blockUser: (userId: string) => Promise<void>;
+  unblockUser: (userId: string) => Promise<void>;
+  loadMoreNotifications: () => Promise<void>;
+  markNotificationAsRead: (id: string) => Promise<void>;
+  markAllNotificationsAsRead: () => Promise<void>;
+  deleteNotification: (id: string) => Promise<void>;
+  markSwapMessagesAsRead: (swapId: string) => Promise<void>;
   isRealtimeConnected: boolean;
   isLoading: boolean;
 }
 
 const DataContext = createContext<DataContextType | undefined>(undefined);
 
+const NOTIFICATIONS_PAGE_SIZE = 20;
+const USERS_PAGE_SIZE = 50;
+const SWAPS_PAGE_SIZE = 50;
+const ADMIN_PAGE_SIZE = 50;
+
+const mapUser = (user: ApiUser): User => ({
+  id: user._id,
+  email: user.email,
+  name: user.name,
+  location: user.location,
+  photo: user.photo ?? undefined,
+  skillsOffered: user.skillsOffered,
+  skillsWanted: user.skillsWanted,
+  offeredSkillDetails: user.offeredSkillDetails,
+  wantedSkillDetails: user.wantedSkillDetails,
+  availability: user.availability,
+  availabilityOverlap: user.availabilityOverlap,
+  // Lists only ever contain public, unbanned users
+  isPublic: user.isPublic ?? true,
+  isAdmin: user.isAdmin ?? false,
+  isBanned: user.isBanned ?? false,
+  ban: user.isBanned ? {
+    reason: user.banReason ?? null,
+    bannedBy: user.bannedBy?.name ?? null,
+    bannedAt: user.bannedAt ? new Date(user.bannedAt) : null
+  } : undefined,
+  emailVerified: user.emailVerified,
+  isOnline: user.isOnline,
+  lastActive: user.lastActive ? new Date(user.lastActive) : undefined,
+  joinedAt: new Date(user.createdAt),
+  rating: user.rating,
+  averageRating: user.averageRating,
+  reviewCount: user.reviewCount
+});
+
+const mapParticipant = (participant: ApiSwapParticipant): UserSummary => ({
+  id: participant._id,
+  name: participant.name,
+  email: participant.email,
+  photo: participant.photo ?? undefined
+});
+
+const participantId = (participant: string | ApiSwapParticipant) =>
+  typeof participant === 'string' ? participant : participant._id;
+
+const mapAdminMessage = (message: ApiAdminMessage): AdminMessage => ({
+  id: message._id,
+  title: message.title,
+  message: message.message,
+  type: message.type,
+  isActive: message.isActive,
+  createdAt: new Date(message.createdAt)
+});
+
+const mapNotification = (notification: ApiNotification): Notification => ({
+  id: notification._id,
+  userId: notification.userId,
+  type: notification.type,
+  title: notification.title,
+  message: notification.message,
+  isRead: notification.isRead,
+  createdAt: new Date(notification.createdAt),
+  relatedId: typeof notification.relatedId === 'object' && notification.relatedId !== null
+    ? notification.relatedId._id
+    : notification.relatedId ?? undefined,
+  relatedModel: notification.relatedModel ?? undefined,
+  metadata: notification.metadata
+});
+
+const mapSwapOffer = (offer: ApiSwapOffer): SwapOffer => ({
+  ...offer,
+  createdAt: new Date(offer.createdAt)
+});
+
+// Apply the status, negotiation, completion and dispute state sent by the API
+// to a swap. The latest offer holds the current terms.
+const applySwapProgress = (request: SwapRequest, progress: ApiSwapProgress): SwapRequest => {
+  const latestOffer = progress.offers?.[progress.offers.length - 1];
+  return {
+    ...request,
+    ...(latestOffer && {
+      skillOffered: latestOffer.skillOffered ?? '',
+      skillWanted: latestOffer.skillWanted,
+      skillOfferedLevel: latestOffer.skillOfferedLevel,
+      skillWantedLevel: latestOffer.skillWantedLevel,
+      hours: latestOffer.hours,
+      message: latestOffer.message
+    }),
+    awaitingResponseFrom: progress.awaitingResponseFrom !== undefined ? progress.awaitingResponseFrom : request.awaitingResponseFrom,
+    offers: progress.offers ? progress.offers.map(mapSwapOffer) : request.offers,
+    expiresAt: progress.expiresAt !== undefined ? (progress.expiresAt ? new Date(progress.expiresAt) : null) : request.expiresAt,
+    status: progress.status,
+    updatedAt: new Date(progress.updatedAt),
+    completedAt: progress.completedAt ? new Date(progress.completedAt) : request.completedAt,
+    completion: progress.completion && {
+      requestedBy: progress.completion.requestedBy,
+      requestedAt: progress.completion.requestedAt ? new Date(progress.completion.requestedAt) : null,
+      autoConfirmed: progress.completion.autoConfirmed
+    },
+    dispute: progress.dispute && {
+      ...progress.dispute,
+      raisedAt: progress.dispute.raisedAt ? new Date(progress.dispute.raisedAt) : null
+    }
+  };
+};
+
+const mapSwapRequest = (swapRequest: ApiSwapRequest): SwapRequest => applySwapProgress({
+  id: swapRequest._id,
+  fromUserId: participantId(swapRequest.fromUserId),
+  toUserId: participantId(swapRequest.toUserId),
+  skillOffered: swapRequest.skillOffered ?? '',
+  skillWanted: swapRequest.skillWanted,
+  skillOfferedLevel: swapRequest.skillOfferedLevel,
+  skillWantedLevel: swapRequest.skillWantedLevel,
+  paymentType: swapRequest.paymentType,
+  hours: swapRequest.hours,
+  message: swapRequest.message,
+  status: swapRequest.status,
+  createdAt: new Date(swapRequest.createdAt),
+  updatedAt: new Date(swapRequest.updatedAt)
+}, swapRequest);
+
 export const useData = () => {
   const context = useContext(DataContext);
   if (context === undefined) {
@@ -36,83 +190,233 @@ export const useData = () => {
 
 export const DataProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
   const { user } = useAuth();
-  const [users, setUsers] = useState<User[]>(mockUsers);
-  const [swapRequests, setSwapRequests] = useState<SwapRequest[]>(mockSwapRequests);
-  const [feedback, setFeedback] = useState<Feedback[]>(mockFeedback);
-  const [notifications, setNotifications] = useState<Notification[]>(mockNotifications);
-  const [adminMessages, setAdminMessages] = useState<AdminMessage[]>(mockAdminMessages);
+  const userId = user?.id ?? null;
+  const adminId = user?.isAdmin ? user.id : null;
+  // Swap partners and other users met outside the browse list, by id
+  const [knownUsers, setKnownUsers] = useState<Record<string, UserSummary>>({});
+  const [unreadNotificationCount, setUnreadNotificationCount] = useState(0);
+  const [unreadMessageCounts, setUnreadMessageCounts] = useState<Record<string, number>>({});
   const [isRealtimeConnected, setIsRealtimeConnected] = useState(false);
   const [isLoading, setIsLoading] = useState(false);
+  // Messages already counted as unread, so a replayed event isn't counted twice
+  const countedMessageIds = useRef(new Set<string>());
+  // Partners whose full profile was already requested
+  const requestedProfiles = useRef(new Set<string>());
+
+  // Keep what swaps tell us about their participants until a full profile is loaded
+  const rememberParticipants = useCallback((requests: ApiSwapRequest[]) => {
+    const participants = requests
+      .flatMap(request => [request.fromUserId, request.toUserId])
+      .filter((participant): participant is ApiSwapParticipant => typeof participant !== 'string');
+    if (participants.length === 0) return;
+
+    setKnownUsers(prev => {
+      const missing = participants.filter(participant => !prev[participant._id]);
+      if (missing.length === 0) return prev;
+      return { ...prev, ...Object.fromEntries(missing.map(participant => [participant._id, mapParticipant(participant)])) };
+    });
+  }, []);
+
+  const userCollection = usePagedCollection(userId, useCallback(async (page: number) => {
+    const response = await apiService.getUsers({ page, limit: USERS_PAGE_SIZE });
+    return { items: response.data.users.map(mapUser), hasNextPage: response.data.pagination.hasNextPage };
+  }, []));
+
+  const swapCollection = usePagedCollection(userId, useCallback(async (page: number) => {
+    const response = await apiService.getSwapRequests({ page, limit: SWAPS_PAGE_SIZE });
+    rememberParticipants(response.data.swapRequests);
+    return { items: response.data.swapRequests.map(mapSwapRequest), hasNextPage: response.data.pagination.hasNextPage };
+  }, [rememberParticipants]));
+
+  const notificationCollection = usePagedCollection(userId, useCallback(async (page: number) => {
+    const response = await apiService.getNotifications({ page, limit: NOTIFICATIONS_PAGE_SIZE });
+    setUnreadNotificationCount(response.data.unreadCount);
+    return { items: response.data.notifications.map(mapNotification), hasNextPage: response.data.pagination.hasNextPage };
+  }, []));
+
+  const adminUserCollection = usePagedCollection(adminId, useCallback(async (page: number) => {
+    const response = await apiService.getAdminUsers({ page, limit: ADMIN_PAGE_SIZE });
+    return { items: response.data.users.map(mapUser), hasNextPage: response.data.pagination.hasNextPage };
+  }, []));
+
+  const adminSwapCollection = usePagedCollection(adminId, useCallback(async (page: number) => {
+    const response = await apiService.getAdminSwaps({ page, limit: ADMIN_PAGE_SIZE });
+    rememberParticipants(response.data.swapRequests);
+    return { items: response.data.swapRequests.map(mapSwapRequest), hasNextPage: response.data.pagination.hasNextPage };
+  }, [rememberParticipants]));
+
+  const adminMessageCollection = usePagedCollection(adminId, useCallback(async (page: number) => {
+    const response = await apiService.getAdminMessages({ page, limit: ADMIN_PAGE_SIZE });
+    return { items: response.data.messages.map(mapAdminMessage), hasNextPage: response.data.pagination.hasNextPage };
+  }, []));
+
+  const users = userCollection.items;
+  const swapRequests = swapCollection.items;
+  const notifications = notificationCollection.items;
+  const adminUsers = adminUserCollection.items;
+
+  const { upsert: upsertSwap, invalidate: invalidateSwaps } = swapCollection;
+  const { update: updateUser, invalidate: invalidateUsers } = userCollection;
+  const { upsert: upsertNotification, invalidate: invalidateNotifications } = notificationCollection;
+  const { invalidate: invalidateAdminUsers } = adminUserCollection;
+  const { invalidate: invalidateAdminSwaps } = adminSwapCollection;
+  const { invalidate: invalidateAdminMessages } = adminMessageCollection;
+
+  // Later sources are more complete and more recent
+  const usersById = useMemo(() => new Map<string, UserSummary>([
+    ...Object.entries(knownUsers),
+    ...adminUsers.map((u): [string, UserSummary] => [u.id, u]),
+    ...users.map((u): [string, UserSummary] => [u.id, u])
+  ]), [knownUsers, adminUsers, users]);
+
+  const getUser = useCallback((id: string) => usersById.get(id), [usersById]);
+
+  const loadUnreadMessageCounts = useCallback(() => {
+    apiService.getUnreadMessageCounts()
+      .then((response) => {
+        setUnreadMessageCounts(response.data.unreadCounts);
+      })
+      .catch((error) => {
+        console.error('Error loading unread message counts:', error);
+      });
+  }, []);
+
+  // Start every user from a clean slate
+  useEffect(() => {
+    setKnownUsers({});
+    setUnreadNotificationCount(0);
+    requestedProfiles.current.clear();
+  }, [userId]);
+
+  // Load unread chat message counts when user is available
+  useEffect(() => {
+    countedMessageIds.current.clear();
+    if (!userId) {
+      setUnreadMessageCounts({});
+      return;
+    }
+
+    loadUnreadMessageCounts();
+  }, [userId, loadUnreadMessageCounts]);
+
+  // Load the full profile of swap partners who aren't in the browse list
+  useEffect(() => {
+    if (!userId) return;
+
+    const browsedIds = new Set(users.map(u => u.id));
+    swapRequests
+      .flatMap(request => [request.fromUserId, request.toUserId])
+      .filter(id => id !== userId && !browsedIds.has(id) && !requestedProfiles.current.has(id))
+      .forEach((id) => {
+        requestedProfiles.current.add(id);
+        apiService.getUser(id)
+          .then((response) => {
+            setKnownUsers(prev => ({ ...prev, [id]: mapUser(response.data.user) }));
+          })
+          .catch(() => {
+            // Private profile: keep the summary from the swap
+          });
+      });
+  }, [userId, users, swapRequests]);
 
   // Initialize real-time connection when user is available
   useEffect(() => {
-    if (user?.id) {
-      realtimeService.connect(user.id);
+    if (userId) {
+      realtimeService.connect();
       setIsRealtimeConnected(realtimeService.getConnectionStatus());
 
-      // Set up real-time event listeners
-      realtimeService.onNewSwapRequest((data) => {
-        const newSwapRequest: SwapRequest = {
-          id: data.swapRequest._id,
-          fromUserId: data.swapRequest.fromUserId._id,
-          toUserId: data.swapRequest.toUserId._id,
-          skillOffered: data.swapRequest.skillOffered,
-          skillWanted: data.swapRequest.skillWanted,
-          message: data.swapRequest.message,
-          status: data.swapRequest.status,
-          createdAt: new Date(data.swapRequest.createdAt),
-          updatedAt: new Date(data.swapRequest.updatedAt),
-          completedAt: data.swapRequest.completedAt ? new Date(data.swapRequest.completedAt) : undefined,
-          feedback: data.swapRequest.feedback
-        };
-
-        setSwapRequests(prev => [newSwapRequest, ...prev]);
-      });
+      // Set up real-time event listeners. Events may be replayed after a
+      // reconnect, so every handler must be safe to apply twice.
+      const unsubscribers = [
+        realtimeService.onNewSwapRequest((data) => {
+          rememberParticipants([data.swapRequest]);
+          upsertSwap(mapSwapRequest(data.swapRequest), () => false);
+        }),
 
-      realtimeService.onSwapRequestUpdated((data) => {
-        setSwapRequests(prev => prev.map(req => {
-          if (req.id === data.swapRequest._id) {
-            return {
-              ...req,
-              status: data.swapRequest.status,
-              updatedAt: new Date(data.swapRequest.updatedAt),
-              completedAt: data.swapRequest.completedAt ? new Date(data.swapRequest.completedAt) : req.completedAt,
-              feedback: data.swapRequest.feedback
-            };
-          }
-          return req;
-        }));
-      });
+        realtimeService.onSwapRequestUpdated((data) => {
+          const updated = mapSwapRequest(data.swapRequest);
+          rememberParticipants([data.swapRequest]);
+          // Skip changes older than what we already show
+          upsertSwap(updated, existing => updated.updatedAt >= new Date(existing.updatedAt));
+        }),
+
+        realtimeService.onNewNotification((data) => {
+          upsertNotification(mapNotification(data.notification));
+          setUnreadNotificationCount(data.unreadCount);
+        }),
+
+        realtimeService.onNewMessage((data) => {
+          if (data.message.recipientId !== userId || countedMessageIds.current.has(data.message._id)) return;
+          countedMessageIds.current.add(data.message._id);
+          setUnreadMessageCounts(prev => ({
+            ...prev,
+            [data.message.swapRequestId]: (prev[data.message.swapRequestId] || 0) + 1
+          }));
+        }),
+
+        realtimeService.onPresenceChanged((data) => {
+          const withPresence = <T extends UserSummary>(u: T): T => ({
+            ...u,
+            isOnline: data.isOnline,
+            lastActive: new Date(data.lastActive)
+          });
+          updateUser(data.userId, withPresence);
+          setKnownUsers(prev => prev[data.userId]
+            ? { ...prev, [data.userId]: withPresence(prev[data.userId]) }
+            : prev);
+        }),
+
+        // Too much was missed to replay; reload from the API
+        realtimeService.onResync(() => {
+          countedMessageIds.current.clear();
+          requestedProfiles.current.clear();
+          invalidateUsers();
+          invalidateSwaps();
+          invalidateNotifications();
+          invalidateAdminUsers();
+          invalidateAdminSwaps();
+          invalidateAdminMessages();
+          loadUnreadMessageCounts();
+        })
+      ];
 
       // Cleanup on unmount
       return () => {
+        unsubscribers.forEach(unsubscribe => unsubscribe());
         realtimeService.disconnect();
         setIsRealtimeConnected(false);
       };
     }
-  }, [user?.id]);
+  }, [
+    userId,
+    rememberParticipants,
+    upsertSwap,
+    updateUser,
+    upsertNotification,
+    invalidateUsers,
+    invalidateSwaps,
+    invalidateNotifications,
+    invalidateAdminUsers,
+    invalidateAdminSwaps,
+    invalidateAdminMessages,
+    loadUnreadMessageCounts
+  ]);
 
   const createSwapRequest = async (request: Omit<SwapRequest, 'id' | 'createdAt' | 'updatedAt'>) => {
     try {
       setIsLoading(true);
       const response = await apiService.createSwapRequest({
         toUserId: request.toUserId,
-        skillOffered: request.skillOffered,
+        skillOffered: request.paymentType === 'credits' ? undefined : request.skillOffered,
         skillWanted: request.skillWanted,
-        message: request.message
-      }) as any;
+        message: request.message,
+        paymentType: request.paymentType,
+        hours: request.hours
+      });
 
       if (response.success) {
-        const newRequest: SwapRequest = {
-          ...request,
-          id: response.data.swapRequest._id,
-          createdAt: new Date(response.data.swapRequest.createdAt),
-          updatedAt: new Date(response.data.swapRequest.updatedAt),
-          status: response.data.swapRequest.status,
-          completedAt: response.data.swapRequest.completedAt ? new Date(response.data.swapRequest.completedAt) : undefined,
-          feedback: response.data.swapRequest.feedback
-        };
-        setSwapRequests(prev => [newRequest, ...prev]);
+        rememberParticipants([response.data.swapRequest]);
+        swapCollection.upsert(mapSwapRequest(response.data.swapRequest));
       }
     } catch (error) {
       console.error('Error creating swap request:', error);
@@ -122,28 +426,22 @@ export const DataProvider: React.FC<{ children: React.ReactNode }> = ({ children
     }
   };
 
+  // Local change only, for fields the API doesn't manage
   const updateSwapRequest = async (id: string, updates: Partial<SwapRequest>) => {
-    setSwapRequests(prev => prev.map(req => 
-      req.id === id ? { ...req, ...updates, updatedAt: new Date() } : req
-    ));
+    swapCollection.update(id, req => ({ ...req, ...updates, updatedAt: new Date() }));
   };
 
   const acceptSwapRequest = async (id: string) => {
     try {
       setIsLoading(true);
-      const response = await apiService.acceptSwapRequest(id) as any;
-      
+      const response = await swapCollection.updateOptimistically(
+        id,
+        req => ({ ...req, status: 'accepted', awaitingResponseFrom: null, updatedAt: new Date() }),
+        () => apiService.acceptSwapRequest(id)
+      );
+
       if (response.success) {
-        setSwapRequests(prev => prev.map(req => {
-          if (req.id === id) {
-            return {
-              ...req,
-              status: 'accepted',
-              updatedAt: new Date()
-            };
-          }
-          return req;
-        }));
+        swapCollection.upsert(mapSwapRequest(response.data.swapRequest));
       }
     } catch (error) {
       console.error('Error accepting swap request:', error);
@@ -156,19 +454,14 @@ export const DataProvider: React.FC<{ children: React.ReactNode }> = ({ children
   const rejectSwapRequest = async (id: string) => {
     try {
       setIsLoading(true);
-      const response = await apiService.rejectSwapRequest(id) as any;
-      
+      const response = await swapCollection.updateOptimistically(
+        id,
+        req => ({ ...req, status: 'rejected', awaitingResponseFrom: null, updatedAt: new Date() }),
+        () => apiService.rejectSwapRequest(id)
+      );
+
       if (response.success) {
-        setSwapRequests(prev => prev.map(req => {
-          if (req.id === id) {
-            return {
-              ...req,
-              status: 'rejected',
-              updatedAt: new Date()
-            };
-          }
-          return req;
-        }));
+        swapCollection.upsert(mapSwapRequest(response.data.swapRequest));
       }
     } catch (error) {
       console.error('Error rejecting swap request:', error);
@@ -178,23 +471,29 @@ export const DataProvider: React.FC<{ children: React.ReactNode }> = ({ children
     }
   };
 
+  const counterSwapRequest = async (id: string, counter: { skillOffered?: string; skillWanted?: string; hours?: number; message: string }) => {
+    try {
+      setIsLoading(true);
+      const response = await apiService.counterSwapRequest(id, counter);
+
+      if (response.success) {
+        swapCollection.update(id, req => applySwapProgress(req, response.data.swapRequest));
+      }
+    } catch (error) {
+      console.error('Error countering swap request:', error);
+      throw error;
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
   const completeSwapRequest = async (id: string) => {
     try {
       setIsLoading(true);
-      const response = await apiService.completeSwapRequest(id) as any;
-      
+      const response = await apiService.completeSwapRequest(id);
+
       if (response.success) {
-        setSwapRequests(prev => prev.map(req => {
-          if (req.id === id) {
-            return {
-              ...req,
-              status: 'completed',
-              updatedAt: new Date(),
-              completedAt: new Date()
-            };
-          }
-          return req;
-        }));
+        swapCollection.update(id, req => applySwapProgress(req, response.data.swapRequest));
       }
     } catch (error) {
       console.error('Error completing swap request:', error);
@@ -204,56 +503,204 @@ export const DataProvider: React.FC<{ children: React.ReactNode }> = ({ children
     }
   };
 
-  const addFeedback = (feedbackData: Omit<Feedback, 'id' | 'createdAt'>) => {
-    const newFeedback: Feedback = {
-      ...feedbackData,
-      id: Date.now().toString(),
-      createdAt: new Date()
-    };
-    setFeedback(prev => [...prev, newFeedback]);
+  const confirmSwapCompletion = async (id: string) => {
+    try {
+      setIsLoading(true);
+      const response = await apiService.confirmSwapCompletion(id);
+
+      if (response.success) {
+        swapCollection.update(id, req => applySwapProgress(req, response.data.swapRequest));
+      }
+    } catch (error) {
+      console.error('Error confirming swap completion:', error);
+      throw error;
+    } finally {
+      setIsLoading(false);
+    }
   };
 
-  const createAdminMessage = (message: Omit<AdminMessage, 'id' | 'createdAt'>) => {
-    const newMessage: AdminMessage = {
-      ...message,
-      id: Date.now().toString(),
-      createdAt: new Date()
-    };
-    setAdminMessages(prev => [...prev, newMessage]);
+  const disputeSwapCompletion = async (id: string, reason: string) => {
+    try {
+      setIsLoading(true);
+      const response = await apiService.disputeSwapCompletion(id, reason);
+
+      if (response.success) {
+        swapCollection.update(id, req => applySwapProgress(req, response.data.swapRequest));
+      }
+    } catch (error) {
+      console.error('Error disputing swap completion:', error);
+      throw error;
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const createAdminMessage = async (message: Omit<AdminMessage, 'id' | 'createdAt'>) => {
+    try {
+      await adminMessageCollection.insertOptimistically(
+        { ...message, id: `pending-${Date.now()}`, createdAt: new Date() },
+        async () => {
+          const response = await apiService.createAdminMessage({
+            title: message.title,
+            message: message.message,
+            type: message.type,
+            isGlobal: true
+          });
+          return mapAdminMessage(response.data.adminMessage);
+        }
+      );
+    } catch (error) {
+      console.error('Error creating admin message:', error);
+      throw error;
+    }
+  };
+
+  const banUser = async (id: string, reason?: string) => {
+    try {
+      const response = await adminUserCollection.updateOptimistically(
+        id,
+        u => ({ ...u, isBanned: true }),
+        () => apiService.banUser(id, reason)
+      );
+      // The saved user includes the ban reason and acting admin
+      adminUserCollection.update(id, () => mapUser(response.data.user));
+      // Banned users are hidden from browsing
+      userCollection.remove(id);
+    } catch (error) {
+      console.error('Error banning user:', error);
+      throw error;
+    }
   };
 
-  const banUser = (userId: string) => {
-    setUsers(prev => prev.map(user => 
-      user.id === userId ? { ...user, isBanned: true } : user
-    ));
+  const unbanUser = async (id: string) => {
+    try {
+      await adminUserCollection.updateOptimistically(
+        id,
+        u => ({ ...u, isBanned: false, ban: undefined }),
+        () => apiService.unbanUser(id)
+      );
+      userCollection.invalidate();
+    } catch (error) {
+      console.error('Error unbanning user:', error);
+      throw error;
+    }
   };
 
-  const unbanUser = (userId: string) => {
-    setUsers(prev => prev.map(user => 
-      user.id === userId ? { ...user, isBanned: false } : user
-    ));
+  const blockUser = async (id: string) => {
+    try {
+      await apiService.blockUser(id);
+      // Blocked users are hidden from browsing
+      userCollection.remove(id);
+    } catch (error) {
+      console.error('Error blocking user:', error);
+      throw error;
+    }
+  };
+
+  const unblockUser = async (id: string) => {
+    try {
+      await apiService.unblockUser(id);
+      userCollection.invalidate();
+    } catch (error) {
+      console.error('Error unblocking user:', error);
+      throw error;
+    }
+  };
+
+  const loadMoreNotifications = async () => {
+    try {
+      await notificationCollection.loadMore();
+    } catch (error) {
+      console.error('Error loading notifications:', error);
+      throw error;
+    }
+  };
+
+  const markNotificationAsRead = async (id: string) => {
+    try {
+      const response = await notificationCollection.updateOptimistically(
+        id,
+        n => ({ ...n, isRead: true }),
+        () => apiService.markNotificationAsRead(id)
+      );
+      setUnreadNotificationCount(response.data.unreadCount);
+    } catch (error) {
+      console.error('Error marking notification as read:', error);
+      throw error;
+    }
+  };
+
+  const markAllNotificationsAsRead = async () => {
+    try {
+      await apiService.markAllNotificationsAsRead();
+      notificationCollection.updateAll(n => ({ ...n, isRead: true }));
+      setUnreadNotificationCount(0);
+    } catch (error) {
+      console.error('Error marking all notifications as read:', error);
+      throw error;
+    }
+  };
+
+  const deleteNotification = async (id: string) => {
+    try {
+      const response = await notificationCollection.removeOptimistically(id, () => apiService.deleteNotification(id));
+      setUnreadNotificationCount(response.data.unreadCount);
+    } catch (error) {
+      console.error('Error deleting notification:', error);
+      throw error;
+    }
+  };
+
+  const markSwapMessagesAsRead = async (swapId: string) => {
+    try {
+      await apiService.markSwapMessagesAsRead(swapId);
+      setUnreadMessageCounts(prev => ({ ...prev, [swapId]: 0 }));
+    } catch (error) {
+      console.error('Error marking messages as read:', error);
+      throw error;
+    }
   };
 
   return (
     <DataContext.Provider value={{
       users,
+      hasMoreUsers: userCollection.hasMore,
+      loadMoreUsers: userCollection.loadMore,
+      getUser,
       swapRequests,
-      feedback,
+      hasMoreSwapRequests: swapCollection.hasMore,
+      loadMoreSwapRequests: swapCollection.loadMore,
       notifications,
-      adminMessages,
+      unreadNotificationCount,
+      hasMoreNotifications: notificationCollection.hasMore,
+      unreadMessageCounts,
+      adminUsers,
+      hasMoreAdminUsers: adminUserCollection.hasMore,
+      loadMoreAdminUsers: adminUserCollection.loadMore,
+      adminSwapRequests: adminSwapCollection.items,
+      adminMessages: adminMessageCollection.items,
       createSwapRequest,
       updateSwapRequest,
       acceptSwapRequest,
       rejectSwapRequest,
+      counterSwapRequest,
       completeSwapRequest,
-      addFeedback,
+      confirmSwapCompletion,
+      disputeSwapCompletion,
       createAdminMessage,
       banUser,
       unbanUser,
+      blockUser,
+      unblockUser,
+      loadMoreNotifications,
+      markNotificationAsRead,
+      markAllNotificationsAsRead,
+      deleteNotification,
+      markSwapMessagesAsRead,
       isRealtimeConnected,
       isLoading
     }}>
       {children}
     </DataContext.Provider>
   );
-};
\ No newline at end of file
+};
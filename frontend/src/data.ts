@@ -1,4 +1,6 @@
-import { User, SwapRequest, Feedback, Notification, AdminMessage } from './types';
+// Fixture data for tests and storybook stories. The app itself loads
+// everything from the API (see contexts/DataContext.tsx).
+import { User, SwapRequest, Review, Notification, AdminMessage } from './types';
 
 export const mockUsers: User[] = [
   {
@@ -9,12 +11,16 @@ export const mockUsers: User[] = [
     photo: 'https://images.pexels.com/photos/2379004/pexels-photo-2379004.jpeg?auto=compress&cs=tinysrgb&w=150',
     skillsOffered: ['JavaScript', 'Python'],
     skillsWanted: ['Photoshop', 'Graphic Design'],
-    availability: 'evenings',
+    availability: {
+      timezone: 'America/Los_Angeles',
+      slots: [1, 2, 3, 4, 5].map(day => ({ day, start: '18:00', end: '21:00' }))
+    },
     isPublic: true,
     isAdmin: false,
     isBanned: false,
     joinedAt: new Date('2024-01-15'),
     rating: 3.9,
+    averageRating: 3.9,
     reviewCount: 12
   },
   {
@@ -25,12 +31,16 @@ export const mockUsers: User[] = [
     photo: 'https://images.pexels.com/photos/1239291/pexels-photo-1239291.jpeg?auto=compress&cs=tinysrgb&w=150',
     skillsOffered: ['Project Management', 'Leadership'],
     skillsWanted: ['Digital Marketing', 'SEO'],
-    availability: 'flexible',
+    availability: {
+      timezone: 'America/New_York',
+      slots: [0, 1, 2, 3, 4, 5, 6].map(day => ({ day, start: '08:00', end: '22:00' }))
+    },
     isPublic: true,
     isAdmin: true,
     isBanned: false,
     joinedAt: new Date('2023-12-01'),
     rating: 4.9,
+    averageRating: 4.9,
     reviewCount: 25
   },
   {
@@ -41,12 +51,16 @@ export const mockUsers: User[] = [
     photo: 'https://images.pexels.com/photos/1181686/pexels-photo-1181686.jpeg?auto=compress&cs=tinysrgb&w=150',
     skillsOffered: ['JavaScript', 'Python'],
     skillsWanted: ['Photoshop', 'Graphic Design'],
-    availability: 'weekends',
+    availability: {
+      timezone: 'America/Chicago',
+      slots: [0, 6].map(day => ({ day, start: '10:00', end: '16:00' }))
+    },
     isPublic: true,
     isAdmin: false,
     isBanned: false,
     joinedAt: new Date('2024-02-10'),
     rating: 2.5,
+    averageRating: 2.5,
     reviewCount: 8
   },
   {
@@ -57,12 +71,16 @@ export const mockUsers: User[] = [
     photo: 'https://images.pexels.com/photos/1222271/pexels-photo-1222271.jpeg?auto=compress&cs=tinysrgb&w=150',
     skillsOffered: ['JavaScript', 'Python'],
     skillsWanted: ['Photoshop', 'Graphic Design'],
-    availability: 'weekdays',
+    availability: {
+      timezone: 'America/Los_Angeles',
+      slots: [1, 2, 3, 4, 5].map(day => ({ day, start: '09:00', end: '17:00' }))
+    },
     isPublic: true,
     isAdmin: false,
     isBanned: false,
     joinedAt: new Date('2024-01-20'),
     rating: 4.0,
+    averageRating: 4.0,
     reviewCount: 15
   }
 ];
@@ -81,6 +99,6 @@ export const mockSwapRequests: SwapRequest[] = [
   }
 ];
 
-export const mockFeedback: Feedback[] = [];
+export const mockReviews: Review[] = [];
 export const mockNotifications: Notification[] = [];
 export const mockAdminMessages: AdminMessage[] = [];
\ No newline at end of file
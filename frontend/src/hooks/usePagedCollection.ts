@@ -0,0 +1,192 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+
+// One page of a list as returned by the API
+export interface Page<T> {
+  items: T[];
+  hasNextPage: boolean;
+}
+
+interface CollectionState<T> {
+  items: T[];
+  // Pages loaded so far
+  page: number;
+  hasMore: boolean;
+  loadedAt: number | null;
+}
+
+// Cached lists older than this are reloaded when the window regains focus
+const STALE_AFTER_MS = 5 * 60 * 1000;
+
+const emptyState = <T>(): CollectionState<T> => ({ items: [], page: 0, hasMore: false, loadedAt: null });
+
+// A list loaded from the API page by page and cached for as long as `cacheKey`
+// stays the same (e.g. the logged-in user's id; null clears and disables it).
+// Changes made with the *Optimistically helpers show up at once and are
+// rolled back if the request fails.
+export const usePagedCollection = <T extends { id: string }>(
+  cacheKey: string | null,
+  fetchPage: (page: number) => Promise<Page<T>>
+) => {
+  const [state, setState] = useState<CollectionState<T>>(emptyState);
+  const [isLoading, setIsLoading] = useState(false);
+  // Mirrors `state` so updates and rollbacks always start from the latest items
+  const stateRef = useRef(state);
+  const fetchPageRef = useRef(fetchPage);
+  // Bumped on every reload/reset so responses for an older load are dropped
+  const generation = useRef(0);
+
+  fetchPageRef.current = fetchPage;
+
+  const commit = useCallback((change: (current: CollectionState<T>) => CollectionState<T>) => {
+    stateRef.current = change(stateRef.current);
+    setState(stateRef.current);
+  }, []);
+
+  const reload = useCallback(async () => {
+    const current = ++generation.current;
+    setIsLoading(true);
+    try {
+      const { items, hasNextPage } = await fetchPageRef.current(1);
+      if (current !== generation.current) return;
+      commit(() => ({ items, page: 1, hasMore: hasNextPage, loadedAt: Date.now() }));
+    } finally {
+      if (current === generation.current) setIsLoading(false);
+    }
+  }, [commit]);
+
+  const loadMore = useCallback(async () => {
+    const { page, hasMore } = stateRef.current;
+    if (!hasMore) return;
+
+    const current = generation.current;
+    setIsLoading(true);
+    try {
+      const { items, hasNextPage } = await fetchPageRef.current(page + 1);
+      if (current !== generation.current) return;
+      // Items added in the meantime shift pages, so skip ones already shown
+      commit(s => ({
+        ...s,
+        items: [...s.items, ...items.filter(item => !s.items.some(existing => existing.id === item.id))],
+        page: page + 1,
+        hasMore: hasNextPage
+      }));
+    } finally {
+      if (current === generation.current) setIsLoading(false);
+    }
+  }, [commit]);
+
+  // Drop the cache and load the first page again (when enabled)
+  const invalidate = useCallback(() => {
+    if (!cacheKey) return;
+    reload().catch((error) => {
+      console.error('Error reloading data:', error);
+    });
+  }, [cacheKey, reload]);
+
+  useEffect(() => {
+    generation.current++;
+    commit(emptyState);
+    setIsLoading(false);
+    invalidate();
+  }, [invalidate, commit]);
+
+  useEffect(() => {
+    if (!cacheKey) return;
+
+    const reloadIfStale = () => {
+      const { loadedAt } = stateRef.current;
+      if (document.visibilityState === 'visible' && loadedAt !== null && Date.now() - loadedAt > STALE_AFTER_MS) {
+        invalidate();
+      }
+    };
+
+    document.addEventListener('visibilitychange', reloadIfStale);
+    return () => document.removeEventListener('visibilitychange', reloadIfStale);
+  }, [cacheKey, invalidate]);
+
+  // Add an item, or replace the cached one unless `shouldReplace` says it's stale
+  const upsert = useCallback((item: T, shouldReplace: (existing: T) => boolean = () => true) => {
+    commit(s => {
+      const existing = s.items.find(i => i.id === item.id);
+      if (!existing) return { ...s, items: [item, ...s.items] };
+      if (!shouldReplace(existing)) return s;
+      return { ...s, items: s.items.map(i => i.id === item.id ? item : i) };
+    });
+  }, [commit]);
+
+  const update = useCallback((id: string, change: (item: T) => T) => {
+    commit(s => ({ ...s, items: s.items.map(item => item.id === id ? change(item) : item) }));
+  }, [commit]);
+
+  const updateAll = useCallback((change: (item: T) => T) => {
+    commit(s => ({ ...s, items: s.items.map(change) }));
+  }, [commit]);
+
+  const remove = useCallback((id: string) => {
+    commit(s => ({ ...s, items: s.items.filter(item => item.id !== id) }));
+  }, [commit]);
+
+  const updateOptimistically = useCallback(async <R>(id: string, change: (item: T) => T, request: () => Promise<R>): Promise<R> => {
+    const previous = stateRef.current.items.find(item => item.id === id);
+    if (!previous) return request();
+
+    const optimistic = change(previous);
+    commit(s => ({ ...s, items: s.items.map(item => item === previous ? optimistic : item) }));
+    try {
+      return await request();
+    } catch (error) {
+      // Restore the old version unless something newer replaced ours meanwhile
+      commit(s => ({ ...s, items: s.items.map(item => item === optimistic ? previous : item) }));
+      throw error;
+    }
+  }, [commit]);
+
+  // Show `placeholder` until the request returns the saved item
+  const insertOptimistically = useCallback(async (placeholder: T, request: () => Promise<T>): Promise<T> => {
+    commit(s => ({ ...s, items: [placeholder, ...s.items] }));
+    try {
+      const saved = await request();
+      commit(s => ({
+        ...s,
+        items: s.items
+          .filter(item => item.id !== saved.id)
+          .map(item => item === placeholder ? saved : item)
+      }));
+      return saved;
+    } catch (error) {
+      commit(s => ({ ...s, items: s.items.filter(item => item !== placeholder) }));
+      throw error;
+    }
+  }, [commit]);
+
+  const removeOptimistically = useCallback(async <R>(id: string, request: () => Promise<R>): Promise<R> => {
+    const index = stateRef.current.items.findIndex(item => item.id === id);
+    if (index === -1) return request();
+
+    const removed = stateRef.current.items[index];
+    commit(s => ({ ...s, items: s.items.filter(item => item !== removed) }));
+    try {
+      return await request();
+    } catch (error) {
+      commit(s => s.items.some(item => item.id === id)
+        ? s
+        : { ...s, items: [...s.items.slice(0, index), removed, ...s.items.slice(index)] });
+      throw error;
+    }
+  }, [commit]);
+
+  return {
+    items: state.items,
+    hasMore: state.hasMore,
+    isLoading,
+    loadMore,
+    invalidate,
+    upsert,
+    update,
+    updateAll,
+    remove,
+    updateOptimistically,
+    insertOptimistically,
+    removeOptimistically
+  };
+};
@@ -8,15 +8,28 @@ import {
   Send,
   Shield,
   BarChart3,
-  AlertTriangle
+  AlertTriangle,
+  Star,
+  Flag
 } from 'lucide-react';
 import { useAuth } from '../contexts/AuthContext';
 import { useData } from '../contexts/DataContext';
+import DisputeQueue from '../components/DisputeQueue';
+import ReviewModeration from '../components/ReviewModeration';
+import ReportQueue from '../components/ReportQueue';
 
 const AdminPanel: React.FC = () => {
   const { user } = useAuth();
-  const { users, swapRequests, adminMessages, createAdminMessage, banUser, unbanUser } = useData();
-  const [activeTab, setActiveTab] = useState<'users' | 'swaps' | 'messages' | 'stats'>('users');
+  const {
+    adminUsers: users,
+    adminSwapRequests: swapRequests,
+    adminMessages,
+    getUser,
+    createAdminMessage,
+    banUser,
+    unbanUser
+  } = useData();
+  const [activeTab, setActiveTab] = useState<'users' | 'swaps' | 'disputes' | 'reports' | 'reviews' | 'messages' | 'stats'>('users');
   const [messageForm, setMessageForm] = useState({
     title: '',
     message: '',
@@ -36,13 +49,31 @@ const AdminPanel: React.FC = () => {
     );
   }
 
-  const handleSendMessage = () => {
+  const handleSendMessage = async () => {
     if (messageForm.title && messageForm.message) {
-      createAdminMessage({
-        ...messageForm,
-        isActive: true,
-      });
-      setMessageForm({ title: '', message: '', type: 'info' });
+      try {
+        await createAdminMessage({
+          ...messageForm,
+          isActive: true,
+        });
+        setMessageForm({ title: '', message: '', type: 'info' });
+      } catch (error) {
+        console.error('Error sending message:', error);
+        alert('Failed to send message. Please try again.');
+      }
+    }
+  };
+
+  const handleBanToggle = async (targetId: string, isBanned: boolean) => {
+    // The reason is shown to the user when they try to log in
+    const reason = isBanned ? null : window.prompt('Reason for the ban (shown to the user):');
+    if (!isBanned && reason === null) return;
+
+    try {
+      await (isBanned ? unbanUser(targetId) : banUser(targetId, reason?.trim() || undefined));
+    } catch (error) {
+      console.error('Error updating user:', error);
+      alert(`Failed to ${isBanned ? 'unban' : 'ban'} user. Please try again.`);
     }
   };
 
@@ -56,6 +87,7 @@ const AdminPanel: React.FC = () => {
         skillsOffered: u.skillsOffered,
         skillsWanted: u.skillsWanted,
         rating: u.rating,
+        averageRating: u.averageRating,
         reviewCount: u.reviewCount,
         joinedAt: u.joinedAt,
         isBanned: u.isBanned,
@@ -78,17 +110,21 @@ const AdminPanel: React.FC = () => {
   const tabs = [
     { id: 'users', label: 'Users', icon: Users },
     { id: 'swaps', label: 'Swaps', icon: MessageSquare },
+    { id: 'disputes', label: 'Disputes', icon: AlertTriangle },
+    { id: 'reports', label: 'Reports', icon: Flag },
+    { id: 'reviews', label: 'Reviews', icon: Star },
     { id: 'messages', label: 'Messages', icon: Send },
     { id: 'stats', label: 'Statistics', icon: BarChart3 },
   ];
 
   const stats = {
     totalUsers: users.length,
-    activeUsers: users.filter(u => u.availability === 'available').length,
+    activeUsers: users.filter(u => !u.isBanned && u.availability.slots.length > 0).length,
     bannedUsers: users.filter(u => u.isBanned).length,
     totalSwaps: swapRequests.length,
     pendingSwaps: swapRequests.filter(s => s.status === 'pending').length,
     completedSwaps: swapRequests.filter(s => s.status === 'completed').length,
+    reviewedUsers: users.filter(u => u.reviewCount > 0),
   };
 
   return (
@@ -205,23 +241,29 @@ const AdminPanel: React.FC = () => {
                       <td className="py-3 px-4">
                         <span className={`px-2 py-1 rounded-full text-xs font-medium ${
                           u.isBanned ? 'text-red-600 bg-red-100' :
-                          u.availability === 'available' ? 'text-green-600 bg-green-100' :
-                          u.availability === 'busy' ? 'text-yellow-600 bg-yellow-100' :
-                          'text-red-600 bg-red-100'
+                          u.availability.slots.length > 0 ? 'text-green-600 bg-green-100' :
+                          'text-yellow-600 bg-yellow-100'
                         }`}>
-                          {u.isBanned ? 'Banned' : u.availability}
+                          {u.isBanned ? 'Banned' : u.availability.slots.length > 0 ? 'Available' : 'No availability'}
                         </span>
+                        {u.ban && (
+                          <div className="text-xs text-gray-500 mt-1">
+                            {u.ban.bannedBy && `By ${u.ban.bannedBy}`}
+                            {u.ban.bannedAt && ` on ${u.ban.bannedAt.toLocaleDateString()}`}
+                            {u.ban.reason && `: "${u.ban.reason}"`}
+                          </div>
+                        )}
                       </td>
                       <td className="py-3 px-4">
                         <div className="flex items-center space-x-1">
-                          <span className="text-gray-900">{u.rating}</span>
+                          <span className="text-gray-900">{u.averageRating}</span>
                           <span className="text-gray-500">({u.reviewCount})</span>
                         </div>
                       </td>
                       <td className="py-3 px-4">
                         {u.isBanned ? (
                           <button
-                            onClick={() => unbanUser(u.id)}
+                            onClick={() => handleBanToggle(u.id, true)}
                             className="flex items-center space-x-1 text-green-600 hover:text-green-700 font-medium"
                           >
                             <CheckCircle className="w-4 h-4" />
@@ -229,7 +271,7 @@ const AdminPanel: React.FC = () => {
                           </button>
                         ) : (
                           <button
-                            onClick={() => banUser(u.id)}
+                            onClick={() => handleBanToggle(u.id, false)}
                             className="flex items-center space-x-1 text-red-600 hover:text-red-700 font-medium"
                           >
                             <Ban className="w-4 h-4" />
@@ -252,8 +294,8 @@ const AdminPanel: React.FC = () => {
 
             <div className="space-y-4">
               {swapRequests.map((swap) => {
-                const fromUser = users.find(u => u.id === swap.fromUserId);
-                const toUser = users.find(u => u.id === swap.toUserId);
+                const fromUser = getUser(swap.fromUserId);
+                const toUser = getUser(swap.toUserId);
 
                 return (
                   <div key={swap.id} className="border border-gray-200 rounded-lg p-4">
@@ -267,6 +309,9 @@ const AdminPanel: React.FC = () => {
                         swap.status === 'pending' ? 'text-yellow-600 bg-yellow-100' :
                         swap.status === 'accepted' ? 'text-green-600 bg-green-100' :
                         swap.status === 'completed' ? 'text-blue-600 bg-blue-100' :
+                        swap.status === 'completion_pending' ? 'text-teal-600 bg-teal-100' :
+                        swap.status === 'disputed' ? 'text-orange-600 bg-orange-100' :
+                        swap.status === 'expired' ? 'text-gray-600 bg-gray-100' :
                         'text-red-600 bg-red-100'
                       }`}>
                         {swap.status}
@@ -285,6 +330,30 @@ const AdminPanel: React.FC = () => {
           </div>
         )}
 
+        {/* Disputes Tab */}
+        {activeTab === 'disputes' && (
+          <div className="p-6">
+            <h2 className="text-xl font-bold text-gray-900 mb-6">Disputed Completions</h2>
+            <DisputeQueue />
+          </div>
+        )}
+
+        {/* Reports Tab */}
+        {activeTab === 'reports' && (
+          <div className="p-6">
+            <h2 className="text-xl font-bold text-gray-900 mb-6">Reports</h2>
+            <ReportQueue />
+          </div>
+        )}
+
+        {/* Reviews Tab */}
+        {activeTab === 'reviews' && (
+          <div className="p-6">
+            <h2 className="text-xl font-bold text-gray-900 mb-6">Hidden Reviews</h2>
+            <ReviewModeration />
+          </div>
+        )}
+
         {/* Messages Tab */}
         {activeTab === 'messages' && (
           <div className="p-6">
@@ -426,7 +495,11 @@ const AdminPanel: React.FC = () => {
                   </div>
                   <div className="flex justify-between">
                     <span className="text-gray-600">Avg. Rating:</span>
-                    <span className="font-semibold">4.7</span>
+                    <span className="font-semibold">
+                      {stats.reviewedUsers.length > 0
+                        ? (stats.reviewedUsers.reduce((sum, u) => sum + u.averageRating, 0) / stats.reviewedUsers.length).toFixed(1)
+                        : '–'}
+                    </span>
                   </div>
                   <div className="flex justify-between">
                     <span className="text-gray-600">Active Messages:</span>
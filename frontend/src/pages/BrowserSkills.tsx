@@ -1,28 +1,87 @@
-import React, { useState, useMemo } from 'react';
+import React, { useState, useMemo, useEffect } from 'react';
 import { ChevronDown, ChevronLeft, ChevronRight, Wifi, WifiOff } from 'lucide-react';
 import { useAuth } from '../contexts/AuthContext';
 import { useData } from '../contexts/DataContext';
-import { User } from '../types';
+import RecommendedMatches from '../components/RecommendedMatches';
+import UserReviews from '../components/UserReviews';
+import ReportForm from '../components/ReportForm';
+import apiService from '../services/api';
+import { Availability, PaymentType, SkillLevel, SkillMatch, User } from '../types';
+import { formatCredits, formatSwapSkills } from '../utils/credits';
+import { DAY_LABELS, formatAvailability, formatOverlap, getBrowserTimeZone, getOverlapMinutes } from '../utils/availability';
+import { formatLastActive, isActiveWithin } from '../utils/presence';
+import {
+  SKILL_LEVELS,
+  formatLevel,
+  formatOfferedSkill,
+  formatWantedSkill,
+  getLevelRank,
+  getOfferedSkills,
+  getWantedSkills
+} from '../utils/skillLevels';
 
 const ITEMS_PER_PAGE = 3;
 
+// Activity filter: 'any', 'online' or a number of days
+const ACTIVITY_OPTIONS = [
+  { value: 'any', label: 'Any activity' },
+  { value: 'online', label: 'Online now' },
+  { value: '1', label: 'Active today' },
+  { value: '7', label: 'Active this week' },
+  { value: '30', label: 'Active this month' }
+];
+
+const EMPTY_SWAP_FORM = {
+  skillOffered: '',
+  skillWanted: '',
+  message: '',
+  paymentType: 'swap' as PaymentType,
+  hours: 1
+};
+
 const BrowseSkills: React.FC = () => {
   const { user } = useAuth();
-  const { users, createSwapRequest, swapRequests, isRealtimeConnected, isLoading } = useData();
+  const { users, hasMoreUsers, loadMoreUsers, getUser, createSwapRequest, blockUser, swapRequests, isRealtimeConnected, isLoading } = useData();
   
   const [searchQuery, setSearchQuery] = useState('');
   const [availability, setAvailability] = useState('all');
+  // Minimum level the user must teach a (searched) skill at
+  const [minLevel, setMinLevel] = useState<SkillLevel | ''>('');
+  const [activity, setActivity] = useState('any');
   const [currentPage, setCurrentPage] = useState(1);
   const [selectedUser, setSelectedUser] = useState<User | null>(null);
+  const [openReviewsId, setOpenReviewsId] = useState<string | null>(null);
+  const [openReportId, setOpenReportId] = useState<string | null>(null);
   const [showSwapModal, setShowSwapModal] = useState(false);
-  const [swapForm, setSwapForm] = useState({
-    skillOffered: '',
-    skillWanted: '',
-    message: ''
-  });
+  const [swapForm, setSwapForm] = useState(EMPTY_SWAP_FORM);
+  const [creditBalance, setCreditBalance] = useState<number | null>(null);
+
+  const payWithCredits = swapForm.paymentType === 'credits';
+
+  // Refresh the ByteBucks balance whenever the request modal opens
+  useEffect(() => {
+    if (!showSwapModal) return;
+    apiService.getCreditBalance()
+      .then((response) => {
+        setCreditBalance(response.data.balance);
+      })
+      .catch((err) => {
+        console.error('Error loading ByteBucks balance:', err);
+      });
+  }, [showSwapModal]);
+
+  // Weekly window other users must share: my own availability, or a whole day in my timezone
+  const requestedAvailability = useMemo((): Availability | null => {
+    if (availability === 'all') return null;
+    if (availability === 'overlap') return user?.availability ?? null;
+    return {
+      timezone: getBrowserTimeZone(),
+      slots: [{ day: Number(availability), start: '00:00', end: '24:00' }]
+    };
+  }, [availability, user?.availability]);
 
   const filteredUsers = useMemo(() => {
-    return users.filter(u => {
+    const matching = users.filter(u => {
       if (u.id === user?.id || !u.isPublic || u.isBanned) return false;
       
       const matchesSearch = !searchQuery || 
@@ -30,11 +89,25 @@ const BrowseSkills: React.FC = () => {
         u.skillsOffered.some(s => s.toLowerCase().includes(searchQuery.toLowerCase())) ||
         u.skillsWanted.some(s => s.toLowerCase().includes(searchQuery.toLowerCase()));
 
-      const matchesAvailability = availability === 'all' || u.availability === availability;
+      const matchesLevel = !minLevel || getOfferedSkills(u).some(skill =>
+        getLevelRank(skill.level) >= getLevelRank(minLevel) &&
+        (!searchQuery || skill.name.toLowerCase().includes(searchQuery.toLowerCase()))
+      );
+
+      const matchesActivity = activity === 'any' ||
+        (activity === 'online' ? Boolean(u.isOnline) : isActiveWithin(u, Number(activity)));
 
-      return matchesSearch && matchesAvailability;
+      return matchesSearch && matchesLevel && matchesActivity;
     });
-  }, [users, user?.id, searchQuery, availability]);
+
+    if (!requestedAvailability) return matching;
+
+    // Rank by shared free time, most overlap first
+    return matching
+      .map(u => ({ ...u, availabilityOverlap: getOverlapMinutes(u.availability, requestedAvailability) }))
+      .filter(u => u.availabilityOverlap > 0)
+      .sort((a, b) => b.availabilityOverlap - a.availabilityOverlap || b.rating - a.rating);
+  }, [users, user?.id, searchQuery, minLevel, activity, requestedAvailability]);
 
   // Get user's swap requests
   const userSwapRequests = useMemo(() => {
@@ -53,21 +126,30 @@ const BrowseSkills: React.FC = () => {
     setShowSwapModal(true);
   };
 
+  // Start a request from a recommendation, offering a skill they want to learn
+  const handleRequestMatch = (match: SkillMatch) => {
+    setSelectedUser(match.user);
+    setSwapForm(prev => ({ ...prev, skillOffered: match.explanation.theyWant[0] ?? '' }));
+    setShowSwapModal(true);
+  };
+
   const handleSubmitSwap = async () => {
-    if (!user || !selectedUser || !swapForm.skillOffered || !swapForm.skillWanted) return;
+    if (!user || !selectedUser || (!payWithCredits && !swapForm.skillOffered) || !swapForm.skillWanted) return;
 
     try {
       await createSwapRequest({
         fromUserId: user.id,
         toUserId: selectedUser.id,
-        skillOffered: swapForm.skillOffered,
+        skillOffered: payWithCredits ? '' : swapForm.skillOffered,
         skillWanted: swapForm.skillWanted,
         message: swapForm.message,
+        paymentType: swapForm.paymentType,
+        hours: swapForm.hours,
         status: 'pending'
       });
 
       setShowSwapModal(false);
-      setSwapForm({ skillOffered: '', skillWanted: '', message: '' });
+      setSwapForm(EMPTY_SWAP_FORM);
       setSelectedUser(null);
     } catch (error) {
       console.error('Error creating swap request:', error);
@@ -75,6 +157,15 @@ const BrowseSkills: React.FC = () => {
     }
   };
 
+  const handleBlock = async (targetUser: User) => {
+    try {
+      await blockUser(targetUser.id);
+    } catch (error) {
+      console.error('Error blocking user:', error);
+      alert('Failed to block user. Please try again.');
+    }
+  };
+
   const getStatusColor = (status: string) => {
     switch (status) {
       case 'pending': return 'text-yellow-400';
@@ -82,6 +173,7 @@ const BrowseSkills: React.FC = () => {
       case 'rejected': return 'text-red-400';
       case 'completed': return 'text-blue-400';
       case 'cancelled': return 'text-gray-400';
+      case 'expired': return 'text-gray-400';
       default: return 'text-white';
     }
   };
@@ -117,7 +209,7 @@ const BrowseSkills: React.FC = () => {
                         {request.status.toUpperCase()}
                       </span>
                       <p className="text-sm text-gray-300 mt-1">
-                        {request.skillOffered} ↔ {request.skillWanted}
+                        {formatSwapSkills(request)}
                       </p>
                       <p className="text-xs text-gray-400 mt-1">
                         {new Date(request.createdAt).toLocaleDateString()}
@@ -128,7 +220,7 @@ const BrowseSkills: React.FC = () => {
                         {request.fromUserId === user?.id ? 'Sent to' : 'Received from'}
                       </p>
                       <p className="text-xs text-gray-300">
-                        {users.find(u => u.id === (request.fromUserId === user?.id ? request.toUserId : request.fromUserId))?.name}
+                        {getUser(request.fromUserId === user?.id ? request.toUserId : request.fromUserId)?.name}
                       </p>
                     </div>
                   </div>
@@ -138,19 +230,57 @@ const BrowseSkills: React.FC = () => {
           </div>
         )}
 
+        {user && <RecommendedMatches userId={user.id} onRequest={handleRequestMatch} />}
+
         {/* Search and Filter */}
         <div className="flex justify-center items-center space-x-6 mb-12">
           <div className="relative">
             <select
               value={availability}
-              onChange={(e) => setAvailability(e.target.value)}
+              onChange={(e) => {
+                setAvailability(e.target.value);
+                setCurrentPage(1);
+              }}
               className="bg-transparent border-2 border-white rounded-lg px-6 py-3 pr-12 text-lg appearance-none focus:outline-none focus:border-blue-400"
             >
               <option value="all" className="bg-black">Availability</option>
-              <option value="weekdays" className="bg-black">Weekdays</option>
-              <option value="weekends" className="bg-black">Weekends</option>
-              <option value="evenings" className="bg-black">Evenings</option>
-              <option value="flexible" className="bg-black">Flexible</option>
+              <option value="overlap" className="bg-black">Free when I am</option>
+              {DAY_LABELS.map((label, day) => (
+                <option key={label} value={day} className="bg-black">Free on {label}</option>
+              ))}
+            </select>
+            <ChevronDown className="absolute right-3 top-1/2 transform -translate-y-1/2 w-5 h-5 pointer-events-none" />
+          </div>
+
+          <div className="relative">
+            <select
+              value={minLevel}
+              onChange={(e) => {
+                setMinLevel(e.target.value as SkillLevel | '');
+                setCurrentPage(1);
+              }}
+              className="bg-transparent border-2 border-white rounded-lg px-6 py-3 pr-12 text-lg appearance-none focus:outline-none focus:border-blue-400"
+            >
+              <option value="" className="bg-black">Any level</option>
+              {SKILL_LEVELS.map((level) => (
+                <option key={level} value={level} className="bg-black">{formatLevel(level)} or above</option>
+              ))}
+            </select>
+            <ChevronDown className="absolute right-3 top-1/2 transform -translate-y-1/2 w-5 h-5 pointer-events-none" />
+          </div>
+
+          <div className="relative">
+            <select
+              value={activity}
+              onChange={(e) => {
+                setActivity(e.target.value);
+                setCurrentPage(1);
+              }}
+              className="bg-transparent border-2 border-white rounded-lg px-6 py-3 pr-12 text-lg appearance-none focus:outline-none focus:border-blue-400"
+            >
+              {ACTIVITY_OPTIONS.map(({ value, label }) => (
+                <option key={value} value={value} className="bg-black">{label}</option>
+              ))}
             </select>
             <ChevronDown className="absolute right-3 top-1/2 transform -translate-y-1/2 w-5 h-5 pointer-events-none" />
           </div>
@@ -176,28 +306,53 @@ const BrowseSkills: React.FC = () => {
               <div className="flex items-center justify-between">
                 <div className="flex items-center space-x-8">
                   {/* Profile Photo */}
-                  <div className="w-32 h-32 border-2 border-white rounded-full overflow-hidden flex-shrink-0">
-                    {targetUser.photo ? (
-                      <img src={targetUser.photo} alt={targetUser.name} className="w-full h-full object-cover" />
-                    ) : (
-                      <div className="w-full h-full bg-gray-600 flex items-center justify-center text-2xl font-light">
-                        Profile Photo
-                      </div>
+                  <div className="relative flex-shrink-0">
+                    <div className="w-32 h-32 border-2 border-white rounded-full overflow-hidden">
+                      {targetUser.photo ? (
+                        <img src={targetUser.photo} alt={targetUser.name} className="w-full h-full object-cover" />
+                      ) : (
+                        <div className="w-full h-full bg-gray-600 flex items-center justify-center text-2xl font-light">
+                          Profile Photo
+                        </div>
+                      )}
+                    </div>
+                    {targetUser.isOnline && (
+                      <span
+                        title="Online now"
+                        className="absolute bottom-2 right-2 w-5 h-5 rounded-full bg-green-400 border-2 border-black"
+                      />
                     )}
                   </div>
 
                   {/* User Info */}
                   <div className="space-y-6">
-                    <h3 className="text-3xl font-light">{targetUser.name}</h3>
+                    <div>
+                      <h3 className="text-3xl font-light">{targetUser.name}</h3>
+                      {formatLastActive(targetUser) && (
+                        <p className={`text-sm mt-1 ${targetUser.isOnline ? 'text-green-400' : 'text-gray-500'}`}>
+                          {formatLastActive(targetUser)}
+                        </p>
+                      )}
+                      <p className="text-sm text-gray-400 mt-2">{formatAvailability(targetUser.availability)}</p>
+                      {targetUser.availabilityOverlap !== undefined && (
+                        <p className="text-sm text-teal-400 mt-1">
+                          {formatOverlap(targetUser.availabilityOverlap)} shared free time per week
+                        </p>
+                      )}
+                    </div>
                     
                     <div>
                       <div className="flex items-center space-x-4 mb-2">
                         <span className="text-green-400 text-lg">Skills Offered =&gt;</span>
                       </div>
                       <div className="flex flex-wrap gap-3">
-                        {targetUser.skillsOffered.map((skill) => (
-                          <span key={skill} className="border border-white rounded-full px-4 py-2 text-sm">
-                            {skill}
+                        {getOfferedSkills(targetUser).map((skill) => (
+                          <span
+                            key={skill.name}
+                            title={skill.description ?? undefined}
+                            className="border border-white rounded-full px-4 py-2 text-sm"
+                          >
+                            {formatOfferedSkill(skill)}
                           </span>
                         ))}
                       </div>
@@ -208,9 +363,9 @@ const BrowseSkills: React.FC = () => {
                         <span className="text-blue-400 text-lg">Skill wanted =&gt;</span>
                       </div>
                       <div className="flex flex-wrap gap-3">
-                        {targetUser.skillsWanted.map((skill) => (
-                          <span key={skill} className="border border-white rounded-full px-4 py-2 text-sm">
-                            {skill}
+                        {getWantedSkills(targetUser).map((skill) => (
+                          <span key={skill.name} className="border border-white rounded-full px-4 py-2 text-sm">
+                            {formatWantedSkill(skill)}
                           </span>
                         ))}
                       </div>
@@ -227,11 +382,55 @@ const BrowseSkills: React.FC = () => {
                     Request
                   </button>
                   <div className="text-lg">
-                    <span>rating </span>
-                    <span className="font-bold">{targetUser.rating}/5</span>
+                    {targetUser.reviewCount > 0 ? (
+                      <>
+                        <span>rating </span>
+                        <span className="font-bold">{targetUser.averageRating}/5</span>
+                        <span className="text-gray-400"> ({targetUser.reviewCount})</span>
+                      </>
+                    ) : (
+                      <span className="text-gray-400">No reviews yet</span>
+                    )}
                   </div>
+                  <button
+                    onClick={() => setOpenReviewsId(openReviewsId === targetUser.id ? null : targetUser.id)}
+                    className="text-blue-400 hover:text-blue-300"
+                  >
+                    {openReviewsId === targetUser.id ? 'Hide reviews' : 'Reviews'}
+                  </button>
+                  {user && user.id !== targetUser.id && (
+                    <div className="flex justify-end space-x-4">
+                      <button
+                        onClick={() => setOpenReportId(openReportId === targetUser.id ? null : targetUser.id)}
+                        className="text-red-400 hover:text-red-300"
+                      >
+                        Report
+                      </button>
+                      <button
+                        onClick={() => handleBlock(targetUser)}
+                        className="text-red-400 hover:text-red-300"
+                      >
+                        Block
+                      </button>
+                    </div>
+                  )}
                 </div>
               </div>
+
+              {openReviewsId === targetUser.id && (
+                <div className="border-t border-gray-600 mt-6 pt-6">
+                  <UserReviews key={targetUser.id} userId={targetUser.id} />
+                </div>
+              )}
+
+              {openReportId === targetUser.id && (
+                <ReportForm
+                  targetType="user"
+                  targetId={targetUser.id}
+                  targetLabel={targetUser.name}
+                  onClose={() => setOpenReportId(null)}
+                />
+              )}
             </div>
           ))}
         </div>
@@ -271,6 +470,22 @@ const BrowseSkills: React.FC = () => {
           </div>
         )}
 
+        {/* More profiles from the API once the loaded ones are paged through */}
+        {hasMoreUsers && currentPage >= totalPages && (
+          <div className="flex justify-center">
+            <button
+              onClick={() => {
+                loadMoreUsers().catch((err) => {
+                  console.error('Error loading more users:', err);
+                });
+              }}
+              className="border-2 border-white rounded-lg px-6 py-2 hover:bg-white hover:text-black transition-colors"
+            >
+              Load more people
+            </button>
+          </div>
+        )}
+
         {/* Swap Request Modal */}
         {showSwapModal && selectedUser && (
           <div className="fixed inset-0 bg-black bg-opacity-75 flex items-center justify-center p-4 z-50">
@@ -278,25 +493,43 @@ const BrowseSkills: React.FC = () => {
               <h2 className="text-2xl font-light mb-8">Request Swap with {selectedUser.name}</h2>
               
               <div className="space-y-6">
-                <div>
-                  <label className="block text-lg mb-3">Choose one of your offered skills</label>
-                  <div className="relative">
-                    <select
-                      value={swapForm.skillOffered}
-                      onChange={(e) => setSwapForm(prev => ({ ...prev, skillOffered: e.target.value }))}
-                      className="w-full bg-transparent border-2 border-white rounded-lg px-6 py-3 text-lg appearance-none focus:outline-none focus:border-blue-400"
+                <div className="flex space-x-4">
+                  {(['swap', 'credits'] as PaymentType[]).map((paymentType) => (
+                    <button
+                      key={paymentType}
+                      onClick={() => setSwapForm(prev => ({ ...prev, paymentType, skillWanted: '' }))}
+                      className={`flex-1 border-2 rounded-lg px-6 py-3 text-lg transition-colors ${
+                        swapForm.paymentType === paymentType ? 'border-teal-400 text-teal-400' : 'border-white hover:bg-white hover:text-black'
+                      }`}
                     >
-                      <option value="" className="bg-black">Select a skill...</option>
-                      {user?.skillsOffered.map((skill) => (
-                        <option key={skill} value={skill} className="bg-black">{skill}</option>
-                      ))}
-                    </select>
-                    <ChevronDown className="absolute right-3 top-1/2 transform -translate-y-1/2 w-5 h-5 pointer-events-none" />
-                  </div>
+                      {paymentType === 'swap' ? 'Swap skills' : 'Pay with ByteBucks'}
+                    </button>
+                  ))}
                 </div>
 
+                {!payWithCredits && (
+                  <div>
+                    <label className="block text-lg mb-3">Choose one of your offered skills</label>
+                    <div className="relative">
+                      <select
+                        value={swapForm.skillOffered}
+                        onChange={(e) => setSwapForm(prev => ({ ...prev, skillOffered: e.target.value }))}
+                        className="w-full bg-transparent border-2 border-white rounded-lg px-6 py-3 text-lg appearance-none focus:outline-none focus:border-blue-400"
+                      >
+                        <option value="" className="bg-black">Select a skill...</option>
+                        {user && getOfferedSkills(user).map((skill) => (
+                          <option key={skill.name} value={skill.name} className="bg-black">{formatOfferedSkill(skill)}</option>
+                        ))}
+                      </select>
+                      <ChevronDown className="absolute right-3 top-1/2 transform -translate-y-1/2 w-5 h-5 pointer-events-none" />
+                    </div>
+                  </div>
+                )}
+
                 <div>
-                  <label className="block text-lg mb-3">Choose one of their wanted skills</label>
+                  <label className="block text-lg mb-3">
+                    {payWithCredits ? 'Choose one of their offered skills' : 'Choose one of their wanted skills'}
+                  </label>
                   <div className="relative">
                     <select
                       value={swapForm.skillWanted}
@@ -304,14 +537,36 @@ const BrowseSkills: React.FC = () => {
                       className="w-full bg-transparent border-2 border-white rounded-lg px-6 py-3 text-lg appearance-none focus:outline-none focus:border-blue-400"
                     >
                       <option value="" className="bg-black">Select a skill...</option>
-                      {selectedUser.skillsWanted.map((skill) => (
-                        <option key={skill} value={skill} className="bg-black">{skill}</option>
-                      ))}
+                      {payWithCredits
+                        ? getOfferedSkills(selectedUser).map((skill) => (
+                          <option key={skill.name} value={skill.name} className="bg-black">{formatOfferedSkill(skill)}</option>
+                        ))
+                        : getWantedSkills(selectedUser).map((skill) => (
+                          <option key={skill.name} value={skill.name} className="bg-black">{formatWantedSkill(skill)}</option>
+                        ))}
                     </select>
                     <ChevronDown className="absolute right-3 top-1/2 transform -translate-y-1/2 w-5 h-5 pointer-events-none" />
                   </div>
                 </div>
 
+                <div>
+                  <label className="block text-lg mb-3">Hours</label>
+                  <input
+                    type="number"
+                    min={0.5}
+                    max={20}
+                    step={0.5}
+                    value={swapForm.hours}
+                    onChange={(e) => setSwapForm(prev => ({ ...prev, hours: Number(e.target.value) }))}
+                    className="w-full bg-transparent border-2 border-white rounded-lg px-6 py-3 text-lg focus:outline-none focus:border-blue-400"
+                  />
+                  <p className="text-sm text-gray-400 mt-2">
+                    {payWithCredits
+                      ? `Costs ${formatCredits(swapForm.hours)}${creditBalance !== null ? ` (your balance: ${creditBalance})` : ''}`
+                      : `You'll both earn ${formatCredits(swapForm.hours)} when the swap is completed`}
+                  </p>
+                </div>
+
                 <div>
                   <label className="block text-lg mb-3">Message</label>
                   <textarea
@@ -332,7 +587,12 @@ const BrowseSkills: React.FC = () => {
                   </button>
                   <button
                     onClick={handleSubmitSwap}
-                    disabled={!swapForm.skillOffered || !swapForm.skillWanted || isLoading}
+                    disabled={
+                      (!payWithCredits && !swapForm.skillOffered) ||
+                      !swapForm.skillWanted ||
+                      (payWithCredits && creditBalance !== null && creditBalance < swapForm.hours) ||
+                      isLoading
+                    }
                     className="bg-blue-600 text-white px-8 py-3 rounded-lg text-lg hover:bg-blue-700 transition-colors disabled:opacity-50"
                   >
                     {isLoading ? 'Submitting...' : 'Submit'}
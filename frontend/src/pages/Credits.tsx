@@ -0,0 +1,114 @@
+import React, { useState, useEffect } from 'react';
+import { Coins } from 'lucide-react';
+import apiService, { ApiCreditTransaction } from '../services/api';
+import { CreditTransaction } from '../types';
+import { formatCredits, getTransactionLabel } from '../utils/credits';
+
+const PAGE_SIZE = 20;
+
+const mapTransaction = (transaction: ApiCreditTransaction): CreditTransaction => ({
+  id: transaction._id,
+  type: transaction.type,
+  amount: transaction.amount,
+  memo: transaction.memo,
+  swapRequestId: transaction.swapRequest?._id,
+  createdAt: new Date(transaction.createdAt)
+});
+
+// ByteBucks balance and transaction history
+const Credits: React.FC = () => {
+  const [balance, setBalance] = useState<number | null>(null);
+  const [held, setHeld] = useState(0);
+  const [transactions, setTransactions] = useState<CreditTransaction[]>([]);
+  const [page, setPage] = useState(1);
+  const [hasNextPage, setHasNextPage] = useState(false);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    apiService.getCreditBalance()
+      .then((response) => {
+        setBalance(response.data.balance);
+        setHeld(response.data.held);
+      })
+      .catch((err) => {
+        console.error('Error loading ByteBucks balance:', err);
+        setError('Could not load your balance.');
+      });
+  }, []);
+
+  useEffect(() => {
+    setIsLoading(true);
+    apiService.getCreditHistory({ page, limit: PAGE_SIZE })
+      .then((response) => {
+        const loaded = response.data.transactions.map(mapTransaction);
+        setTransactions(prev => (page === 1 ? loaded : [...prev, ...loaded]));
+        setHasNextPage(response.data.pagination.hasNextPage);
+      })
+      .catch((err) => {
+        console.error('Error loading ByteBucks history:', err);
+        setError('Could not load your transactions.');
+      })
+      .finally(() => {
+        setIsLoading(false);
+      });
+  }, [page]);
+
+  return (
+    <div className="min-h-screen bg-black text-white p-8">
+      <div className="max-w-4xl mx-auto">
+        <h1 className="text-4xl font-light mb-8">ByteBucks</h1>
+
+        {error && <div className="text-red-400 mb-6">{error}</div>}
+
+        <div className="border-2 border-white rounded-3xl p-8 mb-12 flex items-center space-x-6">
+          <Coins className="w-12 h-12 text-teal-400" />
+          <div>
+            <div className="text-4xl font-light">{balance ?? '…'}</div>
+            <div className="text-gray-400">
+              Available{held > 0 && ` • ${formatCredits(held)} held for ongoing swaps`}
+            </div>
+          </div>
+        </div>
+
+        <p className="text-gray-400 mb-8">
+          Earn a ByteBuck for every hour you teach in a completed swap, then spend them to learn from anyone
+          without having to teach back.
+        </p>
+
+        <h2 className="text-2xl font-light mb-6">History</h2>
+
+        {transactions.length === 0 && !isLoading ? (
+          <div className="text-gray-400">No transactions yet. Complete a swap to earn your first ByteBucks.</div>
+        ) : (
+          <div className="space-y-4">
+            {transactions.map((transaction) => (
+              <div key={transaction.id} className="border border-white rounded-lg p-4 flex items-center justify-between">
+                <div>
+                  <div className="font-medium">{getTransactionLabel(transaction.type)}</div>
+                  {transaction.memo && <div className="text-sm text-gray-300 mt-1">{transaction.memo}</div>}
+                  <div className="text-xs text-gray-400 mt-1">{transaction.createdAt.toLocaleDateString()}</div>
+                </div>
+                <div className={`text-xl ${transaction.amount >= 0 ? 'text-green-400' : 'text-red-400'}`}>
+                  {transaction.amount >= 0 ? '+' : ''}{transaction.amount}
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+
+        {hasNextPage && (
+          <button
+            onClick={() => setPage(prev => prev + 1)}
+            disabled={isLoading}
+            className="mt-6 border-2 border-white rounded-lg px-6 py-2 hover:bg-white hover:text-black transition-colors disabled:opacity-50"
+          >
+            {isLoading ? 'Loading...' : 'Load more'}
+          </button>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default Credits;
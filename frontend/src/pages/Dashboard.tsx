@@ -16,7 +16,7 @@ import { useData } from '../contexts/DataContext';
 
 const Dashboard: React.FC = () => {
   const { user } = useAuth();
-  const { swapRequests, users, notifications } = useData();
+  const { swapRequests, getUser, notifications } = useData();
 
   if (!user) return null;
 
@@ -179,9 +179,7 @@ const Dashboard: React.FC = () => {
             ) : (
               <div className="space-y-4">
                 {userSwapRequests.slice(0, 5).map((request) => {
-                  const otherUser = users.find(u => 
-                    u.id === (request.fromUserId === user.id ? request.toUserId : request.fromUserId)
-                  );
+                  const otherUser = getUser(request.fromUserId === user.id ? request.toUserId : request.fromUserId);
                   const isIncoming = request.toUserId === user.id;
 
                   return (
@@ -1,17 +1,36 @@
-import React, { useState, useMemo } from 'react';
+import React, { useState, useMemo, useEffect, useCallback } from 'react';
 import { Users, Clock, CheckCircle, XCircle, Star } from 'lucide-react';
 import { useAuth } from '../contexts/AuthContext';
 import { useData } from '../contexts/DataContext';
+import apiService from '../services/api';
 import SwapRequestCard from '../components/Swaps/SwapRequestCard';
 import FeedbackModal from '../components/Modals/FeedbackModal';
-import { SwapRequest } from '../types';
+import { PendingReview, SwapRequest } from '../types';
 
 const MySwaps: React.FC = () => {
   const { user } = useAuth();
-  const { swapRequests, users, updateSwapRequest, addFeedback } = useData();
+  const { swapRequests, getUser, updateSwapRequest } = useData();
   const [activeTab, setActiveTab] = useState<'pending' | 'active' | 'completed' | 'all'>('all');
   const [selectedSwapRequest, setSelectedSwapRequest] = useState<SwapRequest | null>(null);
   const [isFeedbackModalOpen, setIsFeedbackModalOpen] = useState(false);
+  // Swaps whose reviews are still sealed, by swap id
+  const [pendingReviews, setPendingReviews] = useState<Record<string, PendingReview>>({});
+
+  const loadPendingReviews = useCallback(async () => {
+    try {
+      const response = await apiService.getPendingReviews();
+      setPendingReviews(Object.fromEntries(response.data.pending.map(pending => [
+        pending.swapRequestId,
+        { ...pending, revealAt: new Date(pending.revealAt) }
+      ])));
+    } catch (error) {
+      console.error('Error loading pending reviews:', error);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadPendingReviews();
+  }, [loadPendingReviews]);
 
   const userSwapRequests = useMemo(() => {
     if (!user) return [];
@@ -65,20 +84,15 @@ const MySwaps: React.FC = () => {
     setIsFeedbackModalOpen(true);
   };
 
-  const handleSubmitFeedback = (rating: number, comment: string) => {
+  // The modal asks for one overall rating, which stands for every dimension
+  const handleSubmitFeedback = async (rating: number, comment: string) => {
     if (!selectedSwapRequest || !user) return;
 
-    const otherUserId = selectedSwapRequest.fromUserId === user.id 
-      ? selectedSwapRequest.toUserId 
-      : selectedSwapRequest.fromUserId;
-
-    addFeedback({
-      swapRequestId: selectedSwapRequest.id,
-      fromUserId: user.id,
-      toUserId: otherUserId,
-      rating,
-      comment,
+    await apiService.submitReview(selectedSwapRequest.id, {
+      scores: { knowledge: rating, communication: rating, punctuality: rating },
+      comment: comment || undefined
     });
+    await loadPendingReviews();
   };
 
   if (!user) return null;
@@ -132,21 +146,34 @@ const MySwaps: React.FC = () => {
             const otherUserId = swapRequest.fromUserId === user.id 
               ? swapRequest.toUserId 
               : swapRequest.fromUserId;
-            const otherUser = users.find(u => u.id === otherUserId);
+            const otherUser = getUser(otherUserId);
+            const pendingReview = pendingReviews[swapRequest.id];
 
             if (!otherUser) return null;
 
             return (
-              <SwapRequestCard
-                key={swapRequest.id}
-                swapRequest={swapRequest}
-                otherUser={otherUser}
-                currentUserId={user.id}
-                onAccept={() => handleAcceptSwap(swapRequest.id)}
-                onReject={() => handleRejectSwap(swapRequest.id)}
-                onComplete={() => handleCompleteSwap(swapRequest.id)}
-                onFeedback={() => handleOpenFeedback(swapRequest)}
-              />
+              <div key={swapRequest.id}>
+                <SwapRequestCard
+                  swapRequest={swapRequest}
+                  otherUser={otherUser}
+                  currentUserId={user.id}
+                  onAccept={() => handleAcceptSwap(swapRequest.id)}
+                  onReject={() => handleRejectSwap(swapRequest.id)}
+                  onComplete={() => handleCompleteSwap(swapRequest.id)}
+                  onFeedback={() => handleOpenFeedback(swapRequest)}
+                />
+                {pendingReview && (
+                  <div className="flex items-center space-x-2 text-sm text-yellow-700 mt-2">
+                    <Clock className="w-4 h-4" />
+                    <span>
+                      {pendingReview.status === 'waiting_for_partner'
+                        ? `Feedback sent, waiting for ${otherUser.name}.`
+                        : `${otherUser.name} left feedback. Leave yours to see it.`}
+                      {` Both are published by ${pendingReview.revealAt.toLocaleDateString()}.`}
+                    </span>
+                  </div>
+                )}
+              </div>
             );
           })}
         </div>
@@ -183,11 +210,9 @@ const MySwaps: React.FC = () => {
           isOpen={isFeedbackModalOpen}
           onClose={() => setIsFeedbackModalOpen(false)}
           swapRequest={selectedSwapRequest}
-          otherUser={users.find(u => 
-            u.id === (selectedSwapRequest.fromUserId === user.id 
-              ? selectedSwapRequest.toUserId 
-              : selectedSwapRequest.fromUserId)
-          )!}
+          otherUser={getUser(selectedSwapRequest.fromUserId === user.id 
+            ? selectedSwapRequest.toUserId 
+            : selectedSwapRequest.fromUserId)!}
           onSubmit={handleSubmitFeedback}
         />
       )}
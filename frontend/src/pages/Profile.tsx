@@ -1,6 +1,31 @@
 import React, { useState } from 'react';
 import { X } from 'lucide-react';
 import { useAuth } from '../contexts/AuthContext';
+import SkillAutocomplete from '../components/SkillAutocomplete';
+import EmailPreferences from '../components/EmailPreferences';
+import UserReviews from '../components/UserReviews';
+import ActiveSessions from '../components/ActiveSessions';
+import BlockedUsers from '../components/BlockedUsers';
+import { AvailabilitySlot, OfferedSkill, SkillLevel, WantedSkill } from '../types';
+import {
+  COMMON_TIMEZONES,
+  DAY_LABELS,
+  formatAvailability,
+  getBrowserTimeZone,
+  isValidSlot,
+  isValidTimeZone
+} from '../utils/availability';
+import {
+  MAX_PORTFOLIO_LINKS,
+  SKILL_LEVELS,
+  formatLevel,
+  formatOfferedSkill,
+  formatWantedSkill,
+  getOfferedSkills,
+  getWantedSkills
+} from '../utils/skillLevels';
+
+const isValidLink = (link: string) => /^https?:\/\/\S+$/.test(link.trim());
 
 const Profile: React.FC = () => {
   const { user, updateProfile } = useAuth();
@@ -8,67 +33,150 @@ const Profile: React.FC = () => {
   const [formData, setFormData] = useState({
     name: user?.name || '',
     location: user?.location || '',
-    skillsOffered: user?.skillsOffered || [],
-    skillsWanted: user?.skillsWanted || [],
-    availability: user?.availability || 'flexible',
+    skillsOffered: user ? getOfferedSkills(user) : [],
+    skillsWanted: user ? getWantedSkills(user) : [],
+    availability: user?.availability || { timezone: getBrowserTimeZone(), slots: [] },
     isPublic: user?.isPublic ?? true,
   });
-  const [newOfferedSkill, setNewOfferedSkill] = useState('');
-  const [newWantedSkill, setNewWantedSkill] = useState('');
+  const [availabilityError, setAvailabilityError] = useState('');
+  const [skillsError, setSkillsError] = useState('');
 
   if (!user) return null;
 
-  const handleSave = () => {
-    updateProfile(formData);
-    setIsEditing(false);
+  const handleSave = async () => {
+    if (!isValidTimeZone(formData.availability.timezone)) {
+      setAvailabilityError('Please enter a valid timezone, e.g. Europe/Berlin');
+      return;
+    }
+    if (!formData.availability.slots.every(isValidSlot)) {
+      setAvailabilityError('Each time slot must end after it starts');
+      return;
+    }
+
+    setAvailabilityError('');
+
+    const invalidYears = formData.skillsOffered.some(skill =>
+      skill.yearsExperience !== null && (skill.yearsExperience < 0 || skill.yearsExperience > 80)
+    );
+    if (invalidYears) {
+      setSkillsError('Years of experience must be between 0 and 80');
+      return;
+    }
+    if (formData.skillsOffered.some(skill => skill.portfolioLinks.some(link => link.trim() && !isValidLink(link)))) {
+      setSkillsError('Portfolio links must start with http:// or https://');
+      return;
+    }
+
+    setSkillsError('');
+    const success = await updateProfile({
+      ...formData,
+      skillsOffered: formData.skillsOffered.map(skill => ({
+        ...skill,
+        portfolioLinks: skill.portfolioLinks.map(link => link.trim()).filter(Boolean)
+      }))
+    });
+    if (success) {
+      setIsEditing(false);
+    } else {
+      alert('Failed to save profile. Please try again.');
+    }
   };
 
   const handleDiscard = () => {
     setFormData({
       name: user.name,
       location: user.location || '',
-      skillsOffered: user.skillsOffered,
-      skillsWanted: user.skillsWanted,
+      skillsOffered: getOfferedSkills(user),
+      skillsWanted: getWantedSkills(user),
       availability: user.availability,
       isPublic: user.isPublic,
     });
+    setAvailabilityError('');
+    setSkillsError('');
     setIsEditing(false);
   };
 
-  const addOfferedSkill = () => {
-    if (newOfferedSkill.trim() && !formData.skillsOffered.includes(newOfferedSkill.trim())) {
+  const addSlot = () => {
+    setFormData(prev => ({
+      ...prev,
+      availability: {
+        ...prev.availability,
+        slots: [...prev.availability.slots, { day: 1, start: '18:00', end: '21:00' }]
+      }
+    }));
+  };
+
+  const updateSlot = (index: number, changes: Partial<AvailabilitySlot>) => {
+    setFormData(prev => ({
+      ...prev,
+      availability: {
+        ...prev.availability,
+        slots: prev.availability.slots.map((slot, i) => i === index ? { ...slot, ...changes } : slot)
+      }
+    }));
+  };
+
+  const removeSlot = (index: number) => {
+    setFormData(prev => ({
+      ...prev,
+      availability: {
+        ...prev.availability,
+        slots: prev.availability.slots.filter((_, i) => i !== index)
+      }
+    }));
+  };
+
+  const addOfferedSkill = (skill: string) => {
+    if (!formData.skillsOffered.some(s => s.name === skill)) {
       setFormData(prev => ({
         ...prev,
-        skillsOffered: [...prev.skillsOffered, newOfferedSkill.trim()]
+        skillsOffered: [
+          ...prev.skillsOffered,
+          { name: skill, level: null, yearsExperience: null, description: null, portfolioLinks: [] }
+        ]
       }));
-      setNewOfferedSkill('');
     }
   };
 
+  const updateOfferedSkill = (skill: string, changes: Partial<OfferedSkill>) => {
+    setFormData(prev => ({
+      ...prev,
+      skillsOffered: prev.skillsOffered.map(s => s.name === skill ? { ...s, ...changes } : s)
+    }));
+  };
+
   const removeOfferedSkill = (skill: string) => {
     setFormData(prev => ({
       ...prev,
-      skillsOffered: prev.skillsOffered.filter(s => s !== skill)
+      skillsOffered: prev.skillsOffered.filter(s => s.name !== skill)
     }));
   };
 
-  const addWantedSkill = () => {
-    if (newWantedSkill.trim() && !formData.skillsWanted.includes(newWantedSkill.trim())) {
+  const addWantedSkill = (skill: string) => {
+    if (!formData.skillsWanted.some(s => s.name === skill)) {
       setFormData(prev => ({
         ...prev,
-        skillsWanted: [...prev.skillsWanted, newWantedSkill.trim()]
+        skillsWanted: [...prev.skillsWanted, { name: skill, targetLevel: null }]
       }));
-      setNewWantedSkill('');
     }
   };
 
+  const updateWantedSkill = (skill: string, changes: Partial<WantedSkill>) => {
+    setFormData(prev => ({
+      ...prev,
+      skillsWanted: prev.skillsWanted.map(s => s.name === skill ? { ...s, ...changes } : s)
+    }));
+  };
+
   const removeWantedSkill = (skill: string) => {
     setFormData(prev => ({
       ...prev,
-      skillsWanted: prev.skillsWanted.filter(s => s !== skill)
+      skillsWanted: prev.skillsWanted.filter(s => s.name !== skill)
     }));
   };
 
+  const parseLevel = (value: string) => (value ? value as SkillLevel : null);
+
   return (
     <div className="min-h-screen bg-black text-white p-8">
       <div className="max-w-6xl mx-auto">
@@ -139,60 +247,184 @@ const Profile: React.FC = () => {
               {/* Skills Offered */}
               <div>
                 <label className="block text-2xl font-light mb-6">Skills Offered</label>
-                <div className="flex flex-wrap gap-4 mb-4">
-                  {(isEditing ? formData.skillsOffered : user.skillsOffered).map((skill) => (
-                    <span
-                      key={skill}
-                      className="border border-white rounded-full px-6 py-2 text-lg flex items-center space-x-2"
-                    >
-                      <span>{skill}</span>
-                      {isEditing && (
+                {isEditing ? (
+                  <div className="space-y-4 mb-4">
+                    {formData.skillsOffered.map((skill) => (
+                      <div key={skill.name} className="border border-white rounded-lg p-4 space-y-3">
+                        <div className="flex items-center justify-between">
+                          <span className="text-lg">{skill.name}</span>
+                          <button
+                            onClick={() => removeOfferedSkill(skill.name)}
+                            className="text-red-400 hover:text-red-300"
+                            aria-label={`Remove ${skill.name}`}
+                          >
+                            <X className="w-4 h-4" />
+                          </button>
+                        </div>
+                        <div className="flex items-center space-x-4">
+                          <select
+                            value={skill.level ?? ''}
+                            onChange={(e) => updateOfferedSkill(skill.name, { level: parseLevel(e.target.value) })}
+                            className="bg-transparent border-b-2 border-white pb-1 focus:outline-none focus:border-blue-400"
+                          >
+                            <option value="" className="bg-black">Level not set</option>
+                            {SKILL_LEVELS.map((level) => (
+                              <option key={level} value={level} className="bg-black">{formatLevel(level)}</option>
+                            ))}
+                          </select>
+                          <input
+                            type="number"
+                            min={0}
+                            max={80}
+                            value={skill.yearsExperience ?? ''}
+                            onChange={(e) => updateOfferedSkill(skill.name, {
+                              yearsExperience: e.target.value === '' ? null : Number(e.target.value)
+                            })}
+                            className="bg-transparent border-b-2 border-white pb-1 w-24 focus:outline-none focus:border-blue-400"
+                            placeholder="Years"
+                          />
+                        </div>
+                        <input
+                          type="text"
+                          value={skill.description ?? ''}
+                          onChange={(e) => updateOfferedSkill(skill.name, { description: e.target.value || null })}
+                          maxLength={500}
+                          className="bg-transparent border-b-2 border-white pb-1 w-full focus:outline-none focus:border-blue-400"
+                          placeholder="What can you teach?"
+                        />
+                        {skill.portfolioLinks.map((link, index) => (
+                          <div key={index} className="flex items-center space-x-2">
+                            <input
+                              type="url"
+                              value={link}
+                              onChange={(e) => updateOfferedSkill(skill.name, {
+                                portfolioLinks: skill.portfolioLinks.map((l, i) => i === index ? e.target.value : l)
+                              })}
+                              className="bg-transparent border-b-2 border-white pb-1 flex-1 focus:outline-none focus:border-blue-400"
+                              placeholder="https://"
+                            />
+                            <button
+                              onClick={() => updateOfferedSkill(skill.name, {
+                                portfolioLinks: skill.portfolioLinks.filter((_, i) => i !== index)
+                              })}
+                              className="text-red-400 hover:text-red-300"
+                              aria-label="Remove link"
+                            >
+                              <X className="w-4 h-4" />
+                            </button>
+                          </div>
+                        ))}
+                        {skill.portfolioLinks.length < MAX_PORTFOLIO_LINKS && (
+                          <button
+                            onClick={() => updateOfferedSkill(skill.name, { portfolioLinks: [...skill.portfolioLinks, ''] })}
+                            className="text-green-400 hover:text-green-300 text-sm"
+                          >
+                            Add portfolio link
+                          </button>
+                        )}
+                      </div>
+                    ))}
+                    {skillsError && <div className="text-red-400">{skillsError}</div>}
+                  </div>
+                ) : (
+                  <div className="flex flex-wrap gap-4 mb-4">
+                    {getOfferedSkills(user).map((skill) => (
+                      <span
+                        key={skill.name}
+                        title={skill.description ?? undefined}
+                        className="border border-white rounded-full px-6 py-2 text-lg flex items-center space-x-2"
+                      >
+                        <span>{formatOfferedSkill(skill)}</span>
+                        {skill.portfolioLinks.map((link) => (
+                          <a
+                            key={link}
+                            href={link}
+                            target="_blank"
+                            rel="noopener noreferrer"
+                            className="text-blue-400 hover:text-blue-300 text-sm"
+                          >
+                            portfolio
+                          </a>
+                        ))}
+                      </span>
+                    ))}
+                  </div>
+                )}
+                {isEditing && (
+                  <SkillAutocomplete onAdd={addOfferedSkill} exclude={formData.skillsOffered.map(s => s.name)} />
+                )}
+              </div>
+
+              {/* Availability */}
+              <div>
+                <label className="block text-2xl font-light mb-4">Availability</label>
+                {isEditing ? (
+                  <div className="space-y-4">
+                    <div className="flex items-center space-x-4">
+                      <span className="text-lg">Timezone</span>
+                      <input
+                        type="text"
+                        list="timezone-options"
+                        value={formData.availability.timezone}
+                        onChange={(e) => setFormData(prev => ({
+                          ...prev,
+                          availability: { ...prev.availability, timezone: e.target.value }
+                        }))}
+                        className="bg-transparent border-b-2 border-white text-lg pb-2 focus:outline-none focus:border-blue-400 flex-1"
+                        placeholder="Europe/Berlin"
+                      />
+                      <datalist id="timezone-options">
+                        {COMMON_TIMEZONES.map((timezone) => (
+                          <option key={timezone} value={timezone} />
+                        ))}
+                      </datalist>
+                    </div>
+
+                    {formData.availability.slots.map((slot, index) => (
+                      <div key={index} className="flex items-center space-x-4">
+                        <select
+                          value={slot.day}
+                          onChange={(e) => updateSlot(index, { day: Number(e.target.value) })}
+                          className="bg-transparent border-b-2 border-white text-lg pb-2 focus:outline-none focus:border-blue-400"
+                        >
+                          {DAY_LABELS.map((label, day) => (
+                            <option key={label} value={day} className="bg-black">{label}</option>
+                          ))}
+                        </select>
+                        <input
+                          type="time"
+                          value={slot.start}
+                          onChange={(e) => updateSlot(index, { start: e.target.value })}
+                          className="bg-transparent border-b-2 border-white text-lg pb-2 focus:outline-none focus:border-blue-400"
+                        />
+                        <span>–</span>
+                        <input
+                          type="time"
+                          value={slot.end}
+                          onChange={(e) => updateSlot(index, { end: e.target.value })}
+                          className="bg-transparent border-b-2 border-white text-lg pb-2 focus:outline-none focus:border-blue-400"
+                        />
                         <button
-                          onClick={() => removeOfferedSkill(skill)}
+                          onClick={() => removeSlot(index)}
                           className="text-red-400 hover:text-red-300"
+                          aria-label="Remove time slot"
                         >
                           <X className="w-4 h-4" />
                         </button>
-                      )}
-                    </span>
-                  ))}
-                </div>
-                {isEditing && (
-                  <div className="flex space-x-4">
-                    <input
-                      type="text"
-                      value={newOfferedSkill}
-                      onChange={(e) => setNewOfferedSkill(e.target.value)}
-                      onKeyPress={(e) => e.key === 'Enter' && addOfferedSkill()}
-                      className="bg-transparent border-b-2 border-white text-lg pb-2 focus:outline-none focus:border-blue-400 flex-1"
-                      placeholder="Add a skill..."
-                    />
+                      </div>
+                    ))}
+
                     <button
-                      onClick={addOfferedSkill}
+                      onClick={addSlot}
                       className="text-green-400 hover:text-green-300"
                     >
-                      Add
+                      Add time slot
                     </button>
-                  </div>
-                )}
-              </div>
 
-              {/* Availability */}
-              <div>
-                <label className="block text-2xl font-light mb-4">Availability</label>
-                {isEditing ? (
-                  <select
-                    value={formData.availability}
-                    onChange={(e) => setFormData(prev => ({ ...prev, availability: e.target.value as any }))}
-                    className="bg-transparent border-b-2 border-white text-2xl pb-2 focus:outline-none focus:border-blue-400"
-                  >
-                    <option value="weekdays" className="bg-black">weekdays</option>
-                    <option value="weekends" className="bg-black">weekends</option>
-                    <option value="evenings" className="bg-black">evenings</option>
-                    <option value="flexible" className="bg-black">flexible</option>
-                  </select>
+                    {availabilityError && <div className="text-red-400">{availabilityError}</div>}
+                  </div>
                 ) : (
-                  <div className="border-b-2 border-white text-2xl pb-2">{user.availability}</div>
+                  <div className="border-b-2 border-white text-2xl pb-2">{formatAvailability(user.availability)}</div>
                 )}
               </div>
 
@@ -239,45 +471,53 @@ const Profile: React.FC = () => {
               <div>
                 <label className="block text-2xl font-light mb-6">Skills wanted</label>
                 <div className="flex flex-wrap gap-4 mb-4">
-                  {(isEditing ? formData.skillsWanted : user.skillsWanted).map((skill) => (
+                  {(isEditing ? formData.skillsWanted : getWantedSkills(user)).map((skill) => (
                     <span
-                      key={skill}
+                      key={skill.name}
                       className="border border-white rounded-full px-6 py-2 text-lg flex items-center space-x-2"
                     >
-                      <span>{skill}</span>
-                      {isEditing && (
-                        <button
-                          onClick={() => removeWantedSkill(skill)}
-                          className="text-red-400 hover:text-red-300"
-                        >
-                          <X className="w-4 h-4" />
-                        </button>
+                      {isEditing ? (
+                        <>
+                          <span>{skill.name}</span>
+                          <select
+                            value={skill.targetLevel ?? ''}
+                            onChange={(e) => updateWantedSkill(skill.name, { targetLevel: parseLevel(e.target.value) })}
+                            className="bg-transparent text-sm focus:outline-none"
+                            aria-label={`Target level for ${skill.name}`}
+                          >
+                            <option value="" className="bg-black">Any level</option>
+                            {SKILL_LEVELS.map((level) => (
+                              <option key={level} value={level} className="bg-black">{formatLevel(level)}</option>
+                            ))}
+                          </select>
+                          <button
+                            onClick={() => removeWantedSkill(skill.name)}
+                            className="text-red-400 hover:text-red-300"
+                          >
+                            <X className="w-4 h-4" />
+                          </button>
+                        </>
+                      ) : (
+                        <span>{formatWantedSkill(skill)}</span>
                       )}
                     </span>
                   ))}
                 </div>
                 {isEditing && (
-                  <div className="flex space-x-4">
-                    <input
-                      type="text"
-                      value={newWantedSkill}
-                      onChange={(e) => setNewWantedSkill(e.target.value)}
-                      onKeyPress={(e) => e.key === 'Enter' && addWantedSkill()}
-                      className="bg-transparent border-b-2 border-white text-lg pb-2 focus:outline-none focus:border-blue-400 flex-1"
-                      placeholder="Add a skill..."
-                    />
-                    <button
-                      onClick={addWantedSkill}
-                      className="text-green-400 hover:text-green-300"
-                    >
-                      Add
-                    </button>
-                  </div>
+                  <SkillAutocomplete onAdd={addWantedSkill} exclude={formData.skillsWanted.map(s => s.name)} />
                 )}
               </div>
             </div>
           </div>
         </div>
+
+        <div className="border-2 border-white rounded-3xl p-12 mt-12">
+          <UserReviews key={user.id} userId={user.id} />
+        </div>
+
+        <EmailPreferences />
+        <ActiveSessions />
+        <BlockedUsers />
       </div>
     </div>
   );
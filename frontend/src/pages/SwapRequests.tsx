@@ -1,12 +1,41 @@
 import React, { useState } from 'react';
-import { Wifi, WifiOff } from 'lucide-react';
+import { Calendar, Flag, History, MessageSquare, Repeat, Wifi, WifiOff } from 'lucide-react';
 import { useAuth } from '../contexts/AuthContext';
 import { useData } from '../contexts/DataContext';
+import SwapChat from '../components/SwapChat';
+import SwapSessions from '../components/SwapSessions';
+import SwapHistory from '../components/SwapHistory';
+import SwapNegotiation from '../components/SwapNegotiation';
+import GroupSwaps from '../components/GroupSwaps';
+import ReviewForm from '../components/ReviewForm';
+import ReportForm from '../components/ReportForm';
+import apiService from '../services/api';
+import { formatLevel } from '../utils/skillLevels';
+import { formatCredits } from '../utils/credits';
 
 const SwapRequests: React.FC = () => {
   const { user } = useAuth();
-  const { swapRequests, users, acceptSwapRequest, rejectSwapRequest, isRealtimeConnected, isLoading } = useData();
+  const {
+    swapRequests,
+    getUser,
+    acceptSwapRequest,
+    rejectSwapRequest,
+    completeSwapRequest,
+    confirmSwapCompletion,
+    disputeSwapCompletion,
+    unreadMessageCounts,
+    isRealtimeConnected,
+    isLoading
+  } = useData();
   const [processingRequest, setProcessingRequest] = useState<string | null>(null);
+  const [disputingId, setDisputingId] = useState<string | null>(null);
+  const [disputeReason, setDisputeReason] = useState('');
+  const [openChatId, setOpenChatId] = useState<string | null>(null);
+  const [openSessionsId, setOpenSessionsId] = useState<string | null>(null);
+  const [openHistoryId, setOpenHistoryId] = useState<string | null>(null);
+  const [openNegotiationId, setOpenNegotiationId] = useState<string | null>(null);
+  const [openFeedbackId, setOpenFeedbackId] = useState<string | null>(null);
+  const [openReportId, setOpenReportId] = useState<string | null>(null);
 
   if (!user) return null;
 
@@ -38,13 +67,50 @@ const SwapRequests: React.FC = () => {
     }
   };
 
+  // Run a completion action, showing the server's message if it fails
+  const runCompletionAction = async (requestId: string, action: () => Promise<void>) => {
+    try {
+      setProcessingRequest(requestId);
+      await action();
+      return true;
+    } catch (error) {
+      console.error('Error updating swap completion:', error);
+      alert(error instanceof Error ? error.message : 'Something went wrong. Please try again.');
+      return false;
+    } finally {
+      setProcessingRequest(null);
+    }
+  };
+
+  const handleDispute = async (requestId: string) => {
+    const disputed = await runCompletionAction(requestId, () => disputeSwapCompletion(requestId, disputeReason.trim()));
+    if (disputed) {
+      setDisputingId(null);
+      setDisputeReason('');
+    }
+  };
+
+  const handleCopyCalendarUrl = async () => {
+    try {
+      const response = await apiService.getCalendarUrl();
+      await navigator.clipboard.writeText(response.data.url);
+      alert('Calendar feed URL copied. Add it to your calendar app as a subscription.');
+    } catch (error) {
+      console.error('Error getting calendar URL:', error);
+      alert('Failed to get your calendar feed URL. Please try again.');
+    }
+  };
+
   const getStatusColor = (status: string) => {
     switch (status) {
       case 'pending': return 'text-yellow-400';
       case 'accepted': return 'text-green-400';
       case 'rejected': return 'text-red-400';
+      case 'completion_pending': return 'text-teal-400';
+      case 'disputed': return 'text-orange-400';
       case 'completed': return 'text-blue-400';
       case 'cancelled': return 'text-gray-400';
+      case 'expired': return 'text-gray-400';
       default: return 'text-white';
     }
   };
@@ -55,6 +121,13 @@ const SwapRequests: React.FC = () => {
         {/* Real-time Connection Status */}
         <div className="flex items-center justify-between mb-8">
           <h1 className="text-4xl font-light">Swap Requests</h1>
+          <button
+            onClick={handleCopyCalendarUrl}
+            className="flex items-center space-x-2 border-2 border-white rounded-full px-6 py-2 hover:bg-white hover:text-black transition-colors"
+          >
+            <Calendar className="w-4 h-4" />
+            <span>Calendar feed</span>
+          </button>
           <div className="flex items-center space-x-2">
             {isRealtimeConnected ? (
               <Wifi className="w-5 h-5 text-green-400" />
@@ -67,6 +140,8 @@ const SwapRequests: React.FC = () => {
           </div>
         </div>
 
+        <GroupSwaps />
+
         {userSwapRequests.length === 0 ? (
           <div className="text-center text-gray-400 text-xl">
             No swap requests found
@@ -74,11 +149,15 @@ const SwapRequests: React.FC = () => {
         ) : (
           <div className="space-y-8">
             {userSwapRequests.map((request) => {
-              const otherUser = users.find(u => 
-                u.id === (request.fromUserId === user.id ? request.toUserId : request.fromUserId)
-              );
+              const otherUser = getUser(request.fromUserId === user.id ? request.toUserId : request.fromUserId);
               const isIncoming = request.toUserId === user.id;
+              // Requests made before counter-offers existed wait on the recipient
+              const isMyTurn = request.status === 'pending' && (request.awaitingResponseFrom ?? request.toUserId) === user.id;
+              const offerCount = request.offers?.length ?? 0;
               const isProcessing = processingRequest === request.id;
+              const canChat = ['accepted', 'completion_pending', 'disputed', 'completed'].includes(request.status);
+              const awaitsMyConfirmation = request.status === 'completion_pending' && request.completion?.requestedBy !== user.id;
+              const unreadMessages = unreadMessageCounts[request.id] || 0;
 
               if (!otherUser) return null;
 
@@ -102,16 +181,24 @@ const SwapRequests: React.FC = () => {
                         <div className="flex items-center space-x-4">
                           <h3 className="text-2xl font-light">{otherUser.name}</h3>
                           <span className={`px-3 py-1 rounded-full text-sm font-medium ${getStatusColor(request.status)}`}>
-                            {request.status.toUpperCase()}
+                            {request.status.replace('_', ' ').toUpperCase()}
                           </span>
                         </div>
                         
                         <div className="space-y-2">
-                          <div className="text-lg">
-                            <span className="text-green-400">Skills Offered:</span> {request.skillOffered}
-                          </div>
+                          {request.paymentType === 'credits' ? (
+                            <div className="text-lg">
+                              <span className="text-green-400">Paying:</span> {formatCredits(request.hours ?? 1)}
+                            </div>
+                          ) : (
+                            <div className="text-lg">
+                              <span className="text-green-400">Skills Offered:</span> {request.skillOffered}
+                              {request.skillOfferedLevel && <span className="text-gray-400"> ({formatLevel(request.skillOfferedLevel)})</span>}
+                            </div>
+                          )}
                           <div className="text-lg">
                             <span className="text-blue-400">Skills wanted:</span> {request.skillWanted}
+                            {request.skillWantedLevel && <span className="text-gray-400"> ({formatLevel(request.skillWantedLevel)})</span>}
                           </div>
                         </div>
 
@@ -123,6 +210,10 @@ const SwapRequests: React.FC = () => {
 
                         <div className="text-sm text-gray-400">
                           {isIncoming ? 'Incoming request' : 'Outgoing request'} • {new Date(request.createdAt).toLocaleDateString()}
+                          {offerCount > 1 && <span> • {offerCount - 1} counter-offer{offerCount > 2 ? 's' : ''}</span>}
+                          {request.status === 'pending' && request.expiresAt && (
+                            <span> • Expires {request.expiresAt.toLocaleDateString()}</span>
+                          )}
                           {request.updatedAt && request.updatedAt !== request.createdAt && (
                             <span> • Updated {new Date(request.updatedAt).toLocaleDateString()}</span>
                           )}
@@ -132,7 +223,13 @@ const SwapRequests: React.FC = () => {
 
                     {/* Actions */}
                     <div className="text-right space-y-4">
-                      {isIncoming && request.status === 'pending' && (
+                      {request.status === 'pending' && !isMyTurn && (
+                        <div className="text-sm text-gray-400 max-w-[12rem]">
+                          Waiting for {otherUser.name} to respond
+                        </div>
+                      )}
+
+                      {isMyTurn && (
                         <div className="space-y-2">
                           <button
                             onClick={() => handleAccept(request.id)}
@@ -148,18 +245,98 @@ const SwapRequests: React.FC = () => {
                           >
                             {isProcessing ? 'Rejecting...' : 'Reject'}
                           </button>
+                          <button
+                            onClick={() => setOpenNegotiationId(request.id)}
+                            disabled={isProcessing || isLoading}
+                            className="block w-full bg-blue-600 text-white px-6 py-2 rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                          >
+                            Counter
+                          </button>
                         </div>
                       )}
 
+                      {offerCount > 1 && (
+                        <button
+                          onClick={() => setOpenNegotiationId(openNegotiationId === request.id ? null : request.id)}
+                          className="flex items-center space-x-2 border-2 border-white rounded-lg px-6 py-2 hover:bg-white hover:text-black transition-colors"
+                        >
+                          <Repeat className="w-4 h-4" />
+                          <span>{openNegotiationId === request.id ? 'Hide Negotiation' : 'Negotiation'}</span>
+                        </button>
+                      )}
+
                       {request.status === 'accepted' && (
-                        <div className="text-center">
-                          <div className="text-2xl font-light mb-4">Rating and Feedback</div>
-                          <button className="bg-blue-600 text-white px-6 py-2 rounded-lg hover:bg-blue-700 transition-colors">
-                            Leave Feedback
+                        <button
+                          onClick={() => runCompletionAction(request.id, () => completeSwapRequest(request.id))}
+                          disabled={isProcessing || isLoading}
+                          className="block w-full bg-teal-600 text-white px-6 py-2 rounded-lg hover:bg-teal-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                        >
+                          Mark as Completed
+                        </button>
+                      )}
+
+                      {request.status === 'completion_pending' && !awaitsMyConfirmation && (
+                        <div className="text-sm text-gray-400 max-w-[12rem]">
+                          Waiting for {otherUser?.name ?? 'your partner'} to confirm the completion
+                        </div>
+                      )}
+
+                      {awaitsMyConfirmation && disputingId !== request.id && (
+                        <div className="space-y-2">
+                          <div className="text-sm text-gray-400 max-w-[12rem]">
+                            {otherUser?.name ?? 'Your partner'} marked this swap as completed
+                          </div>
+                          <button
+                            onClick={() => runCompletionAction(request.id, () => confirmSwapCompletion(request.id))}
+                            disabled={isProcessing || isLoading}
+                            className="block w-full bg-green-600 text-white px-6 py-2 rounded-lg hover:bg-green-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                          >
+                            Confirm
+                          </button>
+                          <button
+                            onClick={() => setDisputingId(request.id)}
+                            disabled={isProcessing || isLoading}
+                            className="block w-full bg-red-600 text-white px-6 py-2 rounded-lg hover:bg-red-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                          >
+                            Dispute
                           </button>
                         </div>
                       )}
 
+                      {awaitsMyConfirmation && disputingId === request.id && (
+                        <div className="space-y-2 text-left">
+                          <textarea
+                            value={disputeReason}
+                            onChange={(e) => setDisputeReason(e.target.value)}
+                            rows={3}
+                            maxLength={500}
+                            placeholder="What wasn't completed?"
+                            className="w-64 bg-transparent border-2 border-white rounded-lg px-4 py-2 resize-none focus:outline-none focus:border-blue-400"
+                          />
+                          <div className="flex space-x-2">
+                            <button
+                              onClick={() => handleDispute(request.id)}
+                              disabled={!disputeReason.trim() || isProcessing || isLoading}
+                              className="bg-red-600 text-white px-4 py-2 rounded-lg hover:bg-red-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                            >
+                              Send Dispute
+                            </button>
+                            <button
+                              onClick={() => setDisputingId(null)}
+                              className="text-gray-400 hover:text-gray-300"
+                            >
+                              Cancel
+                            </button>
+                          </div>
+                        </div>
+                      )}
+
+                      {request.status === 'disputed' && (
+                        <div className="text-sm text-orange-400 max-w-[12rem]">
+                          Completion disputed. An admin is reviewing this swap
+                        </div>
+                      )}
+
                       {request.status === 'completed' && (
                         <div className="text-center">
                           <div className="text-2xl font-light mb-4 text-green-400">Completed</div>
@@ -168,10 +345,107 @@ const SwapRequests: React.FC = () => {
                               {new Date(request.completedAt).toLocaleDateString()}
                             </div>
                           )}
+                          <button
+                            onClick={() => setOpenFeedbackId(openFeedbackId === request.id ? null : request.id)}
+                            className="mt-4 bg-blue-600 text-white px-6 py-2 rounded-lg hover:bg-blue-700 transition-colors"
+                          >
+                            {openFeedbackId === request.id ? 'Hide Feedback' : 'Feedback'}
+                          </button>
                         </div>
                       )}
+
+                      {request.status === 'accepted' && (
+                        <button
+                          onClick={() => setOpenSessionsId(openSessionsId === request.id ? null : request.id)}
+                          className="flex items-center space-x-2 border-2 border-white rounded-lg px-6 py-2 hover:bg-white hover:text-black transition-colors"
+                        >
+                          <Calendar className="w-4 h-4" />
+                          <span>{openSessionsId === request.id ? 'Hide Sessions' : 'Sessions'}</span>
+                        </button>
+                      )}
+
+                      <button
+                        onClick={() => setOpenHistoryId(openHistoryId === request.id ? null : request.id)}
+                        className="flex items-center space-x-2 border-2 border-white rounded-lg px-6 py-2 hover:bg-white hover:text-black transition-colors"
+                      >
+                        <History className="w-4 h-4" />
+                        <span>{openHistoryId === request.id ? 'Hide History' : 'History'}</span>
+                      </button>
+
+                      <button
+                        onClick={() => setOpenReportId(openReportId === request.id ? null : request.id)}
+                        className="flex items-center space-x-2 text-red-400 hover:text-red-300"
+                      >
+                        <Flag className="w-4 h-4" />
+                        <span>Report</span>
+                      </button>
+
+                      {canChat && (
+                        <button
+                          onClick={() => setOpenChatId(openChatId === request.id ? null : request.id)}
+                          className="relative inline-flex items-center space-x-2 border-2 border-white rounded-lg px-6 py-2 hover:bg-white hover:text-black transition-colors"
+                        >
+                          <MessageSquare className="w-4 h-4" />
+                          <span>{openChatId === request.id ? 'Hide Chat' : 'Chat'}</span>
+                          {unreadMessages > 0 && (
+                            <span className="absolute -top-2 -right-2 min-w-[1.25rem] h-5 px-1 bg-red-600 text-white rounded-full text-xs flex items-center justify-center">
+                              {unreadMessages}
+                            </span>
+                          )}
+                        </button>
+                      )}
                     </div>
                   </div>
+
+                  {request.status === 'accepted' && openSessionsId === request.id && (
+                    <SwapSessions
+                      swapRequest={request}
+                      onClose={() => setOpenSessionsId(null)}
+                    />
+                  )}
+
+                  {openNegotiationId === request.id && (
+                    <SwapNegotiation
+                      key={offerCount}
+                      swapRequest={request}
+                      sender={request.fromUserId === user.id ? user : otherUser}
+                      recipient={request.toUserId === user.id ? user : otherUser}
+                      canCounter={isMyTurn}
+                      onClose={() => setOpenNegotiationId(null)}
+                    />
+                  )}
+
+                  {request.status === 'completed' && openFeedbackId === request.id && (
+                    <ReviewForm
+                      swapRequest={request}
+                      otherUser={otherUser}
+                      onClose={() => setOpenFeedbackId(null)}
+                    />
+                  )}
+
+                  {openHistoryId === request.id && (
+                    <SwapHistory
+                      swapRequest={request}
+                      onClose={() => setOpenHistoryId(null)}
+                    />
+                  )}
+
+                  {openReportId === request.id && (
+                    <ReportForm
+                      targetType="swap"
+                      targetId={request.id}
+                      targetLabel={`this swap with ${otherUser.name}`}
+                      onClose={() => setOpenReportId(null)}
+                    />
+                  )}
+
+                  {canChat && openChatId === request.id && (
+                    <SwapChat
+                      swapRequest={request}
+                      otherUser={otherUser}
+                      onClose={() => setOpenChatId(null)}
+                    />
+                  )}
                 </div>
               );
             })}
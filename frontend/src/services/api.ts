@@ -1,28 +1,434 @@
+import {
+  AdminMessage,
+  Availability,
+  MatchExplanation,
+  CreditTransaction,
+  DisputeResolution,
+  EmailPreferences,
+  NotificationType,
+  OfferedSkill,
+  OfferedSkillDetail,
+  PaymentType,
+  PendingReview,
+  ReportAction,
+  ReportCategory,
+  ReportStatus,
+  ReportTargetType,
+  ReviewDimension,
+  ReviewStatus,
+  ReviewSummary,
+  SkillLevel,
+  SwapHistoryEntry,
+  SwapStatus,
+  User,
+  WantedSkill,
+  WantedSkillDetail
+} from '../types';
+
 const API_BASE_URL = import.meta.env.VITE_API_URL || 'http://localhost:5000/api';
 
+export interface ApiPagination {
+  currentPage: number;
+  totalPages: number;
+  hasNextPage: boolean;
+  hasPrevPage: boolean;
+  limit: number;
+}
+
+// Profile changes; skills may carry levels and teaching credentials
+export type ApiProfileUpdate = Partial<Omit<User, 'skillsOffered' | 'skillsWanted'>> & {
+  skillsOffered?: (string | OfferedSkill)[];
+  skillsWanted?: (string | WantedSkill)[];
+};
+
+export interface ApiSkillMatch {
+  _id: string;
+  name: string;
+  email: string;
+  location?: string;
+  photo?: string | null;
+  skillsOffered: string[];
+  skillsWanted: string[];
+  offeredSkillDetails?: OfferedSkillDetail[];
+  wantedSkillDetails?: WantedSkillDetail[];
+  availability: Availability;
+  rating: number;
+  averageRating: number;
+  reviewCount: number;
+  createdAt: string;
+  matchScore: number;
+  scoreBreakdown: Record<string, number>;
+  matchExplanation: MatchExplanation;
+  availabilityOverlap: number;
+}
+
+export interface ApiMessage {
+  _id: string;
+  swapRequestId: string;
+  senderId: string | { _id: string; name: string; photo?: string | null };
+  recipientId: string;
+  body: string;
+  createdAt: string;
+  readAt?: string | null;
+}
+
+export interface ApiSession {
+  _id: string;
+  swapRequestId: string;
+  participants: string[];
+  proposedBy: string;
+  title: string;
+  startTime: string;
+  endTime: string;
+  notes?: string | null;
+  status: 'proposed' | 'confirmed' | 'declined' | 'cancelled';
+  rescheduleCount: number;
+}
+
+export interface ApiUserSummary {
+  _id: string;
+  name: string;
+  photo?: string | null;
+  rating: number;
+}
+
+export interface ApiGroupSwap {
+  _id: string;
+  participants: {
+    userId: ApiUserSummary;
+    skillTaught: string;
+    skillId: string | null;
+    response: 'pending' | 'accepted' | 'declined';
+    respondedAt: string | null;
+  }[];
+  proposedBy: string;
+  status: 'proposed' | 'active' | 'declined' | 'cancelled';
+  createdAt: string;
+}
+
+// One link of a suggested ring: `user` teaches `skillName` to `learner`
+export interface ApiRingMember {
+  userId: string;
+  teachesTo: string;
+  skillId: string;
+  skillName: string;
+  user: ApiUserSummary;
+  learner: ApiUserSummary;
+}
+
+export interface ApiSkill {
+  _id: string;
+  name: string;
+  aliases: string[];
+  category: string;
+  parent?: string | { _id: string; name: string } | null;
+}
+
+export interface ApiSkillSuggestion {
+  _id: string;
+  name: string;
+  category: string;
+  parent: string | null;
+  // Set when the query matched an alias rather than the canonical name
+  matchedAlias: string | null;
+}
+
+export interface ApiCreditTransaction {
+  _id: string;
+  type: CreditTransaction['type'];
+  amount: number;
+  memo: string | null;
+  swapRequest?: { _id: string; skillOffered: string | null; skillWanted: string; paymentType: PaymentType; hours: number } | null;
+  createdAt: string;
+}
+
+export interface ApiSwapOffer {
+  version: number;
+  proposedBy: string;
+  skillOffered: string | null;
+  skillWanted: string;
+  skillOfferedLevel: SkillLevel | null;
+  skillWantedLevel: SkillLevel | null;
+  hours: number;
+  message: string;
+  createdAt: string;
+}
+
+// Status, negotiation, completion and dispute fields of a swap request
+export interface ApiSwapProgress {
+  status: SwapStatus;
+  awaitingResponseFrom?: string | null;
+  offers?: ApiSwapOffer[];
+  expiresAt?: string | null;
+  updatedAt: string;
+  completedAt?: string | null;
+  completion?: { requestedBy: string | null; requestedAt: string | null; autoConfirmed?: boolean };
+  dispute?: {
+    raisedBy: string | null;
+    reason: string | null;
+    raisedAt: string | null;
+    resolution?: DisputeResolution | null;
+    resolutionNote?: string | null;
+  };
+}
+
+// A user as listed by /users and /admin/users
+export interface ApiUser {
+  _id: string;
+  name: string;
+  email: string;
+  location?: string;
+  photo?: string | null;
+  skillsOffered: string[];
+  skillsWanted: string[];
+  offeredSkillDetails?: OfferedSkillDetail[];
+  wantedSkillDetails?: WantedSkillDetail[];
+  availability: Availability;
+  availabilityOverlap?: number;
+  // Only admin endpoints and single profiles include these
+  isPublic?: boolean;
+  isAdmin?: boolean;
+  isBanned?: boolean;
+  banReason?: string | null;
+  bannedBy?: { _id: string; name: string } | null;
+  bannedAt?: string | null;
+  emailVerified?: boolean;
+  isOnline?: boolean;
+  lastActive?: string | null;
+  rating: number;
+  averageRating: number;
+  reviewCount: number;
+  createdAt: string;
+}
+
+// What a swap includes about its participants once populated
+export interface ApiSwapParticipant {
+  _id: string;
+  name: string;
+  email: string;
+  photo?: string | null;
+}
+
+export interface ApiSwapRequest extends ApiSwapProgress {
+  _id: string;
+  // Populated by most endpoints; plain ids in some realtime events
+  fromUserId: string | ApiSwapParticipant;
+  toUserId: string | ApiSwapParticipant;
+  skillOffered: string | null;
+  skillWanted: string;
+  skillOfferedLevel?: SkillLevel | null;
+  skillWantedLevel?: SkillLevel | null;
+  paymentType?: PaymentType;
+  hours?: number;
+  message: string;
+  createdAt: string;
+}
+
+export interface ApiAdminMessage {
+  _id: string;
+  title: string;
+  message: string;
+  type: AdminMessage['type'];
+  isActive: boolean;
+  createdAt: string;
+}
+
+export interface ApiSwapHistoryEntry {
+  action: string;
+  from: SwapStatus | null;
+  to: SwapStatus;
+  actor: { _id: string; name: string; photo?: string | null } | null;
+  actorRole: SwapHistoryEntry['actorRole'];
+  reason: string | null;
+  at: string;
+}
+
+// A disputed swap as listed in the admin dispute queue
+export interface ApiDisputedSwap {
+  _id: string;
+  fromUserId: { _id: string; name: string; email: string };
+  toUserId: { _id: string; name: string; email: string };
+  skillOffered: string | null;
+  skillWanted: string;
+  paymentType: PaymentType;
+  hours: number;
+  completion: { requestedBy: { _id: string; name: string } | null; requestedAt: string | null };
+  dispute: { raisedBy: { _id: string; name: string } | null; reason: string | null; raisedAt: string | null };
+  createdAt: string;
+}
+
+export interface ApiReview {
+  _id: string;
+  swapRequestId: string;
+  reviewerId: { _id: string; name: string; photo?: string | null };
+  revieweeId: string;
+  scores: Record<ReviewDimension, number>;
+  rating: number;
+  comment: string | null;
+  reply: { body: string | null; repliedAt: string | null };
+  isHidden: boolean;
+  createdAt: string;
+}
+
+// Both reviews of a swap as the current user may see them
+export interface ApiReviewState {
+  myReview: ApiReview | null;
+  partnerReview: ApiReview | null;
+  partnerHasReviewed: boolean;
+  status: ReviewStatus;
+  reviewDeadline: string;
+}
+
+// Reviews as admins see them, with moderation details
+export interface ApiAdminReview extends Omit<ApiReview, 'reviewerId' | 'revieweeId' | 'isHidden'> {
+  reviewerId: { _id: string; name: string; email: string };
+  revieweeId: { _id: string; name: string; email: string };
+  moderation: {
+    isHidden: boolean;
+    hiddenBy: { _id: string; name: string } | null;
+    hiddenAt: string | null;
+    reason: string | null;
+  };
+}
+
+// Sent with the 403 when a banned user logs in
+export interface ApiAccountBan {
+  reason: string | null;
+  bannedBy: string | null;
+  bannedAt: string | null;
+}
+
+export interface ApiReport {
+  _id: string;
+  reporterId: string;
+  targetType: ReportTargetType;
+  targetId: string;
+  reportedUserId: string;
+  swapRequestId: string | null;
+  category: ReportCategory;
+  evidence: string;
+  status: ReportStatus;
+  createdAt: string;
+}
+
+export interface ApiAdminReport extends Omit<ApiReport, 'reporterId' | 'targetId' | 'reportedUserId'> {
+  reporterId: { _id: string; name: string; email: string } | null;
+  reportedUserId: { _id: string; name: string; email: string; isBanned: boolean } | null;
+  // The reported user, swap, review or message with the fields the queue
+  // shows about each; null once it's been deleted
+  targetId: {
+    _id: string;
+    name?: string;
+    skillOffered?: string | null;
+    skillWanted?: string;
+    status?: SwapStatus;
+    comment?: string | null;
+    rating?: number;
+    moderation?: { isHidden: boolean };
+    body?: string;
+  } | null;
+  assignedTo: { _id: string; name: string } | null;
+  resolutionNote: string | null;
+  resolvedBy: { _id: string; name: string } | null;
+  resolvedAt: string | null;
+  actions: { action: ReportAction; takenBy: { _id: string; name: string } | null; note: string | null; takenAt: string }[];
+}
+
+export interface ApiNotification {
+  _id: string;
+  userId: string;
+  type: NotificationType;
+  title: string;
+  message: string;
+  isRead: boolean;
+  createdAt: string;
+  // getForUser populates the related document
+  relatedId?: string | { _id: string } | null;
+  relatedModel?: 'SwapRequest' | 'User' | 'AdminMessage' | 'Session' | 'GroupSwap' | null;
+  metadata?: Record<string, unknown>;
+}
+
+// A device the user is logged in on
+export interface ApiAuthSession {
+  id: string;
+  userAgent: string;
+  ip: string;
+  createdAt: string;
+  lastUsedAt: string;
+  isCurrent: boolean;
+}
+
+// An error response from the API, with its machine-readable code and data when it sent any
+export class ApiError extends Error {
+  code: string | null;
+  data: Record<string, unknown> | null;
+
+  constructor(message: string, code: string | null = null, data: Record<string, unknown> | null = null) {
+    super(message);
+    this.name = 'ApiError';
+    this.code = code;
+    this.data = data;
+  }
+}
+
+// Endpoints that answer 401 for reasons other than an expired access token
+const NO_REFRESH_ENDPOINTS = ['/auth/login', '/auth/register', '/auth/refresh', '/auth/logout'];
+
 class ApiService {
+  // The access token is only kept in memory; after a page load it's fetched
+  // again with the refresh token cookie (see refreshAccessToken)
   private token: string | null = null;
+  // Shared by every request that hits a 401 while a refresh is in flight
+  private refreshPromise: Promise<boolean> | null = null;
+  private sessionExpiredHandler: (() => void) | null = null;
+
+  constructor() {
+    // Drop the token older versions kept in localStorage
+    localStorage.removeItem('token');
+  }
 
   setToken(token: string) {
     this.token = token;
-    localStorage.setItem('token', token);
   }
 
   getToken(): string | null {
-    if (!this.token) {
-      this.token = localStorage.getItem('token');
-    }
     return this.token;
   }
 
   clearToken() {
     this.token = null;
-    localStorage.removeItem('token');
+  }
+
+  // Called when the session can't be refreshed any more (logged out elsewhere, banned, expired)
+  onSessionExpired(handler: (() => void) | null) {
+    this.sessionExpiredHandler = handler;
+  }
+
+  // Get a new access token with the refresh token cookie
+  refreshAccessToken(): Promise<boolean> {
+    if (!this.refreshPromise) {
+      this.refreshPromise = fetch(`${API_BASE_URL}/auth/refresh`, {
+        method: 'POST',
+        credentials: 'include',
+      })
+        .then(async (response) => {
+          if (!response.ok) return false;
+          const data = await response.json();
+          this.setToken(data.data.token);
+          return true;
+        })
+        .catch(() => false)
+        .finally(() => {
+          this.refreshPromise = null;
+        });
+    }
+    return this.refreshPromise;
   }
 
   private async request<T>(
     endpoint: string,
-    options: RequestInit = {}
+    options: RequestInit = {},
+    isRetry = false
   ): Promise<T> {
     const url = `${API_BASE_URL}${endpoint}`;
     const token = this.getToken();
@@ -33,15 +439,25 @@ class ApiService {
         ...(token && { Authorization: `Bearer ${token}` }),
         ...options.headers,
       },
+      credentials: 'include',
       ...options,
     };
 
     try {
       const response = await fetch(url, config);
+
+      if (response.status === 401 && token && !isRetry && !NO_REFRESH_ENDPOINTS.includes(endpoint)) {
+        if (await this.refreshAccessToken()) {
+          return this.request<T>(endpoint, options, true);
+        }
+        this.clearToken();
+        this.sessionExpiredHandler?.();
+      }
+
       const data = await response.json();
 
       if (!response.ok) {
-        throw new Error(data.message || 'API request failed');
+        throw new ApiError(data.message || 'API request failed', data.code ?? null, data.data ?? null);
       }
 
       return data;
@@ -66,11 +482,27 @@ class ApiService {
     });
   }
 
+  async logout(): Promise<{ success: boolean; message: string }> {
+    return this.request('/auth/logout', {
+      method: 'POST',
+    });
+  }
+
+  async getAuthSessions(): Promise<{ success: boolean; data: { sessions: ApiAuthSession[] } }> {
+    return this.request('/auth/sessions');
+  }
+
+  async deleteAuthSession(id: string): Promise<{ success: boolean; message: string }> {
+    return this.request(`/auth/sessions/${id}`, {
+      method: 'DELETE',
+    });
+  }
+
   async getCurrentUser(): Promise<{ success: boolean; message: string; data: { user: any } }> {
     return this.request('/auth/me');
   }
 
-  async updateProfile(profileData: any) {
+  async updateProfile(profileData: ApiProfileUpdate): Promise<{ success: boolean; message: string; data: { user: User } }> {
     return this.request('/auth/profile', {
       method: 'PUT',
       body: JSON.stringify(profileData),
@@ -84,15 +516,51 @@ class ApiService {
     });
   }
 
+  async verifyEmail(token: string): Promise<{ success: boolean; message: string }> {
+    return this.request('/auth/verify-email', {
+      method: 'POST',
+      body: JSON.stringify({ token }),
+    });
+  }
+
+  async resendVerification(): Promise<{ success: boolean; message: string }> {
+    return this.request('/auth/resend-verification', {
+      method: 'POST',
+    });
+  }
+
+  async forgotPassword(email: string): Promise<{ success: boolean; message: string }> {
+    return this.request('/auth/forgot-password', {
+      method: 'POST',
+      body: JSON.stringify({ email }),
+    });
+  }
+
+  async resetPassword(token: string, password: string): Promise<{ success: boolean; message: string }> {
+    return this.request('/auth/reset-password', {
+      method: 'POST',
+      body: JSON.stringify({ token, password }),
+    });
+  }
+
   // User endpoints
   async getUsers(params?: {
     search?: string;
     skill?: string;
+    minLevel?: SkillLevel;
     availability?: string;
+    day?: number;
+    from?: string;
+    to?: string;
+    timezone?: string;
+    overlapWithMe?: boolean;
+    minOverlap?: number;
     location?: string;
+    onlineNow?: boolean;
+    activeWithinDays?: number;
     page?: number;
     limit?: number;
-  }) {
+  }): Promise<{ success: boolean; data: { users: ApiUser[]; pagination: ApiPagination & { totalUsers: number } } }> {
     const queryParams = new URLSearchParams();
     if (params) {
       Object.entries(params).forEach(([key, value]) => {
@@ -106,11 +574,33 @@ class ApiService {
     return this.request(`/users${queryString ? `?${queryString}` : ''}`);
   }
 
-  async getUser(id: string) {
+  async getUser(id: string): Promise<{ success: boolean; data: { user: ApiUser } }> {
     return this.request(`/users/${id}`);
   }
 
-  async getSkillMatches(userId: string, params?: { page?: number; limit?: number }) {
+  async getBlockedUsers(): Promise<{ success: boolean; data: { users: ApiUserSummary[] } }> {
+    return this.request('/users/blocked');
+  }
+
+  async blockUser(id: string): Promise<{ success: boolean; message: string }> {
+    return this.request(`/users/${id}/block`, {
+      method: 'POST',
+    });
+  }
+
+  async unblockUser(id: string): Promise<{ success: boolean; message: string }> {
+    return this.request(`/users/${id}/block`, {
+      method: 'DELETE',
+    });
+  }
+
+  async getSkillMatches(userId: string, params?: {
+    sortBy?: 'score' | 'rating' | 'availability';
+    minScore?: number;
+    minOverlap?: number;
+    page?: number;
+    limit?: number;
+  }): Promise<{ success: boolean; data: { matches: ApiSkillMatch[]; pagination: ApiPagination & { totalMatches: number } } }> {
     const queryParams = new URLSearchParams();
     if (params) {
       Object.entries(params).forEach(([key, value]) => {
@@ -142,13 +632,47 @@ class ApiService {
     return this.request('/users/stats/popular-skills');
   }
 
+  // Skill taxonomy endpoints
+  async getSkills(params?: { category?: string; parent?: string; page?: number; limit?: number }): Promise<{
+    success: boolean;
+    data: { skills: ApiSkill[]; pagination: ApiPagination & { totalSkills: number } };
+  }> {
+    const queryParams = new URLSearchParams();
+    if (params) {
+      Object.entries(params).forEach(([key, value]) => {
+        if (value !== undefined) {
+          queryParams.append(key, value.toString());
+        }
+      });
+    }
+
+    const queryString = queryParams.toString();
+    return this.request(`/skills${queryString ? `?${queryString}` : ''}`);
+  }
+
+  async autocompleteSkills(q: string, limit?: number): Promise<{ success: boolean; data: { suggestions: ApiSkillSuggestion[] } }> {
+    const queryParams = new URLSearchParams({ q });
+    if (limit) queryParams.append('limit', limit.toString());
+    return this.request(`/skills/autocomplete?${queryParams.toString()}`);
+  }
+
+  async getSkillCategories(): Promise<{ success: boolean; data: { categories: { _id: string; count: number }[] } }> {
+    return this.request('/skills/categories');
+  }
+
+  async getSkill(id: string): Promise<{ success: boolean; data: { skill: ApiSkill; children: ApiSkill[] } }> {
+    return this.request(`/skills/${id}`);
+  }
+
   // Swap endpoints
   async createSwapRequest(swapData: {
     toUserId: string;
-    skillOffered: string;
+    skillOffered?: string;
     skillWanted: string;
     message: string;
-  }) {
+    paymentType?: PaymentType;
+    hours?: number;
+  }): Promise<{ success: boolean; data: { swapRequest: ApiSwapRequest } }> {
     return this.request('/swaps', {
       method: 'POST',
       body: JSON.stringify(swapData),
@@ -160,7 +684,7 @@ class ApiService {
     type?: 'sent' | 'received';
     page?: number;
     limit?: number;
-  }) {
+  }): Promise<{ success: boolean; data: { swapRequests: ApiSwapRequest[]; pagination: ApiPagination & { totalRequests: number } } }> {
     const queryParams = new URLSearchParams();
     if (params) {
       Object.entries(params).forEach(([key, value]) => {
@@ -178,24 +702,53 @@ class ApiService {
     return this.request(`/swaps/${id}`);
   }
 
-  async acceptSwapRequest(id: string) {
+  async acceptSwapRequest(id: string): Promise<{ success: boolean; data: { swapRequest: ApiSwapRequest } }> {
     return this.request(`/swaps/${id}/accept`, {
       method: 'PUT',
     });
   }
 
-  async rejectSwapRequest(id: string) {
+  async rejectSwapRequest(id: string): Promise<{ success: boolean; data: { swapRequest: ApiSwapRequest } }> {
     return this.request(`/swaps/${id}/reject`, {
       method: 'PUT',
     });
   }
 
-  async completeSwapRequest(id: string) {
+  async counterSwapRequest(id: string, counter: {
+    skillOffered?: string;
+    skillWanted?: string;
+    hours?: number;
+    message: string;
+  }): Promise<{ success: boolean; data: { swapRequest: ApiSwapProgress } }> {
+    return this.request(`/swaps/${id}/counter`, {
+      method: 'PUT',
+      body: JSON.stringify(counter),
+    });
+  }
+
+  async completeSwapRequest(id: string): Promise<{ success: boolean; data: { swapRequest: ApiSwapProgress } }> {
     return this.request(`/swaps/${id}/complete`, {
       method: 'PUT',
     });
   }
 
+  async getSwapHistory(id: string): Promise<{ success: boolean; data: { status: SwapStatus; history: ApiSwapHistoryEntry[] } }> {
+    return this.request(`/swaps/${id}/history`);
+  }
+
+  async confirmSwapCompletion(id: string): Promise<{ success: boolean; data: { swapRequest: ApiSwapProgress } }> {
+    return this.request(`/swaps/${id}/confirm-completion`, {
+      method: 'PUT',
+    });
+  }
+
+  async disputeSwapCompletion(id: string, reason: string): Promise<{ success: boolean; data: { swapRequest: ApiSwapProgress } }> {
+    return this.request(`/swaps/${id}/dispute`, {
+      method: 'PUT',
+      body: JSON.stringify({ reason }),
+    });
+  }
+
   async cancelSwapRequest(id: string) {
     return this.request(`/swaps/${id}`, {
       method: 'DELETE',
@@ -207,18 +760,34 @@ class ApiService {
   }
 
   // Feedback endpoints
-  async addFeedback(swapId: string, feedbackData: { rating: number; comment?: string }) {
+  async submitReview(swapId: string, reviewData: { scores: Record<ReviewDimension, number>; comment?: string }): Promise<{
+    success: boolean;
+    data: ApiReviewState;
+  }> {
     return this.request(`/feedback/${swapId}`, {
       method: 'POST',
-      body: JSON.stringify(feedbackData),
+      body: JSON.stringify(reviewData),
     });
   }
 
-  async getFeedback(swapId: string) {
+  async getFeedback(swapId: string): Promise<{
+    success: boolean;
+    data: ApiReviewState;
+  }> {
     return this.request(`/feedback/${swapId}`);
   }
 
-  async getUserFeedback(userId: string, params?: { page?: number; limit?: number }) {
+  async getPendingReviews(): Promise<{
+    success: boolean;
+    data: { pending: { swapRequestId: string; status: PendingReview['status']; revealAt: string }[] };
+  }> {
+    return this.request('/feedback/pending');
+  }
+
+  async getUserFeedback(userId: string, params?: { page?: number; limit?: number }): Promise<{
+    success: boolean;
+    data: { reviews: ApiReview[]; summary: ReviewSummary; pagination: ApiPagination & { totalReviews: number } };
+  }> {
     const queryParams = new URLSearchParams();
     if (params) {
       Object.entries(params).forEach(([key, value]) => {
@@ -232,10 +801,237 @@ class ApiService {
     return this.request(`/feedback/user/${userId}${queryString ? `?${queryString}` : ''}`);
   }
 
+  async replyToReview(id: string, body: string): Promise<{ success: boolean; data: { review: ApiReview } }> {
+    return this.request(`/feedback/reviews/${id}/reply`, {
+      method: 'PUT',
+      body: JSON.stringify({ body }),
+    });
+  }
+
   async getFeedbackStats() {
     return this.request('/feedback/stats/overview');
   }
 
+  // Message endpoints
+  async getSwapMessages(swapId: string, params?: { before?: string; beforeId?: string; limit?: number }): Promise<{
+    success: boolean;
+    data: { messages: ApiMessage[]; hasMore: boolean; isChatOpen: boolean };
+  }> {
+    const queryParams = new URLSearchParams();
+    if (params) {
+      Object.entries(params).forEach(([key, value]) => {
+        if (value !== undefined) {
+          queryParams.append(key, value.toString());
+        }
+      });
+    }
+
+    const queryString = queryParams.toString();
+    return this.request(`/messages/${swapId}${queryString ? `?${queryString}` : ''}`);
+  }
+
+  async sendSwapMessage(swapId: string, body: string): Promise<{ success: boolean; data: { message: ApiMessage } }> {
+    return this.request(`/messages/${swapId}`, {
+      method: 'POST',
+      body: JSON.stringify({ body }),
+    });
+  }
+
+  async markSwapMessagesAsRead(swapId: string): Promise<{ success: boolean; data: { updatedCount: number } }> {
+    return this.request(`/messages/${swapId}/read`, {
+      method: 'PUT',
+    });
+  }
+
+  async getUnreadMessageCounts(): Promise<{ success: boolean; data: { unreadCounts: Record<string, number>; totalUnread: number } }> {
+    return this.request('/messages/unread/counts');
+  }
+
+  // Session endpoints
+  async getSessions(params?: { includePast?: boolean }): Promise<{ success: boolean; data: { sessions: ApiSession[] } }> {
+    const queryString = params?.includePast ? '?includePast=true' : '';
+    return this.request(`/sessions${queryString}`);
+  }
+
+  async getSwapSessions(swapId: string): Promise<{ success: boolean; data: { sessions: ApiSession[] } }> {
+    return this.request(`/sessions/swap/${swapId}`);
+  }
+
+  async proposeSession(swapId: string, sessionData: {
+    startTime: string;
+    endTime: string;
+    title?: string;
+    notes?: string;
+  }): Promise<{ success: boolean; data: { session: ApiSession } }> {
+    return this.request(`/sessions/swap/${swapId}`, {
+      method: 'POST',
+      body: JSON.stringify(sessionData),
+    });
+  }
+
+  async acceptSession(id: string): Promise<{ success: boolean; data: { session: ApiSession } }> {
+    return this.request(`/sessions/${id}/accept`, {
+      method: 'PUT',
+    });
+  }
+
+  async declineSession(id: string): Promise<{ success: boolean; data: { session: ApiSession } }> {
+    return this.request(`/sessions/${id}/decline`, {
+      method: 'PUT',
+    });
+  }
+
+  async rescheduleSession(id: string, slot: { startTime: string; endTime: string }): Promise<{ success: boolean; data: { session: ApiSession } }> {
+    return this.request(`/sessions/${id}/reschedule`, {
+      method: 'PUT',
+      body: JSON.stringify(slot),
+    });
+  }
+
+  async cancelSession(id: string): Promise<{ success: boolean; data: { session: ApiSession } }> {
+    return this.request(`/sessions/${id}`, {
+      method: 'DELETE',
+    });
+  }
+
+  async getCalendarUrl(): Promise<{ success: boolean; data: { url: string } }> {
+    return this.request('/sessions/calendar-url');
+  }
+
+  async resetCalendarUrl(): Promise<{ success: boolean; data: { url: string } }> {
+    return this.request('/sessions/calendar-url/reset', {
+      method: 'POST',
+    });
+  }
+
+  // Group swap endpoints
+  async getGroupSwapSuggestions(params?: { maxLength?: number; limit?: number }): Promise<{ success: boolean; data: { rings: ApiRingMember[][] } }> {
+    const queryParams = new URLSearchParams();
+    if (params) {
+      Object.entries(params).forEach(([key, value]) => {
+        if (value !== undefined) {
+          queryParams.append(key, value.toString());
+        }
+      });
+    }
+    const queryString = queryParams.toString();
+    return this.request(`/group-swaps/suggestions${queryString ? `?${queryString}` : ''}`);
+  }
+
+  async getGroupSwaps(): Promise<{ success: boolean; data: { groupSwaps: ApiGroupSwap[] } }> {
+    return this.request('/group-swaps');
+  }
+
+  async proposeGroupSwap(participants: string[]): Promise<{ success: boolean; data: { groupSwap: ApiGroupSwap } }> {
+    return this.request('/group-swaps', {
+      method: 'POST',
+      body: JSON.stringify({ participants }),
+    });
+  }
+
+  async acceptGroupSwap(id: string): Promise<{ success: boolean; data: { groupSwap: ApiGroupSwap } }> {
+    return this.request(`/group-swaps/${id}/accept`, {
+      method: 'PUT',
+    });
+  }
+
+  async declineGroupSwap(id: string): Promise<{ success: boolean; data: { groupSwap: ApiGroupSwap } }> {
+    return this.request(`/group-swaps/${id}/decline`, {
+      method: 'PUT',
+    });
+  }
+
+  async cancelGroupSwap(id: string): Promise<{ success: boolean; data: { groupSwap: ApiGroupSwap } }> {
+    return this.request(`/group-swaps/${id}`, {
+      method: 'DELETE',
+    });
+  }
+
+  // Credit endpoints
+  async getCreditBalance(): Promise<{ success: boolean; data: { balance: number; held: number } }> {
+    return this.request('/credits/balance');
+  }
+
+  async getCreditHistory(params?: { page?: number; limit?: number }): Promise<{
+    success: boolean;
+    data: { transactions: ApiCreditTransaction[]; pagination: ApiPagination & { totalTransactions: number } };
+  }> {
+    const queryParams = new URLSearchParams();
+    if (params) {
+      Object.entries(params).forEach(([key, value]) => {
+        if (value !== undefined) {
+          queryParams.append(key, value.toString());
+        }
+      });
+    }
+    const queryString = queryParams.toString();
+    return this.request(`/credits/history${queryString ? `?${queryString}` : ''}`);
+  }
+
+  // Notification endpoints
+  async getNotifications(params?: { unreadOnly?: boolean; page?: number; limit?: number }): Promise<{
+    success: boolean;
+    data: { notifications: ApiNotification[]; unreadCount: number; pagination: ApiPagination & { totalNotifications: number } };
+  }> {
+    const queryParams = new URLSearchParams();
+    if (params) {
+      Object.entries(params).forEach(([key, value]) => {
+        if (value !== undefined) {
+          queryParams.append(key, value.toString());
+        }
+      });
+    }
+
+    const queryString = queryParams.toString();
+    return this.request(`/notifications${queryString ? `?${queryString}` : ''}`);
+  }
+
+  async getUnreadNotificationCount(): Promise<{ success: boolean; data: { unreadCount: number } }> {
+    return this.request('/notifications/unread-count');
+  }
+
+  async markNotificationAsRead(id: string): Promise<{ success: boolean; data: { notification: ApiNotification; unreadCount: number } }> {
+    return this.request(`/notifications/${id}/read`, {
+      method: 'PUT',
+    });
+  }
+
+  async markAllNotificationsAsRead(): Promise<{ success: boolean; data: { updatedCount: number } }> {
+    return this.request('/notifications/read-all', {
+      method: 'PUT',
+    });
+  }
+
+  async getEmailPreferences(): Promise<{ success: boolean; data: { emailPreferences: EmailPreferences; types: NotificationType[] } }> {
+    return this.request('/notifications/preferences');
+  }
+
+  async updateEmailPreferences(preferences: Partial<EmailPreferences>): Promise<{ success: boolean; data: { emailPreferences: EmailPreferences } }> {
+    return this.request('/notifications/preferences', {
+      method: 'PUT',
+      body: JSON.stringify(preferences),
+    });
+  }
+
+  async deleteNotification(id: string): Promise<{ success: boolean; data: { unreadCount: number } }> {
+    return this.request(`/notifications/${id}`, {
+      method: 'DELETE',
+    });
+  }
+
+  // Report endpoints
+  async createReport(report: {
+    targetType: ReportTargetType;
+    targetId: string;
+    category: ReportCategory;
+    evidence: string;
+  }): Promise<{ success: boolean; message: string; data: { report: ApiReport } }> {
+    return this.request('/reports', {
+      method: 'POST',
+      body: JSON.stringify(report),
+    });
+  }
+
   // Admin endpoints
   async getAdminDashboard() {
     return this.request('/admin/dashboard');
@@ -247,7 +1043,7 @@ class ApiService {
     role?: 'user' | 'admin';
     page?: number;
     limit?: number;
-  }) {
+  }): Promise<{ success: boolean; data: { users: ApiUser[]; pagination: ApiPagination & { totalUsers: number } } }> {
     const queryParams = new URLSearchParams();
     if (params) {
       Object.entries(params).forEach(([key, value]) => {
@@ -261,14 +1057,14 @@ class ApiService {
     return this.request(`/admin/users${queryString ? `?${queryString}` : ''}`);
   }
 
-  async banUser(userId: string, reason?: string) {
+  async banUser(userId: string, reason?: string): Promise<{ success: boolean; data: { user: ApiUser } }> {
     return this.request(`/admin/users/${userId}/ban`, {
       method: 'PUT',
       body: JSON.stringify({ reason }),
     });
   }
 
-  async unbanUser(userId: string) {
+  async unbanUser(userId: string): Promise<{ success: boolean; data: { user: ApiUser } }> {
     return this.request(`/admin/users/${userId}/unban`, {
       method: 'PUT',
     });
@@ -281,7 +1077,10 @@ class ApiService {
     });
   }
 
-  async getAdminSwaps(params?: { status?: string; page?: number; limit?: number }) {
+  async getAdminSwaps(params?: { status?: string; page?: number; limit?: number }): Promise<{
+    success: boolean;
+    data: { swapRequests: ApiSwapRequest[]; pagination: ApiPagination & { totalRequests: number } };
+  }> {
     const queryParams = new URLSearchParams();
     if (params) {
       Object.entries(params).forEach(([key, value]) => {
@@ -295,6 +1094,111 @@ class ApiService {
     return this.request(`/admin/swaps${queryString ? `?${queryString}` : ''}`);
   }
 
+  async getDisputes(params?: { page?: number; limit?: number }): Promise<{
+    success: boolean;
+    data: { disputes: ApiDisputedSwap[]; pagination: ApiPagination & { totalDisputes: number } };
+  }> {
+    const queryParams = new URLSearchParams();
+    if (params) {
+      Object.entries(params).forEach(([key, value]) => {
+        if (value !== undefined) {
+          queryParams.append(key, value.toString());
+        }
+      });
+    }
+    const queryString = queryParams.toString();
+    return this.request(`/admin/disputes${queryString ? `?${queryString}` : ''}`);
+  }
+
+  async getAdminReviews(params?: { page?: number; limit?: number }): Promise<{
+    success: boolean;
+    data: { reviews: ApiAdminReview[]; pagination: ApiPagination & { totalReviews: number } };
+  }> {
+    const queryParams = new URLSearchParams();
+    if (params) {
+      Object.entries(params).forEach(([key, value]) => {
+        if (value !== undefined) {
+          queryParams.append(key, value.toString());
+        }
+      });
+    }
+    const queryString = queryParams.toString();
+    return this.request(`/admin/reviews${queryString ? `?${queryString}` : ''}`);
+  }
+
+  async moderateReview(id: string, action: 'hide' | 'unhide', reason?: string): Promise<{
+    success: boolean;
+    data: { review: ApiAdminReview };
+  }> {
+    return this.request(`/admin/reviews/${id}/moderate`, {
+      method: 'PUT',
+      body: JSON.stringify({ action, reason }),
+    });
+  }
+
+  async getAdminReports(params?: {
+    status?: 'active' | 'all' | ReportStatus;
+    targetType?: ReportTargetType;
+    category?: ReportCategory;
+    assignee?: 'me' | 'unassigned';
+    page?: number;
+    limit?: number;
+  }): Promise<{
+    success: boolean;
+    data: { reports: ApiAdminReport[]; pagination: ApiPagination & { totalReports: number } };
+  }> {
+    const queryParams = new URLSearchParams();
+    if (params) {
+      Object.entries(params).forEach(([key, value]) => {
+        if (value !== undefined) {
+          queryParams.append(key, value.toString());
+        }
+      });
+    }
+    const queryString = queryParams.toString();
+    return this.request(`/admin/reports${queryString ? `?${queryString}` : ''}`);
+  }
+
+  async updateReport(id: string, changes: {
+    assignedTo?: string | null;
+    status?: ReportStatus;
+    resolutionNote?: string;
+  }): Promise<{ success: boolean; data: { report: ApiAdminReport } }> {
+    return this.request(`/admin/reports/${id}`, {
+      method: 'PUT',
+      body: JSON.stringify(changes),
+    });
+  }
+
+  async takeReportAction(id: string, action: ReportAction, note?: string): Promise<{
+    success: boolean;
+    message: string;
+    data: { report: ApiAdminReport };
+  }> {
+    return this.request(`/admin/reports/${id}/actions`, {
+      method: 'POST',
+      body: JSON.stringify({ action, note }),
+    });
+  }
+
+  async recomputeRatings(userId?: string): Promise<{
+    success: boolean;
+    message: string;
+    data: { checked: number; fixed: number };
+  }> {
+    return this.request('/admin/ratings/recompute', {
+      method: 'POST',
+      body: JSON.stringify({ userId }),
+    });
+  }
+
+  async resolveDispute(id: string, resolution: DisputeResolution, note?: string) {
+    return this.request(`/admin/disputes/${id}/resolve`, {
+      method: 'PUT',
+      body: JSON.stringify({ resolution, note }),
+    });
+  }
+
   async createAdminMessage(messageData: {
     title: string;
     message: string;
@@ -302,7 +1206,7 @@ class ApiService {
     isGlobal?: boolean;
     targetUsers?: string[];
     expiresAt?: string;
-  }) {
+  }): Promise<{ success: boolean; data: { adminMessage: ApiAdminMessage } }> {
     return this.request('/admin/messages', {
       method: 'POST',
       body: JSON.stringify(messageData),
@@ -314,7 +1218,7 @@ class ApiService {
     isActive?: boolean;
     page?: number;
     limit?: number;
-  }) {
+  }): Promise<{ success: boolean; data: { messages: ApiAdminMessage[]; pagination: ApiPagination & { totalMessages: number } } }> {
     const queryParams = new URLSearchParams();
     if (params) {
       Object.entries(params).forEach(([key, value]) => {
@@ -340,6 +1244,27 @@ class ApiService {
       method: 'DELETE',
     });
   }
+
+  async createSkill(skillData: { name: string; category?: string; aliases?: string[]; parent?: string | null }): Promise<{ success: boolean; data: { skill: ApiSkill } }> {
+    return this.request('/admin/skills', {
+      method: 'POST',
+      body: JSON.stringify(skillData),
+    });
+  }
+
+  async updateSkill(skillId: string, updateData: { name?: string; category?: string; aliases?: string[]; parent?: string | null }): Promise<{ success: boolean; data: { skill: ApiSkill } }> {
+    return this.request(`/admin/skills/${skillId}`, {
+      method: 'PUT',
+      body: JSON.stringify(updateData),
+    });
+  }
+
+  async mergeSkills(sourceId: string, targetId: string): Promise<{ success: boolean; data: { skill: ApiSkill; affectedUsers: number } }> {
+    return this.request(`/admin/skills/${sourceId}/merge`, {
+      method: 'POST',
+      body: JSON.stringify({ targetId }),
+    });
+  }
 }
 
 export const apiService = new ApiService();
@@ -1,4 +1,28 @@
 import { io, Socket } from 'socket.io-client';
+import apiService, { ApiGroupSwap, ApiMessage, ApiNotification, ApiSession, ApiSwapRequest } from './api';
+
+// Server events that carry a per-user `seq` and can be replayed after a reconnect
+const SEQUENCED_EVENTS = [
+  'new-swap-request',
+  'swap-request-updated',
+  'new-notification',
+  'new-message',
+  'messages-read',
+  'session-updated',
+  'group-swap-updated'
+];
+
+// Live-only events
+const EPHEMERAL_EVENTS = ['typing', 'presence-changed'];
+
+interface SyncState {
+  seq: number | null;
+  events: { seq: number; event: string; payload: Record<string, unknown> }[];
+  resync: boolean;
+}
+
+// Each event has its own payload type; listeners are only ever called with theirs
+type Listener = (data: never) => void;
 
 class RealtimeService {
   private socket: Socket | null = null;
@@ -6,8 +30,18 @@ class RealtimeService {
   private reconnectAttempts = 0;
   private maxReconnectAttempts = 5;
   private reconnectDelay = 1000;
-
-  connect(userId: string) {
+  private hasRetriedAuth = false;
+  // Listeners live here rather than on the socket so they survive reconnects
+  // and also receive replayed events
+  private listeners = new Map<string, Set<Listener>>();
+  // Number of the last sequenced event applied; null until the first sync
+  private lastSeq: number | null = null;
+  private isSyncing = false;
+  private needsAnotherSync = false;
+
+  // The server puts the connection in the user's room based on the access
+  // token, which is read again on every (re)connect so refreshed tokens are used
+  connect() {
     if (this.socket?.connected) {
       return;
     }
@@ -15,6 +49,7 @@ class RealtimeService {
     const serverUrl = import.meta.env.VITE_API_URL || 'http://localhost:5000';
     
     this.socket = io(serverUrl, {
+      auth: (cb) => cb({ token: apiService.getToken() }),
       transports: ['websocket', 'polling'],
       autoConnect: true,
       reconnection: true,
@@ -26,9 +61,17 @@ class RealtimeService {
       console.log('Connected to WebSocket server');
       this.isConnected = true;
       this.reconnectAttempts = 0;
-      
-      // Join user's personal room
-      this.socket?.emit('join-user', userId);
+      this.hasRetriedAuth = false;
+
+      // Catch up on anything sent while we were away
+      this.sync();
+    });
+
+    SEQUENCED_EVENTS.forEach(event => {
+      this.socket?.on(event, (data) => this.receive(event, data));
+    });
+    EPHEMERAL_EVENTS.forEach(event => {
+      this.socket?.on(event, (data) => this.dispatch(event, data));
     });
 
     this.socket.on('disconnect', () => {
@@ -36,18 +79,24 @@ class RealtimeService {
       this.isConnected = false;
     });
 
-    this.socket.on('connect_error', (error) => {
+    this.socket.on('connect_error', (error: Error & { data?: { statusCode?: number } }) => {
       console.error('WebSocket connection error:', error);
       this.isConnected = false;
+
+      // Rejected handshakes aren't retried automatically; an expired access
+      // token is refreshed once and the connection tried again
+      if (error.data?.statusCode === 401 && !this.hasRetriedAuth) {
+        this.hasRetriedAuth = true;
+        apiService.refreshAccessToken().then((refreshed) => {
+          if (refreshed) this.socket?.connect();
+        });
+      }
     });
 
     this.socket.on('reconnect', (attemptNumber) => {
       console.log(`Reconnected to WebSocket server after ${attemptNumber} attempts`);
       this.isConnected = true;
       this.reconnectAttempts = 0;
-      
-      // Rejoin user's personal room
-      this.socket?.emit('join-user', userId);
     });
 
     this.socket.on('reconnect_attempt', (attemptNumber) => {
@@ -67,26 +116,121 @@ class RealtimeService {
       this.socket = null;
       this.isConnected = false;
     }
+    this.lastSeq = null;
   }
 
-  onNewSwapRequest(callback: (data: any) => void) {
-    if (!this.socket) return;
-    
-    this.socket.on('new-swap-request', (data) => {
-      console.log('New swap request received:', data);
-      callback(data);
-    });
+  private subscribe(event: string, callback: Listener): () => void {
+    const listeners = this.listeners.get(event) ?? new Set<Listener>();
+    listeners.add(callback);
+    this.listeners.set(event, listeners);
+    return () => {
+      listeners.delete(callback);
+    };
   }
 
-  onSwapRequestUpdated(callback: (data: any) => void) {
-    if (!this.socket) return;
-    
-    this.socket.on('swap-request-updated', (data) => {
-      console.log('Swap request updated:', data);
-      callback(data);
+  private dispatch(event: string, data: unknown) {
+    this.listeners.get(event)?.forEach(callback => callback(data as never));
+  }
+
+  // Apply sequenced events exactly once and in order. A gap means events were
+  // missed, so ask for a replay, which also delivers this one.
+  private receive(event: string, data: { seq?: number }) {
+    if (typeof data.seq !== 'number') {
+      this.dispatch(event, data);
+      return;
+    }
+
+    if (this.lastSeq !== null) {
+      if (data.seq <= this.lastSeq) return;
+      if (data.seq > this.lastSeq + 1) {
+        this.sync();
+        return;
+      }
+    }
+
+    this.lastSeq = data.seq;
+    this.dispatch(event, data);
+  }
+
+  // Send the last seen number and apply what the server replays, or tell
+  // listeners to reload everything when it can't
+  private sync() {
+    if (!this.socket?.connected) return;
+    if (this.isSyncing) {
+      this.needsAnotherSync = true;
+      return;
+    }
+
+    this.isSyncing = true;
+    const sentSeq = this.lastSeq;
+    this.socket.emit('sync', { lastSeq: sentSeq }, (state: SyncState) => {
+      this.isSyncing = false;
+
+      if (state.resync) {
+        this.lastSeq = state.seq;
+        this.dispatch('resync', undefined);
+      } else {
+        state.events.forEach(({ seq, event, payload }) => this.receive(event, { ...payload, seq }));
+        // A first sync only tells us where the server is
+        if (sentSeq === null && state.seq !== null && (this.lastSeq === null || this.lastSeq < state.seq)) {
+          this.lastSeq = state.seq;
+        }
+      }
+
+      if (this.needsAnotherSync) {
+        this.needsAnotherSync = false;
+        this.sync();
+      }
     });
   }
 
+  onNewSwapRequest(callback: (data: { swapRequest: ApiSwapRequest; fromUser: { id: string; name: string; photo?: string | null } }) => void): () => void {
+    return this.subscribe('new-swap-request', callback);
+  }
+
+  // updatedBy is null when the system changed the swap (expiry, auto-confirmation)
+  onSwapRequestUpdated(callback: (data: { swapRequest: ApiSwapRequest; action: string; updatedBy: { id: string; name: string; photo?: string | null } | null }) => void): () => void {
+    return this.subscribe('swap-request-updated', callback);
+  }
+
+  onNewNotification(callback: (data: { notification: ApiNotification; unreadCount: number }) => void): () => void {
+    return this.subscribe('new-notification', callback);
+  }
+
+  onNewMessage(callback: (data: { message: ApiMessage }) => void): () => void {
+    return this.subscribe('new-message', callback);
+  }
+
+  onMessagesRead(callback: (data: { swapRequestId: string; readBy: string; readAt: string }) => void): () => void {
+    return this.subscribe('messages-read', callback);
+  }
+
+  onTyping(callback: (data: { swapRequestId: string; userId: string; isTyping: boolean }) => void): () => void {
+    return this.subscribe('typing', callback);
+  }
+
+  onSessionUpdated(callback: (data: { session: ApiSession; action: string }) => void): () => void {
+    return this.subscribe('session-updated', callback);
+  }
+
+  onGroupSwapUpdated(callback: (data: { groupSwap: ApiGroupSwap; action: string }) => void): () => void {
+    return this.subscribe('group-swap-updated', callback);
+  }
+
+  // Someone with an open swap with this user came online or went offline
+  onPresenceChanged(callback: (data: { userId: string; isOnline: boolean; lastActive: string }) => void): () => void {
+    return this.subscribe('presence-changed', callback);
+  }
+
+  // Events were missed and can't be replayed; state should be reloaded from the API
+  onResync(callback: () => void): () => void {
+    return this.subscribe('resync', callback);
+  }
+
+  sendTyping(swapRequestId: string, isTyping: boolean) {
+    this.emit('typing', { swapRequestId, isTyping });
+  }
+
   getConnectionStatus(): boolean {
     return this.isConnected;
   }
@@ -1,3 +1,37 @@
+export interface AvailabilitySlot {
+  // 0 = Sunday ... 6 = Saturday
+  day: number;
+  start: string;
+  end: string;
+}
+
+export interface Availability {
+  timezone: string;
+  slots: AvailabilitySlot[];
+}
+
+export type SkillLevel = 'beginner' | 'intermediate' | 'advanced' | 'expert';
+
+export interface OfferedSkillDetail {
+  level: SkillLevel | null;
+  yearsExperience: number | null;
+  description: string | null;
+  portfolioLinks: string[];
+}
+
+export interface WantedSkillDetail {
+  targetLevel: SkillLevel | null;
+}
+
+// A skill with its details, as edited on the profile and sent to the API
+export interface OfferedSkill extends OfferedSkillDetail {
+  name: string;
+}
+
+export interface WantedSkill extends WantedSkillDetail {
+  name: string;
+}
+
 export interface User {
   id: string;
   email: string;
@@ -6,60 +40,285 @@ export interface User {
   photo?: string;
   skillsOffered: string[];
   skillsWanted: string[];
-  availability: 'weekdays' | 'weekends' | 'evenings' | 'flexible';
+  // Parallel to skillsOffered/skillsWanted; missing for users without levels yet
+  offeredSkillDetails?: OfferedSkillDetail[];
+  wantedSkillDetails?: WantedSkillDetail[];
+  availability: Availability;
+  // Weekly minutes shared with the viewer, when the API ranked by availability
+  availabilityOverlap?: number;
   isPublic: boolean;
   isAdmin: boolean;
   isBanned: boolean;
+  // Why and by whom a banned user was banned; only admin lists include it
+  ban?: AccountBan;
+  // Unverified users can't start swaps or chat until they confirm their email
+  emailVerified?: boolean;
+  // Presence, when the API includes it: connected right now / last seen
+  isOnline?: boolean;
+  lastActive?: Date;
   joinedAt: Date;
+  // Smoothed towards the site average while there are few reviews; used for ranking
   rating: number;
+  // Plain mean of the user's visible reviews
+  averageRating: number;
   reviewCount: number;
 }
 
+// What every view can show about another user, even one whose profile is
+// private: swaps only include their participants' name, email and photo
+export type UserSummary = Pick<User, 'id' | 'name' | 'email'> & Partial<User>;
+
+export interface MatchExplanation {
+  // My wanted skills they offer
+  theyOffer: string[];
+  // My offered skills they want
+  theyWant: string[];
+  isReciprocal: boolean;
+  availabilityOverlap: number;
+  sameLocation: boolean;
+  reasons: string[];
+}
+
+export interface SkillMatch {
+  user: User;
+  score: number;
+  explanation: MatchExplanation;
+}
+
+// completion_pending: one side marked the swap done and the other has to confirm or dispute
+// expired: nobody answered the latest offer in time
+export type SwapStatus = 'pending' | 'accepted' | 'rejected' | 'completion_pending' | 'disputed' | 'completed' | 'cancelled' | 'expired';
+
+// cancelled: the swap was called off and any held ByteBucks went back to the learner
+export type DisputeResolution = 'completed' | 'reopened' | 'cancelled';
+
+export interface SwapDispute {
+  raisedBy: string | null;
+  reason: string | null;
+  raisedAt: Date | null;
+  resolution?: DisputeResolution | null;
+  resolutionNote?: string | null;
+}
+
+// One status change recorded by the swap state machine
+export interface SwapHistoryEntry {
+  action: string;
+  from: SwapStatus | null;
+  to: SwapStatus;
+  // Null when the system made the change
+  actor: { id: string; name: string; photo?: string } | null;
+  actorRole: 'sender' | 'recipient' | 'participant' | 'responder' | 'counterparty' | 'admin' | 'system';
+  reason: string | null;
+  at: Date;
+}
+
+// One version of the terms in a swap negotiation; version 1 is the original request
+export interface SwapOffer {
+  version: number;
+  proposedBy: string;
+  skillOffered: string | null;
+  skillWanted: string;
+  skillOfferedLevel?: SkillLevel | null;
+  skillWantedLevel?: SkillLevel | null;
+  hours: number;
+  message: string;
+  createdAt: Date;
+}
+
+// 'credits' swaps pay ByteBucks for skillWanted instead of teaching skillOffered
+export type PaymentType = 'swap' | 'credits';
+
 export interface SwapRequest {
   id: string;
   fromUserId: string;
   toUserId: string;
   skillOffered: string;
   skillWanted: string;
+  // Levels the sender teaches skillOffered at and the recipient teaches skillWanted at
+  skillOfferedLevel?: SkillLevel | null;
+  skillWantedLevel?: SkillLevel | null;
+  paymentType?: PaymentType;
+  // Hours taught by each side, also the ByteBucks earned or paid
+  hours?: number;
   message: string;
-  status: 'pending' | 'accepted' | 'rejected' | 'completed' | 'cancelled';
+  status: SwapStatus;
+  // Participant who has to accept, reject or counter the latest offer
+  awaitingResponseFrom?: string | null;
+  offers?: SwapOffer[];
+  // When a pending request expires unanswered
+  expiresAt?: Date | null;
   createdAt: Date;
   updatedAt: Date;
   completedAt?: Date;
-  feedback?: {
-    fromUserRating?: number;
-    fromUserComment?: string;
-    toUserRating?: number;
-    toUserComment?: string;
+  // Set once one side marks the swap completed
+  completion?: {
+    requestedBy: string | null;
+    requestedAt: Date | null;
+    autoConfirmed?: boolean;
   };
+  dispute?: SwapDispute;
 }
 
-export interface Feedback {
+export interface ChatMessage {
   id: string;
   swapRequestId: string;
-  fromUserId: string;
-  toUserId: string;
+  senderId: string;
+  senderName?: string;
+  recipientId: string;
+  body: string;
+  createdAt: Date;
+  readAt?: Date;
+}
+
+export interface Session {
+  id: string;
+  swapRequestId: string;
+  proposedBy: string;
+  title: string;
+  startTime: Date;
+  endTime: Date;
+  notes?: string;
+  status: 'proposed' | 'confirmed' | 'declined' | 'cancelled';
+  rescheduleCount: number;
+}
+
+export interface GroupSwapParticipant {
+  userId: string;
+  name: string;
+  photo?: string;
+  // Skill this participant teaches the next one in the ring
+  skillTaught: string;
+  response: 'pending' | 'accepted' | 'declined';
+}
+
+// Participants are in ring order: each teaches the next, the last teaches the first
+export interface GroupSwap {
+  id: string;
+  participants: GroupSwapParticipant[];
+  proposedBy: string;
+  status: 'proposed' | 'active' | 'declined' | 'cancelled';
+  createdAt: Date;
+}
+
+export interface CreditTransaction {
+  id: string;
+  type: 'swap_earning' | 'swap_hold' | 'swap_payout' | 'swap_refund';
+  // Positive when credits were added to the user's balance
+  amount: number;
+  memo: string | null;
+  swapRequestId?: string;
+  createdAt: Date;
+}
+
+export type ReviewDimension = 'knowledge' | 'communication' | 'punctuality';
+
+// One participant's review of the other after a completed swap
+export interface Review {
+  id: string;
+  swapRequestId: string;
+  reviewer: {
+    id: string;
+    name: string;
+    photo?: string;
+  };
+  revieweeId: string;
+  scores: Record<ReviewDimension, number>;
+  // Average of the scores
   rating: number;
-  comment: string;
+  comment?: string;
+  reply?: {
+    body: string;
+    repliedAt: Date;
+  };
+  isHidden: boolean;
   createdAt: Date;
 }
 
+// Where a swap's reviews stand for the current user. Reviews are sealed until
+// both participants have reviewed or the review window closes.
+export type ReviewStatus = 'open' | 'waiting_for_partner' | 'revealed' | 'closed';
+
+// A swap whose reviews are still sealed, from the current user's side
+export interface PendingReview {
+  swapRequestId: string;
+  status: 'waiting_for_partner' | 'awaiting_your_review';
+  revealAt: Date;
+}
+
+// Averages over a user's visible reviews; dimensions are null without reviews
+export interface ReviewSummary {
+  rating: number;
+  reviewCount: number;
+  dimensions: Record<ReviewDimension, number | null>;
+}
+
+// What can be reported to the admins
+export type ReportTargetType = 'user' | 'swap' | 'review' | 'message';
+
+export type ReportCategory = 'spam' | 'harassment' | 'inappropriate' | 'scam' | 'no_show' | 'other';
+
+export type ReportStatus = 'open' | 'in_review' | 'resolved' | 'dismissed';
+
+// Moderation actions an admin can take from a report
+export type ReportAction = 'ban_user' | 'hide_review';
+
+// Why an account was banned, as shown to its owner when they try to log in
+export interface AccountBan {
+  reason: string | null;
+  bannedBy: string | null;
+  bannedAt: Date | null;
+}
+
+export type NotificationType =
+  | 'swap_request'
+  | 'swap_accepted'
+  | 'swap_rejected'
+  | 'swap_countered'
+  | 'swap_completed'
+  | 'admin_message'
+  | 'feedback_received'
+  | 'swap_completion_requested'
+  | 'swap_disputed'
+  | 'swap_dispute_resolved'
+  | 'swap_expiring'
+  | 'swap_expired'
+  | 'swap_idle'
+  | 'session_proposed'
+  | 'session_confirmed'
+  | 'session_declined'
+  | 'session_cancelled'
+  | 'group_swap_proposed'
+  | 'group_swap_active'
+  | 'group_swap_declined'
+  | 'group_swap_cancelled';
+
+// 'daily' batches emailed notifications into one digest per day
+export type EmailFrequency = 'instant' | 'daily';
+
+export interface EmailPreferences {
+  frequency: EmailFrequency;
+  // Notification types not emailed
+  disabledTypes: NotificationType[];
+}
+
 export interface Notification {
   id: string;
   userId: string;
-  type: 'swap_request' | 'swap_accepted' | 'swap_rejected' | 'swap_completed' | 'admin_message';
+  type: NotificationType;
   title: string;
   message: string;
   isRead: boolean;
   createdAt: Date;
   relatedId?: string;
+  relatedModel?: 'SwapRequest' | 'User' | 'AdminMessage' | 'Session' | 'GroupSwap';
+  metadata?: Record<string, unknown>;
 }
 
 export interface AdminMessage {
   id: string;
   title: string;
   message: string;
-  type: 'info' | 'warning' | 'announcement';
+  type: 'info' | 'warning' | 'announcement' | 'maintenance';
   createdAt: Date;
   isActive: boolean;
 }
\ No newline at end of file
@@ -0,0 +1,140 @@
+import { Availability, AvailabilitySlot } from '../types';
+
+export const DAY_LABELS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+// Suggestions for the timezone picker; any IANA name is accepted
+export const COMMON_TIMEZONES = [
+  'UTC',
+  'America/Los_Angeles',
+  'America/Denver',
+  'America/Chicago',
+  'America/New_York',
+  'America/Sao_Paulo',
+  'Europe/London',
+  'Europe/Berlin',
+  'Europe/Paris',
+  'Africa/Lagos',
+  'Asia/Dubai',
+  'Asia/Kolkata',
+  'Asia/Singapore',
+  'Asia/Tokyo',
+  'Australia/Sydney',
+  'Pacific/Auckland'
+];
+
+const MINUTES_PER_DAY = 24 * 60;
+const MINUTES_PER_WEEK = 7 * MINUTES_PER_DAY;
+
+export const getBrowserTimeZone = () => Intl.DateTimeFormat().resolvedOptions().timeZone || 'UTC';
+
+export const isValidTimeZone = (timeZone: string) => {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+const toMinutes = (time: string) => {
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours * 60 + minutes;
+};
+
+export const isValidSlot = (slot: AvailabilitySlot) =>
+  Boolean(slot.start && slot.end) && toMinutes(slot.end) > toMinutes(slot.start);
+
+// Human readable summary, grouping days that share a time range,
+// e.g. "Tue, Thu 18:00–21:00 (Europe/Berlin)"
+export const formatAvailability = (availability?: Availability) => {
+  if (!availability || availability.slots.length === 0) return 'Not specified';
+
+  const byRange = new Map<string, number[]>();
+  [...availability.slots]
+    .sort((a, b) => a.day - b.day || toMinutes(a.start) - toMinutes(b.start))
+    .forEach((slot) => {
+      const range = `${slot.start}–${slot.end}`;
+      byRange.set(range, [...(byRange.get(range) || []), slot.day]);
+    });
+
+  const ranges = Array.from(byRange.entries())
+    .map(([range, days]) => `${days.map(day => DAY_LABELS[day]).join(', ')} ${range}`);
+
+  return `${ranges.join('; ')} (${availability.timezone})`;
+};
+
+// Offset of a timezone from UTC in minutes at the given instant
+const getOffsetMinutes = (timeZone: string, date: Date) => {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    hourCycle: 'h23',
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+    second: '2-digit'
+  }).formatToParts(date);
+  const values = Object.fromEntries(parts.map(part => [part.type, Number(part.value)]));
+  const asUtc = Date.UTC(values.year, values.month - 1, values.day, values.hour, values.minute, values.second);
+
+  return Math.round((asUtc - date.getTime()) / 60000);
+};
+
+// Weekly slots as merged [start, end) minutes on a UTC week, mirroring the backend
+const toUtcIntervals = (availability: Availability, referenceDate: Date) => {
+  const offset = isValidTimeZone(availability.timezone) ? getOffsetMinutes(availability.timezone, referenceDate) : 0;
+  const intervals: [number, number][] = [];
+
+  availability.slots.forEach((slot) => {
+    const start = slot.day * MINUTES_PER_DAY + toMinutes(slot.start) - offset;
+    const length = toMinutes(slot.end) - toMinutes(slot.start);
+    const wrappedStart = ((start % MINUTES_PER_WEEK) + MINUTES_PER_WEEK) % MINUTES_PER_WEEK;
+
+    if (wrappedStart + length > MINUTES_PER_WEEK) {
+      intervals.push([wrappedStart, MINUTES_PER_WEEK], [0, wrappedStart + length - MINUTES_PER_WEEK]);
+    } else {
+      intervals.push([wrappedStart, wrappedStart + length]);
+    }
+  });
+
+  intervals.sort((a, b) => a[0] - b[0]);
+  return intervals.reduce<[number, number][]>((merged, interval) => {
+    const last = merged[merged.length - 1];
+    if (last && interval[0] <= last[1]) {
+      last[1] = Math.max(last[1], interval[1]);
+    } else {
+      merged.push([interval[0], interval[1]]);
+    }
+    return merged;
+  }, []);
+};
+
+// Minutes per week two users are both free
+export const getOverlapMinutes = (a?: Availability, b?: Availability, referenceDate = new Date()) => {
+  if (!a || !b) return 0;
+
+  const first = toUtcIntervals(a, referenceDate);
+  const second = toUtcIntervals(b, referenceDate);
+  let total = 0;
+  let i = 0;
+  let j = 0;
+
+  while (i < first.length && j < second.length) {
+    const start = Math.max(first[i][0], second[j][0]);
+    const end = Math.min(first[i][1], second[j][1]);
+    if (end > start) total += end - start;
+
+    if (first[i][1] < second[j][1]) i++;
+    else j++;
+  }
+
+  return total;
+};
+
+export const formatOverlap = (minutes: number) => {
+  const hours = Math.floor(minutes / 60);
+  const rest = minutes % 60;
+  if (hours === 0) return `${rest}m`;
+  return rest === 0 ? `${hours}h` : `${hours}h ${rest}m`;
+};
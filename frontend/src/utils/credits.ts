@@ -0,0 +1,20 @@
+import { CreditTransaction, SwapRequest } from '../types';
+
+// e.g. "1 ByteBuck", "2.5 ByteBucks"
+export const formatCredits = (amount: number) => `${amount} ByteBuck${amount === 1 ? '' : 's'}`;
+
+// "Python ↔ Go" for a regular swap, "Go for 2 ByteBucks" when paying with credits
+export const formatSwapSkills = (request: Pick<SwapRequest, 'skillOffered' | 'skillWanted' | 'paymentType' | 'hours'>) =>
+  request.paymentType === 'credits'
+    ? `${request.skillWanted} for ${formatCredits(request.hours ?? 1)}`
+    : `${request.skillOffered} ↔ ${request.skillWanted}`;
+
+export const getTransactionLabel = (type: CreditTransaction['type']) => {
+  switch (type) {
+    case 'swap_earning': return 'Earned from a swap';
+    case 'swap_hold': return 'Held for a swap';
+    case 'swap_payout': return 'Paid for teaching';
+    case 'swap_refund': return 'Refunded from a swap';
+    default: return 'Transaction';
+  }
+};
@@ -0,0 +1,24 @@
+import { User } from '../types';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Online right now, or last seen within `days`
+export const isActiveWithin = (user: Pick<User, 'isOnline' | 'lastActive'>, days: number, now = Date.now()) =>
+  Boolean(user.isOnline) ||
+  (user.lastActive !== undefined && now - new Date(user.lastActive).getTime() <= days * DAY_MS);
+
+// "Online now", "Active 5 minutes ago", "Active 3 days ago"
+export const formatLastActive = (user: Pick<User, 'isOnline' | 'lastActive'>, now = Date.now()) => {
+  if (user.isOnline) return 'Online now';
+  if (!user.lastActive) return null;
+
+  const minutes = Math.max(0, Math.floor((now - new Date(user.lastActive).getTime()) / 60000));
+  if (minutes < 1) return 'Active just now';
+  if (minutes < 60) return `Active ${minutes} minute${minutes === 1 ? '' : 's'} ago`;
+
+  const hours = Math.floor(minutes / 60);
+  if (hours < 24) return `Active ${hours} hour${hours === 1 ? '' : 's'} ago`;
+
+  const days = Math.floor(hours / 24);
+  return `Active ${days} day${days === 1 ? '' : 's'} ago`;
+};
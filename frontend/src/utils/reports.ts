@@ -0,0 +1,26 @@
+import { ReportCategory, ReportStatus, ReportTargetType } from '../types';
+
+export const REPORT_CATEGORIES: ReportCategory[] = ['spam', 'harassment', 'inappropriate', 'scam', 'no_show', 'other'];
+
+export const CATEGORY_LABELS: Record<ReportCategory, string> = {
+  spam: 'Spam',
+  harassment: 'Harassment',
+  inappropriate: 'Inappropriate content',
+  scam: 'Scam or fraud',
+  no_show: "Didn't show up",
+  other: 'Something else'
+};
+
+export const REPORT_STATUS_LABELS: Record<ReportStatus, string> = {
+  open: 'Open',
+  in_review: 'In review',
+  resolved: 'Resolved',
+  dismissed: 'Dismissed'
+};
+
+export const TARGET_LABELS: Record<ReportTargetType, string> = {
+  user: 'Profile',
+  swap: 'Swap',
+  review: 'Review',
+  message: 'Chat message'
+};
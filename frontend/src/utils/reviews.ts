@@ -0,0 +1,32 @@
+import { Review, ReviewDimension } from '../types';
+import { ApiReview } from '../services/api';
+
+export const REVIEW_DIMENSIONS: ReviewDimension[] = ['knowledge', 'communication', 'punctuality'];
+
+export const DIMENSION_LABELS: Record<ReviewDimension, string> = {
+  knowledge: 'Knowledge',
+  communication: 'Communication',
+  punctuality: 'Punctuality'
+};
+
+export const mapReview = (review: ApiReview): Review => ({
+  id: review._id,
+  swapRequestId: review.swapRequestId,
+  reviewer: {
+    id: review.reviewerId._id,
+    name: review.reviewerId.name,
+    photo: review.reviewerId.photo ?? undefined
+  },
+  revieweeId: review.revieweeId,
+  scores: review.scores,
+  rating: review.rating,
+  comment: review.comment ?? undefined,
+  reply: review.reply?.body && review.reply.repliedAt
+    ? { body: review.reply.body, repliedAt: new Date(review.reply.repliedAt) }
+    : undefined,
+  isHidden: review.isHidden,
+  createdAt: new Date(review.createdAt)
+});
+
+// e.g. "4.3/5"
+export const formatRating = (rating: number) => `${Number.isInteger(rating) ? rating : rating.toFixed(1)}/5`;
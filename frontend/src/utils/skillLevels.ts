@@ -0,0 +1,35 @@
+import { OfferedSkill, SkillLevel, User, WantedSkill } from '../types';
+
+export const SKILL_LEVELS: SkillLevel[] = ['beginner', 'intermediate', 'advanced', 'expert'];
+
+export const MAX_PORTFOLIO_LINKS = 5;
+
+export const formatLevel = (level: SkillLevel) => level.charAt(0).toUpperCase() + level.slice(1);
+
+export const getLevelRank = (level: SkillLevel | null | undefined) => (level ? SKILL_LEVELS.indexOf(level) + 1 : 0);
+
+// Combine the skill names with their parallel detail arrays
+export const getOfferedSkills = (user: User): OfferedSkill[] =>
+  user.skillsOffered.map((name, index) => ({
+    name,
+    level: user.offeredSkillDetails?.[index]?.level ?? null,
+    yearsExperience: user.offeredSkillDetails?.[index]?.yearsExperience ?? null,
+    description: user.offeredSkillDetails?.[index]?.description ?? null,
+    portfolioLinks: user.offeredSkillDetails?.[index]?.portfolioLinks ?? []
+  }));
+
+export const getWantedSkills = (user: User): WantedSkill[] =>
+  user.skillsWanted.map((name, index) => ({
+    name,
+    targetLevel: user.wantedSkillDetails?.[index]?.targetLevel ?? null
+  }));
+
+// Short label for a skill chip, e.g. "Python · Advanced · 5 yrs"
+export const formatOfferedSkill = (skill: OfferedSkill) => [
+  skill.name,
+  skill.level && formatLevel(skill.level),
+  skill.yearsExperience !== null && `${skill.yearsExperience} yrs`
+].filter(Boolean).join(' · ');
+
+export const formatWantedSkill = (skill: WantedSkill) =>
+  skill.targetLevel ? `${skill.name} → ${formatLevel(skill.targetLevel)}` : skill.name;